@@ -44,6 +44,21 @@ const envSchema = z.object({
   UPSTASH_REDIS_URL: z.string().url().optional(),
   ANALYSIS_SERVICE_URL: z.string().url().optional(),
   FRONTEND_URL: z.string().url().optional(),
+  // Baseline anomaly detection: sigmas past the rolling mean before a span is flagged
+  ANOMALY_SIGMA_THRESHOLD: z
+    .string()
+    .default("3")
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().positive()),
+  // Minimum samples in a baseline before it is used for anomaly detection
+  ANOMALY_MIN_SAMPLES: z
+    .string()
+    .default("30")
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().nonnegative()),
+  // Alert email delivery (Resend); email channels are skipped when unset
+  RESEND_API_KEY: z.string().optional(),
+  ALERT_EMAIL_FROM: z.string().default("Observa Alerts <alerts@observa.ai>"),
 });
 
 export type Env = z.infer<typeof envSchema>;
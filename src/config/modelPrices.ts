@@ -0,0 +1,106 @@
+/**
+ * Default model pricing catalog
+ *
+ * Seeds the global `model_prices` table and serves as the fallback catalog
+ * when Postgres is unavailable. Prices are USD per 1K tokens (list prices);
+ * tenants override them with negotiated rates via /api/v1/model-prices.
+ *
+ * match_pattern is a case-insensitive regular expression matched against the
+ * full model name (optionally provider-prefixed, e.g. "openai/gpt-4o"). It must
+ * use syntax valid in both JavaScript and Postgres (`~*`).
+ */
+
+export interface DefaultModelPrice {
+  model_name: string;
+  provider: string;
+  match_pattern: string;
+  input_price_per_1k: number;
+  output_price_per_1k: number;
+  cached_input_price_per_1k: number | null;
+}
+
+// Optional "provider/" prefix and snapshot suffix (-2024-08-06, -20241022, -0613, -latest, -001)
+const prefix = "^([a-z0-9_.-]+/)?";
+const snapshot = "(-[0-9]{4}(-?[0-9]{2}-?[0-9]{2})?|-latest|-[0-9]{3})?$";
+
+/**
+ * Default match pattern for a model name: the name itself (regex-escaped or a
+ * given sub-pattern), with optional provider prefix and snapshot suffix
+ */
+export function modelMatchPattern(
+  modelName: string,
+  pattern: string = modelName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+): string {
+  return `${prefix}${pattern}${snapshot}`;
+}
+
+function price(
+  model_name: string,
+  provider: string,
+  input: number,
+  output: number,
+  cachedInput: number | null = null,
+  pattern?: string,
+): DefaultModelPrice {
+  return {
+    model_name,
+    provider,
+    match_pattern: modelMatchPattern(model_name, pattern),
+    input_price_per_1k: input,
+    output_price_per_1k: output,
+    cached_input_price_per_1k: cachedInput,
+  };
+}
+
+export const DEFAULT_MODEL_PRICES: DefaultModelPrice[] = [
+  // OpenAI
+  price("gpt-5", "openai", 0.00125, 0.01, 0.000125),
+  price("gpt-5-mini", "openai", 0.00025, 0.002, 0.000025),
+  price("gpt-5-nano", "openai", 0.00005, 0.0004, 0.000005),
+  price("gpt-4.1", "openai", 0.002, 0.008, 0.0005),
+  price("gpt-4.1-mini", "openai", 0.0004, 0.0016, 0.0001),
+  price("gpt-4.1-nano", "openai", 0.0001, 0.0004, 0.000025),
+  price("gpt-4o", "openai", 0.0025, 0.01, 0.00125, "(chatgpt-)?gpt-4o"),
+  price("gpt-4o-mini", "openai", 0.00015, 0.0006, 0.000075),
+  price("gpt-4-turbo", "openai", 0.01, 0.03, null, "gpt-4-turbo(-preview)?"),
+  price("gpt-4", "openai", 0.03, 0.06),
+  price("gpt-3.5-turbo", "openai", 0.0005, 0.0015, null, "gpt-3\\.5(-turbo)?"),
+  price("o1", "openai", 0.015, 0.06, 0.0075),
+  price("o1-mini", "openai", 0.0011, 0.0044, 0.00055),
+  price("o3", "openai", 0.002, 0.008, 0.0005),
+  price("o3-mini", "openai", 0.0011, 0.0044, 0.00055),
+  price("o4-mini", "openai", 0.0011, 0.0044, 0.000275),
+  price("text-embedding-3-small", "openai", 0.00002, 0),
+  price("text-embedding-3-large", "openai", 0.00013, 0),
+  price("text-embedding-ada-002", "openai", 0.0001, 0),
+
+  // Anthropic
+  price("claude-opus-4", "anthropic", 0.015, 0.075, 0.0015, "claude-(opus-4(-[01])?|4-opus)"),
+  price("claude-opus-4-5", "anthropic", 0.005, 0.025, 0.0005),
+  price("claude-sonnet-4", "anthropic", 0.003, 0.015, 0.0003, "claude-(sonnet-4(-5)?|4-sonnet)"),
+  price("claude-haiku-4-5", "anthropic", 0.001, 0.005, 0.0001),
+  price("claude-3-7-sonnet", "anthropic", 0.003, 0.015, 0.0003),
+  price("claude-3-5-sonnet", "anthropic", 0.003, 0.015, 0.0003),
+  price("claude-3-5-haiku", "anthropic", 0.0008, 0.004, 0.00008),
+  price("claude-3-opus", "anthropic", 0.015, 0.075, 0.0015),
+  price("claude-3-sonnet", "anthropic", 0.003, 0.015),
+  price("claude-3-haiku", "anthropic", 0.00025, 0.00125, 0.00003),
+
+  // Google
+  price("gemini-2.5-pro", "google", 0.00125, 0.01, 0.00031),
+  price("gemini-2.5-flash", "google", 0.0003, 0.0025, 0.000075),
+  price("gemini-2.5-flash-lite", "google", 0.0001, 0.0004, 0.000025),
+  price("gemini-2.0-flash", "google", 0.0001, 0.0004, 0.000025),
+  price("gemini-2.0-flash-lite", "google", 0.000075, 0.0003),
+  price("gemini-1.5-pro", "google", 0.00125, 0.005),
+  price("gemini-1.5-flash", "google", 0.000075, 0.0003),
+  price("text-embedding-004", "google", 0.00001, 0),
+
+  // Mistral
+  price("mistral-large", "mistral", 0.002, 0.006),
+  price("mistral-medium", "mistral", 0.0004, 0.002),
+  price("mistral-small", "mistral", 0.0001, 0.0003),
+  price("codestral", "mistral", 0.0003, 0.0009),
+  price("open-mistral-nemo", "mistral", 0.00015, 0.00015, null, "(open-)?mistral-nemo"),
+  price("mistral-embed", "mistral", 0.0001, 0),
+];
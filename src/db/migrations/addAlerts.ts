@@ -0,0 +1,93 @@
+/**
+ * Migration to add alerting tables (notification channels, alert rules, alert history)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddAlerts(): Promise<void> {
+  try {
+    console.log("🔄 Creating alerting tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS alert_channels (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('webhook', 'slack', 'email')),
+        config JSONB NOT NULL DEFAULT '{}',
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        rule_type VARCHAR(30) NOT NULL
+          CHECK (rule_type IN ('signal_count', 'error_rate', 'metric_threshold')),
+        signal_name VARCHAR(100),
+        signal_severity VARCHAR(10),
+        metric VARCHAR(50),
+        operator VARCHAR(10) NOT NULL DEFAULT 'gt',
+        threshold DOUBLE PRECISION NOT NULL,
+        window_minutes INTEGER NOT NULL DEFAULT 5,
+        cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+        channel_ids UUID[] NOT NULL DEFAULT '{}',
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        state VARCHAR(10) NOT NULL DEFAULT 'ok' CHECK (state IN ('ok', 'firing')),
+        last_value DOUBLE PRECISION,
+        last_evaluated_at TIMESTAMP,
+        last_fired_at TIMESTAMP,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS alert_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        rule_id UUID NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+        status VARCHAR(10) NOT NULL CHECK (status IN ('fired', 'resolved')),
+        value DOUBLE PRECISION,
+        threshold DOUBLE PRECISION,
+        message TEXT,
+        window_start TIMESTAMP,
+        window_end TIMESTAMP,
+        deliveries JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_alert_rules_tenant
+      ON alert_rules(tenant_id, enabled)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_alert_channels_tenant
+      ON alert_channels(tenant_id)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_alert_events_rule
+      ON alert_events(rule_id, created_at DESC)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_alert_events_tenant
+      ON alert_events(tenant_id, created_at DESC)
+    `);
+
+    console.log("✅ Alerts migration completed successfully");
+  } catch (error) {
+    console.error("❌ Alerts migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
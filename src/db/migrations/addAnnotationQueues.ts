@@ -0,0 +1,63 @@
+/**
+ * Migration to add annotation queue tables (review queues of traces assigned to users)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddAnnotationQueues(): Promise<void> {
+  try {
+    console.log("🔄 Creating annotation queue tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS annotation_queues (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        filter JSONB,
+        score_config_ids UUID[] NOT NULL DEFAULT '{}',
+        last_populated_at TIMESTAMP,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(tenant_id, name)
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS annotation_queue_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        queue_id UUID NOT NULL REFERENCES annotation_queues(id) ON DELETE CASCADE,
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        trace_id VARCHAR(255) NOT NULL,
+        source VARCHAR(20) NOT NULL DEFAULT 'manual'
+          CHECK (source IN ('manual', 'filter')),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'in_progress', 'completed', 'skipped')),
+        assigned_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        notes TEXT,
+        started_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        completed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(queue_id, trace_id)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_annotation_queue_items_status
+      ON annotation_queue_items(queue_id, status, created_at)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_annotation_queue_items_assignee
+      ON annotation_queue_items(assigned_user_id, status)
+    `);
+
+    console.log("✅ Annotation queues migration completed successfully");
+  } catch (error) {
+    console.error("❌ Annotation queues migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
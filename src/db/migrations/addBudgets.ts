@@ -0,0 +1,59 @@
+/**
+ * Migration to add project budgets and per-period spend tracking
+ */
+import { query } from "../client.js";
+
+export async function migrateAddBudgets(): Promise<void> {
+  try {
+    console.log("🔄 Creating budget tables...");
+
+    // scope_value is the route or user_id for route/user-scoped budgets
+    await query(`
+      CREATE TABLE IF NOT EXISTS project_budgets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        period VARCHAR(20) NOT NULL DEFAULT 'monthly'
+          CHECK (period IN ('monthly', 'daily')),
+        amount_usd NUMERIC(18, 6) NOT NULL CHECK (amount_usd > 0),
+        scope_type VARCHAR(20) NOT NULL DEFAULT 'project'
+          CHECK (scope_type IN ('project', 'route', 'user')),
+        scope_value VARCHAR(255),
+        warning_thresholds INTEGER[] NOT NULL DEFAULT '{80}',
+        hard_limit BOOLEAN NOT NULL DEFAULT false,
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(project_id, name),
+        CHECK ((scope_type = 'project') = (scope_value IS NULL))
+      )
+    `);
+
+    // One row per budget and period; last_threshold_pct is the highest
+    // threshold already signalled (100 = budget_exceeded sent)
+    await query(`
+      CREATE TABLE IF NOT EXISTS budget_spend (
+        budget_id UUID NOT NULL REFERENCES project_budgets(id) ON DELETE CASCADE,
+        period_start TIMESTAMP NOT NULL,
+        spend_usd NUMERIC(18, 8) NOT NULL DEFAULT 0,
+        event_count INTEGER NOT NULL DEFAULT 0,
+        last_threshold_pct INTEGER NOT NULL DEFAULT 0,
+        exceeded_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (budget_id, period_start)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_project_budgets_project
+      ON project_budgets(project_id, enabled)
+    `);
+
+    console.log("✅ Budgets migration completed successfully");
+  } catch (error) {
+    console.error("❌ Budgets migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
@@ -65,6 +65,30 @@ export async function migrateAddDatasets(): Promise<void> {
       ON dataset_items(tenant_id)
     `);
 
+    // A trace is in a dataset at most once (DatasetService.addTrace). Existing
+    // duplicates are reported for manual cleanup, never deleted here.
+    const duplicates = await query<{ dataset_id: string; trace_id: string; count: string }>(`
+      SELECT dataset_id, trace_id, COUNT(*) AS count
+      FROM dataset_items
+      GROUP BY dataset_id, trace_id
+      HAVING COUNT(*) > 1
+    `);
+    if (duplicates.length > 0) {
+      console.warn(
+        `⚠️  dataset_items has ${duplicates.length} duplicated (dataset_id, trace_id) pair(s); ` +
+          "skipping idx_dataset_items_dataset_trace until they are resolved:",
+        duplicates
+          .slice(0, 20)
+          .map((d) => `${d.dataset_id}/${d.trace_id} (${d.count})`)
+          .join(", "),
+      );
+    } else {
+      await query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_dataset_items_dataset_trace
+        ON dataset_items(dataset_id, trace_id)
+      `);
+    }
+
     console.log("✅ Datasets migration completed successfully");
   } catch (error) {
     console.error("❌ Datasets migration failed:", error);
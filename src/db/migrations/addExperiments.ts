@@ -0,0 +1,76 @@
+/**
+ * Migration to add experiments and experiment_results tables
+ * (dataset runs against an HTTP target, scored per item)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddExperiments(): Promise<void> {
+  try {
+    console.log("🔄 Creating experiments and experiment_results tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS experiments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        dataset_id UUID NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        target_url TEXT NOT NULL,
+        target_headers JSONB NOT NULL DEFAULT '{}',
+        scorers JSONB NOT NULL DEFAULT '[]',
+        metadata JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+        summary JSONB,
+        error TEXT,
+        started_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS experiment_results (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+        dataset_item_id UUID NOT NULL REFERENCES dataset_items(id) ON DELETE CASCADE,
+        trace_id UUID NOT NULL,
+        status VARCHAR(10) NOT NULL CHECK (status IN ('success', 'error')),
+        output TEXT,
+        expected_output TEXT,
+        latency_ms INTEGER,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        cost DOUBLE PRECISION,
+        scores JSONB NOT NULL DEFAULT '[]',
+        passed BOOLEAN,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(experiment_id, dataset_item_id)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_experiments_tenant
+      ON experiments(tenant_id, created_at DESC)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_experiments_dataset
+      ON experiments(dataset_id, created_at DESC)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_experiment_results_experiment
+      ON experiment_results(experiment_id)
+    `);
+
+    console.log("✅ Experiments migration completed successfully");
+  } catch (error) {
+    console.error("❌ Experiments migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Migration to add issues tables (signals grouped by fingerprint with lifecycle state)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddIssues(): Promise<void> {
+  try {
+    console.log("🔄 Creating issues tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS issues (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        fingerprint VARCHAR(64) NOT NULL,
+        signal_name VARCHAR(100) NOT NULL,
+        signal_type VARCHAR(20),
+        severity VARCHAR(10) NOT NULL DEFAULT 'medium',
+        route VARCHAR(255),
+        model VARCHAR(255),
+        tool_name VARCHAR(255),
+        error_message TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'acknowledged', 'resolved', 'ignored', 'regressed')),
+        first_seen TIMESTAMP NOT NULL,
+        last_seen TIMESTAMP NOT NULL,
+        count BIGINT NOT NULL DEFAULT 0,
+        trace_count INTEGER NOT NULL DEFAULT 0,
+        user_count INTEGER NOT NULL DEFAULT 0,
+        last_trace_id VARCHAR(255),
+        last_span_id VARCHAR(255),
+        metadata_sample JSONB,
+        resolved_at TIMESTAMP,
+        regressed_at TIMESTAMP,
+        regression_count INTEGER NOT NULL DEFAULT 0,
+        status_changed_at TIMESTAMP,
+        status_changed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(tenant_id, project_id, fingerprint)
+      )
+    `);
+
+    // One row per (issue, trace) so affected trace/user counts stay distinct
+    await query(`
+      CREATE TABLE IF NOT EXISTS issue_traces (
+        issue_id UUID NOT NULL REFERENCES issues(id) ON DELETE CASCADE,
+        trace_id VARCHAR(255) NOT NULL,
+        user_id VARCHAR(255),
+        first_seen TIMESTAMP NOT NULL,
+        PRIMARY KEY (issue_id, trace_id)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_issues_tenant_status
+      ON issues(tenant_id, project_id, status, last_seen DESC)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_issue_traces_user
+      ON issue_traces(issue_id, user_id)
+    `);
+
+    console.log("✅ Issues migration completed successfully");
+  } catch (error) {
+    console.error("❌ Issues migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Migration to add metric_baselines table for rolling anomaly baselines
+ */
+import { query } from "../client.js";
+
+export async function migrateAddMetricBaselines(): Promise<void> {
+  try {
+    console.log("🔄 Creating metric_baselines table...");
+
+    // route/model use '' (not NULL) for "unset" so the unique key works
+    await query(`
+      CREATE TABLE IF NOT EXISTS metric_baselines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        route VARCHAR(255) NOT NULL DEFAULT '',
+        model VARCHAR(255) NOT NULL DEFAULT '',
+        metric VARCHAR(50) NOT NULL,
+        ewma_mean DOUBLE PRECISION NOT NULL DEFAULT 0,
+        ewma_stddev DOUBLE PRECISION NOT NULL DEFAULT 0,
+        ewma_sq DOUBLE PRECISION NOT NULL DEFAULT 0,
+        p95 DOUBLE PRECISION,
+        p99 DOUBLE PRECISION,
+        sample_count BIGINT NOT NULL DEFAULT 0,
+        bucket_count INTEGER NOT NULL DEFAULT 0,
+        window_start TIMESTAMP,
+        window_end TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(tenant_id, project_id, route, model, metric)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_metric_baselines_tenant
+      ON metric_baselines(tenant_id, project_id)
+    `);
+
+    console.log("✅ Metric baselines migration completed successfully");
+  } catch (error) {
+    console.error("❌ Metric baselines migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
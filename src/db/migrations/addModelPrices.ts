@@ -0,0 +1,66 @@
+/**
+ * Migration to add the model pricing catalog (global list prices + tenant overrides)
+ */
+import { query } from "../client.js";
+import { DEFAULT_MODEL_PRICES } from "../../config/modelPrices.js";
+
+export async function migrateAddModelPrices(): Promise<void> {
+  try {
+    console.log("🔄 Creating model_prices table...");
+
+    // tenant_id NULL = global catalog entry; set = tenant override
+    await query(`
+      CREATE TABLE IF NOT EXISTS model_prices (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+        model_name VARCHAR(255) NOT NULL,
+        provider VARCHAR(100),
+        match_pattern VARCHAR(500) NOT NULL,
+        input_price_per_1k NUMERIC(18, 10) NOT NULL,
+        output_price_per_1k NUMERIC(18, 10) NOT NULL,
+        cached_input_price_per_1k NUMERIC(18, 10),
+        effective_from TIMESTAMP NOT NULL DEFAULT '1970-01-01',
+        effective_to TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CHECK (effective_to IS NULL OR effective_to > effective_from)
+      )
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_model_prices_global
+      ON model_prices(model_name, effective_from)
+      WHERE tenant_id IS NULL
+    `);
+
+    await query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_model_prices_tenant
+      ON model_prices(tenant_id, model_name, effective_from)
+      WHERE tenant_id IS NOT NULL
+    `);
+
+    // Seed the global catalog; existing rows are left as they are
+    for (const price of DEFAULT_MODEL_PRICES) {
+      await query(
+        `INSERT INTO model_prices (
+           model_name, provider, match_pattern,
+           input_price_per_1k, output_price_per_1k, cached_input_price_per_1k
+         ) VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (model_name, effective_from) WHERE tenant_id IS NULL DO NOTHING`,
+        [
+          price.model_name,
+          price.provider,
+          price.match_pattern,
+          price.input_price_per_1k,
+          price.output_price_per_1k,
+          price.cached_input_price_per_1k,
+        ]
+      );
+    }
+
+    console.log("✅ model_prices migration completed successfully");
+  } catch (error) {
+    console.error("❌ model_prices migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
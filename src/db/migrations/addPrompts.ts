@@ -0,0 +1,70 @@
+/**
+ * Migration to add the prompt registry: templates, immutable versions and labels
+ */
+import { query } from "../client.js";
+
+export async function migrateAddPrompts(): Promise<void> {
+  try {
+    console.log("🔄 Creating prompt registry tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(project_id, name)
+      )
+    `);
+
+    // Versions are never updated; prompt holds a string (text) or a message array (chat)
+    await query(`
+      CREATE TABLE IF NOT EXISTS prompt_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        type VARCHAR(10) NOT NULL DEFAULT 'text' CHECK (type IN ('text', 'chat')),
+        prompt JSONB NOT NULL,
+        variables TEXT[] NOT NULL DEFAULT '{}',
+        model_config JSONB NOT NULL DEFAULT '{}',
+        commit_message TEXT,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(template_id, version)
+      )
+    `);
+
+    // A label points at exactly one version of its template
+    await query(`
+      CREATE TABLE IF NOT EXISTS prompt_labels (
+        template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+        label VARCHAR(64) NOT NULL,
+        version_id UUID NOT NULL REFERENCES prompt_versions(id) ON DELETE CASCADE,
+        updated_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        PRIMARY KEY (template_id, label)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_prompt_templates_project
+      ON prompt_templates(project_id, name)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_prompt_versions_template
+      ON prompt_versions(template_id, version DESC)
+    `);
+
+    console.log("✅ Prompts migration completed successfully");
+  } catch (error) {
+    console.error("❌ Prompts migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
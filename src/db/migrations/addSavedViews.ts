@@ -0,0 +1,39 @@
+/**
+ * Migration to add saved views (named filter sets for the trace list and issues)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddSavedViews(): Promise<void> {
+  try {
+    console.log("🔄 Creating saved_views table...");
+
+    // time_range is relative ("24h", "7d") and resolved when the view is applied
+    await query(`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        resource VARCHAR(20) NOT NULL CHECK (resource IN ('traces', 'issues')),
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        filters JSONB NOT NULL DEFAULT '{}',
+        time_range VARCHAR(20),
+        shared BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, resource, name)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_saved_views_tenant_resource
+      ON saved_views(tenant_id, resource, created_at DESC)
+    `);
+
+    console.log("✅ Saved views migration completed successfully");
+  } catch (error) {
+    console.error("❌ Saved views migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Migration to add annotation score tables (per-project score configs and human scores)
+ */
+import { query } from "../client.js";
+
+export async function migrateAddScores(): Promise<void> {
+  try {
+    console.log("🔄 Creating score tables...");
+
+    await query(`
+      CREATE TABLE IF NOT EXISTS score_configs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        data_type VARCHAR(20) NOT NULL
+          CHECK (data_type IN ('numeric', 'categorical', 'boolean')),
+        min_value DOUBLE PRECISION,
+        max_value DOUBLE PRECISION,
+        categories JSONB,
+        is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(project_id, name)
+      )
+    `);
+
+    // span_id is '' for trace-level scores so the unique key covers both levels
+    await query(`
+      CREATE TABLE IF NOT EXISTS scores (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        config_id UUID NOT NULL REFERENCES score_configs(id) ON DELETE CASCADE,
+        trace_id VARCHAR(255) NOT NULL,
+        span_id VARCHAR(255) NOT NULL DEFAULT '',
+        numeric_value DOUBLE PRECISION,
+        string_value VARCHAR(255),
+        comment TEXT,
+        author_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(config_id, trace_id, span_id, author_user_id)
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_scores_trace
+      ON scores(tenant_id, trace_id)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_scores_project_created
+      ON scores(tenant_id, project_id, created_at DESC)
+    `);
+
+    console.log("✅ Scores migration completed successfully");
+  } catch (error) {
+    console.error("❌ Scores migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
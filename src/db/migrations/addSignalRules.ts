@@ -0,0 +1,49 @@
+/**
+ * Migration to add signal_rules table for per-project Layer 2 signal thresholds
+ */
+import { query } from "../client.js";
+
+export async function migrateAddSignalRules(): Promise<void> {
+  try {
+    console.log("🔄 Creating signal_rules table...");
+
+    // NULL scope columns mean "any" (e.g. route NULL applies to every route)
+    await query(`
+      CREATE TABLE IF NOT EXISTS signal_rules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        signal_name VARCHAR(100) NOT NULL,
+        signal_type VARCHAR(20) NOT NULL DEFAULT 'threshold',
+        event_type VARCHAR(50) NOT NULL,
+        route VARCHAR(255),
+        model VARCHAR(255),
+        metric VARCHAR(100) NOT NULL,
+        operator VARCHAR(10) NOT NULL DEFAULT 'gt',
+        threshold DOUBLE PRECISION NOT NULL,
+        severity VARCHAR(10) NOT NULL DEFAULT 'medium',
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_signal_rules_tenant_project
+      ON signal_rules(tenant_id, project_id)
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_signal_rules_event_type
+      ON signal_rules(tenant_id, event_type)
+    `);
+
+    console.log("✅ Signal rules migration completed successfully");
+  } catch (error) {
+    console.error("❌ Signal rules migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
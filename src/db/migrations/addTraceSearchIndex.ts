@@ -0,0 +1,24 @@
+/**
+ * Migration to add a full-text search index over trace inputs/outputs
+ * The indexed expression must match TraceSearchService.POSTGRES_DOCUMENT.
+ */
+import { query } from "../client.js";
+
+export async function migrateAddTraceSearchIndex(): Promise<void> {
+  try {
+    console.log("🔄 Adding full-text search index to analysis_results...");
+
+    // 'simple' config: no stemming or stop words, so any word is searchable
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_analysis_results_search
+      ON analysis_results USING GIN (
+        to_tsvector('simple', left(COALESCE(query, ''), 100000) || ' ' || left(COALESCE(response, ''), 100000))
+      )
+    `);
+
+    console.log("✅ Trace search index migration completed successfully");
+  } catch (error) {
+    console.error("❌ Trace search index migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Migration to add public share links for individual traces
+ */
+import { query } from "../client.js";
+
+export async function migrateAddTraceShareLinks(): Promise<void> {
+  try {
+    console.log("🔄 Creating trace_share_links table...");
+
+    // Only the SHA-256 hash of the link token is stored
+    await query(`
+      CREATE TABLE IF NOT EXISTS trace_share_links (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        trace_id VARCHAR(255) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        redaction VARCHAR(20) NOT NULL CHECK (redaction IN ('full', 'hide_io', 'scrubbed')),
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        view_count INTEGER NOT NULL DEFAULT 0,
+        last_viewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_trace_share_links_trace
+      ON trace_share_links(tenant_id, trace_id, created_at DESC)
+    `);
+
+    console.log("✅ Trace share links migration completed successfully");
+  } catch (error) {
+    console.error("❌ Trace share links migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
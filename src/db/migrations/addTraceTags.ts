@@ -0,0 +1,26 @@
+/**
+ * Migration to add attribution tags to trace summaries
+ */
+import { query } from "../client.js";
+
+export async function migrateAddTraceTags(): Promise<void> {
+  try {
+    console.log("🔄 Adding tags to analysis_results...");
+
+    await query(`
+      ALTER TABLE analysis_results
+      ADD COLUMN IF NOT EXISTS tags JSONB
+    `);
+
+    // Containment filters (tags @> '{"customer":"acme"}') and key lookups
+    await query(`
+      CREATE INDEX IF NOT EXISTS idx_analysis_results_tags
+      ON analysis_results USING GIN (tags jsonb_path_ops)
+    `);
+
+    console.log("✅ Trace tags migration completed successfully");
+  } catch (error) {
+    console.error("❌ Trace tags migration failed:", error);
+    // Don't throw - allow the app to continue
+  }
+}
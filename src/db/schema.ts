@@ -399,6 +399,19 @@ export async function initializeSchema(): Promise<void> {
           err?.message || err
         );
       }
+      // Experiments reference datasets, so they run after the datasets migration
+      try {
+        const { migrateAddExperiments } = await import(
+          "./migrations/addExperiments.js"
+        );
+        await migrateAddExperiments();
+        console.log("✅ migrateAddExperiments completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddExperiments failed (non-fatal):",
+          err?.message || err
+        );
+      }
     })(),
     (async () => {
       try {
@@ -414,6 +427,182 @@ export async function initializeSchema(): Promise<void> {
         );
       }
     })(),
+    (async () => {
+      try {
+        const { migrateAddSignalRules } = await import(
+          "./migrations/addSignalRules.js"
+        );
+        await migrateAddSignalRules();
+        console.log("✅ migrateAddSignalRules completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddSignalRules failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddMetricBaselines } = await import(
+          "./migrations/addMetricBaselines.js"
+        );
+        await migrateAddMetricBaselines();
+        console.log("✅ migrateAddMetricBaselines completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddMetricBaselines failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddIssues } = await import("./migrations/addIssues.js");
+        await migrateAddIssues();
+        console.log("✅ migrateAddIssues completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddIssues failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddAlerts } = await import("./migrations/addAlerts.js");
+        await migrateAddAlerts();
+        console.log("✅ migrateAddAlerts completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddAlerts failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddScores } = await import("./migrations/addScores.js");
+        await migrateAddScores();
+        console.log("✅ migrateAddScores completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddScores failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddAnnotationQueues } = await import(
+          "./migrations/addAnnotationQueues.js"
+        );
+        await migrateAddAnnotationQueues();
+        console.log("✅ migrateAddAnnotationQueues completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddAnnotationQueues failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddModelPrices } = await import(
+          "./migrations/addModelPrices.js"
+        );
+        await migrateAddModelPrices();
+        console.log("✅ migrateAddModelPrices completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddModelPrices failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddBudgets } = await import(
+          "./migrations/addBudgets.js"
+        );
+        await migrateAddBudgets();
+        console.log("✅ migrateAddBudgets completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddBudgets failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddTraceTags } = await import(
+          "./migrations/addTraceTags.js"
+        );
+        await migrateAddTraceTags();
+        console.log("✅ migrateAddTraceTags completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddTraceTags failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddPrompts } = await import(
+          "./migrations/addPrompts.js"
+        );
+        await migrateAddPrompts();
+        console.log("✅ migrateAddPrompts completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddPrompts failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddTraceSearchIndex } = await import(
+          "./migrations/addTraceSearchIndex.js"
+        );
+        await migrateAddTraceSearchIndex();
+        console.log("✅ migrateAddTraceSearchIndex completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddTraceSearchIndex failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddSavedViews } = await import(
+          "./migrations/addSavedViews.js"
+        );
+        await migrateAddSavedViews();
+        console.log("✅ migrateAddSavedViews completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddSavedViews failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
+    (async () => {
+      try {
+        const { migrateAddTraceShareLinks } = await import(
+          "./migrations/addTraceShareLinks.js"
+        );
+        await migrateAddTraceShareLinks();
+        console.log("✅ migrateAddTraceShareLinks completed");
+      } catch (err: any) {
+        console.warn(
+          "⚠️ migrateAddTraceShareLinks failed (non-fatal):",
+          err?.message || err
+        );
+      }
+    })(),
   ]).catch((err) => {
     console.warn(
       "⚠️ Migration background task error (non-fatal):",
@@ -35,18 +35,32 @@ import authRouter from "./routes/auth.js";
 import analyticsRouter from "./routes/analytics.js";
 import conversationsRouter from "./routes/conversations.js";
 import eventsRouter from "./routes/events.js";
+import otlpRouter from "./routes/otlp.js";
 import sessionsRouter from "./routes/sessions.js";
 import analysisRouter from "./routes/analysis.js";
 import dashboardRouter from "./routes/dashboard.js";
 import issuesRouter from "./routes/issues.js";
 import costsRouter from "./routes/costs.js";
 import usersRouter from "./routes/users.js";
+import signalRulesRouter from "./routes/signalRules.js";
+import baselinesRouter from "./routes/baselines.js";
+import alertsRouter from "./routes/alerts.js";
+import datasetsRouter from "./routes/datasets.js";
+import experimentsRouter from "./routes/experiments.js";
+import scoresRouter from "./routes/scores.js";
+import annotationQueuesRouter from "./routes/annotationQueues.js";
+import modelPricesRouter from "./routes/modelPrices.js";
+import budgetsRouter from "./routes/budgets.js";
+import promptsRouter from "./routes/prompts.js";
+import viewsRouter from "./routes/views.js";
+import sharedTracesRouter from "./routes/sharedTraces.js";
 import healthRouter from "./routes/health.js";
 import swaggerUi from "swagger-ui-express";
 import { swaggerSpec } from "./swagger.js";
 import { initializeSchema } from "./db/schema.js";
 import { testConnection } from "./db/client.js";
 import { initializeAnalysisQueue } from "./services/analysisDispatcher.js";
+import { initializeExperimentQueue } from "./services/experimentDispatcher.js";
 import { requestIdMiddleware } from "./middleware/requestIdMiddleware.js";
 
 const app = express();
@@ -115,6 +129,8 @@ async function ensureSchemaInitialized(): Promise<void> {
 
       // Initialize analysis job queue (optional, graceful degradation if Redis not available)
       initializeAnalysisQueue();
+      // Experiment runs go to the worker when Redis is available
+      initializeExperimentQueue();
     } catch (error: any) {
       console.error(
         "❌ Database initialization error:",
@@ -227,7 +243,7 @@ const corsOptions = {
     }
   },
   credentials: true,
-  methods: ["GET", "POST", "DELETE"],
+  methods: ["GET", "POST", "PATCH", "DELETE"],
   allowedHeaders: ["Content-Type", "Authorization"],
   maxAge: 86400, // 24 hours
 };
@@ -252,9 +268,22 @@ app.get("/", (req, res) => {
       tenants: "/api/v1/tenants",
       traces: "/api/v1/traces",
       events: "/api/v1/events",
+      otlp: "/api/v1/otlp/v1/traces",
       conversations: "/api/v1/conversations",
       sessions: "/api/v1/sessions",
       users: "/api/v1/users",
+      signalRules: "/api/v1/signal-rules",
+      baselines: "/api/v1/baselines",
+      alerts: "/api/v1/alerts",
+      datasets: "/api/v1/datasets",
+      experiments: "/api/v1/experiments",
+      scores: "/api/v1/scores",
+      annotationQueues: "/api/v1/annotation-queues",
+      modelPrices: "/api/v1/model-prices",
+      budgets: "/api/v1/budgets",
+      prompts: "/api/v1/prompts",
+      views: "/api/v1/views",
+      shared: "/api/v1/shared",
       apiDocs: "/api-docs",
     },
     documentation: "https://github.com/NikushaDevashvili/observa-api",
@@ -368,6 +397,7 @@ app.use("/api/v1/tenants", tenantsRouter);
 app.use("/api/v1/api-keys", apiKeysRouter);
 app.use("/api/v1/traces", tracesRouter);
 app.use("/api/v1/events", eventsRouter);
+app.use("/api/v1/otlp", otlpRouter);
 app.use("/api/v1/metrics", metricsRouter);
 app.use("/api/v1/analytics", analyticsRouter);
 app.use("/api/v1/conversations", conversationsRouter);
@@ -377,6 +407,18 @@ app.use("/api/v1/dashboard", dashboardRouter);
 app.use("/api/v1/issues", issuesRouter);
 app.use("/api/v1/costs", costsRouter);
 app.use("/api/v1/users", usersRouter);
+app.use("/api/v1/signal-rules", signalRulesRouter);
+app.use("/api/v1/baselines", baselinesRouter);
+app.use("/api/v1/alerts", alertsRouter);
+app.use("/api/v1/datasets", datasetsRouter);
+app.use("/api/v1/experiments", experimentsRouter);
+app.use("/api/v1/scores", scoresRouter);
+app.use("/api/v1/annotation-queues", annotationQueuesRouter);
+app.use("/api/v1/model-prices", modelPricesRouter);
+app.use("/api/v1/budgets", budgetsRouter);
+app.use("/api/v1/prompts", promptsRouter);
+app.use("/api/v1/views", viewsRouter);
+app.use("/api/v1/shared", sharedTracesRouter);
 
 // API Documentation (Swagger) - must be after API routes for proper path resolution
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
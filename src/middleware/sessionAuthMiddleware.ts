@@ -0,0 +1,52 @@
+/**
+ * Session Auth Middleware
+ *
+ * Validates dashboard session tokens (Authorization: Bearer <session>)
+ * and attaches the authenticated user to the request as (req as any).user
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { AuthService } from "../services/authService.js";
+
+export async function sessionAuthMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    res.status(401).json({
+      error: {
+        code: "UNAUTHORIZED",
+        message: "Missing or invalid Authorization header",
+      },
+    });
+    return;
+  }
+
+  try {
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+
+    if (!user) {
+      res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Invalid or expired session",
+        },
+      });
+      return;
+    }
+
+    (req as any).user = user;
+    next();
+  } catch (error) {
+    console.error("[SessionAuth] Failed to validate session:", error);
+    res.status(500).json({
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to validate session",
+      },
+    });
+  }
+}
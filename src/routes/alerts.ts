@@ -0,0 +1,505 @@
+/**
+ * Alerts Routes
+ *
+ * Alert rules (signal counts, error rate, metric thresholds), notification
+ * channels (signed webhook, Slack, email) and fired/resolved history.
+ * Rules are evaluated by the worker; see AlertService.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { AlertService } from "../services/alertService.js";
+import { AlertChannelService } from "../services/alertChannelService.js";
+import { TenantService } from "../services/tenantService.js";
+import {
+  alertChannelSchema,
+  alertChannelUpdateSchema,
+  alertRuleSchema,
+  alertRuleUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Alerts API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+/**
+ * Check that the rule's project and channels belong to the tenant
+ * Returns an error message, or null when everything is in scope.
+ */
+async function checkRuleReferences(
+  tenantId: string,
+  projectId: string | null | undefined,
+  channelIds: string[] | undefined
+): Promise<string | null> {
+  if (projectId) {
+    const project = await TenantService.getProject(projectId);
+    if (!project || project.tenantId !== tenantId) {
+      return "Project not found";
+    }
+  }
+  if (channelIds && channelIds.length > 0) {
+    const channels = await AlertChannelService.getChannelsByIds(
+      tenantId,
+      channelIds
+    );
+    if (channels.length !== new Set(channelIds).size) {
+      return "Alert channel not found";
+    }
+  }
+  return null;
+}
+
+/**
+ * GET /api/v1/alerts/rules
+ *
+ * Query params:
+ * - projectId: rules for this project (plus tenant-wide rules)
+ */
+router.get(
+  "/rules",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const projectId = req.query.projectId as string | undefined;
+      const rules = await AlertService.listRules(user.tenantId, projectId);
+      return res
+        .status(200)
+        .json({ success: true, rules, count: rules.length });
+    } catch (error) {
+      return internalError(res, "listing rules", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/alerts/rules/:ruleId
+ */
+router.get(
+  "/rules/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      const rule = isValidUUIDv4(ruleId)
+        ? await AlertService.getRule(user.tenantId, ruleId)
+        : null;
+      if (!rule) {
+        return notFound(res, "Alert rule not found");
+      }
+      return res.status(200).json({ success: true, rule });
+    } catch (error) {
+      return internalError(res, "getting rule", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/alerts/rules
+ *
+ * Body: {
+ *   name: string;
+ *   ruleType: "signal_count" | "error_rate" | "metric_threshold";
+ *   threshold: number;
+ *   operator?: "gt" | "gte" | "lt" | "lte" | "eq";   // default "gt"
+ *   signalName?: string; signalSeverity?: "low" | "medium" | "high";  // signal_count
+ *   metric?: "latency_p95" | "total_cost" | ...;     // metric_threshold
+ *   windowMinutes?: number;    // default 5
+ *   cooldownMinutes?: number;  // default 60
+ *   channelIds?: string[];
+ *   projectId?: string; description?: string; enabled?: boolean;
+ * }
+ */
+router.post(
+  "/rules",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = alertRuleSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const input = bodyResult.data;
+      const referenceError = await checkRuleReferences(
+        user.tenantId,
+        input.projectId,
+        input.channelIds
+      );
+      if (referenceError) {
+        return notFound(res, referenceError);
+      }
+
+      const rule = await AlertService.createRule(user.tenantId, user.id, input);
+      return res.status(201).json({ success: true, rule });
+    } catch (error) {
+      return internalError(res, "creating rule", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/alerts/rules/:ruleId
+ * Update any subset of rule fields
+ */
+router.patch(
+  "/rules/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      if (!isValidUUIDv4(ruleId)) {
+        return notFound(res, "Alert rule not found");
+      }
+
+      const bodyResult = alertRuleUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const input = bodyResult.data;
+      const referenceError = await checkRuleReferences(
+        user.tenantId,
+        input.projectId,
+        input.channelIds
+      );
+      if (referenceError) {
+        return notFound(res, referenceError);
+      }
+
+      const rule = await AlertService.updateRule(user.tenantId, ruleId, input);
+      if (!rule) {
+        return notFound(res, "Alert rule not found");
+      }
+      return res.status(200).json({ success: true, rule });
+    } catch (error) {
+      return internalError(res, "updating rule", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/alerts/rules/:ruleId
+ */
+router.delete(
+  "/rules/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      const deleted =
+        isValidUUIDv4(ruleId) &&
+        (await AlertService.deleteRule(user.tenantId, ruleId));
+      if (!deleted) {
+        return notFound(res, "Alert rule not found");
+      }
+      return res.status(200).json({ success: true, id: ruleId });
+    } catch (error) {
+      return internalError(res, "deleting rule", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/alerts/rules/:ruleId/history
+ * Fired/resolved events for one rule
+ */
+router.get(
+  "/rules/:ruleId/history",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      const rule = isValidUUIDv4(ruleId)
+        ? await AlertService.getRule(user.tenantId, ruleId)
+        : null;
+      if (!rule) {
+        return notFound(res, "Alert rule not found");
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+      const history = await AlertService.getHistory(user.tenantId, {
+        ruleId,
+        limit,
+        offset,
+      });
+      return res.status(200).json({ success: true, rule, history });
+    } catch (error) {
+      return internalError(res, "fetching rule history", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/alerts/rules/:ruleId/evaluate
+ * Evaluate a rule now (fires/resolves and notifies exactly like the scheduled job)
+ */
+router.post(
+  "/rules/:ruleId/evaluate",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      const rule = isValidUUIDv4(ruleId)
+        ? await AlertService.getRule(user.tenantId, ruleId)
+        : null;
+      if (!rule) {
+        return notFound(res, "Alert rule not found");
+      }
+
+      const evaluation = await AlertService.evaluateRule(rule);
+      return res.status(200).json({ success: true, evaluation });
+    } catch (error) {
+      return internalError(res, "evaluating rule", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/alerts/history
+ * Fired/resolved events across all rules
+ */
+router.get(
+  "/history",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+      const history = await AlertService.getHistory(user.tenantId, {
+        limit,
+        offset,
+      });
+      return res.status(200).json({
+        success: true,
+        history,
+        pagination: { limit, offset, has_more: history.length === limit },
+      });
+    } catch (error) {
+      return internalError(res, "fetching history", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/alerts/channels
+ */
+router.get(
+  "/channels",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const channels = await AlertChannelService.listChannels(user.tenantId);
+      return res.status(200).json({
+        success: true,
+        channels: channels.map((c) => AlertChannelService.toPublic(c)),
+        count: channels.length,
+      });
+    } catch (error) {
+      return internalError(res, "listing channels", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/alerts/channels
+ *
+ * Body: {
+ *   name: string;
+ *   type: "webhook" | "slack" | "email";
+ *   config: { url?: string; secret?: string; headers?: Record<string,string>; recipients?: string[] };
+ *   enabled?: boolean;
+ * }
+ *
+ * Webhook channels get a generated signing secret when none is supplied.
+ * The secret is returned once in this response (signing_secret) and never again.
+ */
+router.post(
+  "/channels",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = alertChannelSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const channel = await AlertChannelService.createChannel(
+        user.tenantId,
+        user.id,
+        bodyResult.data
+      );
+      return res.status(201).json({
+        success: true,
+        channel: AlertChannelService.toPublic(channel),
+        ...(channel.type === "webhook"
+          ? { signing_secret: channel.config.secret }
+          : {}),
+      });
+    } catch (error) {
+      return internalError(res, "creating channel", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/alerts/channels/:channelId
+ */
+router.patch(
+  "/channels/:channelId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { channelId } = req.params;
+      if (!isValidUUIDv4(channelId)) {
+        return notFound(res, "Alert channel not found");
+      }
+
+      const bodyResult = alertChannelUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const channel = await AlertChannelService.updateChannel(
+        user.tenantId,
+        channelId,
+        bodyResult.data
+      );
+      if (!channel) {
+        return notFound(res, "Alert channel not found");
+      }
+      return res
+        .status(200)
+        .json({ success: true, channel: AlertChannelService.toPublic(channel) });
+    } catch (error) {
+      return internalError(res, "updating channel", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/alerts/channels/:channelId
+ * Also detaches the channel from any rules that reference it
+ */
+router.delete(
+  "/channels/:channelId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { channelId } = req.params;
+      const deleted =
+        isValidUUIDv4(channelId) &&
+        (await AlertChannelService.deleteChannel(user.tenantId, channelId));
+      if (!deleted) {
+        return notFound(res, "Alert channel not found");
+      }
+      return res.status(200).json({ success: true, id: channelId });
+    } catch (error) {
+      return internalError(res, "deleting channel", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/alerts/channels/:channelId/test
+ * Send a test notification (event "alert.test") and report the delivery result
+ */
+router.post(
+  "/channels/:channelId/test",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { channelId } = req.params;
+      const channel = isValidUUIDv4(channelId)
+        ? await AlertChannelService.getChannel(user.tenantId, channelId)
+        : null;
+      if (!channel) {
+        return notFound(res, "Alert channel not found");
+      }
+
+      const now = new Date();
+      const notification = AlertService.buildNotification(
+        {
+          id: "00000000-0000-4000-8000-000000000000",
+          tenant_id: user.tenantId,
+          project_id: null,
+          name: "Test alert",
+          description: null,
+          rule_type: "signal_count",
+          signal_name: "tool_error",
+          signal_severity: null,
+          metric: null,
+          operator: "gt",
+          threshold: 0,
+          window_minutes: 5,
+          cooldown_minutes: 0,
+          channel_ids: [channel.id],
+          enabled: true,
+          state: "ok",
+          last_value: null,
+          last_evaluated_at: null,
+          last_fired_at: null,
+          created_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        },
+        "alert.test",
+        1,
+        new Date(now.getTime() - 5 * 60 * 1000).toISOString(),
+        now.toISOString()
+      );
+
+      const delivery = await AlertChannelService.send(channel, notification);
+      return res.status(200).json({ success: delivery.ok, delivery });
+    } catch (error) {
+      return internalError(res, "testing channel", error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,577 @@
+/**
+ * Annotation Queues Routes
+ *
+ * Review queues of traces: queue CRUD, adding traces manually or from the
+ * queue filter, assigning items to users in the tenant, claiming the next
+ * item, completing/skipping items, and progress stats.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import {
+  AnnotationQueueService,
+  QUEUE_ITEM_STATUSES,
+  QueueItemStatus,
+} from "../services/annotationQueueService.js";
+import { TenantService } from "../services/tenantService.js";
+import { AuthService, User } from "../services/authService.js";
+import {
+  annotationQueueAddItemsSchema,
+  annotationQueueAssignSchema,
+  annotationQueueCompleteSchema,
+  annotationQueueItemUpdateSchema,
+  annotationQueueSchema,
+  annotationQueueUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Annotation Queues API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+async function loadQueue(req: Request) {
+  const user = (req as any).user as User;
+  const { queueId } = req.params;
+  if (!isValidUUIDv4(queueId)) return null;
+  return AnnotationQueueService.getQueue(user.tenantId, queueId);
+}
+
+/**
+ * Assignees must be users of the caller's tenant
+ */
+async function isTenantUser(tenantId: string, userId: string): Promise<boolean> {
+  const assignee = await AuthService.getUserById(userId);
+  return !!assignee && assignee.tenantId === tenantId;
+}
+
+/**
+ * GET /api/v1/annotation-queues
+ *
+ * Query params:
+ * - projectId: filter by project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    const queues = await AnnotationQueueService.listQueues(
+      user.tenantId,
+      projectId || null
+    );
+    return res.status(200).json({ success: true, queues, count: queues.length });
+  } catch (error) {
+    return internalError(res, "listing queues", error);
+  }
+});
+
+/**
+ * POST /api/v1/annotation-queues
+ * Create a queue; when a filter is given, matching traces are added right away
+ *
+ * Body: { name, description?, projectId?, scoreConfigIds?, populate?,
+ *         filter?: { signals?: string[]; feedbackTypes?: ("like" | "dislike" | ...)[];
+ *                    issueType?, models?, startDate?, ... (same as GET /api/v1/traces) } }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = annotationQueueSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+
+    const { populate, ...input } = bodyResult.data;
+    if (input.projectId) {
+      const project = await TenantService.getProject(input.projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return notFound(res, "Project not found");
+      }
+    }
+
+    const queue = await AnnotationQueueService.createQueue(
+      user.tenantId,
+      user.id,
+      input
+    );
+    if (!queue) {
+      return res.status(409).json({
+        error: {
+          code: "CONFLICT",
+          message: `A queue named "${input.name}" already exists`,
+        },
+      });
+    }
+
+    let populated: { matched: number; added: number } | null = null;
+    if (queue.filter && populate !== false) {
+      try {
+        populated = await AnnotationQueueService.populate(queue);
+      } catch (error) {
+        console.error(
+          `[Annotation Queues API] Initial populate failed for queue ${queue.id}:`,
+          error
+        );
+      }
+    }
+
+    const created = populated
+      ? await AnnotationQueueService.getQueue(user.tenantId, queue.id)
+      : queue;
+    return res.status(201).json({ success: true, queue: created, populated });
+  } catch (error) {
+    return internalError(res, "creating queue", error);
+  }
+});
+
+/**
+ * GET /api/v1/annotation-queues/:queueId
+ */
+router.get(
+  "/:queueId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+      return res.status(200).json({ success: true, queue });
+    } catch (error) {
+      return internalError(res, "getting queue", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/annotation-queues/:queueId
+ *
+ * Body: { name?, description?, filter?, scoreConfigIds? }
+ */
+router.patch(
+  "/:queueId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const existing = await loadQueue(req);
+      if (!existing) {
+        return notFound(res, "Queue not found");
+      }
+
+      const bodyResult = annotationQueueUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const queue = await AnnotationQueueService.updateQueue(
+        user.tenantId,
+        existing.id,
+        bodyResult.data
+      );
+      return res.status(200).json({ success: true, queue });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "A queue with this name already exists",
+          },
+        });
+      }
+      return internalError(res, "updating queue", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/annotation-queues/:queueId
+ * Deletes the queue and its items (scores already recorded are kept)
+ */
+router.delete(
+  "/:queueId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { queueId } = req.params;
+      const deleted =
+        isValidUUIDv4(queueId) &&
+        (await AnnotationQueueService.deleteQueue(user.tenantId, queueId));
+      if (!deleted) {
+        return notFound(res, "Queue not found");
+      }
+      return res.status(200).json({ success: true, id: queueId });
+    } catch (error) {
+      return internalError(res, "deleting queue", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/annotation-queues/:queueId/populate
+ * Run the queue filter again and add newly matching traces
+ *
+ * Body: { limit?: number } (default/max: 1000)
+ */
+router.post(
+  "/:queueId/populate",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+      if (!queue.filter) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "Queue has no filter; add traces manually instead",
+          },
+        });
+      }
+
+      const limit = parseInt(String(req.body?.limit ?? ""), 10) || undefined;
+      const result = await AnnotationQueueService.populate(queue, limit);
+      return res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      return internalError(res, "populating queue", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/annotation-queues/:queueId/stats
+ * Progress overall and per assignee
+ */
+router.get(
+  "/:queueId/stats",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+      const byAssignee = await AnnotationQueueService.getAssigneeStats(queue.id);
+      return res.status(200).json({
+        success: true,
+        stats: queue.stats,
+        by_assignee: byAssignee,
+      });
+    } catch (error) {
+      return internalError(res, "getting queue stats", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/annotation-queues/:queueId/next
+ * Claim the next item for the current user (resumes their in-progress item first).
+ * Returns item: null when nothing is left.
+ */
+router.post(
+  "/:queueId/next",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+      const item = await AnnotationQueueService.claimNext(queue.id, user.id);
+      return res.status(200).json({
+        success: true,
+        item,
+        score_config_ids: queue.score_config_ids,
+      });
+    } catch (error) {
+      return internalError(res, "claiming next item", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/annotation-queues/:queueId/items
+ *
+ * Query params:
+ * - status: pending | in_progress | completed | skipped
+ * - assignedUserId: filter by assignee ("me" for the current user)
+ * - limit: number of results (default: 100, max: 1000)
+ * - offset: pagination offset (default: 0)
+ */
+router.get(
+  "/:queueId/items",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+
+      const status = req.query.status as string | undefined;
+      if (status && !QUEUE_ITEM_STATUSES.includes(status as QueueItemStatus)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: `status must be one of: ${QUEUE_ITEM_STATUSES.join(", ")}`,
+          },
+        });
+      }
+      const assignedParam = req.query.assignedUserId as string | undefined;
+      const assignedUserId =
+        assignedParam === "me"
+          ? user.id
+          : assignedParam && isValidUUIDv4(assignedParam)
+            ? assignedParam
+            : undefined;
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const { items, total } = await AnnotationQueueService.listItems(queue.id, {
+        status: status as QueueItemStatus | undefined,
+        assignedUserId,
+        limit,
+        offset,
+      });
+
+      return res.status(200).json({
+        success: true,
+        items,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + items.length < total,
+        },
+      });
+    } catch (error) {
+      return internalError(res, "listing items", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/annotation-queues/:queueId/items
+ * Add traces manually
+ *
+ * Body: { traceIds: string[]; assignedUserId?: string }
+ */
+router.post(
+  "/:queueId/items",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+
+      const bodyResult = annotationQueueAddItemsSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const { traceIds, assignedUserId } = bodyResult.data;
+      if (assignedUserId && !(await isTenantUser(user.tenantId, assignedUserId))) {
+        return notFound(res, "User not found");
+      }
+
+      const added = await AnnotationQueueService.addItems(
+        queue,
+        traceIds,
+        "manual",
+        assignedUserId ?? null
+      );
+      return res.status(201).json({
+        success: true,
+        added,
+        skipped: new Set(traceIds).size - added,
+      });
+    } catch (error) {
+      return internalError(res, "adding items", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/annotation-queues/:queueId/items/assign
+ * Assign open items to a user in the tenant (userId: null unassigns)
+ *
+ * Body: { itemIds: string[]; userId: string | null }
+ */
+router.post(
+  "/:queueId/items/assign",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      if (!queue) {
+        return notFound(res, "Queue not found");
+      }
+
+      const bodyResult = annotationQueueAssignSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const { itemIds, userId } = bodyResult.data;
+      if (userId && !(await isTenantUser(user.tenantId, userId))) {
+        return notFound(res, "User not found");
+      }
+
+      const assigned = await AnnotationQueueService.assignItems(
+        queue.id,
+        itemIds,
+        userId
+      );
+      return res.status(200).json({ success: true, assigned });
+    } catch (error) {
+      return internalError(res, "assigning items", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/annotation-queues/:queueId/items/:itemId
+ *
+ * Body: { status?, assignedUserId?, notes? }
+ */
+router.patch(
+  "/:queueId/items/:itemId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      const { itemId } = req.params;
+      if (!queue || !isValidUUIDv4(itemId)) {
+        return notFound(res, "Queue item not found");
+      }
+
+      const bodyResult = annotationQueueItemUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const { assignedUserId } = bodyResult.data;
+      if (assignedUserId && !(await isTenantUser(user.tenantId, assignedUserId))) {
+        return notFound(res, "User not found");
+      }
+
+      const item = await AnnotationQueueService.updateItem(
+        queue.id,
+        itemId,
+        bodyResult.data
+      );
+      if (!item) {
+        return notFound(res, "Queue item not found");
+      }
+      return res.status(200).json({ success: true, item });
+    } catch (error) {
+      return internalError(res, "updating item", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/annotation-queues/:queueId/items/:itemId/complete
+ * Mark an item completed (or skipped) by the current user
+ *
+ * Body: { status?: "completed" | "skipped"; notes?: string }
+ */
+router.post(
+  "/:queueId/items/:itemId/complete",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const queue = await loadQueue(req);
+      const { itemId } = req.params;
+      if (!queue || !isValidUUIDv4(itemId)) {
+        return notFound(res, "Queue item not found");
+      }
+
+      const bodyResult = annotationQueueCompleteSchema.safeParse(req.body || {});
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const item = await AnnotationQueueService.completeItem(
+        queue.id,
+        itemId,
+        user.id,
+        bodyResult.data.status,
+        bodyResult.data.notes
+      );
+      if (!item) {
+        return notFound(res, "Queue item not found");
+      }
+      return res.status(200).json({ success: true, item });
+    } catch (error) {
+      return internalError(res, "completing item", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/annotation-queues/:queueId/items/:itemId
+ */
+router.delete(
+  "/:queueId/items/:itemId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const queue = await loadQueue(req);
+      const { itemId } = req.params;
+      const deleted =
+        !!queue &&
+        isValidUUIDv4(itemId) &&
+        (await AnnotationQueueService.deleteItem(queue.id, itemId));
+      if (!deleted) {
+        return notFound(res, "Queue item not found");
+      }
+      return res.status(200).json({ success: true, id: itemId });
+    } catch (error) {
+      return internalError(res, "deleting item", error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,109 @@
+/**
+ * Baselines Routes
+ *
+ * Read access to the rolling per-project/route/model baselines used for
+ * latency_anomaly / cost_anomaly / cache_hit_rate_drop signals, plus an
+ * on-demand recompute.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import {
+  BASELINE_METRICS,
+  BaselineMetric,
+  BaselineService,
+} from "../services/baselineService.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { env } from "../config/env.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+/**
+ * GET /api/v1/baselines
+ * List baselines for the user's tenant
+ *
+ * Query params:
+ * - projectId: filter by project
+ * - route: filter by route ("" for route-agnostic baselines)
+ * - model: filter by model
+ * - metric: latency_ms | total_tokens | cost | error_rate | cache_hit_rate
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    const route = req.query.route as string | undefined;
+    const model = req.query.model as string | undefined;
+    const metric = req.query.metric as string | undefined;
+
+    if (projectId && !isValidUUIDv4(projectId)) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "projectId must be a valid UUID",
+        },
+      });
+    }
+    if (metric && !BASELINE_METRICS.includes(metric as BaselineMetric)) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: `metric must be one of: ${BASELINE_METRICS.join(", ")}`,
+        },
+      });
+    }
+
+    const baselines = await BaselineService.listBaselines(user.tenantId, {
+      projectId,
+      route,
+      model,
+      metric: metric as BaselineMetric | undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      baselines,
+      count: baselines.length,
+      anomaly: {
+        sigma_threshold: env.ANOMALY_SIGMA_THRESHOLD,
+        min_samples: env.ANOMALY_MIN_SAMPLES,
+      },
+    });
+  } catch (error) {
+    console.error("[Baselines API] Error listing baselines:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: { code: "INTERNAL_ERROR", message: errorMessage },
+    });
+  }
+});
+
+/**
+ * POST /api/v1/baselines/recompute
+ * Recompute baselines for the user's tenant now instead of waiting for the job
+ */
+router.post(
+  "/recompute",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const updated = await BaselineService.recomputeTenantBaselines(
+        user.tenantId
+      );
+
+      return res.status(200).json({ success: true, updated });
+    } catch (error) {
+      console.error("[Baselines API] Error recomputing baselines:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: { code: "INTERNAL_ERROR", message: errorMessage },
+      });
+    }
+  }
+);
+
+export default router;
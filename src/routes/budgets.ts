@@ -0,0 +1,259 @@
+/**
+ * Budgets Routes
+ *
+ * Monthly/daily spend budgets per project (optionally scoped to a route or
+ * user): CRUD and status (spend, remaining amount, burn rate, projection).
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { BudgetService } from "../services/budgetService.js";
+import { TenantService } from "../services/tenantService.js";
+import { User } from "../services/authService.js";
+import { budgetSchema, budgetUpdateSchema } from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Budgets API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+async function loadBudget(req: Request) {
+  const user = (req as any).user as User;
+  const { budgetId } = req.params;
+  if (!isValidUUIDv4(budgetId)) return null;
+  return BudgetService.getBudget(user.tenantId, budgetId);
+}
+
+/**
+ * GET /api/v1/budgets
+ * Budgets with their current-period status
+ *
+ * Query params:
+ * - projectId: filter by project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    const budgets = await BudgetService.listBudgets(
+      user.tenantId,
+      projectId || null
+    );
+    const withStatus = await Promise.all(
+      budgets.map(async (budget) => ({
+        ...budget,
+        status: await BudgetService.getStatus(budget, 0),
+      }))
+    );
+    return res
+      .status(200)
+      .json({ success: true, budgets: withStatus, count: withStatus.length });
+  } catch (error) {
+    return internalError(res, "listing budgets", error);
+  }
+});
+
+/**
+ * POST /api/v1/budgets
+ *
+ * Body: { projectId, name, amountUsd, period?: "monthly" | "daily",
+ *         scopeType?: "project" | "route" | "user", scopeValue?,
+ *         warningThresholds?: number[] (default [80]), hardLimit?, enabled? }
+ * hardLimit is only accepted on project budgets.
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = budgetSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+    const input = bodyResult.data;
+
+    const project = await TenantService.getProject(input.projectId);
+    if (!project || project.tenantId !== user.tenantId) {
+      return notFound(res, "Project not found");
+    }
+
+    const budget = await BudgetService.createBudget(user.tenantId, user.id, input);
+    if (!budget) {
+      return res.status(409).json({
+        error: {
+          code: "CONFLICT",
+          message: `A budget named "${input.name}" already exists for this project`,
+        },
+      });
+    }
+    return res.status(201).json({ success: true, budget });
+  } catch (error) {
+    return internalError(res, "creating budget", error);
+  }
+});
+
+/**
+ * GET /api/v1/budgets/:budgetId
+ */
+router.get(
+  "/:budgetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const budget = await loadBudget(req);
+      if (!budget) {
+        return notFound(res, "Budget not found");
+      }
+      return res.status(200).json({ success: true, budget });
+    } catch (error) {
+      return internalError(res, "fetching budget", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/budgets/:budgetId/status
+ * Spend, remaining amount, burn rate and projection for the current period,
+ * plus spend of previous periods
+ *
+ * Query params:
+ * - history: number of previous periods (default 6, max 24)
+ */
+router.get(
+  "/:budgetId/status",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const budget = await loadBudget(req);
+      if (!budget) {
+        return notFound(res, "Budget not found");
+      }
+      const history = Math.min(
+        Math.max(parseInt(String(req.query.history ?? "6"), 10) || 0, 0),
+        24
+      );
+      const status = await BudgetService.getStatus(budget, history);
+      return res.status(200).json({ success: true, budget, status });
+    } catch (error) {
+      return internalError(res, "fetching budget status", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/budgets/:budgetId
+ */
+router.patch(
+  "/:budgetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = budgetUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const input = bodyResult.data;
+
+      const existing = await loadBudget(req);
+      if (!existing) {
+        return notFound(res, "Budget not found");
+      }
+      const scopeType = input.scopeType ?? existing.scope_type;
+      const scopeValue =
+        input.scopeValue !== undefined ? input.scopeValue : existing.scope_value;
+      if (scopeType !== "project" && !scopeValue) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "scopeValue is required for route and user budgets",
+          },
+        });
+      }
+      const hardLimit = input.hardLimit ?? existing.hard_limit;
+      if (scopeType !== "project" && hardLimit) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "hardLimit is only supported for project budgets",
+          },
+        });
+      }
+
+      const budget = await BudgetService.updateBudget(
+        user.tenantId,
+        existing.id,
+        input
+      );
+      if (!budget) {
+        return notFound(res, "Budget not found");
+      }
+      return res.status(200).json({ success: true, budget });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "A budget with this name already exists for this project",
+          },
+        });
+      }
+      return internalError(res, "updating budget", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/budgets/:budgetId
+ */
+router.delete(
+  "/:budgetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { budgetId } = req.params;
+      if (!isValidUUIDv4(budgetId)) {
+        return notFound(res, "Budget not found");
+      }
+      const deleted = await BudgetService.deleteBudget(user.tenantId, budgetId);
+      if (!deleted) {
+        return notFound(res, "Budget not found");
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      return internalError(res, "deleting budget", error);
+    }
+  }
+);
+
+export default router;
@@ -7,10 +7,42 @@
 
 import { Router, Request, Response } from "express";
 import { AuthService } from "../services/authService.js";
-import { DashboardMetricsService } from "../services/dashboardMetricsService.js";
+import {
+  CostBreakdownGroup,
+  DashboardMetricsService,
+} from "../services/dashboardMetricsService.js";
+import { CostForecastService } from "../services/costForecastService.js";
+import { CacheAnalyticsService } from "../services/cacheAnalyticsService.js";
+import { TenantService } from "../services/tenantService.js";
+import { TAG_KEY_PATTERN } from "../utils/eventTags.js";
 
 const router = Router();
 
+/**
+ * startTime/endTime when both are given, else the last `days` days
+ * Returns null when a given time is not a valid date.
+ */
+function resolvePeriod(
+  query: Request["query"],
+): { start: string; end: string; days: number } | null {
+  const days = parseInt(query.days as string) || 30;
+  const startTime = query.startTime as string | undefined;
+  const endTime = query.endTime as string | undefined;
+  if (startTime && endTime) {
+    const startMs = Date.parse(startTime);
+    const endMs = Date.parse(endTime);
+    if (Number.isNaN(startMs) || Number.isNaN(endMs)) return null;
+    return {
+      start: new Date(startMs).toISOString(),
+      end: new Date(endMs).toISOString(),
+      days,
+    };
+  }
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  return { start: startDate.toISOString(), end: new Date().toISOString(), days };
+}
+
 /**
  * GET /api/v1/costs/overview
  * Get cost overview with breakdowns
@@ -21,6 +53,7 @@ const router = Router();
  * - Cost by model
  * - Cost by route
  * - Cost over time (if time range specified)
+ * - Cache savings next to LLM spend (saved cost, hit rate)
  */
 router.get("/overview", async (req: Request, res: Response) => {
   try {
@@ -47,29 +80,35 @@ router.get("/overview", async (req: Request, res: Response) => {
     }
 
     const projectId = req.query.projectId as string | undefined;
-    const days = parseInt(req.query.days as string) || 30;
-    const startTime = req.query.startTime as string | undefined;
-    const endTime = req.query.endTime as string | undefined;
 
     // Calculate time range
-    let start: string;
-    let end: string;
-    if (startTime && endTime) {
-      start = startTime;
-      end = endTime;
-    } else {
-      end = new Date().toISOString();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - days);
-      start = startDate.toISOString();
-    }
-
-    const costMetrics = await DashboardMetricsService.getCostMetrics(
-      user.tenantId,
-      projectId || null,
-      start,
-      end
-    );
+    const period = resolvePeriod(req.query);
+    if (!period) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "startTime and endTime must be valid dates",
+        },
+      });
+    }
+    const { start, end, days } = period;
+
+    const [costMetrics, cacheAnalytics] = await Promise.all([
+      DashboardMetricsService.getCostMetrics(
+        user.tenantId,
+        projectId || null,
+        start,
+        end
+      ),
+      CacheAnalyticsService.getCacheAnalytics(
+        user.tenantId,
+        projectId || null,
+        start,
+        end
+      ),
+    ]);
+    const cache = cacheAnalytics.summary;
+    const costWithoutCache = costMetrics.total_cost + cache.saved_cost;
 
     // Sort cost_by_model and cost_by_route by value (descending) for "top" lists
     const costByModel = Object.entries(costMetrics.cost_by_model)
@@ -101,6 +140,16 @@ router.get("/overview", async (req: Request, res: Response) => {
         by_model: costByModel,
         by_route: costByRoute,
       },
+      cache: {
+        operations: cache.operations,
+        hit_rate: parseFloat(cache.hit_rate.toFixed(4)),
+        saved_cost: parseFloat(cache.saved_cost.toFixed(4)),
+        cost_without_cache: parseFloat(costWithoutCache.toFixed(4)),
+        savings_pct:
+          costWithoutCache > 0
+            ? parseFloat(((cache.saved_cost / costWithoutCache) * 100).toFixed(2))
+            : 0,
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -116,5 +165,317 @@ router.get("/overview", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/costs/cache
+ * Cache analytics from cache_operation events
+ *
+ * Query params:
+ * - projectId, days, startTime/endTime: same as /overview
+ * - bucket: hour | day (default: day)
+ *
+ * Returns:
+ * - Summary: operations, hit rate, latency percentiles (all/hits/misses), saved cost
+ * - The same per project, namespace and backend
+ * - Hit rate and saved cost over time
+ */
+router.get("/cache", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Missing or invalid Authorization header",
+        },
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+
+    if (!user) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Invalid or expired session",
+        },
+      });
+    }
+
+    const projectId = req.query.projectId as string | undefined;
+    if (projectId) {
+      const project = await TenantService.getProject(projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return res.status(404).json({
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
+      }
+    }
+
+    const period = resolvePeriod(req.query);
+    if (!period) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "startTime and endTime must be valid dates",
+        },
+      });
+    }
+    const { start, end, days } = period;
+    const bucket = req.query.bucket === "hour" ? "hour" : "day";
+
+    const cache = await CacheAnalyticsService.getCacheAnalytics(
+      user.tenantId,
+      projectId || null,
+      start,
+      end,
+      bucket
+    );
+
+    return res.status(200).json({
+      success: true,
+      period: {
+        start,
+        end,
+        days,
+      },
+      cache,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[Costs API] Error fetching cache analytics:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: {
+        code: "INTERNAL_ERROR",
+        message: errorMessage,
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/costs/forecast
+ * Project end-of-month spend from daily cost history
+ *
+ * Query params:
+ * - projectId: forecast one project (default: whole tenant, with per-project breakdown)
+ * - historyDays: days of history to fit (14-180, default 56)
+ *
+ * Returns:
+ * - Total projection: month-to-date, projected total, 80%/95% confidence bands,
+ *   trend per day and the daily forecast for the rest of the month
+ * - Projections per project and per model (top 10 by spend)
+ * - Project budgets the projection crosses (or may cross, by the 80% band)
+ */
+router.get("/forecast", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Missing or invalid Authorization header",
+        },
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+
+    if (!user) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Invalid or expired session",
+        },
+      });
+    }
+
+    const projectId = req.query.projectId as string | undefined;
+    if (projectId) {
+      const project = await TenantService.getProject(projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return res.status(404).json({
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
+      }
+    }
+
+    const historyDays = Math.min(
+      Math.max(parseInt(req.query.historyDays as string) || 56, 14),
+      180
+    );
+
+    const forecast = await CostForecastService.getForecast(
+      user.tenantId,
+      projectId || null,
+      { historyDays }
+    );
+
+    return res.status(200).json({
+      success: true,
+      forecast,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[Costs API] Error fetching cost forecast:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: {
+        code: "INTERNAL_ERROR",
+        message: errorMessage,
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/costs/breakdown
+ * Attribute LLM cost to tag values (customer, feature, team, ...) or end users
+ *
+ * Query params:
+ * - groupBy: tag:<key> | user_id | model | route (default user_id)
+ * - top: number of groups to return (default 10, max 1000); the rest is
+ *   summed into "other". CSV exports all groups unless top is given.
+ * - projectId, days, startTime/endTime: same as /overview
+ * - format=json|csv (default: json)
+ */
+router.get("/breakdown", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Missing or invalid Authorization header",
+        },
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+
+    if (!user) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Invalid or expired session",
+        },
+      });
+    }
+
+    const projectId = req.query.projectId as string | undefined;
+    if (projectId) {
+      const project = await TenantService.getProject(projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return res.status(404).json({
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
+      }
+    }
+
+    const groupBy = String(req.query.groupBy || "user_id");
+    const validGroupBy = groupBy.startsWith("tag:")
+      ? TAG_KEY_PATTERN.test(groupBy.slice(4))
+      : ["user_id", "model", "route"].includes(groupBy);
+    if (!validGroupBy) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "groupBy must be tag:<key>, user_id, model or route",
+        },
+      });
+    }
+
+    const format = String(req.query.format || "json").toLowerCase();
+    const topParam = parseInt(req.query.top as string);
+    const top = Number.isFinite(topParam)
+      ? Math.min(Math.max(topParam, 1), 1000)
+      : format === "csv"
+        ? null
+        : 10;
+
+    const period = resolvePeriod(req.query);
+    if (!period) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "startTime and endTime must be valid dates",
+        },
+      });
+    }
+    const { start, end, days } = period;
+
+    const breakdown = await DashboardMetricsService.getCostBreakdown(
+      user.tenantId,
+      projectId || null,
+      start,
+      end,
+      groupBy,
+      top
+    );
+
+    if (format === "csv") {
+      const escape = (v: any) => {
+        const s = v === null || v === undefined ? "" : String(v);
+        if (s.includes('"') || s.includes(",") || s.includes("\n")) {
+          return `"${s.replace(/"/g, '""')}"`;
+        }
+        return s;
+      };
+      const headers = ["group", "cost_usd", "share_pct", "traces", "llm_calls", "tokens"];
+      const toRow = (label: string | null, g: CostBreakdownGroup) => [
+        label,
+        g.cost,
+        g.share_pct,
+        g.traces,
+        g.llm_calls,
+        g.tokens,
+      ];
+      const rows = breakdown.groups.map((g) => toRow(g.value, g));
+      if (breakdown.other) rows.push(toRow("(other)", breakdown.other));
+      if (breakdown.unattributed) rows.push(toRow("(none)", breakdown.unattributed));
+      const csv = [headers.join(","), ...rows.map((r) => r.map(escape).join(","))].join("\n");
+      const filename = `costs-by-${groupBy.replace(/[^A-Za-z0-9_.-]/g, "_")}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      return res.status(200).send(csv);
+    }
+
+    return res.status(200).json({
+      success: true,
+      period: {
+        start,
+        end,
+        days,
+      },
+      breakdown,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[Costs API] Error fetching cost breakdown:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: {
+        code: "INTERNAL_ERROR",
+        message: errorMessage,
+      },
+    });
+  }
+});
+
 export default router;
 
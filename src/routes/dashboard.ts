@@ -9,6 +9,7 @@ import { Router, Request, Response } from "express";
 import { AuthService } from "../services/authService.js";
 import { DashboardMetricsService } from "../services/dashboardMetricsService.js";
 import { SignalsQueryService } from "../services/signalsQueryService.js";
+import { IssuesService } from "../services/issuesService.js";
 
 const router = Router();
 
@@ -495,6 +496,21 @@ router.get("/alerts", async (req: Request, res: Response) => {
     // Convert to array and sort by count
     const alertsArray = Object.values(alerts).sort((a, b) => b.count - a.count);
 
+    // Active grouped issues seen in the same window
+    let activeIssues: any[] = [];
+    try {
+      activeIssues = (
+        await IssuesService.listIssues(user.tenantId, {
+          projectId: projectId || null,
+          statuses: ["open", "acknowledged", "regressed"],
+          since: start,
+          limit: 50,
+        })
+      ).issues;
+    } catch (error) {
+      console.warn("[Dashboard API] Failed to load grouped issues:", error);
+    }
+
     return res.status(200).json({
       success: true,
       period: {
@@ -503,6 +519,7 @@ router.get("/alerts", async (req: Request, res: Response) => {
         hours,
       },
       alerts: alertsArray,
+      issues: activeIssues,
       total: signals.length,
     });
   } catch (error) {
@@ -976,6 +993,83 @@ router.get("/feedback", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/dashboard/scores
+ * Human annotation score aggregates per score config
+ *
+ * Query params:
+ * - projectId: filter by project
+ * - startTime / endTime: ISO time range (default: last 7 days)
+ */
+router.get("/scores", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Missing or invalid Authorization header",
+        },
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+
+    if (!user) {
+      return res.status(401).json({
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Invalid or expired session",
+        },
+      });
+    }
+
+    const projectId = req.query.projectId as string | undefined;
+    const startTime = req.query.startTime as string | undefined;
+    const endTime = req.query.endTime as string | undefined;
+
+    let start: string;
+    let end: string;
+    if (startTime && endTime) {
+      start = startTime;
+      end = endTime;
+    } else {
+      end = new Date().toISOString();
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - 7);
+      start = startDate.toISOString();
+    }
+
+    const scoreMetrics = await DashboardMetricsService.getScoreMetrics(
+      user.tenantId,
+      projectId || null,
+      start,
+      end,
+    );
+
+    return res.status(200).json({
+      success: true,
+      period: {
+        start,
+        end,
+      },
+      metrics: scoreMetrics,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("[Dashboard API] Error fetching score metrics:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: {
+        code: "INTERNAL_ERROR",
+        message: errorMessage,
+      },
+    });
+  }
+});
+
 /**
  * GET /api/v1/dashboard/health
  * Diagnostic endpoint to test Tinybird connection and data access
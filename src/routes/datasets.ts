@@ -0,0 +1,451 @@
+/**
+ * Datasets Routes
+ *
+ * Golden datasets built from production traces: dataset CRUD, adding traces
+ * (single or from a trace filter), editing items with corrections, and
+ * JSONL/CSV export.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { DatasetService } from "../services/datasetService.js";
+import { TenantService } from "../services/tenantService.js";
+import {
+  datasetAddTraceSchema,
+  datasetBulkAddSchema,
+  datasetItemUpdateSchema,
+  datasetSchema,
+  datasetUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Datasets API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+async function loadDataset(req: Request) {
+  const user = (req as any).user as User;
+  const { datasetId } = req.params;
+  if (!isValidUUIDv4(datasetId)) return null;
+  return DatasetService.getDataset(user.tenantId, datasetId);
+}
+
+/**
+ * GET /api/v1/datasets
+ *
+ * Query params:
+ * - projectId: filter by project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    const datasets = await DatasetService.listDatasets(
+      user.tenantId,
+      projectId || null
+    );
+    return res
+      .status(200)
+      .json({ success: true, datasets, count: datasets.length });
+  } catch (error) {
+    return internalError(res, "listing datasets", error);
+  }
+});
+
+/**
+ * POST /api/v1/datasets
+ *
+ * Body: { name: string; description?: string; projectId?: string }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = datasetSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+
+    const input = bodyResult.data;
+    if (input.projectId) {
+      const project = await TenantService.getProject(input.projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return notFound(res, "Project not found");
+      }
+    }
+
+    const dataset = await DatasetService.createDataset(user.tenantId, input);
+    if (!dataset) {
+      return res.status(409).json({
+        error: {
+          code: "CONFLICT",
+          message: `A dataset named "${input.name}" already exists`,
+        },
+      });
+    }
+    return res.status(201).json({ success: true, dataset });
+  } catch (error) {
+    return internalError(res, "creating dataset", error);
+  }
+});
+
+/**
+ * GET /api/v1/datasets/:datasetId
+ */
+router.get(
+  "/:datasetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const dataset = await loadDataset(req);
+      if (!dataset) {
+        return notFound(res, "Dataset not found");
+      }
+      return res.status(200).json({ success: true, dataset });
+    } catch (error) {
+      return internalError(res, "getting dataset", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/datasets/:datasetId
+ *
+ * Body: { name?: string; description?: string | null }
+ */
+router.patch(
+  "/:datasetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const existing = await loadDataset(req);
+      if (!existing) {
+        return notFound(res, "Dataset not found");
+      }
+
+      const bodyResult = datasetUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const dataset = await DatasetService.updateDataset(
+        user.tenantId,
+        existing.id,
+        bodyResult.data
+      );
+      return res.status(200).json({ success: true, dataset });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "A dataset with this name already exists",
+          },
+        });
+      }
+      return internalError(res, "updating dataset", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/datasets/:datasetId
+ * Deletes the dataset and all of its items
+ */
+router.delete(
+  "/:datasetId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { datasetId } = req.params;
+      const deleted =
+        isValidUUIDv4(datasetId) &&
+        (await DatasetService.deleteDataset(user.tenantId, datasetId));
+      if (!deleted) {
+        return notFound(res, "Dataset not found");
+      }
+      return res.status(200).json({ success: true, id: datasetId });
+    } catch (error) {
+      return internalError(res, "deleting dataset", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/datasets/:datasetId/items
+ *
+ * Query params:
+ * - limit: number of results (default: 100, max: 1000)
+ * - offset: pagination offset (default: 0)
+ */
+router.get(
+  "/:datasetId/items",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const dataset = await loadDataset(req);
+      if (!dataset) {
+        return notFound(res, "Dataset not found");
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const { items, total } = await DatasetService.listItems(
+        user.tenantId,
+        dataset.id,
+        limit,
+        offset
+      );
+
+      return res.status(200).json({
+        success: true,
+        dataset,
+        items,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + items.length < total,
+        },
+      });
+    } catch (error) {
+      return internalError(res, "listing items", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/datasets/:datasetId/items
+ * Add a trace; its input is snapshotted from the trace detail tree.
+ * Returns 201 for a new item, 200 if the trace was already in the dataset.
+ *
+ * Body: { traceId: string; expectedOutput?: string; correctedOutput?: string; notes?: string }
+ */
+router.post(
+  "/:datasetId/items",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const dataset = await loadDataset(req);
+      if (!dataset) {
+        return notFound(res, "Dataset not found");
+      }
+
+      const bodyResult = datasetAddTraceSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const { traceId, ...itemFields } = bodyResult.data;
+      const result = await DatasetService.addTrace(
+        user.tenantId,
+        dataset,
+        traceId,
+        user.id,
+        itemFields
+      );
+      if (!result) {
+        return notFound(res, "Trace not found");
+      }
+
+      return res
+        .status(result.created ? 201 : 200)
+        .json({ success: true, item: result.item, created: result.created });
+    } catch (error) {
+      return internalError(res, "adding trace", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/datasets/:datasetId/items/bulk
+ * Add every trace matching a trace filter (the same filters as GET /api/v1/traces)
+ *
+ * Body: { filter: { models?, issueType?, startDate?, minLatencyMs?, ... }; projectId?: string; limit?: number }
+ */
+router.post(
+  "/:datasetId/items/bulk",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const dataset = await loadDataset(req);
+      if (!dataset) {
+        return notFound(res, "Dataset not found");
+      }
+
+      const bodyResult = datasetBulkAddSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const { filter, projectId, limit } = bodyResult.data;
+      if (projectId) {
+        const project = await TenantService.getProject(projectId);
+        if (!project || project.tenantId !== user.tenantId) {
+          return notFound(res, "Project not found");
+        }
+      }
+
+      const result = await DatasetService.addTracesFromFilter(
+        user.tenantId,
+        dataset,
+        filter,
+        user.id,
+        limit,
+        projectId
+      );
+      return res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      return internalError(res, "bulk adding traces", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/datasets/:datasetId/items/:itemId
+ * Edit expected/corrected output and notes
+ */
+router.patch(
+  "/:datasetId/items/:itemId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { datasetId, itemId } = req.params;
+      if (!isValidUUIDv4(datasetId) || !isValidUUIDv4(itemId)) {
+        return notFound(res, "Dataset item not found");
+      }
+
+      const bodyResult = datasetItemUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const item = await DatasetService.updateItem(
+        user.tenantId,
+        datasetId,
+        itemId,
+        bodyResult.data
+      );
+      if (!item) {
+        return notFound(res, "Dataset item not found");
+      }
+      return res.status(200).json({ success: true, item });
+    } catch (error) {
+      return internalError(res, "updating item", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/datasets/:datasetId/items/:itemId
+ */
+router.delete(
+  "/:datasetId/items/:itemId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { datasetId, itemId } = req.params;
+      const deleted =
+        isValidUUIDv4(datasetId) &&
+        isValidUUIDv4(itemId) &&
+        (await DatasetService.deleteItem(user.tenantId, datasetId, itemId));
+      if (!deleted) {
+        return notFound(res, "Dataset item not found");
+      }
+      return res.status(200).json({ success: true, id: itemId });
+    } catch (error) {
+      return internalError(res, "deleting item", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/datasets/:datasetId/export
+ *
+ * Query params:
+ * - format=jsonl|csv (default: jsonl)
+ */
+router.get(
+  "/:datasetId/export",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const dataset = await loadDataset(req);
+      if (!dataset) {
+        return notFound(res, "Dataset not found");
+      }
+
+      const format = String(req.query.format || "jsonl").toLowerCase();
+      if (format !== "jsonl" && format !== "csv") {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "format must be jsonl or csv",
+          },
+        });
+      }
+
+      const items = await DatasetService.getAllItems(user.tenantId, dataset.id);
+      const safeName = dataset.name.replace(/[^a-zA-Z0-9_-]+/g, "-");
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${safeName}.csv"`
+        );
+        return res.status(200).send(DatasetService.toCsv(items));
+      }
+
+      res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${safeName}.jsonl"`
+      );
+      return res.status(200).send(DatasetService.toJsonl(items));
+    } catch (error) {
+      return internalError(res, "exporting dataset", error);
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@
  * Events Routes
  *
  * New canonical event ingestion endpoint: /api/v1/events/ingest
+ * Live tail of ingested events and signals: /api/v1/events/tail (SSE)
  */
 
 import { Router, Request, Response } from "express";
@@ -9,195 +10,25 @@ import express from "express";
 import { apiKeyMiddleware } from "../middleware/apiKeyMiddleware.js";
 import { rateLimitMiddleware } from "../middleware/rateLimitMiddleware.js";
 import { quotaMiddleware } from "../middleware/quotaMiddleware.js";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
 import {
   payloadLimitMiddleware,
   validateEventSize,
 } from "../middleware/payloadLimitMiddleware.js";
-import { CanonicalEventService } from "../services/canonicalEventService.js";
+import { EventIngestionService } from "../services/eventIngestionService.js";
 import { EventTranslationService } from "../services/eventTranslationService.js";
-import { QuotaService } from "../services/quotaService.js";
-import { SecretsScrubbingService } from "../services/secretsScrubbingService.js";
-import { SignalsService } from "../services/signalsService.js";
-import { TraceService } from "../services/traceService.js";
-import { ConversationService } from "../services/conversationService.js";
+import { LiveTailService, LiveTailFilter } from "../services/liveTailService.js";
+import { TenantService } from "../services/tenantService.js";
+import { User } from "../services/authService.js";
 import { query } from "../db/client.js";
 import {
   canonicalEventSchema,
   batchEventsSchema,
 } from "../validation/schemas.js";
-import { TinybirdCanonicalEvent, CanonicalEvent } from "../types/events.js";
 import { isValidUUIDv4 } from "../utils/uuidValidation.js";
-import { TraceEvent } from "../types.js";
 
 const router = Router();
 
-function tryParseJsonString(value: string): any {
-  const trimmed = value.trim();
-  if (
-    (trimmed.startsWith("{") && trimmed.endsWith("}")) ||
-    (trimmed.startsWith("[") && trimmed.endsWith("]"))
-  ) {
-    try {
-      return JSON.parse(trimmed);
-    } catch {
-      return value;
-    }
-  }
-  return value;
-}
-
-function sanitizeAttributes(value: any): any {
-  if (Array.isArray(value)) {
-    return value.map((item) => sanitizeAttributes(item));
-  }
-  if (value && typeof value === "object") {
-    const sanitized: Record<string, any> = {};
-    for (const [key, val] of Object.entries(value)) {
-      if (key === "arguments" && typeof val === "string") {
-        // Handle arguments field - try to parse, and if it's malformed, fix it
-        const trimmed = val.trim();
-        // Check if it's malformed JSON (pattern: "key":"value" without outer braces)
-        if (
-          trimmed.startsWith('"') &&
-          !trimmed.startsWith('"{') &&
-          trimmed.includes(":") &&
-          trimmed.length > 3
-        ) {
-          // Try to extract key and value and reconstruct as valid JSON object
-          const keyValueMatch = trimmed.match(/^"([^"]+)"\s*:\s*(.+)$/);
-          if (keyValueMatch && keyValueMatch[1]) {
-            const argKey: string = keyValueMatch[1];
-            let argVal: any = keyValueMatch[2] || "";
-
-            // Parse the value
-            if (argVal.startsWith('"') && argVal.endsWith('"')) {
-              // Quoted string - extract and unescape
-              argVal = argVal
-                .slice(1, -1)
-                .replace(/\\"/g, '"')
-                .replace(/\\\\/g, "\\");
-            } else {
-              // Try parsing as JSON (for numbers, booleans, etc.)
-              try {
-                argVal = JSON.parse(argVal);
-              } catch {
-                // Keep as string
-              }
-            }
-
-            // Reconstruct as valid JSON object
-            try {
-              sanitized[key] = { [argKey]: argVal };
-            } catch {
-              // If reconstruction fails, try original parsing
-              sanitized[key] = tryParseJsonString(val);
-            }
-          } else {
-            sanitized[key] = tryParseJsonString(val);
-          }
-        } else {
-          sanitized[key] = tryParseJsonString(val);
-        }
-      } else if (
-        key === "function_call" &&
-        val &&
-        typeof val === "object" &&
-        "arguments" in val
-      ) {
-        // Handle function_call.arguments
-        const fc = { ...val } as Record<string, any>;
-        if (typeof fc.arguments === "string") {
-          // Apply the same fix as above for arguments
-          const trimmed = fc.arguments.trim();
-          if (
-            trimmed.startsWith('"') &&
-            !trimmed.startsWith('"{') &&
-            trimmed.includes(":") &&
-            trimmed.length > 3
-          ) {
-            const keyValueMatch = trimmed.match(/^"([^"]+)"\s*:\s*(.+)$/);
-            if (keyValueMatch && keyValueMatch[1]) {
-              const argKey: string = keyValueMatch[1];
-              let argVal: any = keyValueMatch[2] || "";
-              if (argVal.startsWith('"') && argVal.endsWith('"')) {
-                argVal = argVal
-                  .slice(1, -1)
-                  .replace(/\\"/g, '"')
-                  .replace(/\\\\/g, "\\");
-              } else {
-                try {
-                  argVal = JSON.parse(argVal);
-                } catch {
-                  // Keep as string
-                }
-              }
-              try {
-                fc.arguments = { [argKey]: argVal };
-              } catch {
-                fc.arguments = tryParseJsonString(fc.arguments);
-              }
-            } else {
-              fc.arguments = tryParseJsonString(fc.arguments);
-            }
-          } else {
-            fc.arguments = tryParseJsonString(fc.arguments);
-          }
-        }
-        sanitized[key] = sanitizeAttributes(fc);
-      } else if (
-        key === "function" &&
-        val &&
-        typeof val === "object" &&
-        "arguments" in val
-      ) {
-        // Handle tool_calls[].function.arguments
-        const fn = { ...val } as Record<string, any>;
-        if (typeof fn.arguments === "string") {
-          const trimmed = fn.arguments.trim();
-          if (
-            trimmed.startsWith('"') &&
-            !trimmed.startsWith('"{') &&
-            trimmed.includes(":") &&
-            trimmed.length > 3
-          ) {
-            const keyValueMatch = trimmed.match(/^"([^"]+)"\s*:\s*(.+)$/);
-            if (keyValueMatch && keyValueMatch[1]) {
-              const argKey: string = keyValueMatch[1];
-              let argVal: any = keyValueMatch[2] || "";
-              if (argVal.startsWith('"') && argVal.endsWith('"')) {
-                argVal = argVal
-                  .slice(1, -1)
-                  .replace(/\\"/g, '"')
-                  .replace(/\\\\/g, "\\");
-              } else {
-                try {
-                  argVal = JSON.parse(argVal);
-                } catch {
-                  // Keep as string
-                }
-              }
-              try {
-                fn.arguments = { [argKey]: argVal };
-              } catch {
-                fn.arguments = tryParseJsonString(fn.arguments);
-              }
-            } else {
-              fn.arguments = tryParseJsonString(fn.arguments);
-            }
-          } else {
-            fn.arguments = tryParseJsonString(fn.arguments);
-          }
-        }
-        sanitized[key] = sanitizeAttributes(fn);
-      } else {
-        sanitized[key] = sanitizeAttributes(val);
-      }
-    }
-    return sanitized;
-  }
-  return value;
-}
-
 // Parse NDJSON bodies as text, JSON bodies as JSON
 router.use((req, res, next) => {
   const contentType = req.headers["content-type"] || "";
@@ -402,538 +233,23 @@ router.post(
         });
       }
 
-      let validatedEvents = validationResult.data;
-
-      // Scrub secrets from event attributes before storage
-      const scrubbedEvents = validatedEvents.map((event) => {
-        const scrubbingResult = SecretsScrubbingService.scrubEventAttributes(
-          event.attributes,
-        );
-
-        // Store scrubbing metadata in event (will be used to emit signal)
-        (event as any)._scrubbing_metadata = {
-          contains_secrets: scrubbingResult.containsSecrets,
-          secret_types: scrubbingResult.secretTypes,
-        };
-
-        return {
-          ...event,
-          attributes: scrubbingResult.attributes,
-        };
-      });
-
-      // #region agent log
-      try {
-        const eventTypes: Record<string, number> = {};
-        let llmCount = 0;
-        let toolCount = 0;
-        let feedbackCount = 0;
-        let llmWithCost = 0;
-        for (const evt of scrubbedEvents) {
-          eventTypes[evt.event_type] = (eventTypes[evt.event_type] || 0) + 1;
-          if (evt.event_type === "llm_call") {
-            llmCount += 1;
-            const cost = (evt as any)?.attributes?.llm_call?.cost;
-            if (typeof cost === "number" && Number.isFinite(cost)) {
-              llmWithCost += 1;
-            }
-          } else if (evt.event_type === "tool_call") {
-            toolCount += 1;
-          } else if (evt.event_type === "feedback") {
-            feedbackCount += 1;
-          }
-        }
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "events.ts:ingest",
-              message: "ingest event summary",
-              data: {
-                eventCount: scrubbedEvents.length,
-                eventTypes,
-                llmCount,
-                toolCount,
-                feedbackCount,
-                llmWithCost,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "D",
-            }),
-          },
-        ).catch(() => {});
-      } catch {
-        // ignore debug logging errors
-      }
-      // #endregion
-
-      // Infer cost for llm_call events when missing (backend-side pricing)
-      const enrichedEvents = scrubbedEvents.map((event) => {
-        if (event.event_type !== "llm_call") return event;
-        const llm = (event.attributes as any)?.llm_call;
-        if (!llm) return event;
-
-        const inputTokens =
-          typeof llm.input_tokens === "number" ? llm.input_tokens : null;
-        const outputTokens =
-          typeof llm.output_tokens === "number" ? llm.output_tokens : null;
-        const totalTokens =
-          typeof llm.total_tokens === "number"
-            ? llm.total_tokens
-            : inputTokens !== null || outputTokens !== null
-              ? (inputTokens || 0) + (outputTokens || 0)
-              : null;
-
-        const inputCost =
-          typeof llm.input_cost === "number" ? llm.input_cost : null;
-        const outputCost =
-          typeof llm.output_cost === "number" ? llm.output_cost : null;
-        const costFromBreakdown =
-          inputCost !== null || outputCost !== null
-            ? (inputCost || 0) + (outputCost || 0)
-            : null;
-
-        const hasCost = llm.cost !== null && llm.cost !== undefined;
-        const model = typeof llm.model === "string" ? llm.model : null;
-        const estimatedCost =
-          !hasCost && costFromBreakdown !== null
-            ? costFromBreakdown
-            : !hasCost && totalTokens !== null && model
-              ? calculateCost(totalTokens, model)
-              : llm.cost;
-
-        return {
-          ...event,
-          attributes: {
-            ...event.attributes,
-            llm_call: {
-              ...llm,
-              total_tokens: totalTokens ?? llm.total_tokens ?? null,
-              cost: estimatedCost ?? llm.cost ?? null,
-            },
-          },
-        };
-      });
-
-      // #region agent log
-      try {
-        let llmWithCost = 0;
-        let llmCount = 0;
-        for (const evt of enrichedEvents) {
-          if (evt.event_type !== "llm_call") continue;
-          llmCount += 1;
-          const cost = (evt as any)?.attributes?.llm_call?.cost;
-          if (typeof cost === "number" && Number.isFinite(cost)) {
-            llmWithCost += 1;
-          }
-        }
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "events.ts:ingest",
-              message: "post-cost-enrichment summary",
-              data: { llmCount, llmWithCost },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "E",
-            }),
-          },
-        ).catch(() => {});
-      } catch {
-        // ignore debug logging errors
-      }
-      // #endregion
-
-      validatedEvents = enrichedEvents;
-
-      // Validate UUIDs for tenant/project/trace IDs
-      for (let i = 0; i < validatedEvents.length; i++) {
-        const event = validatedEvents[i];
-
-        // Validate that tenant_id and project_id match the API key context
-        if (event.tenant_id !== tenantId) {
-          return res.status(403).json({
-            error: {
-              code: "FORBIDDEN",
-              message: "Event tenant_id does not match API key tenant",
-              details: {
-                event_index: i,
-                event_tenant_id: event.tenant_id,
-                key_tenant_id: tenantId,
-              },
-            },
-          });
-        }
-
-        // If API key has a project_id, events must match it
-        // If API key has no project_id (tenant-level key), events can have any project_id in that tenant
-        if (projectId && event.project_id !== projectId) {
-          return res.status(403).json({
-            error: {
-              code: "FORBIDDEN",
-              message: "Event project_id does not match API key project",
-              details: {
-                event_index: i,
-                event_project_id: event.project_id,
-                key_project_id: projectId,
-              },
-            },
-          });
-        }
-
-        // Validate UUID format
-        if (!isValidUUIDv4(event.trace_id) || !isValidUUIDv4(event.span_id)) {
-          return res.status(400).json({
-            error: {
-              code: "INVALID_PAYLOAD",
-              message: "Invalid UUID format",
-              details: {
-                validation_errors: [
-                  {
-                    field: `events[${i}].trace_id or span_id`,
-                    message: "must be a valid UUIDv4",
-                  },
-                ],
-              },
-            },
-          });
-        }
-      }
-
-      // Convert to Tinybird format
-      // Use utility function to handle nullable field formatting for strict type checking
-      const { formatTinybirdEvents, cleanNullValues } =
-        await import("../utils/tinybirdEventFormatter.js");
-      const tinybirdEvents: TinybirdCanonicalEvent[] = validatedEvents.map(
-        (event) => {
-          // Preserve actual values when they exist, only use empty string as fallback
-          // This ensures we track which conversation/session/user each event belongs to
-          const conversationId =
-            event.conversation_id && event.conversation_id.trim() !== ""
-              ? event.conversation_id
-              : "";
-          const sessionId =
-            event.session_id && event.session_id.trim() !== ""
-              ? event.session_id
-              : "";
-          const userId =
-            event.user_id && event.user_id.trim() !== "" ? event.user_id : "";
-
-          return {
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            environment: event.environment,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            parent_span_id: event.parent_span_id ?? null,
-            timestamp: event.timestamp,
-            event_type: event.event_type,
-            // CRITICAL: conversation_id, session_id, and user_id are REQUIRED (not nullable) in Tinybird
-            // Preserve actual values when available, use empty string only as fallback
-            conversation_id: conversationId,
-            session_id: sessionId,
-            user_id: userId,
-            agent_name: event.agent_name ?? null,
-            version: event.version ?? null,
-            route: event.route ?? null,
-            // Clean null values from attributes before stringifying (for Tinybird strict type checking)
-            // Validate JSON is valid before storing
-            attributes_json: (() => {
-              try {
-                // CRITICAL: Ensure attributes is always an object (not undefined/null)
-                // This prevents attributes_json from being lost during conversion
-                // PHASE 3: Include observation_type in attributes for storage (Langfuse parity)
-                const baseAttrs = event.attributes || {};
-                const attrsWithObservation =
-                  (event as any).observation_type != null
-                    ? {
-                        ...baseAttrs,
-                        observation_type: (event as any).observation_type,
-                      }
-                    : baseAttrs;
-                const attributes = sanitizeAttributes(attrsWithObservation);
-                const cleaned = cleanNullValues(attributes);
-
-                // Ensure cleaned is an object (not undefined)
-                const finalAttributes = cleaned !== undefined ? cleaned : {};
-
-                // CRITICAL: Double-check for any remaining malformed arguments before stringifying
-                // This is a final safety net to catch any that might have been missed
-                const finalCheck = (obj: any): any => {
-                  if (obj === null || obj === undefined) return obj;
-                  if (typeof obj === "string") {
-                    const trimmed = obj.trim();
-                    if (
-                      trimmed.startsWith('"') &&
-                      !trimmed.startsWith('"{') &&
-                      trimmed.includes(":") &&
-                      trimmed.length > 3
-                    ) {
-                      // This looks like malformed JSON - try to fix it
-                      const keyValueMatch = trimmed.match(
-                        /^"([^"]+)"\s*:\s*(.+)$/,
-                      );
-                      if (keyValueMatch && keyValueMatch[1]) {
-                        const key: string = keyValueMatch[1];
-                        let val: any = keyValueMatch[2] || "";
-                        if (val.startsWith('"') && val.endsWith('"')) {
-                          val = val
-                            .slice(1, -1)
-                            .replace(/\\"/g, '"')
-                            .replace(/\\\\/g, "\\");
-                        } else {
-                          try {
-                            val = JSON.parse(val);
-                          } catch {
-                            // Keep as string
-                          }
-                        }
-                        try {
-                          return { [key]: val };
-                        } catch {
-                          return obj;
-                        }
-                      }
-                    }
-                    return obj;
-                  }
-                  if (Array.isArray(obj)) {
-                    return obj.map(finalCheck);
-                  }
-                  if (typeof obj === "object") {
-                    const result: Record<string, any> = {};
-                    for (const [key, val] of Object.entries(obj)) {
-                      if (key === "arguments" && typeof val === "string") {
-                        result[key] = finalCheck(val);
-                      } else if (
-                        key === "function_call" &&
-                        val &&
-                        typeof val === "object" &&
-                        "arguments" in val
-                      ) {
-                        result[key] = {
-                          ...val,
-                          arguments:
-                            typeof val.arguments === "string"
-                              ? finalCheck(val.arguments)
-                              : finalCheck(val.arguments),
-                        };
-                      } else if (
-                        key === "function" &&
-                        val &&
-                        typeof val === "object" &&
-                        "arguments" in val
-                      ) {
-                        result[key] = {
-                          ...val,
-                          arguments:
-                            typeof val.arguments === "string"
-                              ? finalCheck(val.arguments)
-                              : finalCheck(val.arguments),
-                        };
-                      } else {
-                        result[key] = finalCheck(val);
-                      }
-                    }
-                    return result;
-                  }
-                  return obj;
-                };
-
-                const fullySanitized = finalCheck(finalAttributes);
-                const jsonStr = JSON.stringify(fullySanitized);
-
-                // Validate it can be parsed back
-                JSON.parse(jsonStr);
-
-                // Debug logging for feedback events
-                if (event.event_type === "feedback") {
-                  console.log(
-                    `[Events API] Feedback event attributes_json:`,
-                    jsonStr.substring(0, 500),
-                  );
-                  console.log(
-                    `[Events API] Original attributes:`,
-                    JSON.stringify(attributes, null, 2).substring(0, 500),
-                  );
-                  console.log(
-                    `[Events API] Cleaned attributes:`,
-                    JSON.stringify(finalAttributes, null, 2).substring(0, 500),
-                  );
-                  console.log(
-                    `[Events API] Has feedback object:`,
-                    finalAttributes?.feedback ? "YES" : "NO",
-                    finalAttributes?.feedback
-                      ? JSON.stringify(finalAttributes.feedback)
-                      : "missing",
-                  );
-                }
-
-                return jsonStr;
-              } catch (e) {
-                console.error(
-                  `[Events API] Failed to stringify attributes for event ${event.event_type}:`,
-                  e instanceof Error ? e.message : String(e),
-                );
-                console.error(
-                  `[Events API] Attributes that failed:`,
-                  JSON.stringify(event.attributes, null, 2).substring(0, 500),
-                );
-                // Return empty JSON object as fallback
-                return "{}";
-              }
-            })(),
-          };
-        },
-      );
-
-      // DEBUG: Check for feedback events BEFORE formatting
-      const feedbackEventsBeforeFormat = tinybirdEvents.filter(
-        (e: any) => e.event_type === "feedback",
-      );
-      if (feedbackEventsBeforeFormat.length > 0) {
-        console.log(
-          `[Events API] 🔍 Found ${feedbackEventsBeforeFormat.length} feedback event(s) BEFORE formatting`,
-        );
-        feedbackEventsBeforeFormat.forEach((fe: any, i: number) => {
-          console.log(`[Events API] Raw Feedback ${i + 1}:`, {
-            event_type: fe.event_type,
-            has_attributes: !!fe.attributes_json,
-            attributes_json_type: typeof fe.attributes_json,
-            attributes_json_length: fe.attributes_json?.length || 0,
-            attributes_json_preview:
-              fe.attributes_json?.substring(0, 300) || "N/A",
-          });
-        });
-      }
-
-      // Format events to omit null fields and ensure required fields are present (for Tinybird strict type checking)
-      const formattedEvents = formatTinybirdEvents(tinybirdEvents);
-
-      // DEBUG: Log feedback events AFTER formatting (before sending to Tinybird)
-      const feedbackEventsAfterFormat = formattedEvents.filter(
-        (e: any) => e.event_type === "feedback",
+      const result = await EventIngestionService.ingestCanonicalEvents(
+        validationResult.data,
+        tenantId,
+        projectId,
       );
-      if (feedbackEventsAfterFormat.length > 0) {
-        console.log(
-          `[Events API] 📝 About to send ${feedbackEventsAfterFormat.length} feedback event(s) to Tinybird`,
-        );
-        feedbackEventsAfterFormat.forEach((fe: any, i: number) => {
-          console.log(`[Events API] Formatted Feedback ${i + 1} before send:`, {
-            event_type: fe.event_type,
-            attributes_json: fe.attributes_json?.substring(0, 300),
-            has_attributes_json: !!fe.attributes_json,
-            attributes_json_length: fe.attributes_json?.length || 0,
-            attributes_json_type: typeof fe.attributes_json,
-          });
-
-          // Try to parse and show feedback object
-          try {
-            const parsed =
-              typeof fe.attributes_json === "string"
-                ? JSON.parse(fe.attributes_json)
-                : fe.attributes_json;
-            console.log(`[Events API] Formatted Feedback ${i + 1} parsed:`, {
-              has_feedback: !!parsed?.feedback,
-              feedback_type: parsed?.feedback?.type,
-              feedback_outcome: parsed?.feedback?.outcome,
-            });
-          } catch (e) {
-            console.error(
-              `[Events API] Failed to parse formatted feedback ${i + 1}:`,
-              e,
-            );
-          }
-        });
-      } else if (feedbackEventsBeforeFormat.length > 0) {
-        console.error(
-          `[Events API] ⚠️ WARNING: ${feedbackEventsBeforeFormat.length} feedback events BEFORE formatting, but 0 AFTER formatting!`,
-        );
-        console.error(
-          `[Events API] This suggests formatTinybirdEvents is removing them!`,
-        );
-      }
-
-      // Forward to Tinybird (use formatted events, not raw tinybirdEvents)
-      // CRITICAL: This must succeed - if it fails, the request should fail
-      try {
-        await CanonicalEventService.forwardToTinybird(formattedEvents);
-        console.log(
-          `[Events API] Successfully forwarded ${formattedEvents.length} events to Tinybird`,
-        );
-      } catch (tinybirdError) {
-        const errorMessage =
-          tinybirdError instanceof Error
-            ? tinybirdError.message
-            : "Unknown Tinybird error";
-        console.error(
-          `[Events API] CRITICAL: Failed to forward events to Tinybird: ${errorMessage}`,
-        );
-        console.error(
-          `[Events API] Event count: ${formattedEvents.length}, First event:`,
-          formattedEvents[0]
-            ? JSON.stringify(formattedEvents[0], null, 2)
-            : "none",
-        );
-        // Re-throw to fail the request - events must be stored in Tinybird
-        throw new Error(`Failed to store events in Tinybird: ${errorMessage}`);
-      }
-
-      // Store trace summaries in analysis_results for dashboard compatibility
-      // Extract llm_call events and create trace summaries
-      await storeTraceSummaries(validatedEvents, tenantId, projectId).catch(
-        (error) => {
-          console.error(
-            "[Events API] Failed to store trace summaries (non-fatal):",
-            error,
-          );
-          // Don't fail the request if trace summary storage fails
-        },
-      );
-
-      // Generate Layer 2 signals (async, non-blocking)
-      // Process signals from the formatted events (they have attributes_json as string)
-      // Note: We use tinybirdEvents (before formatting) because they have the full data
-      SignalsService.processEvents(tinybirdEvents)
-        .then(() => {
-          console.log(
-            `[Events API] ✅ Processed signals for ${validatedEvents.length} events`,
-          );
-        })
-        .catch((error) => {
-          console.error(
-            "[Events API] ❌ Failed to process signals (non-fatal):",
-            error,
-          );
-        });
-
-      // Increment quota usage (use projectId if available, otherwise tenantId)
-      try {
-        await QuotaService.incrementUsage(
-          tenantId,
-          projectId,
-          validatedEvents.length,
-        );
-      } catch (quotaError) {
-        console.error(
-          "[Events API] Failed to increment quota (non-fatal):",
-          quotaError,
-        );
-        // Don't fail the request if quota increment fails
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
       }
 
       return res.status(200).json({
         success: true,
-        event_count: validatedEvents.length,
+        event_count: result.eventCount,
         message: "Events ingested successfully",
+        ...(result.rejected && {
+          rejected_event_count: result.rejected.eventCount,
+          rejected_reason: result.rejected.error,
+        }),
       });
     } catch (error) {
       console.error("[Events API] Error during event ingestion:", error);
@@ -949,305 +265,128 @@ router.post(
   },
 );
 
-/**
- * Calculate cost based on tokens and model (simplified)
- * In production, use actual pricing from model provider
- */
-function calculateCost(
-  tokensTotal: number | null,
-  model: string | null,
-): number {
-  if (!tokensTotal || !model) return 0;
-
-  // Simplified cost calculation - adjust based on actual model pricing
-  // Example: GPT-4 is ~$0.03 per 1K tokens, GPT-3.5 is ~$0.002 per 1K tokens
-  const modelPricing: Record<string, number> = {
-    "gpt-4": 0.03,
-    "gpt-4-turbo": 0.01,
-    "gpt-4o": 0.015,
-    "gpt-4o-mini": 0.003,
-    "gpt-3.5-turbo": 0.002,
-    "gpt-3.5": 0.002,
-    "claude-3-opus": 0.03,
-    "claude-3-sonnet": 0.012,
-    "claude-3-haiku": 0.0025,
-  };
-
-  const pricePer1K = modelPricing[model.toLowerCase()] || 0.002;
-  return (tokensTotal / 1000) * pricePer1K;
+// SSE comment lines keep proxies from closing idle live-tail connections
+const LIVE_TAIL_HEARTBEAT_MS = 25000;
+// Items are dropped (and counted) while a slow client has this much unsent
+const LIVE_TAIL_MAX_BUFFERED_BYTES = 1024 * 1024;
+const LIVE_TAIL_SEVERITIES = ["low", "medium", "high"];
+
+function parseListParam(...values: unknown[]): string[] | undefined {
+  const list = values
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  return list.length > 0 ? [...new Set(list)] : undefined;
 }
 
 /**
- * Store trace summaries in analysis_results table for dashboard compatibility
- * Extracts llm_call events and creates summary records
+ * GET /api/v1/events/tail
+ * Live tail of a project's incoming events and signals (Server-Sent Events)
+ *
+ * Query params:
+ * - projectId: required
+ * - eventTypes (or eventType): comma-separated event types; "signal" selects signals
+ * - routes (or route), models (or model): comma-separated
+ * - severity: comma-separated low | medium | high (signals only)
+ *
+ * Stream: `event: event` and `event: signal` messages with a JSON payload,
+ * `event: dropped` with { count } when items were skipped for a slow client,
+ * and a comment heartbeat every 25s.
  */
-async function storeTraceSummaries(
-  events: CanonicalEvent[],
-  tenantId: string,
-  projectId: string | null,
-): Promise<void> {
-  const { query } = await import("../db/client.js");
-
-  // Group events by trace_id
-  const tracesByTraceId = new Map<string, CanonicalEvent[]>();
-  for (const event of events) {
-    if (!tracesByTraceId.has(event.trace_id)) {
-      tracesByTraceId.set(event.trace_id, []);
-    }
-    tracesByTraceId.get(event.trace_id)!.push(event);
-  }
-
-  // Process each trace
-  for (const [traceId, traceEvents] of tracesByTraceId) {
-    // Find llm_call event (main event for trace summary)
-    const llmCallEvent = traceEvents.find((e) => e.event_type === "llm_call");
-    const outputEvent = traceEvents.find((e) => e.event_type === "output");
-    const traceStartEvent = traceEvents.find(
-      (e) => e.event_type === "trace_start",
-    );
-    const traceEndEvent = traceEvents.find((e) => e.event_type === "trace_end");
-
-    // Skip if no llm_call event (can't create meaningful summary)
-    if (!llmCallEvent) {
-      continue;
-    }
-
-    // Helper function to safely get attributes (parse from attributes_json if needed)
-    const getEventAttributes = (event: CanonicalEvent | any): any => {
-      if (event.attributes && typeof event.attributes === "object") {
-        return event.attributes;
-      }
-      if (
-        (event as any).attributes_json &&
-        typeof (event as any).attributes_json === "string"
-      ) {
-        try {
-          return JSON.parse((event as any).attributes_json);
-        } catch (e) {
-          console.warn(
-            `[storeTraceSummaries] Failed to parse attributes_json for ${event.event_type}:`,
-            e instanceof Error ? e.message : String(e),
-          );
-          return {};
-        }
-      }
-      return {};
-    };
-
-    const llmCallAttrs = getEventAttributes(llmCallEvent);
-    const llmAttrs = llmCallAttrs?.llm_call;
-    if (!llmAttrs) {
-      continue;
-    }
-
-    // Extract data from events
-    const rootSpanId = llmCallEvent.span_id;
-    const parentSpanId = llmCallEvent.parent_span_id;
-    const timestamp =
-      traceStartEvent?.timestamp ||
-      llmCallEvent.timestamp ||
-      new Date().toISOString();
-    const environment = llmCallEvent.environment;
-    const conversationId = llmCallEvent.conversation_id;
-    const sessionId = llmCallEvent.session_id;
-    const userId = llmCallEvent.user_id;
-
-    // --- Basic "issues" detection (10-minute dashboard path) ---
-    // We compute a minimal issues summary from canonical events and store it into Postgres
-    // so the dashboard can show non-zero counts even if Tinybird signals/queries lag.
-
-    // Helper function to safely get attributes from event
-    // CanonicalEvent has attributes as object, but we handle both cases for safety
-    const getAttributes = (event: CanonicalEvent | any): any => {
-      // If attributes already exists (from incoming event), use it
-      if (event.attributes && typeof event.attributes === "object") {
-        return event.attributes;
+router.get(
+  "/tail",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const projectId = req.query.projectId;
+      if (typeof projectId !== "string" || !isValidUUIDv4(projectId)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "projectId must be a valid UUID",
+          },
+        });
       }
-      // Otherwise, try to parse attributes_json (for events that might come from Tinybird)
-      if (
-        (event as any).attributes_json &&
-        typeof (event as any).attributes_json === "string"
-      ) {
-        try {
-          return JSON.parse((event as any).attributes_json);
-        } catch (e) {
-          console.warn(
-            `[storeTraceSummaries] Failed to parse attributes_json for event ${event.event_type}:`,
-            e instanceof Error ? e.message : String(e),
-          );
-          return {};
-        }
+      const project = await TenantService.getProject(projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return res.status(404).json({
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
       }
-      return {};
-    };
-
-    const errorEvents = traceEvents.filter((e) => e.event_type === "error");
-    const errorTypes: Record<string, number> = {};
-    for (const e of errorEvents) {
-      const attrs = getAttributes(e);
-      const t = attrs?.error?.error_type || "error";
-      errorTypes[t] = (errorTypes[t] || 0) + 1;
-    }
 
-    const toolCalls = traceEvents.filter((e) => e.event_type === "tool_call");
-    const toolFailures = toolCalls.filter((e) => {
-      const attrs = getAttributes(e);
-      return (
-        attrs?.tool_call?.result_status &&
-        attrs.tool_call.result_status !== "success"
+      const severities = parseListParam(req.query.severity);
+      const invalidSeverity = severities?.find(
+        (severity) => !LIVE_TAIL_SEVERITIES.includes(severity),
       );
-    });
-    const toolTimeouts = toolCalls.filter((e) => {
-      const attrs = getAttributes(e);
-      return attrs?.tool_call?.result_status === "timeout";
-    });
-
-    const hasIssues =
-      errorEvents.length > 0 ||
-      toolFailures.length > 0 ||
-      toolTimeouts.length > 0;
-    const derivedStatus = hasIssues ? 500 : 200;
-    const derivedStatusText = hasIssues
-      ? `error:${Object.keys(errorTypes)[0] || "unknown"}`
-      : "OK";
-
-    // Get message index from trace_start metadata if available
-    let messageIndex: number | null = null;
-    if (traceStartEvent) {
-      const traceStartAttrs = getEventAttributes(traceStartEvent);
-      if (traceStartAttrs?.trace_start?.metadata?.message_index !== undefined) {
-        messageIndex = traceStartAttrs.trace_start.metadata
-          .message_index as number;
-      }
-    }
-
-    // Calculate total latency from trace_end if available
-    let latencyMs = llmAttrs.latency_ms || 0;
-    if (traceEndEvent) {
-      const traceEndAttrs = getEventAttributes(traceEndEvent);
-      if (traceEndAttrs?.trace_end?.total_latency_ms) {
-        latencyMs = traceEndAttrs.trace_end.total_latency_ms;
-      }
-    }
-
-    // Create TraceEvent-like object for storage
-    const traceData: TraceEvent = {
-      traceId,
-      spanId: rootSpanId,
-      parentSpanId: parentSpanId || null,
-      timestamp,
-      tenantId,
-      projectId: projectId || "",
-      environment: environment as "dev" | "prod",
-      query: llmAttrs.input || "",
-      response:
-        llmAttrs.output ||
-        (outputEvent
-          ? getEventAttributes(outputEvent)?.output?.final_output
-          : "") ||
-        "",
-      responseLength:
-        llmAttrs.output?.length ||
-        (outputEvent
-          ? getEventAttributes(outputEvent)?.output?.output_length
-          : null) ||
-        0,
-      model: llmAttrs.model || "",
-      tokensPrompt: llmAttrs.input_tokens || null,
-      tokensCompletion: llmAttrs.output_tokens || null,
-      tokensTotal: llmAttrs.total_tokens || null,
-      latencyMs,
-      timeToFirstTokenMs: null, // Not available in canonical events
-      streamingDurationMs: null, // Not available in canonical events
-      status: derivedStatus,
-      statusText: derivedStatusText,
-      finishReason: llmAttrs.finish_reason || null,
-      responseId: llmAttrs.response_id || null,
-      systemFingerprint: llmAttrs.system_fingerprint || null,
-      metadata: {
-        issues: {
-          has_issues: hasIssues,
-          error_events: errorEvents.length,
-          error_types: errorTypes,
-          tool_failures: toolFailures.length,
-          tool_timeouts: toolTimeouts.length,
-        },
-      },
-      conversationId: conversationId || undefined,
-      sessionId: sessionId || undefined,
-      userId: userId || undefined,
-      messageIndex: messageIndex || undefined,
-    };
-
-    // Store in analysis_results using TraceService
-    await TraceService.storeTraceData(traceData);
-    console.log(
-      `[Events API] Stored trace summary for ${traceId} in analysis_results`,
-    );
-
-    // Handle conversation tracking (if provided)
-    if (conversationId && projectId) {
-      try {
-        // Get or create conversation
-        const conversation = await ConversationService.getOrCreate({
-          conversationId,
-          tenantId,
-          projectId,
-          userId: userId || undefined,
-        });
-
-        // Update conversation metrics
-        await ConversationService.updateConversationMetrics({
-          conversationId,
-          tenantId,
-          tokensTotal: traceData.tokensTotal ?? null,
-          cost: calculateCost(
-            traceData.tokensTotal ?? null,
-            traceData.model || null,
-          ),
-          hasIssues, // Basic detection from canonical events
+      if (invalidSeverity) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: `Invalid severity "${invalidSeverity}"; expected low, medium or high`,
+          },
         });
-
-        console.log(
-          `[Events API] Updated conversation ${conversationId} - TraceID: ${traceId}`,
-        );
-      } catch (error) {
-        console.error(
-          `[Events API] Failed to update conversation (non-fatal):`,
-          error,
-        );
-        // Don't throw - conversation tracking failure shouldn't break event ingestion
       }
-    }
-
-    // Handle session tracking (if provided)
-    if (sessionId && projectId) {
-      try {
-        await ConversationService.getOrCreateSession({
-          sessionId,
-          tenantId,
-          projectId,
-          userId: userId || undefined,
-          conversationId: conversationId || undefined,
-        });
-
-        await ConversationService.updateSessionMetrics({
-          sessionId,
-          tenantId,
-        });
+      const filter: LiveTailFilter = {
+        eventTypes: parseListParam(req.query.eventTypes, req.query.eventType),
+        routes: parseListParam(req.query.routes, req.query.route),
+        models: parseListParam(req.query.models, req.query.model),
+        severities: severities as LiveTailFilter["severities"],
+      };
+
+      res.status(200);
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      res.flushHeaders();
+      res.write(`event: ready\ndata: ${JSON.stringify({ projectId, filter })}\n\n`);
+
+      let dropped = 0;
+      const unsubscribe = LiveTailService.subscribe(
+        user.tenantId,
+        projectId,
+        filter,
+        (item) => {
+          if (res.writableLength > LIVE_TAIL_MAX_BUFFERED_BYTES) {
+            dropped++;
+            return;
+          }
+          if (dropped > 0) {
+            res.write(`event: dropped\ndata: ${JSON.stringify({ count: dropped })}\n\n`);
+            dropped = 0;
+          }
+          res.write(`event: ${item.kind}\ndata: ${JSON.stringify(item)}\n\n`);
+        },
+      );
+      const heartbeat = setInterval(() => {
+        res.write(`: heartbeat\n\n`);
+      }, LIVE_TAIL_HEARTBEAT_MS);
 
-        console.log(
-          `[Events API] Updated session ${sessionId} - TraceID: ${traceId}`,
-        );
-      } catch (error) {
-        console.error(
-          `[Events API] Failed to update session (non-fatal):`,
-          error,
-        );
-        // Don't throw - session tracking failure shouldn't break event ingestion
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error("[Events API] Error starting live tail:", error);
+      if (res.headersSent) {
+        return res.end();
       }
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: {
+          code: "INTERNAL_ERROR",
+          message: errorMessage,
+        },
+      });
     }
-  }
-}
+  },
+);
 
 export default router;
@@ -0,0 +1,352 @@
+/**
+ * Experiments Routes
+ *
+ * Run a dataset against an HTTP target, score the outputs, and compare two
+ * experiments item by item. Runs execute in the background; poll
+ * GET /:experimentId for status and summary.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { ExperimentService } from "../services/experimentService.js";
+import { DatasetService } from "../services/datasetService.js";
+import { TenantService } from "../services/tenantService.js";
+import { experimentSchema } from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Experiments API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+async function loadExperiment(tenantId: string, experimentId: string) {
+  if (!isValidUUIDv4(experimentId)) return null;
+  return ExperimentService.getExperiment(tenantId, experimentId);
+}
+
+/**
+ * GET /api/v1/experiments
+ *
+ * Query params:
+ * - datasetId: filter by dataset
+ * - projectId: filter by project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const datasetId = req.query.datasetId as string | undefined;
+    const projectId = req.query.projectId as string | undefined;
+    const experiments = await ExperimentService.listExperiments(user.tenantId, {
+      datasetId: datasetId && isValidUUIDv4(datasetId) ? datasetId : undefined,
+      projectId: projectId || undefined,
+    });
+    return res.status(200).json({
+      success: true,
+      experiments: experiments.map((e) => ExperimentService.toPublic(e)),
+      count: experiments.length,
+    });
+  } catch (error) {
+    return internalError(res, "listing experiments", error);
+  }
+});
+
+/**
+ * POST /api/v1/experiments
+ * Create an experiment and (unless run=false) start running it.
+ * Returns 202 when a run was started, 201 otherwise.
+ *
+ * Body: { name, datasetId, targetUrl, targetHeaders?, scorers?, projectId?, description?, metadata?, run? }
+ * projectId defaults to the dataset's project; experiment traces are ingested into it.
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = experimentSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+
+    const { run, ...input } = bodyResult.data;
+    const dataset = await DatasetService.getDataset(
+      user.tenantId,
+      input.datasetId
+    );
+    if (!dataset) {
+      return notFound(res, "Dataset not found");
+    }
+
+    const projectId = input.projectId || dataset.project_id;
+    if (!projectId) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message:
+            "projectId is required when the dataset is not scoped to a project",
+        },
+      });
+    }
+    const project = await TenantService.getProject(projectId);
+    if (!project || project.tenantId !== user.tenantId) {
+      return notFound(res, "Project not found");
+    }
+
+    const experiment = await ExperimentService.createExperiment(
+      user.tenantId,
+      user.id,
+      dataset,
+      projectId,
+      input
+    );
+
+    if (run === false) {
+      return res
+        .status(201)
+        .json({ success: true, experiment: ExperimentService.toPublic(experiment) });
+    }
+
+    await ExperimentService.markRunning(experiment.id);
+    await ExperimentService.startRun(experiment);
+    return res.status(202).json({
+      success: true,
+      experiment: ExperimentService.toPublic({ ...experiment, status: "running" }),
+    });
+  } catch (error) {
+    return internalError(res, "creating experiment", error);
+  }
+});
+
+/**
+ * GET /api/v1/experiments/compare?a=<experimentId>&b=<experimentId>
+ * Item-by-item comparison of two experiments on the same dataset:
+ * regressions and improvements (by pass/fail) plus summary deltas (b - a).
+ */
+router.get(
+  "/compare",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const a = await loadExperiment(user.tenantId, String(req.query.a || ""));
+      const b = await loadExperiment(user.tenantId, String(req.query.b || ""));
+      if (!a || !b) {
+        return notFound(res, "Experiment not found");
+      }
+      if (a.dataset_id !== b.dataset_id) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "Experiments must be run on the same dataset",
+          },
+        });
+      }
+
+      const [resultsA, resultsB, items] = await Promise.all([
+        ExperimentService.getResults(a.id),
+        ExperimentService.getResults(b.id),
+        DatasetService.getAllItems(user.tenantId, a.dataset_id),
+      ]);
+      const summaryA = a.summary || ExperimentService.summarize(resultsA);
+      const summaryB = b.summary || ExperimentService.summarize(resultsB);
+      const delta = (x: number | null, y: number | null) =>
+        x !== null && y !== null ? y - x : null;
+
+      const comparison = ExperimentService.compareResults(
+        resultsA,
+        resultsB,
+        new Map(items.map((item) => [item.id, item]))
+      );
+
+      return res.status(200).json({
+        success: true,
+        a: { experiment: ExperimentService.toPublic(a), summary: summaryA },
+        b: { experiment: ExperimentService.toPublic(b), summary: summaryB },
+        deltas: {
+          pass_rate: summaryB.pass_rate - summaryA.pass_rate,
+          avg_latency_ms: delta(summaryA.avg_latency_ms, summaryB.avg_latency_ms),
+          p95_latency_ms: delta(summaryA.p95_latency_ms, summaryB.p95_latency_ms),
+          avg_cost: delta(summaryA.avg_cost, summaryB.avg_cost),
+          total_cost: summaryB.total_cost - summaryA.total_cost,
+        },
+        counts: comparison.counts,
+        items: comparison.items,
+      });
+    } catch (error) {
+      return internalError(res, "comparing experiments", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/experiments/:experimentId
+ * Experiment with status and summary (partial summary while running)
+ */
+router.get(
+  "/:experimentId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const experiment = await loadExperiment(
+        user.tenantId,
+        req.params.experimentId
+      );
+      if (!experiment) {
+        return notFound(res, "Experiment not found");
+      }
+
+      const summary =
+        experiment.summary ||
+        (experiment.status === "running"
+          ? ExperimentService.summarize(
+              await ExperimentService.getResults(experiment.id)
+            )
+          : null);
+      return res.status(200).json({
+        success: true,
+        experiment: ExperimentService.toPublic({ ...experiment, summary }),
+      });
+    } catch (error) {
+      return internalError(res, "getting experiment", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/experiments/:experimentId/results
+ *
+ * Query params:
+ * - status: success | error
+ * - passed: true | false
+ */
+router.get(
+  "/:experimentId/results",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const experiment = await loadExperiment(
+        user.tenantId,
+        req.params.experimentId
+      );
+      if (!experiment) {
+        return notFound(res, "Experiment not found");
+      }
+
+      let results = await ExperimentService.getResults(experiment.id);
+      if (req.query.status) {
+        results = results.filter((r) => r.status === req.query.status);
+      }
+      if (req.query.passed === "true" || req.query.passed === "false") {
+        const passed = req.query.passed === "true";
+        results = results.filter((r) => r.passed === passed);
+      }
+
+      return res
+        .status(200)
+        .json({ success: true, results, count: results.length });
+    } catch (error) {
+      return internalError(res, "listing results", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/experiments/:experimentId/run
+ * (Re-)run an experiment; previous results are replaced. 409 while running
+ * (unless the run went stale).
+ */
+router.post(
+  "/:experimentId/run",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const experiment = await loadExperiment(
+        user.tenantId,
+        req.params.experimentId
+      );
+      if (!experiment) {
+        return notFound(res, "Experiment not found");
+      }
+
+      const started = await ExperimentService.markRunning(experiment.id);
+      if (!started) {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "Experiment is already running",
+          },
+        });
+      }
+
+      await ExperimentService.startRun(experiment);
+      return res.status(202).json({
+        success: true,
+        experiment: ExperimentService.toPublic({
+          ...experiment,
+          status: "running",
+          summary: null,
+          error: null,
+        }),
+      });
+    } catch (error) {
+      return internalError(res, "running experiment", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/experiments/:experimentId
+ */
+router.delete(
+  "/:experimentId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { experimentId } = req.params;
+      const deleted =
+        isValidUUIDv4(experimentId) &&
+        (await ExperimentService.deleteExperiment(user.tenantId, experimentId));
+      if (!deleted) {
+        return notFound(res, "Experiment not found");
+      }
+      return res.status(200).json({ success: true, id: experimentId });
+    } catch (error) {
+      return internalError(res, "deleting experiment", error);
+    }
+  }
+);
+
+export default router;
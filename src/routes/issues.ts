@@ -3,11 +3,23 @@
  * 
  * SOTA: Endpoints for issues timeline view
  * Returns signals/issues with filtering and grouping options
+ * /groups endpoints expose fingerprinted issues with lifecycle state
  */
 
 import { Router, Request, Response } from "express";
-import { AuthService } from "../services/authService.js";
+import { AuthService, User } from "../services/authService.js";
 import { SignalsQueryService } from "../services/signalsQueryService.js";
+import {
+  ISSUE_SEVERITIES,
+  ISSUE_STATUSES,
+  IssueSeverity,
+  IssueStatus,
+  IssuesService,
+} from "../services/issuesService.js";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { issueStatusUpdateSchema } from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { SavedViewService } from "../services/savedViewService.js";
 
 const router = Router();
 
@@ -24,6 +36,7 @@ const router = Router();
  * - model: filter by model
  * - limit: number of results (default: 50)
  * - offset: pagination offset (default: 0)
+ * - viewId: saved view (GET /api/v1/views) supplying defaults for the above
  */
 router.get("/", async (req: Request, res: Response) => {
   try {
@@ -49,17 +62,41 @@ router.get("/", async (req: Request, res: Response) => {
       });
     }
 
-    const projectId = req.query.projectId as string | undefined;
-    const severity = req.query.severity as "high" | "medium" | "low" | undefined;
+    let projectId = req.query.projectId as string | undefined;
+    let severity = req.query.severity as "high" | "medium" | "low" | undefined;
     const signalNamesParam = req.query.signalNames as string | undefined;
-    const signalNames = signalNamesParam
+    let signalNames = signalNamesParam
       ? signalNamesParam.split(",").map((s) => s.trim())
       : undefined;
-    const startTime = req.query.startTime as string | undefined;
-    const endTime = req.query.endTime as string | undefined;
+    let startTime = req.query.startTime as string | undefined;
+    let endTime = req.query.endTime as string | undefined;
     const limit = parseInt(req.query.limit as string) || 50;
     const offset = parseInt(req.query.offset as string) || 0;
 
+    // Saved view: fills in whatever the query params leave out
+    const viewId = req.query.viewId as string | undefined;
+    if (viewId) {
+      const view = isValidUUIDv4(viewId)
+        ? await SavedViewService.getView(user.tenantId, user.id, viewId)
+        : null;
+      if (!view || view.resource !== "issues") {
+        return res.status(404).json({
+          error: {
+            code: "NOT_FOUND",
+            message: "View not found",
+          },
+        });
+      }
+      const viewFilters = SavedViewService.issueViewFilters(view);
+      projectId = projectId || view.project_id || undefined;
+      severity = severity ?? viewFilters.severity;
+      signalNames = signalNames ?? viewFilters.signalNames;
+      if (!startTime && !endTime) {
+        startTime = viewFilters.startTime;
+        endTime = viewFilters.endTime;
+      }
+    }
+
     // Default to last 24 hours if no time range specified
     let start: string;
     let end: string;
@@ -388,6 +425,221 @@ router.get("/summary", async (req: Request, res: Response) => {
   }
 });
 
+function issueNotFound(res: Response) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message: "Issue not found",
+    },
+  });
+}
+
+/**
+ * GET /api/v1/issues/groups
+ * Issues: signals deduplicated by fingerprint, with lifecycle state
+ *
+ * Query params:
+ * - projectId: filter by project
+ * - status: comma-separated statuses (default: open,acknowledged,regressed)
+ *           use "all" for every status
+ * - signalNames: comma-separated list of signal names
+ * - severity: high | medium | low
+ * - days: only issues seen in the last N days
+ * - limit: number of results (default: 50)
+ * - offset: pagination offset (default: 0)
+ */
+router.get(
+  "/groups",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const projectId = req.query.projectId as string | undefined;
+      const statusParam = (req.query.status as string | undefined) || "";
+      const signalNamesParam = req.query.signalNames as string | undefined;
+      const severity = req.query.severity as IssueSeverity | undefined;
+      const days = parseInt(req.query.days as string) || undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      if (projectId && !isValidUUIDv4(projectId)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "projectId must be a valid UUID",
+          },
+        });
+      }
+      if (severity && !ISSUE_SEVERITIES.includes(severity)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: `Invalid severity: ${severity}. Must be one of: ${ISSUE_SEVERITIES.join(", ")}`,
+          },
+        });
+      }
+
+      let statuses: IssueStatus[] | undefined = [
+        "open",
+        "acknowledged",
+        "regressed",
+      ];
+      if (statusParam === "all") {
+        statuses = undefined;
+      } else if (statusParam) {
+        const requested = statusParam.split(",").map((s) => s.trim());
+        const invalid = requested.filter(
+          (s) => !ISSUE_STATUSES.includes(s as IssueStatus)
+        );
+        if (invalid.length > 0) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message: `Invalid status: ${invalid.join(", ")}. Must be one of: ${ISSUE_STATUSES.join(", ")}`,
+            },
+          });
+        }
+        statuses = requested as IssueStatus[];
+      }
+
+      let since: string | undefined;
+      if (days) {
+        const sinceDate = new Date();
+        sinceDate.setDate(sinceDate.getDate() - days);
+        since = sinceDate.toISOString();
+      }
+
+      const { issues, total } = await IssuesService.listIssues(user.tenantId, {
+        projectId: projectId || null,
+        statuses,
+        signalNames: signalNamesParam
+          ? signalNamesParam.split(",").map((s) => s.trim())
+          : undefined,
+        severity,
+        since,
+        limit,
+        offset,
+      });
+
+      return res.status(200).json({
+        success: true,
+        issues,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + issues.length < total,
+        },
+      });
+    } catch (error) {
+      console.error("[Issues API] Error listing grouped issues:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: {
+          code: "INTERNAL_ERROR",
+          message: errorMessage,
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/issues/groups/:issueId
+ * Issue details with the most recently affected traces
+ */
+router.get(
+  "/groups/:issueId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { issueId } = req.params;
+      if (!isValidUUIDv4(issueId)) {
+        return issueNotFound(res);
+      }
+
+      const issue = await IssuesService.getIssue(user.tenantId, issueId);
+      if (!issue) {
+        return issueNotFound(res);
+      }
+
+      const traces = await IssuesService.getIssueTraces(issueId);
+
+      return res.status(200).json({ success: true, issue, traces });
+    } catch (error) {
+      console.error("[Issues API] Error fetching issue:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: {
+          code: "INTERNAL_ERROR",
+          message: errorMessage,
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/issues/groups/:issueId
+ * Change issue state
+ *
+ * Body: { status: "open" | "acknowledged" | "resolved" | "ignored" | "regressed" }
+ */
+router.patch(
+  "/groups/:issueId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { issueId } = req.params;
+      if (!isValidUUIDv4(issueId)) {
+        return issueNotFound(res);
+      }
+
+      const bodyResult = issueStatusUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return res.status(400).json({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request validation failed",
+            details: {
+              validation_errors: bodyResult.error.issues.map((issue) => ({
+                field: issue.path.join("."),
+                message: issue.message,
+              })),
+            },
+          },
+        });
+      }
+
+      const issue = await IssuesService.updateStatus(
+        user.tenantId,
+        issueId,
+        bodyResult.data.status,
+        user.id
+      );
+      if (!issue) {
+        return issueNotFound(res);
+      }
+
+      return res.status(200).json({ success: true, issue });
+    } catch (error) {
+      console.error("[Issues API] Error updating issue status:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: {
+          code: "INTERNAL_ERROR",
+          message: errorMessage,
+        },
+      });
+    }
+  }
+);
+
 export default router;
 
 
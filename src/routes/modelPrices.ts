@@ -0,0 +1,264 @@
+/**
+ * Model Prices Routes
+ *
+ * Pricing catalog used for cost calculation: list global list prices and the
+ * tenant's overrides, resolve the price for a model, and manage overrides
+ * (negotiated rates, effective date ranges).
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { ModelPricingService } from "../services/modelPricingService.js";
+import { User } from "../services/authService.js";
+import {
+  modelPriceSchema,
+  modelPriceUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function invalidPattern(res: Response) {
+  return res.status(400).json({
+    error: {
+      code: "INVALID_PAYLOAD",
+      message: "matchPattern is not a valid regular expression",
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Model Prices API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+/**
+ * GET /api/v1/model-prices
+ * Global catalog plus the tenant's overrides (overrides first)
+ *
+ * Query params:
+ * - overridesOnly: "true" to list only the tenant's overrides
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    let prices = await ModelPricingService.listPrices(user.tenantId);
+    if (req.query.overridesOnly === "true") {
+      prices = prices.filter((price) => price.is_override);
+    }
+    return res.status(200).json({ success: true, prices, count: prices.length });
+  } catch (error) {
+    return internalError(res, "listing model prices", error);
+  }
+});
+
+/**
+ * GET /api/v1/model-prices/resolve?model=gpt-4o-2024-08-06&at=2025-01-01T00:00:00Z
+ * The price that applies to a model (optionally at a point in time)
+ */
+router.get(
+  "/resolve",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const model = typeof req.query.model === "string" ? req.query.model : "";
+      if (!model) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "model query parameter is required",
+          },
+        });
+      }
+      const at = req.query.at ? new Date(String(req.query.at)) : new Date();
+      if (Number.isNaN(at.getTime())) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "at must be an ISO 8601 timestamp",
+          },
+        });
+      }
+
+      const prices = await ModelPricingService.getCatalog(user.tenantId);
+      const price = ModelPricingService.resolvePrice(prices, model, at);
+      if (!price) {
+        return notFound(res, `No price found for model "${model}"`);
+      }
+      return res.status(200).json({ success: true, model, at: at.toISOString(), price });
+    } catch (error) {
+      return internalError(res, "resolving model price", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/model-prices
+ * Create a tenant override
+ *
+ * Body: { modelName, provider?, matchPattern?, inputPricePer1k, outputPricePer1k,
+ *         cachedInputPricePer1k?, effectiveFrom?, effectiveTo? }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = modelPriceSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+    const input = bodyResult.data;
+    if (
+      input.matchPattern &&
+      !(await ModelPricingService.isValidPattern(input.matchPattern))
+    ) {
+      return invalidPattern(res);
+    }
+
+    const price = await ModelPricingService.createOverride(user.tenantId, input);
+    if (!price) {
+      return res.status(409).json({
+        error: {
+          code: "CONFLICT",
+          message: `An override for "${input.modelName}" with this effectiveFrom already exists`,
+        },
+      });
+    }
+    return res.status(201).json({ success: true, price });
+  } catch (error) {
+    return internalError(res, "creating model price", error);
+  }
+});
+
+/**
+ * PATCH /api/v1/model-prices/:priceId
+ * Update a tenant override (global prices are read-only)
+ */
+router.patch(
+  "/:priceId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { priceId } = req.params;
+      if (!isValidUUIDv4(priceId)) {
+        return notFound(res, "Model price override not found");
+      }
+      const bodyResult = modelPriceUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const input = bodyResult.data;
+      if (
+        input.matchPattern &&
+        !(await ModelPricingService.isValidPattern(input.matchPattern))
+      ) {
+        return invalidPattern(res);
+      }
+
+      const existing = await ModelPricingService.getOverride(
+        user.tenantId,
+        priceId
+      );
+      if (!existing) {
+        return notFound(res, "Model price override not found");
+      }
+      const effectiveFrom =
+        input.effectiveFrom !== undefined
+          ? input.effectiveFrom
+          : existing.effective_from;
+      const effectiveTo =
+        input.effectiveTo !== undefined ? input.effectiveTo : existing.effective_to;
+      if (
+        effectiveFrom &&
+        effectiveTo &&
+        new Date(effectiveTo) <= new Date(effectiveFrom)
+      ) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "effectiveTo must be after effectiveFrom",
+          },
+        });
+      }
+
+      const price = await ModelPricingService.updateOverride(
+        user.tenantId,
+        priceId,
+        input
+      );
+      if (!price) {
+        return notFound(res, "Model price override not found");
+      }
+      return res.status(200).json({ success: true, price });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "An override for this model with this effectiveFrom already exists",
+          },
+        });
+      }
+      return internalError(res, "updating model price", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/model-prices/:priceId
+ * Delete a tenant override (the global price applies again)
+ */
+router.delete(
+  "/:priceId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { priceId } = req.params;
+      if (!isValidUUIDv4(priceId)) {
+        return notFound(res, "Model price override not found");
+      }
+      const deleted = await ModelPricingService.deleteOverride(
+        user.tenantId,
+        priceId
+      );
+      if (!deleted) {
+        return notFound(res, "Model price override not found");
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      return internalError(res, "deleting model price", error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,226 @@
+/**
+ * OTLP Routes
+ *
+ * OpenTelemetry OTLP/HTTP trace receiver: /api/v1/otlp/v1/traces
+ * Point an exporter at OTEL_EXPORTER_OTLP_ENDPOINT=<api>/api/v1/otlp
+ */
+
+import { Router, Request, Response } from "express";
+import express from "express";
+import { apiKeyMiddleware } from "../middleware/apiKeyMiddleware.js";
+import { rateLimitMiddleware } from "../middleware/rateLimitMiddleware.js";
+import { quotaMiddleware } from "../middleware/quotaMiddleware.js";
+import { payloadLimitMiddleware } from "../middleware/payloadLimitMiddleware.js";
+import {
+  OtlpTranslationService,
+  OtlpTracesRequest,
+} from "../services/otlpTranslationService.js";
+import { batchEventsSchema } from "../validation/schemas.js";
+import { EventIngestionService } from "../services/eventIngestionService.js";
+import { CanonicalEvent } from "../types/events.js";
+
+const router = Router();
+
+const MAX_EVENTS_PER_BATCH = 1000;
+
+// Protobuf bodies arrive as raw bytes; JSON is handled by the JSON parser
+router.use(
+  express.raw({
+    limit: "5mb",
+    type: ["application/x-protobuf", "application/protobuf"],
+  }),
+);
+router.use(express.json({ limit: "5mb" }));
+
+/**
+ * POST /api/v1/otlp/v1/traces
+ * OTLP/HTTP trace export (ExportTraceServiceRequest)
+ *
+ * Accepts:
+ * - Content-Type: application/x-protobuf (binary protobuf encoding)
+ * - Content-Type: application/json (OTLP/JSON encoding)
+ *
+ * Headers:
+ *   Authorization: Bearer <API_KEY> (sk_ or pk_)
+ *
+ * Spans following the OpenTelemetry GenAI semantic conventions are converted
+ * to canonical events and ingested through the same pipeline as
+ * /api/v1/events/ingest. Tenant-level keys must set the observa.project_id
+ * resource attribute.
+ *
+ * Response: ExportTraceServiceResponse (partialSuccess when spans were rejected)
+ */
+router.post(
+  "/v1/traces",
+  apiKeyMiddleware("ingest"),
+  payloadLimitMiddleware,
+  rateLimitMiddleware,
+  quotaMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req as any).tenantId;
+      const projectId = (req as any).projectId;
+      const contentType = req.headers["content-type"] || "";
+      const isProtobuf = contentType.includes("protobuf");
+
+      let request: OtlpTracesRequest;
+      if (isProtobuf) {
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message: "Empty protobuf body",
+            },
+          });
+        }
+        try {
+          request = OtlpTranslationService.decodeProtobuf(req.body);
+        } catch (decodeError) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message:
+                "Invalid OTLP protobuf payload: " +
+                (decodeError instanceof Error
+                  ? decodeError.message
+                  : "Unknown error"),
+            },
+          });
+        }
+      } else {
+        if (!req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message: "Request body must be an OTLP ExportTraceServiceRequest",
+              details: {
+                hint: "Send application/json or application/x-protobuf",
+              },
+            },
+          });
+        }
+        request = req.body as OtlpTracesRequest;
+      }
+
+      const translation = OtlpTranslationService.toCanonicalEvents(request, {
+        tenantId,
+        projectId,
+      });
+
+      // Non-GenAI spans are skipped silently; only report spans we could not convert
+      const errorMessages = [...translation.errors];
+      let rejectedSpans = translation.rejectedSpanCount;
+      const sendResponse = () => {
+        if (isProtobuf) {
+          res.setHeader("Content-Type", "application/x-protobuf");
+          return res
+            .status(200)
+            .send(
+              OtlpTranslationService.encodeExportResponse(
+                rejectedSpans,
+                errorMessages.join("; "),
+              ),
+            );
+        }
+        return res.status(200).json(
+          rejectedSpans > 0
+            ? {
+                partialSuccess: {
+                  rejectedSpans,
+                  errorMessage: errorMessages.join("; "),
+                },
+              }
+            : {},
+        );
+      };
+
+      if (translation.events.length === 0) {
+        if (translation.errors.length > 0) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message: translation.errors[0],
+              details: { errors: translation.errors },
+            },
+          });
+        }
+        return sendResponse();
+      }
+
+      // Same validation as native canonical events, in batches of the
+      // /events/ingest maximum (exporters may send more spans per request).
+      // Every batch is validated before anything is stored so a 422 never
+      // leaves a partial export behind for the exporter to retry.
+      const events: CanonicalEvent[] = [];
+      for (let i = 0; i < translation.events.length; i += MAX_EVENTS_PER_BATCH) {
+        const validationResult = batchEventsSchema.safeParse(
+          translation.events.slice(i, i + MAX_EVENTS_PER_BATCH),
+        );
+        if (!validationResult.success) {
+          return res.status(422).json({
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Converted OTLP spans failed validation",
+              details: {
+                validation_errors: validationResult.error.issues.map(
+                  (issue) => ({
+                    field: issue.path.join("."),
+                    message: issue.message,
+                  }),
+                ),
+              },
+            },
+          });
+        }
+        events.push(...validationResult.data);
+      }
+
+      // One pipeline run per request so loop detection and trace summaries
+      // see whole traces rather than batch-sized fragments
+      const result = await EventIngestionService.ingestCanonicalEvents(
+        events,
+        tenantId,
+        projectId,
+      );
+      // An export of only llm_call/embedding spans under an exhausted hard
+      // budget is rejected like the spans dropped from a mixed export
+      const budgetRejected = result.ok
+        ? result.rejected
+        : result.error.code === "BUDGET_EXCEEDED"
+          ? { eventCount: events.length, error: result.error }
+          : undefined;
+      if (!result.ok && !budgetRejected) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      const eventCount = result.ok ? result.eventCount : 0;
+      if (budgetRejected) {
+        rejectedSpans += budgetRejected.eventCount;
+        if (!errorMessages.includes(budgetRejected.error.message)) {
+          errorMessages.push(budgetRejected.error.message);
+        }
+      }
+
+      console.log(
+        `[OTLP API] Ingested ${eventCount} events from ${translation.spanCount} spans (${translation.skippedSpanCount} skipped, ${rejectedSpans} rejected)`,
+      );
+
+      if (eventCount === 0 && budgetRejected) {
+        return res.status(429).json({ error: budgetRejected.error });
+      }
+
+      return sendResponse();
+    } catch (error) {
+      console.error("[OTLP API] Error during trace export:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: {
+          code: "INTERNAL_ERROR",
+          message: errorMessage,
+        },
+      });
+    }
+  },
+);
+
+export default router;
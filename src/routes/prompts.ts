@@ -0,0 +1,605 @@
+/**
+ * Prompts Routes
+ *
+ * Prompt registry: templates with immutable versions and movable labels
+ * (session auth), plus the SDK fetch endpoint by name and label (API key).
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { apiKeyMiddleware } from "../middleware/apiKeyMiddleware.js";
+import { PromptService, PromptTemplate } from "../services/promptService.js";
+import { PromptAnalyticsService } from "../services/promptAnalyticsService.js";
+import { TenantService } from "../services/tenantService.js";
+import { User } from "../services/authService.js";
+import {
+  promptSchema,
+  promptVersionSchema,
+  promptUpdateSchema,
+  promptLabelSchema,
+  promptLabelUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Prompts API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+/**
+ * Time range from startTime/endTime, or the last `days` days (default 30)
+ * Returns null when a given time is not a valid date.
+ */
+function timeRange(req: Request): { start: string; end: string } | null {
+  const startTime = req.query.startTime as string | undefined;
+  const endTime = req.query.endTime as string | undefined;
+  if (startTime && endTime) {
+    const startMs = Date.parse(startTime);
+    const endMs = Date.parse(endTime);
+    if (Number.isNaN(startMs) || Number.isNaN(endMs)) return null;
+    return {
+      start: new Date(startMs).toISOString(),
+      end: new Date(endMs).toISOString(),
+    };
+  }
+  const days = parseInt(req.query.days as string) || 30;
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  return { start: startDate.toISOString(), end: new Date().toISOString() };
+}
+
+async function loadPrompt(req: Request): Promise<PromptTemplate | null> {
+  const user = (req as any).user as User;
+  const { promptId } = req.params;
+  if (!isValidUUIDv4(promptId)) return null;
+  return PromptService.getPrompt(user.tenantId, promptId);
+}
+
+/**
+ * GET /api/v1/prompts/sdk/:name
+ * Fetch a prompt version for the SDK (API key auth)
+ *
+ * Query params:
+ * - label: label to resolve (default "production"; "latest" = highest version)
+ * - version: exact version number (takes precedence over label)
+ * - projectId: required for keys not bound to a project
+ *
+ * The returned version id is what llm_call.prompt_template_id should carry.
+ */
+router.get(
+  "/sdk/:name",
+  apiKeyMiddleware("ingest"),
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req as any).tenantId as string;
+      const keyRecord = (req as any).apiKeyRecord;
+      // Publishable keys are used in browsers; prompts stay server-side
+      if (keyRecord?.key_prefix === "pk_") {
+        return res.status(403).json({
+          error: {
+            code: "FORBIDDEN",
+            message: "Publishable keys cannot fetch prompts",
+          },
+        });
+      }
+
+      let projectId = (req as any).projectId as string | null;
+      if (!projectId) {
+        const requested = req.query.projectId as string | undefined;
+        if (!requested) {
+          return res.status(400).json({
+            error: {
+              code: "INVALID_PAYLOAD",
+              message: "projectId is required for keys not bound to a project",
+            },
+          });
+        }
+        const project = await TenantService.getProject(requested);
+        if (!project || project.tenantId !== tenantId) {
+          return notFound(res, "Project not found");
+        }
+        projectId = requested;
+      }
+
+      const versionParam = req.query.version as string | undefined;
+      const version =
+        versionParam !== undefined ? parseInt(versionParam, 10) : undefined;
+      if (version !== undefined && !(version > 0)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "version must be a positive integer",
+          },
+        });
+      }
+      const label = (req.query.label as string | undefined) || "production";
+
+      const resolved = await PromptService.resolveVersion(
+        tenantId,
+        projectId,
+        req.params.name,
+        version !== undefined ? { version } : { label },
+      );
+      if (!resolved) {
+        return notFound(
+          res,
+          version !== undefined
+            ? `Prompt "${req.params.name}" version ${version} not found`
+            : `Prompt "${req.params.name}" has no "${label}" version`,
+        );
+      }
+
+      res.setHeader("Cache-Control", "private, max-age=60");
+      return res.status(200).json({
+        success: true,
+        prompt: {
+          prompt_template_id: resolved.id,
+          name: resolved.name,
+          version: resolved.version,
+          type: resolved.type,
+          prompt: resolved.prompt,
+          variables: resolved.variables,
+          model_config: resolved.model_config,
+          labels: resolved.labels,
+        },
+      });
+    } catch (error) {
+      return internalError(res, "fetching prompt for SDK", error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/prompts
+ *
+ * Query params:
+ * - projectId: filter by project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    const prompts = await PromptService.listPrompts(
+      user.tenantId,
+      projectId || null,
+    );
+    return res
+      .status(200)
+      .json({ success: true, prompts, count: prompts.length });
+  } catch (error) {
+    return internalError(res, "listing prompts", error);
+  }
+});
+
+/**
+ * POST /api/v1/prompts
+ * Create a prompt with its first version
+ *
+ * Body: { projectId, name, description?, type?: "text" | "chat",
+ *         prompt: string | [{ role, content }], variables?, modelConfig?,
+ *         labels?: string[], commitMessage? }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = promptSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+    const input = bodyResult.data;
+
+    const project = await TenantService.getProject(input.projectId);
+    if (!project || project.tenantId !== user.tenantId) {
+      return notFound(res, "Project not found");
+    }
+
+    const created = await PromptService.createPrompt(
+      user.tenantId,
+      user.id,
+      input,
+    );
+    if (!created) {
+      return res.status(409).json({
+        error: {
+          code: "CONFLICT",
+          message: `A prompt named "${input.name}" already exists for this project`,
+        },
+      });
+    }
+    return res.status(201).json({ success: true, ...created });
+  } catch (error) {
+    return internalError(res, "creating prompt", error);
+  }
+});
+
+/**
+ * GET /api/v1/prompts/:promptId
+ * Prompt with all its versions (newest first)
+ */
+router.get(
+  "/:promptId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const versions = await PromptService.listVersions(
+        user.tenantId,
+        prompt.id,
+      );
+      return res.status(200).json({ success: true, prompt, versions });
+    } catch (error) {
+      return internalError(res, "fetching prompt", error);
+    }
+  },
+);
+
+/**
+ * PATCH /api/v1/prompts/:promptId
+ * Rename or describe a prompt; versions cannot be edited
+ */
+router.patch(
+  "/:promptId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = promptUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const existing = await loadPrompt(req);
+      if (!existing) {
+        return notFound(res, "Prompt not found");
+      }
+      const prompt = await PromptService.updatePrompt(
+        user.tenantId,
+        existing.id,
+        bodyResult.data,
+      );
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      return res.status(200).json({ success: true, prompt });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "A prompt with this name already exists for this project",
+          },
+        });
+      }
+      return internalError(res, "updating prompt", error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/prompts/:promptId
+ * Deletes the prompt with all versions and labels
+ */
+router.delete(
+  "/:promptId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { promptId } = req.params;
+      if (!isValidUUIDv4(promptId)) {
+        return notFound(res, "Prompt not found");
+      }
+      const deleted = await PromptService.deletePrompt(user.tenantId, promptId);
+      if (!deleted) {
+        return notFound(res, "Prompt not found");
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      return internalError(res, "deleting prompt", error);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/prompts/:promptId/versions
+ * Add a new immutable version
+ *
+ * Body: { type?, prompt, variables?, modelConfig?, labels?, commitMessage? }
+ */
+router.post(
+  "/:promptId/versions",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = promptVersionSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const version = await PromptService.createVersion(
+        user.tenantId,
+        user.id,
+        prompt.id,
+        bodyResult.data,
+      );
+      if (!version) {
+        return notFound(res, "Prompt not found");
+      }
+      return res.status(201).json({ success: true, version });
+    } catch (error) {
+      return internalError(res, "creating prompt version", error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/prompts/:promptId/versions/:version
+ */
+router.get(
+  "/:promptId/versions/:version",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const prompt = await loadPrompt(req);
+      const versionNumber = parseInt(req.params.version, 10);
+      if (!prompt || !(versionNumber > 0)) {
+        return notFound(res, "Prompt version not found");
+      }
+      const version = await PromptService.getVersion(
+        user.tenantId,
+        prompt.id,
+        versionNumber,
+      );
+      if (!version) {
+        return notFound(res, "Prompt version not found");
+      }
+      return res.status(200).json({ success: true, version });
+    } catch (error) {
+      return internalError(res, "fetching prompt version", error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/prompts/:promptId/analytics
+ * Performance per version: calls, p50/p95 latency, tokens, cost, error rate,
+ * feedback like ratio and signal rates
+ *
+ * Query params:
+ * - startTime/endTime or days (default 30)
+ */
+router.get(
+  "/:promptId/analytics",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const range = timeRange(req);
+      if (!range) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "startTime and endTime must be valid dates",
+          },
+        });
+      }
+      const { start, end } = range;
+      const versions = await PromptService.listVersions(
+        user.tenantId,
+        prompt.id,
+      );
+      const metrics = await PromptAnalyticsService.getVersionMetrics(
+        user.tenantId,
+        prompt.project_id,
+        versions.map((version) => version.id),
+        start,
+        end,
+      );
+      return res.status(200).json({
+        success: true,
+        period: { start, end },
+        versions: versions.map((version) => ({
+          version: version.version,
+          labels: version.labels,
+          created_at: version.created_at,
+          metrics: metrics.get(version.id),
+        })),
+      });
+    } catch (error) {
+      return internalError(res, "fetching prompt analytics", error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/prompts/:promptId/compare?a=<version>&b=<version>
+ * Side-by-side metrics of two versions over the same time range
+ *
+ * `comparison` has the /api/v1/dashboard/overview/comparison shape with version b as
+ * "current" and version a as "previous".
+ *
+ * Query params:
+ * - a, b: version numbers (required)
+ * - startTime/endTime or days (default 30)
+ */
+router.get(
+  "/:promptId/compare",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const a = parseInt(req.query.a as string, 10);
+      const b = parseInt(req.query.b as string, 10);
+      if (!(a > 0) || !(b > 0)) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "a and b must be version numbers",
+          },
+        });
+      }
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const [versionA, versionB] = await Promise.all([
+        PromptService.getVersion(user.tenantId, prompt.id, a),
+        PromptService.getVersion(user.tenantId, prompt.id, b),
+      ]);
+      if (!versionA || !versionB) {
+        return notFound(res, `Prompt version ${!versionA ? a : b} not found`);
+      }
+
+      const range = timeRange(req);
+      if (!range) {
+        return res.status(400).json({
+          error: {
+            code: "INVALID_PAYLOAD",
+            message: "startTime and endTime must be valid dates",
+          },
+        });
+      }
+      const { start, end } = range;
+      const metrics = await PromptAnalyticsService.getVersionMetrics(
+        user.tenantId,
+        prompt.project_id,
+        [versionA.id, versionB.id],
+        start,
+        end,
+      );
+      const metricsA = metrics.get(versionA.id)!;
+      const metricsB = metrics.get(versionB.id)!;
+      return res.status(200).json({
+        success: true,
+        period: { start, end },
+        a: { version: a, labels: versionA.labels, metrics: metricsA },
+        b: { version: b, labels: versionB.labels, metrics: metricsB },
+        comparison: PromptAnalyticsService.compareVersions(metricsA, metricsB),
+      });
+    } catch (error) {
+      return internalError(res, "comparing prompt versions", error);
+    }
+  },
+);
+
+/**
+ * PUT /api/v1/prompts/:promptId/labels/:label
+ * Point a label (e.g. "production") at a version
+ *
+ * Body: { version }
+ */
+router.put(
+  "/:promptId/labels/:label",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const labelResult = promptLabelSchema.safeParse(req.params.label);
+      if (!labelResult.success) {
+        return validationError(
+          res,
+          labelResult.error.issues.map((issue) => ({
+            ...issue,
+            path: ["label"],
+          })),
+        );
+      }
+      const bodyResult = promptLabelUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const updated = await PromptService.setLabel(
+        user.tenantId,
+        user.id,
+        prompt.id,
+        labelResult.data,
+        bodyResult.data.version,
+      );
+      if (!updated) {
+        return notFound(res, "Prompt version not found");
+      }
+      return res.status(200).json({
+        success: true,
+        prompt: await PromptService.getPrompt(user.tenantId, prompt.id),
+      });
+    } catch (error) {
+      return internalError(res, "setting prompt label", error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/prompts/:promptId/labels/:label
+ */
+router.delete(
+  "/:promptId/labels/:label",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const prompt = await loadPrompt(req);
+      if (!prompt) {
+        return notFound(res, "Prompt not found");
+      }
+      const removed = await PromptService.removeLabel(
+        user.tenantId,
+        prompt.id,
+        req.params.label,
+      );
+      if (!removed) {
+        return notFound(res, "Label not found");
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      return internalError(res, "removing prompt label", error);
+    }
+  },
+);
+
+export default router;
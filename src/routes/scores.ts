@@ -0,0 +1,374 @@
+/**
+ * Scores Routes
+ *
+ * Human annotation scores: per-project score configs (numeric, categorical,
+ * boolean) and reviewer scores on traces and spans.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import { ScoreService } from "../services/scoreService.js";
+import { TenantService } from "../services/tenantService.js";
+import {
+  scoreConfigSchema,
+  scoreConfigUpdateSchema,
+  scoreSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Scores API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+/**
+ * GET /api/v1/scores/configs
+ *
+ * Query params:
+ * - projectId: filter by project
+ * - includeArchived: include archived configs (default: false)
+ */
+router.get(
+  "/configs",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const projectId = req.query.projectId as string | undefined;
+      const configs = await ScoreService.listConfigs(
+        user.tenantId,
+        projectId || null,
+        req.query.includeArchived === "true"
+      );
+      return res
+        .status(200)
+        .json({ success: true, configs, count: configs.length });
+    } catch (error) {
+      return internalError(res, "listing score configs", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/scores/configs
+ *
+ * Body: { projectId, name, dataType: "numeric" | "categorical" | "boolean",
+ *         description?, minValue?, maxValue?, categories?: [{ label, value? }] }
+ */
+router.post(
+  "/configs",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = scoreConfigSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const input = bodyResult.data;
+      const project = await TenantService.getProject(input.projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return notFound(res, "Project not found");
+      }
+
+      const config = await ScoreService.createConfig(
+        user.tenantId,
+        user.id,
+        input
+      );
+      if (!config) {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: `A score config named "${input.name}" already exists in this project`,
+          },
+        });
+      }
+      return res.status(201).json({ success: true, config });
+    } catch (error) {
+      return internalError(res, "creating score config", error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/scores/configs/:configId
+ * Rename, describe or archive a config (data type and bounds are fixed)
+ *
+ * Body: { name?, description?, isArchived? }
+ */
+router.patch(
+  "/configs/:configId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { configId } = req.params;
+      if (!isValidUUIDv4(configId)) {
+        return notFound(res, "Score config not found");
+      }
+
+      const bodyResult = scoreConfigUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const config = await ScoreService.updateConfig(
+        user.tenantId,
+        configId,
+        bodyResult.data
+      );
+      if (!config) {
+        return notFound(res, "Score config not found");
+      }
+      return res.status(200).json({ success: true, config });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: {
+            code: "CONFLICT",
+            message: "A score config with this name already exists",
+          },
+        });
+      }
+      return internalError(res, "updating score config", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/scores/configs/:configId
+ * Deletes the config and all scores recorded against it
+ * (archive via PATCH to keep history)
+ */
+router.delete(
+  "/configs/:configId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { configId } = req.params;
+      const deleted =
+        isValidUUIDv4(configId) &&
+        (await ScoreService.deleteConfig(user.tenantId, configId));
+      if (!deleted) {
+        return notFound(res, "Score config not found");
+      }
+      return res.status(200).json({ success: true, id: configId });
+    } catch (error) {
+      return internalError(res, "deleting score config", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/scores/traces/:traceId
+ * All scores on a trace (trace-level and every span)
+ */
+router.get(
+  "/traces/:traceId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { traceId } = req.params;
+      if (!isValidUUIDv4(traceId)) {
+        return notFound(res, "Trace not found");
+      }
+      const scores = await ScoreService.getScoresForTrace(
+        user.tenantId,
+        traceId
+      );
+      return res
+        .status(200)
+        .json({ success: true, scores, count: scores.length });
+    } catch (error) {
+      return internalError(res, "listing trace scores", error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/scores/traces/:traceId/spans/:spanId
+ */
+router.get(
+  "/traces/:traceId/spans/:spanId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { traceId, spanId } = req.params;
+      if (!isValidUUIDv4(traceId)) {
+        return notFound(res, "Trace not found");
+      }
+      const scores = await ScoreService.getScoresForTrace(
+        user.tenantId,
+        traceId,
+        spanId
+      );
+      return res
+        .status(200)
+        .json({ success: true, scores, count: scores.length });
+    } catch (error) {
+      return internalError(res, "listing span scores", error);
+    }
+  }
+);
+
+/**
+ * Shared handler for trace- and span-level score creation
+ * Re-scoring with the same config replaces the reviewer's previous score.
+ */
+async function createScore(req: Request, res: Response, spanId: string | null) {
+  const user = (req as any).user as User;
+  const { traceId } = req.params;
+  if (!isValidUUIDv4(traceId)) {
+    return notFound(res, "Trace not found");
+  }
+
+  const bodyResult = scoreSchema.safeParse(req.body);
+  if (!bodyResult.success) {
+    return validationError(res, bodyResult.error.issues);
+  }
+
+  const { configId, value, comment } = bodyResult.data;
+  const config = await ScoreService.getConfig(user.tenantId, configId);
+  if (!config) {
+    return notFound(res, "Score config not found");
+  }
+  if (config.is_archived) {
+    return res.status(400).json({
+      error: {
+        code: "INVALID_PAYLOAD",
+        message: "Score config is archived",
+      },
+    });
+  }
+
+  const normalized = ScoreService.normalizeValue(config, value);
+  if (!normalized.ok) {
+    return res.status(400).json({
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "Request validation failed",
+        details: {
+          validation_errors: [{ field: "value", message: normalized.message }],
+        },
+      },
+    });
+  }
+
+  const exists = await ScoreService.traceExists(
+    user.tenantId,
+    config.project_id,
+    traceId,
+    spanId
+  );
+  if (!exists) {
+    return notFound(res, spanId ? "Span not found" : "Trace not found");
+  }
+
+  const score = await ScoreService.upsertScore(
+    user.tenantId,
+    config,
+    traceId,
+    spanId,
+    user.id,
+    normalized,
+    comment
+  );
+  return res.status(201).json({ success: true, score });
+}
+
+/**
+ * POST /api/v1/scores/traces/:traceId
+ * Score a trace
+ *
+ * Body: { configId: string; value: number | string | boolean; comment?: string }
+ */
+router.post(
+  "/traces/:traceId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      return await createScore(req, res, null);
+    } catch (error) {
+      return internalError(res, "scoring trace", error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/scores/traces/:traceId/spans/:spanId
+ * Score a span
+ *
+ * Body: { configId: string; value: number | string | boolean; comment?: string }
+ */
+router.post(
+  "/traces/:traceId/spans/:spanId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      return await createScore(req, res, req.params.spanId);
+    } catch (error) {
+      return internalError(res, "scoring span", error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/scores/:scoreId
+ */
+router.delete(
+  "/:scoreId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { scoreId } = req.params;
+      const deleted =
+        isValidUUIDv4(scoreId) &&
+        (await ScoreService.deleteScore(user.tenantId, scoreId));
+      if (!deleted) {
+        return notFound(res, "Score not found");
+      }
+      return res.status(200).json({ success: true, id: scoreId });
+    } catch (error) {
+      return internalError(res, "deleting score", error);
+    }
+  }
+);
+
+export default router;
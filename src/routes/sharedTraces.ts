@@ -0,0 +1,90 @@
+/**
+ * Shared Trace Routes
+ *
+ * Unauthenticated, read-only access to a single trace through a share link
+ * token (created with POST /api/v1/traces/:traceId/share-links). Every view
+ * is recorded in the audit log of the tenant that owns the trace.
+ */
+
+import { Router, Request, Response } from "express";
+import { TraceQueryService } from "../services/traceQueryService.js";
+import { TraceShareService } from "../services/traceShareService.js";
+import { AgentPrismAdapterService } from "../services/agentPrismAdapter.js";
+import { AuditService } from "../services/auditService.js";
+
+const router = Router();
+
+/**
+ * GET /api/v1/shared/traces/:token
+ * The shared trace, with the link's redaction applied
+ *
+ * Query params:
+ * - format=tree|agent-prism (default: tree)
+ */
+router.get("/traces/:token", async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || "tree").toLowerCase();
+    if (format !== "tree" && format !== "agent-prism") {
+      return res.status(400).json({
+        error: "format must be tree or agent-prism",
+      });
+    }
+
+    // Unknown, expired and revoked links look the same
+    const link = await TraceShareService.recordView(req.params.token);
+    if (!link) {
+      return res.status(404).json({
+        error: "Share link not found or expired",
+      });
+    }
+
+    await AuditService.log({
+      tenantId: link.tenant_id,
+      projectId: link.project_id,
+      userId: null,
+      action: "trace_share_link_viewed",
+      resourceType: "trace",
+      resourceId: link.trace_id,
+      metadata: {
+        share_link_id: link.id,
+        redaction: link.redaction,
+        format,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent") || null,
+    });
+
+    const traceTree = await TraceQueryService.getTraceDetailTree(
+      link.trace_id,
+      link.tenant_id,
+      link.project_id,
+    );
+    if (!traceTree) {
+      return res.status(404).json({
+        error: "Trace not found",
+      });
+    }
+
+    const redacted = TraceShareService.redactTrace(traceTree, link.redaction);
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("X-Robots-Tag", "noindex");
+    return res.status(200).json({
+      success: true,
+      trace:
+        format === "agent-prism"
+          ? AgentPrismAdapterService.adapt(redacted)
+          : redacted,
+      share: {
+        redaction: link.redaction,
+        expires_at: link.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error("Error serving shared trace:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,271 @@
+/**
+ * Signal Rules Routes
+ *
+ * CRUD for configurable Layer 2 signal thresholds.
+ * Rules are scoped by project, route, model and event type; the built-in
+ * defaults apply wherever no custom rule overrides them.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import {
+  DEFAULT_SIGNAL_RULES,
+  SignalRulesService,
+} from "../services/signalRulesService.js";
+import { TenantService } from "../services/tenantService.js";
+import {
+  signalRuleSchema,
+  signalRuleUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { User } from "../services/authService.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function ruleNotFound(res: Response) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message: "Signal rule not found",
+    },
+  });
+}
+
+/**
+ * Ensure a project belongs to the user's tenant
+ */
+async function projectBelongsToTenant(
+  projectId: string,
+  tenantId: string
+): Promise<boolean> {
+  const project = await TenantService.getProject(projectId);
+  return !!project && project.tenantId === tenantId;
+}
+
+/**
+ * GET /api/v1/signal-rules
+ * List custom rules and the built-in defaults
+ *
+ * Query params:
+ * - projectId: only rules for this project (plus tenant-wide rules)
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const projectId = req.query.projectId as string | undefined;
+    if (projectId && !isValidUUIDv4(projectId)) {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "projectId must be a valid UUID",
+        },
+      });
+    }
+
+    const rules = await SignalRulesService.listRules(
+      user.tenantId,
+      projectId || null
+    );
+
+    return res.status(200).json({
+      success: true,
+      rules,
+      defaults: DEFAULT_SIGNAL_RULES,
+      count: rules.length,
+    });
+  } catch (error) {
+    console.error("[Signal Rules API] Error listing rules:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: { code: "INTERNAL_ERROR", message: errorMessage },
+    });
+  }
+});
+
+/**
+ * GET /api/v1/signal-rules/:ruleId
+ */
+router.get(
+  "/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      if (!isValidUUIDv4(ruleId)) {
+        return ruleNotFound(res);
+      }
+
+      const rule = await SignalRulesService.getRule(user.tenantId, ruleId);
+      if (!rule) {
+        return ruleNotFound(res);
+      }
+
+      return res.status(200).json({ success: true, rule });
+    } catch (error) {
+      console.error("[Signal Rules API] Error getting rule:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: { code: "INTERNAL_ERROR", message: errorMessage },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/signal-rules
+ * Create a rule. Use the signalName of a default (e.g. "high_latency") to
+ * override it within the rule's scope, or a new name for a custom signal.
+ *
+ * Body: {
+ *   name: string;
+ *   signalName: string;
+ *   eventType: EventType;
+ *   metric: string;           // attribute under the event type, e.g. "latency_ms"
+ *   threshold: number;
+ *   operator?: "gt" | "gte" | "lt" | "lte" | "eq";   // default "gt"
+ *   severity?: "low" | "medium" | "high";            // default "medium"
+ *   signalType?: "threshold" | "spike";
+ *   projectId?: string; route?: string; model?: string;
+ *   description?: string; enabled?: boolean;
+ * }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = signalRuleSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+
+    const input = bodyResult.data;
+    if (
+      input.projectId &&
+      !(await projectBelongsToTenant(input.projectId, user.tenantId))
+    ) {
+      return res.status(404).json({
+        error: { code: "NOT_FOUND", message: "Project not found" },
+      });
+    }
+
+    const rule = await SignalRulesService.createRule(
+      user.tenantId,
+      user.id,
+      input
+    );
+
+    return res.status(201).json({ success: true, rule });
+  } catch (error) {
+    console.error("[Signal Rules API] Error creating rule:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+    return res.status(500).json({
+      error: { code: "INTERNAL_ERROR", message: errorMessage },
+    });
+  }
+});
+
+/**
+ * PATCH /api/v1/signal-rules/:ruleId
+ * Update any subset of rule fields (e.g. { enabled: false } to disable)
+ */
+router.patch(
+  "/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      if (!isValidUUIDv4(ruleId)) {
+        return ruleNotFound(res);
+      }
+
+      const bodyResult = signalRuleUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+
+      const input = bodyResult.data;
+      if (
+        input.projectId &&
+        !(await projectBelongsToTenant(input.projectId, user.tenantId))
+      ) {
+        return res.status(404).json({
+          error: { code: "NOT_FOUND", message: "Project not found" },
+        });
+      }
+
+      const rule = await SignalRulesService.updateRule(
+        user.tenantId,
+        ruleId,
+        input
+      );
+      if (!rule) {
+        return ruleNotFound(res);
+      }
+
+      return res.status(200).json({ success: true, rule });
+    } catch (error) {
+      console.error("[Signal Rules API] Error updating rule:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: { code: "INTERNAL_ERROR", message: errorMessage },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/signal-rules/:ruleId
+ * Removing an override restores the default threshold
+ */
+router.delete(
+  "/:ruleId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const { ruleId } = req.params;
+      if (!isValidUUIDv4(ruleId)) {
+        return ruleNotFound(res);
+      }
+
+      const deleted = await SignalRulesService.deleteRule(
+        user.tenantId,
+        ruleId
+      );
+      if (!deleted) {
+        return ruleNotFound(res);
+      }
+
+      return res.status(200).json({ success: true, id: ruleId });
+    } catch (error) {
+      console.error("[Signal Rules API] Error deleting rule:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Internal server error";
+      return res.status(500).json({
+        error: { code: "INTERNAL_ERROR", message: errorMessage },
+      });
+    }
+  }
+);
+
+export default router;
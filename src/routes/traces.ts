@@ -3,38 +3,58 @@ import { TokenService } from "../services/tokenService.js";
 import { TraceService } from "../services/traceService.js";
 // AnalysisService no longer used - analysis is now event-driven via SignalsService
 // import { AnalysisService } from "../services/analysisService.js";
-import { AuthService } from "../services/authService.js";
-import { TraceQueryService } from "../services/traceQueryService.js";
+import { AuthService, User } from "../services/authService.js";
+import {
+  TraceListQueryOptions,
+  TraceQueryService,
+} from "../services/traceQueryService.js";
+import { SavedViewService } from "../services/savedViewService.js";
 import { AgentPrismAdapterService } from "../services/agentPrismAdapter.js";
 import { AuditService } from "../services/auditService.js";
+import { TraceCompareService } from "../services/traceCompareService.js";
+import { TraceShareService } from "../services/traceShareService.js";
+import { TraceExportService } from "../services/traceExportService.js";
+import { TinybirdRepository } from "../services/tinybirdRepository.js";
 import { TraceEvent } from "../types.js";
-import { traceEventSchema } from "../validation/schemas.js";
+import {
+  traceEventSchema,
+  traceShareLinkSchema,
+} from "../validation/schemas.js";
 import { query } from "../db/client.js";
+import { ModelPricingService } from "../services/modelPricingService.js";
+import { parseTagFilter } from "../utils/eventTags.js";
+import { FilterQueryError } from "../utils/filterQuery.js";
+import {
+  TraceSearchError,
+  TraceSearchService,
+} from "../services/traceSearchService.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+import { relativeDurationMs } from "../utils/relativeTimeRange.js";
+
+const router = Router();
 
 /**
- * Calculate cost based on tokens and model (simplified)
- * In production, use actual pricing from model provider
+ * Apply a saved trace view (viewId); explicitly given filters win
+ * Returns null when the view does not exist or is not a trace view.
  */
-function calculateCost(tokensTotal: number, model: string): number {
-  // Simplified cost calculation - adjust based on actual model pricing
-  // Example: GPT-4 is ~$0.03 per 1K tokens, GPT-3.5 is ~$0.002 per 1K tokens
-  const modelPricing: Record<string, number> = {
-    "gpt-4": 0.03,
-    "gpt-4-turbo": 0.01,
-    "gpt-4o": 0.015,
-    "gpt-4o-mini": 0.003,
-    "gpt-3.5-turbo": 0.002,
-    "gpt-3.5": 0.002,
-    "claude-3-opus": 0.03,
-    "claude-3-sonnet": 0.012,
-    "claude-3-haiku": 0.0025,
-  };
-
-  const pricePer1K = modelPricing[model.toLowerCase()] || 0.002;
-  return (tokensTotal / 1000) * pricePer1K;
+async function withSavedView(
+  user: User,
+  viewId: unknown,
+  opts: TraceListQueryOptions,
+): Promise<TraceListQueryOptions | null> {
+  if (viewId === undefined || viewId === "") return opts;
+  const id = String(viewId);
+  const view = isValidUUIDv4(id)
+    ? await SavedViewService.getView(user.tenantId, user.id, id)
+    : null;
+  if (!view || view.resource !== "traces") return null;
+  return SavedViewService.applyTraceView(view, opts);
 }
 
-const router = Router();
+// Longest time window a full-text search may scan
+const MAX_SEARCH_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+// NDJSON exports read every trace's events, so they cover fewer traces
+const MAX_NDJSON_EXPORT_TRACES = 200;
 
 function parseNumber(value: unknown): number | undefined {
   if (value === null || value === undefined) return undefined;
@@ -74,6 +94,12 @@ function parseAuditReason(value: unknown): string | null {
   return reason.length > 0 ? reason : null;
 }
 
+async function sessionUser(req: Request): Promise<User | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) return null;
+  return AuthService.validateSession(authHeader.substring(7));
+}
+
 async function logTraceContextReveal(params: {
   tenantId: string;
   userId: string;
@@ -341,10 +367,19 @@ router.post("/ingest", async (req: Request, res: Response) => {
           conversationId: trace.conversationId,
           tenantId: trace.tenantId,
           tokensTotal: trace.tokensTotal,
-          // Calculate cost if model and tokens are available (simplified)
+          // Priced from the model pricing catalog when model and tokens are available
           cost:
             trace.tokensTotal && trace.model
-              ? calculateCost(trace.tokensTotal, trace.model)
+              ? ((await ModelPricingService.calculateCost(
+                  trace.tenantId,
+                  trace.model,
+                  {
+                    inputTokens: trace.tokensPrompt,
+                    outputTokens: trace.tokensCompletion,
+                    totalTokens: trace.tokensTotal,
+                  },
+                  new Date(trace.timestamp),
+                )) ?? undefined)
               : undefined,
           hasIssues: false, // Will be updated after analysis
         });
@@ -469,6 +504,12 @@ router.post("/ingest", async (req: Request, res: Response) => {
  * GET /api/v1/traces
  * Get traces for the authenticated user
  * Uses TraceQueryService for consistent querying (currently uses analysis_results table)
+ *
+ * q (or filter): filter query, e.g.
+ *   model:gpt-4o AND latency_ms>3000 AND signal:tool_error AND attr.llm_call.finish_reason="length"
+ * Invalid queries return 400 with the offending token and its position.
+ *
+ * viewId: saved trace view (GET /api/v1/views); explicit params override it
  */
 router.get("/", async (req: Request, res: Response) => {
   try {
@@ -505,6 +546,12 @@ router.get("/", async (req: Request, res: Response) => {
       parseStringList(req.query.environments ?? req.query.environment) ||
       undefined;
     const conversationId = req.query.conversationId as string | undefined;
+    const tags = parseTagFilter(req.query.tags);
+    if (!tags) {
+      return res.status(400).json({
+        error: "Invalid tags filter (expected key:value[,key:value])",
+      });
+    }
     const minCost = parseNumber(req.query.minCost);
     const maxCost = parseNumber(req.query.maxCost);
     const minLatencyMs = parseNumber(req.query.minLatencyMs);
@@ -512,6 +559,7 @@ router.get("/", async (req: Request, res: Response) => {
     const minQualityScore = parseNumber(req.query.minQualityScore);
     const maxQualityScore = parseNumber(req.query.maxQualityScore);
     const search = req.query.search as string | undefined;
+    const q = (req.query.q ?? req.query.filter) as string | undefined;
     const sortBy = (req.query.sortBy as any) || undefined;
     const sortOrder = (req.query.sortOrder as any) || undefined;
     const includeStats = parseBool(req.query.includeStats) ?? true;
@@ -523,7 +571,7 @@ router.get("/", async (req: Request, res: Response) => {
     );
 
     // Use TraceQueryService for consistent querying
-    const result = await TraceQueryService.getTracesV2(user.tenantId, {
+    const listOptions = await withSavedView(user, req.query.viewId, {
       projectId: projectId || null,
       limit,
       offset,
@@ -534,6 +582,7 @@ router.get("/", async (req: Request, res: Response) => {
       userIds,
       environments,
       conversationId,
+      tags,
       minCost,
       maxCost,
       minLatencyMs,
@@ -541,10 +590,19 @@ router.get("/", async (req: Request, res: Response) => {
       minQualityScore,
       maxQualityScore,
       search,
+      q,
       sortBy,
       sortOrder,
       includeStats,
     });
+    if (!listOptions) {
+      return res.status(404).json({ error: "View not found" });
+    }
+
+    const result = await TraceQueryService.getTracesV2(
+      user.tenantId,
+      listOptions,
+    );
 
     // Transform to match frontend expectations (snake_case to camelCase where needed)
     const traces = result.traces.map((trace) => ({
@@ -573,6 +631,7 @@ router.get("/", async (req: Request, res: Response) => {
       user_id: trace.user_id,
       message_index: trace.message_index,
       environment: trace.environment,
+      tags: trace.tags,
       is_hallucination: trace.is_hallucination,
       hallucination_confidence: trace.hallucination_confidence,
       has_context_drop: trace.has_context_drop,
@@ -599,6 +658,13 @@ router.get("/", async (req: Request, res: Response) => {
       stats: result.stats || undefined,
     });
   } catch (error) {
+    if (error instanceof FilterQueryError) {
+      return res.status(400).json({
+        error: `Invalid filter query: ${error.message}`,
+        position: error.position,
+        token: error.token,
+      });
+    }
     console.error("Error fetching traces:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Internal server error",
@@ -662,11 +728,15 @@ router.get("/models", async (req: Request, res: Response) => {
 
 /**
  * GET /api/v1/traces/export
- * Export traces for the authenticated user (CSV or JSON)
+ * Export traces for the authenticated user (CSV or JSON), or the canonical
+ * events of the matching traces as NDJSON for POST /api/v1/events/ingest
  *
  * Query params:
- * - format=csv|json (default: json)
+ * - format=csv|json|ndjson (default: json)
  * - supports same filters as GET /api/v1/traces
+ * - ndjson only: limit is capped at 200 traces; targetTenantId /
+ *   targetProjectId rewrite the events for the receiving project;
+ *   includeMessages=true (with reason) keeps LLM message arrays
  */
 router.get("/export", async (req: Request, res: Response) => {
   try {
@@ -689,7 +759,10 @@ router.get("/export", async (req: Request, res: Response) => {
     const projectId = req.query.projectId as string | undefined;
 
     const limitRaw = parseInt(req.query.limit as string) || 1000;
-    const limit = Math.min(Math.max(limitRaw, 1), 5000);
+    const limit = Math.min(
+      Math.max(limitRaw, 1),
+      format === "ndjson" ? MAX_NDJSON_EXPORT_TRACES : 5000,
+    );
     const offset = parseInt(req.query.offset as string) || 0;
 
     const startDate = req.query.startDate as string | undefined;
@@ -703,6 +776,12 @@ router.get("/export", async (req: Request, res: Response) => {
       parseStringList(req.query.environments ?? req.query.environment) ||
       undefined;
     const conversationId = req.query.conversationId as string | undefined;
+    const tags = parseTagFilter(req.query.tags);
+    if (!tags) {
+      return res.status(400).json({
+        error: "Invalid tags filter (expected key:value[,key:value])",
+      });
+    }
     const minCost = parseNumber(req.query.minCost);
     const maxCost = parseNumber(req.query.maxCost);
     const minLatencyMs = parseNumber(req.query.minLatencyMs);
@@ -710,10 +789,25 @@ router.get("/export", async (req: Request, res: Response) => {
     const minQualityScore = parseNumber(req.query.minQualityScore);
     const maxQualityScore = parseNumber(req.query.maxQualityScore);
     const search = req.query.search as string | undefined;
+    const q = (req.query.q ?? req.query.filter) as string | undefined;
     const sortBy = (req.query.sortBy as any) || undefined;
     const sortOrder = (req.query.sortOrder as any) || undefined;
 
-    const result = await TraceQueryService.getTracesV2(user.tenantId, {
+    const targetTenantId = req.query.targetTenantId as string | undefined;
+    const targetProjectId = req.query.targetProjectId as string | undefined;
+    for (const [name, value] of [
+      ["targetTenantId", targetTenantId],
+      ["targetProjectId", targetProjectId],
+    ]) {
+      if (value !== undefined && !isValidUUIDv4(value)) {
+        return res.status(400).json({
+          error: `${name} must be a valid UUID`,
+        });
+      }
+    }
+    const includeMessages = parseBool(req.query.includeMessages) ?? false;
+
+    const listOptions = await withSavedView(user, req.query.viewId, {
       projectId: projectId || null,
       limit,
       offset,
@@ -724,6 +818,7 @@ router.get("/export", async (req: Request, res: Response) => {
       userIds,
       environments,
       conversationId,
+      tags,
       minCost,
       maxCost,
       minLatencyMs,
@@ -731,10 +826,19 @@ router.get("/export", async (req: Request, res: Response) => {
       minQualityScore,
       maxQualityScore,
       search,
+      q,
       sortBy,
       sortOrder,
       includeStats: false,
     });
+    if (!listOptions) {
+      return res.status(404).json({ error: "View not found" });
+    }
+
+    const result = await TraceQueryService.getTracesV2(
+      user.tenantId,
+      listOptions,
+    );
 
     if (format === "csv") {
       const headers = [
@@ -795,6 +899,46 @@ router.get("/export", async (req: Request, res: Response) => {
       return res.status(200).send(csv);
     }
 
+    if (format === "ndjson") {
+      res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="traces-export.ndjson"`,
+      );
+      res.status(200);
+      for (const trace of result.traces) {
+        const rows = await TinybirdRepository.getTraceEvents(
+          trace.trace_id,
+          user.tenantId,
+          trace.project_id || projectId || null,
+        );
+        if (rows.length === 0) continue;
+        if (includeMessages) {
+          await logTraceContextReveal({
+            tenantId: user.tenantId,
+            userId: user.id,
+            traceId: trace.trace_id,
+            projectId: trace.project_id || projectId || null,
+            format,
+            reason: parseAuditReason(req.query.reason),
+            req,
+          });
+        }
+        for (const row of rows) {
+          const event = TraceExportService.toCanonicalEvent(row, {
+            tenantId: targetTenantId,
+            projectId: targetProjectId,
+          });
+          if (!includeMessages) {
+            scrubLlmMessages(event.attributes);
+            scrubLlmMessages(event.attributes.llm_call);
+          }
+          res.write(`${JSON.stringify(event)}\n`);
+        }
+      }
+      return res.end();
+    }
+
     return res.status(200).json({
       success: true,
       traces: result.traces,
@@ -806,7 +950,148 @@ router.get("/export", async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
+    if (error instanceof FilterQueryError) {
+      return res.status(400).json({
+        error: `Invalid filter query: ${error.message}`,
+        position: error.position,
+        token: error.token,
+      });
+    }
     console.error("Error exporting traces:", error);
+    // A failure mid-way through an NDJSON stream can only cut it short
+    if (res.headersSent) {
+      return res.end();
+    }
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Internal server error",
+    });
+  }
+});
+
+/**
+ * GET /api/v1/traces/search
+ * Full-text search over span inputs/outputs, tool args/results and error messages
+ *
+ * Query params:
+ * - q: search terms, all must match within one span ("quoted phrases" allowed)
+ * - startDate/endDate (optional, default last 7 days, max 90 days)
+ * - projectId (optional)
+ * - limit (optional, default 20, max 100), offset (optional)
+ */
+router.get("/search", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: "Missing or invalid Authorization header",
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+    if (!user) {
+      return res.status(401).json({
+        error: "Invalid or expired session",
+      });
+    }
+
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    if (!q.trim()) {
+      return res.status(400).json({ error: "q is required" });
+    }
+
+    const projectId = (req.query.projectId as string | undefined) || null;
+    if (projectId && !isValidUUIDv4(projectId)) {
+      return res.status(400).json({ error: "Invalid projectId" });
+    }
+
+    const end = req.query.endDate ? new Date(String(req.query.endDate)) : new Date();
+    const start = req.query.startDate
+      ? new Date(String(req.query.startDate))
+      : new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return res.status(400).json({ error: "Invalid startDate/endDate" });
+    }
+    if (end.getTime() - start.getTime() > MAX_SEARCH_WINDOW_MS) {
+      return res.status(400).json({
+        error: "Search window is limited to 90 days",
+      });
+    }
+
+    const { results, backend } = await TraceSearchService.search(user.tenantId, q, {
+      projectId,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      limit: parseNumber(req.query.limit),
+      offset: parseNumber(req.query.offset),
+    });
+
+    return res.status(200).json({
+      success: true,
+      results,
+      backend,
+      window: { start: start.toISOString(), end: end.toISOString() },
+    });
+  } catch (error) {
+    if (error instanceof TraceSearchError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error searching traces:", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Internal server error",
+    });
+  }
+});
+
+/**
+ * GET /api/v1/traces/compare
+ * Diff two traces span by span (aligned spans with latency/token/cost deltas
+ * and input/output diffs, plus spans only in one of them)
+ *
+ * Query params:
+ * - a, b: trace IDs (deltas are b minus a)
+ * - projectId (optional)
+ */
+router.get("/compare", async (req: Request, res: Response) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return res.status(401).json({
+        error: "Missing or invalid Authorization header",
+      });
+    }
+
+    const sessionToken = authHeader.substring(7);
+    const user = await AuthService.validateSession(sessionToken);
+    if (!user) {
+      return res.status(401).json({
+        error: "Invalid or expired session",
+      });
+    }
+
+    const a = typeof req.query.a === "string" ? req.query.a.trim() : "";
+    const b = typeof req.query.b === "string" ? req.query.b.trim() : "";
+    if (!a || !b) {
+      return res.status(400).json({ error: "a and b trace IDs are required" });
+    }
+
+    const projectId = (req.query.projectId as string | undefined) || null;
+    const [treeA, treeB] = await Promise.all([
+      TraceQueryService.getTraceDetailTree(a, user.tenantId, projectId),
+      TraceQueryService.getTraceDetailTree(b, user.tenantId, projectId),
+    ]);
+    if (!treeA || !treeB) {
+      return res.status(404).json({
+        error: `Trace not found: ${!treeA ? a : b}`,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      comparison: TraceCompareService.compareTrees(treeA, treeB),
+    });
+  } catch (error) {
+    console.error("Error comparing traces:", error);
     return res.status(500).json({
       error: error instanceof Error ? error.message : "Internal server error",
     });
@@ -815,10 +1100,12 @@ router.get("/export", async (req: Request, res: Response) => {
 
 /**
  * GET /api/v1/traces/:traceId/export
- * Export a single trace detail as JSON or Markdown
+ * Export a single trace detail as JSON or Markdown, or as a file for other
+ * tooling: OTLP/JSON (gen_ai.* attributes, replayable into any OTEL
+ * collector) or Chrome trace events (chrome://tracing, Perfetto)
  *
  * Query params:
- * - format=json|md (default: json)
+ * - format=json|md|otlp-json|chrome-trace (default: json)
  * - projectId=...
  */
 router.get("/:traceId/export", async (req: Request, res: Response) => {
@@ -872,6 +1159,21 @@ router.get("/:traceId/export", async (req: Request, res: Response) => {
       scrubTraceMessages(traceTree);
     }
 
+    if (format === "otlp-json" || format === "chrome-trace") {
+      const otlp = format === "otlp-json";
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="trace-${traceId}.${otlp ? "otlp" : "chrome-trace"}.json"`,
+      );
+      return res
+        .status(200)
+        .json(
+          otlp
+            ? TraceExportService.toOtlpJson(traceTree)
+            : TraceExportService.toChromeTrace(traceTree),
+        );
+    }
+
     let conversation: any = null;
     const conversationId = traceTree?.summary?.conversation_id;
     if (conversationId) {
@@ -982,6 +1284,152 @@ router.get("/:traceId/export", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/v1/traces/:traceId/share-links
+ * Create a public, expiring link to this trace (served by
+ * GET /api/v1/shared/traces/:token). The token is only returned here.
+ *
+ * Body: { redaction?: "full" | "hide_io" | "scrubbed" (default scrubbed),
+ *         expiresIn?: "1h" | "24h" | "7d" ... (default 7d, max 30d), projectId? }
+ */
+router.post("/:traceId/share-links", async (req: Request, res: Response) => {
+  try {
+    const user = await sessionUser(req);
+    if (!user) {
+      return res.status(401).json({
+        error: "Missing or invalid session",
+      });
+    }
+
+    const validationResult = traceShareLinkSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: "Invalid share link",
+        details: validationResult.error.issues,
+      });
+    }
+    const { redaction, expiresIn, projectId } = validationResult.data;
+
+    const { traceId } = req.params;
+    const traceTree = await TraceQueryService.getTraceDetailTree(
+      traceId,
+      user.tenantId,
+      projectId || null,
+    );
+    if (!traceTree) {
+      return res.status(404).json({
+        error: "Trace not found",
+      });
+    }
+
+    const { link, token } = await TraceShareService.createLink(
+      user.tenantId,
+      user.id,
+      {
+        traceId,
+        projectId: projectId || traceTree.summary?.project_id || null,
+        redaction,
+        expiresAt: new Date(Date.now() + relativeDurationMs(expiresIn)!),
+      },
+    );
+    await AuditService.log({
+      tenantId: user.tenantId,
+      projectId: link.project_id,
+      userId: user.id,
+      action: "trace_share_link_created",
+      resourceType: "trace",
+      resourceId: traceId,
+      metadata: {
+        share_link_id: link.id,
+        redaction,
+        expires_at: link.expires_at,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent") || null,
+    });
+
+    return res.status(201).json({ success: true, link, token });
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Internal server error",
+    });
+  }
+});
+
+/**
+ * GET /api/v1/traces/:traceId/share-links
+ * Share links of this trace (active, expired and revoked), without tokens
+ */
+router.get("/:traceId/share-links", async (req: Request, res: Response) => {
+  try {
+    const user = await sessionUser(req);
+    if (!user) {
+      return res.status(401).json({
+        error: "Missing or invalid session",
+      });
+    }
+    const links = await TraceShareService.listLinks(
+      user.tenantId,
+      req.params.traceId,
+    );
+    return res.status(200).json({ success: true, links, count: links.length });
+  } catch (error) {
+    console.error("Error listing share links:", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Internal server error",
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/traces/:traceId/share-links/:linkId
+ * Revoke a share link; it stops working immediately
+ */
+router.delete(
+  "/:traceId/share-links/:linkId",
+  async (req: Request, res: Response) => {
+    try {
+      const user = await sessionUser(req);
+      if (!user) {
+        return res.status(401).json({
+          error: "Missing or invalid session",
+        });
+      }
+      const { traceId, linkId } = req.params;
+      if (!isValidUUIDv4(linkId)) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      const link = await TraceShareService.revokeLink(
+        user.tenantId,
+        traceId,
+        linkId,
+        user.id,
+      );
+      if (!link) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+      await AuditService.log({
+        tenantId: user.tenantId,
+        projectId: link.project_id,
+        userId: user.id,
+        action: "trace_share_link_revoked",
+        resourceType: "trace",
+        resourceId: traceId,
+        metadata: { share_link_id: link.id },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      });
+      return res.status(200).json({ success: true, link });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : "Internal server error",
+      });
+    }
+  },
+);
+
 /**
  * GET /api/v1/traces/:traceId
  * Get a specific trace with full analysis results
@@ -1145,7 +1593,16 @@ router.get("/:traceId", async (req: Request, res: Response) => {
     // Transform to match frontend expectations
     const estimatedCostUsd =
       analysisResult.tokens_total && analysisResult.model
-        ? calculateCost(analysisResult.tokens_total, analysisResult.model)
+        ? await ModelPricingService.calculateCost(
+            analysisResult.tenant_id,
+            analysisResult.model,
+            {
+              inputTokens: analysisResult.tokens_prompt,
+              outputTokens: analysisResult.tokens_completion,
+              totalTokens: analysisResult.tokens_total,
+            },
+            new Date(analysisResult.timestamp || analysisResult.analyzed_at),
+          )
         : null;
 
     // Phase 2: lightweight explanations/efficiency for legacy format too
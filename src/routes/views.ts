@@ -0,0 +1,260 @@
+/**
+ * Saved Views Routes
+ *
+ * Named filter sets for the trace list and the issues timeline, private to
+ * their owner or shared with the tenant. Apply one with `viewId` on
+ * GET /api/v1/traces, GET /api/v1/traces/export or GET /api/v1/issues.
+ */
+
+import { Router, Request, Response } from "express";
+import { sessionAuthMiddleware } from "../middleware/sessionAuthMiddleware.js";
+import {
+  SavedView,
+  SavedViewResource,
+  SavedViewService,
+} from "../services/savedViewService.js";
+import { TenantService } from "../services/tenantService.js";
+import { User } from "../services/authService.js";
+import {
+  savedViewFiltersSchemas,
+  savedViewSchema,
+  savedViewUpdateSchema,
+} from "../validation/schemas.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+const router = Router();
+
+function validationError(res: Response, issues: any[]) {
+  return res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Request validation failed",
+      details: {
+        validation_errors: issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    },
+  });
+}
+
+function notFound(res: Response, message: string) {
+  return res.status(404).json({
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function internalError(res: Response, context: string, error: unknown) {
+  console.error(`[Views API] Error ${context}:`, error);
+  const errorMessage =
+    error instanceof Error ? error.message : "Internal server error";
+  return res.status(500).json({
+    error: { code: "INTERNAL_ERROR", message: errorMessage },
+  });
+}
+
+function conflict(res: Response, name: string) {
+  return res.status(409).json({
+    error: {
+      code: "CONFLICT",
+      message: `You already have a view named "${name}"`,
+    },
+  });
+}
+
+function forbidden(res: Response) {
+  return res.status(403).json({
+    error: {
+      code: "FORBIDDEN",
+      message: "Only the owner can change a shared view",
+    },
+  });
+}
+
+async function loadView(req: Request): Promise<SavedView | null> {
+  const user = (req as any).user as User;
+  const { viewId } = req.params;
+  if (!isValidUUIDv4(viewId)) return null;
+  return SavedViewService.getView(user.tenantId, user.id, viewId);
+}
+
+/**
+ * GET /api/v1/views
+ * The user's own views and views shared in the tenant
+ *
+ * Query params:
+ * - resource: traces | issues
+ * - projectId: views of this project plus views without a project
+ */
+router.get("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const resource = req.query.resource as string | undefined;
+    if (resource && resource !== "traces" && resource !== "issues") {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_PAYLOAD",
+          message: "resource must be traces or issues",
+        },
+      });
+    }
+    const projectId = req.query.projectId as string | undefined;
+    const views = await SavedViewService.listViews(user.tenantId, user.id, {
+      resource: resource as SavedViewResource | undefined,
+      projectId: projectId || null,
+    });
+    return res.status(200).json({ success: true, views, count: views.length });
+  } catch (error) {
+    return internalError(res, "listing views", error);
+  }
+});
+
+/**
+ * POST /api/v1/views
+ * Save a view
+ *
+ * Body: { resource: "traces" | "issues", name, description?, projectId?,
+ *         filters?: { ...list filters }, timeRange?: "24h" | "7d" | ..., shared? }
+ */
+router.post("/", sessionAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user as User;
+    const bodyResult = savedViewSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return validationError(res, bodyResult.error.issues);
+    }
+    const input = bodyResult.data;
+
+    if (input.projectId) {
+      const project = await TenantService.getProject(input.projectId);
+      if (!project || project.tenantId !== user.tenantId) {
+        return notFound(res, "Project not found");
+      }
+    }
+
+    const view = await SavedViewService.createView(user.tenantId, user.id, input);
+    if (!view) {
+      return conflict(res, input.name);
+    }
+    return res.status(201).json({ success: true, view });
+  } catch (error) {
+    return internalError(res, "creating view", error);
+  }
+});
+
+/**
+ * GET /api/v1/views/:viewId
+ */
+router.get(
+  "/:viewId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const view = await loadView(req);
+      if (!view) {
+        return notFound(res, "View not found");
+      }
+      return res.status(200).json({ success: true, view });
+    } catch (error) {
+      return internalError(res, "fetching view", error);
+    }
+  },
+);
+
+/**
+ * PATCH /api/v1/views/:viewId
+ * Owner only. filters replace the view's filters as a whole.
+ *
+ * Body: { name?, description?, filters?, timeRange?, shared? }
+ */
+router.patch(
+  "/:viewId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const bodyResult = savedViewUpdateSchema.safeParse(req.body);
+      if (!bodyResult.success) {
+        return validationError(res, bodyResult.error.issues);
+      }
+      const existing = await loadView(req);
+      if (!existing) {
+        return notFound(res, "View not found");
+      }
+      if (existing.user_id !== user.id) {
+        return forbidden(res);
+      }
+
+      const { filters, ...update } = bodyResult.data;
+      let parsedFilters: Record<string, any> | undefined;
+      if (filters) {
+        const filtersResult =
+          savedViewFiltersSchemas[existing.resource].safeParse(filters);
+        if (!filtersResult.success) {
+          return validationError(
+            res,
+            filtersResult.error.issues.map((issue) => ({
+              ...issue,
+              path: ["filters", ...issue.path],
+            })),
+          );
+        }
+        parsedFilters = filtersResult.data;
+      }
+
+      const view = await SavedViewService.updateView(
+        user.tenantId,
+        user.id,
+        existing.id,
+        { ...update, filters: parsedFilters },
+      );
+      if (!view) {
+        return notFound(res, "View not found");
+      }
+      return res.status(200).json({ success: true, view });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return conflict(res, req.body?.name);
+      }
+      return internalError(res, "updating view", error);
+    }
+  },
+);
+
+/**
+ * DELETE /api/v1/views/:viewId
+ * Owner only
+ */
+router.delete(
+  "/:viewId",
+  sessionAuthMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user as User;
+      const existing = await loadView(req);
+      if (!existing) {
+        return notFound(res, "View not found");
+      }
+      if (existing.user_id !== user.id) {
+        return forbidden(res);
+      }
+      const deleted = await SavedViewService.deleteView(
+        user.tenantId,
+        user.id,
+        existing.id,
+      );
+      if (!deleted) {
+        return notFound(res, "View not found");
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      return internalError(res, "deleting view", error);
+    }
+  },
+);
+
+export default router;
@@ -9,6 +9,12 @@
  * - TraceSpan: { id, parentId, name, startTime, endTime, duration, attributes, children? }
  */
 
+import type { AnnotationScore } from "./scoreService.js";
+import type {
+  CriticalPathAnalysis,
+  SpanTiming,
+} from "./criticalPathService.js";
+
 /**
  * Observa trace data format (from TraceQueryService.getTraceDetailTree)
  */
@@ -41,6 +47,11 @@ export interface ObservaTraceData {
   spansById?: Record<string, ObservaSpan>;
   signals?: any[];
   analysis?: any;
+  scores?: AnnotationScore[]; // Human annotation scores (trace- and span-level)
+  performanceAnalysis?: {
+    criticalPath?: CriticalPathAnalysis | null;
+    [key: string]: any;
+  };
 }
 
 /**
@@ -105,6 +116,11 @@ export interface ObservaSpan {
     // TIER 2: Conversation grouping
     conversation_id_otel?: string | null;
     choice_count?: number | null;
+    // Prompt registry link
+    prompt_template_id?: string | null;
+    prompt_version_id?: string | null;
+    prompt_name?: string | null;
+    prompt_version?: number | null;
   };
   available_tools?: Array<any> | null;
   executed_tools?: Array<any> | null;
@@ -233,6 +249,8 @@ export interface ObservaSpan {
   type?: string;
   event_type?: string;
   isRootTrace?: boolean; // Flag set by TraceQueryService to identify main trace span
+  scores?: AnnotationScore[]; // Annotation scores recorded against this span
+  timing?: SpanTiming; // Self/child time and critical path share
 }
 
 /**
@@ -251,6 +269,7 @@ export interface AgentPrismTraceRecord {
   session_id?: string | null;
   user_id?: string | null;
   environment?: string | null;
+  scores?: AnnotationScore[]; // Trace-level annotation scores
 }
 
 /**
@@ -372,6 +391,8 @@ export interface AgentPrismTraceSpan {
     function_name?: string | null;
     arguments?: any;
   }> | null; // Attempted tool calls for display
+  scores?: AnnotationScore[]; // Annotation scores recorded against this span
+  timing?: SpanTiming; // Self/child time and critical path share (waterfall highlight)
 }
 
 /**
@@ -401,6 +422,7 @@ export interface AgentPrismTraceData {
       | "error";
   }>;
   errorSummary?: ErrorSummary;
+  criticalPath?: CriticalPathAnalysis; // Spans on the critical path, in start order
 }
 
 /**
@@ -914,6 +936,13 @@ function transformSpan(span: ObservaSpan): AgentPrismTraceSpan {
     attributes["llm_call.streaming_duration_ms"] = llm.streaming_duration_ms;
     attributes["llm_call.response_id"] = llm.response_id;
     attributes["llm_call.system_fingerprint"] = llm.system_fingerprint;
+    if (llm.prompt_version_id) {
+      attributes["llm_call.prompt_version_id"] = llm.prompt_version_id;
+      attributes["llm_call.prompt_name"] = llm.prompt_name;
+      attributes["llm_call.prompt_version"] = llm.prompt_version;
+    } else if (llm.prompt_template_id) {
+      attributes["llm_call.prompt_template_id"] = llm.prompt_template_id;
+    }
     if (llm.tool_definitions && llm.tool_definitions.length > 0) {
       attributes["llm_call.tool_definitions"] = llm.tool_definitions;
     } else if (llm.tools && llm.tools.length > 0) {
@@ -2215,6 +2244,7 @@ function transformSpan(span: ObservaSpan): AgentPrismTraceSpan {
     ...(span.attempted_tool_calls && {
       attempted_tool_calls: span.attempted_tool_calls,
     }),
+    ...(span.timing && { timing: span.timing }),
     // TRACE_TREE_VIEW_SPEC: Pass through signals for observa-app to show (e.g. medium_latency, tool_error)
     ...((span as any).signals && (span as any).signals.length > 0
       ? { signals: (span as any).signals }
@@ -2448,6 +2478,24 @@ export function adaptObservaTraceToAgentPrism(
     }
   }
 
+  // Attach span-level annotation scores by span id
+  const spanScores = new Map<string, AnnotationScore[]>();
+  for (const score of observaTrace.scores || []) {
+    if (!score.span_id) continue;
+    spanScores.set(score.span_id, [
+      ...(spanScores.get(score.span_id) || []),
+      score,
+    ]);
+  }
+  if (spanScores.size > 0) {
+    const attachScores = (span: AgentPrismTraceSpan) => {
+      const scores = spanScores.get(span.id);
+      if (scores) span.scores = scores;
+      span.children?.forEach(attachScores);
+    };
+    transformedSpans.forEach(attachScores);
+  }
+
   // Count all spans recursively (including nested children)
   const totalSpansCount = countAllSpansRecursively(transformedSpans);
 
@@ -2466,6 +2514,7 @@ export function adaptObservaTraceToAgentPrism(
     session_id: summary.session_id ?? null,
     user_id: summary.user_id ?? null,
     environment: summary.environment ?? null,
+    scores: (observaTrace.scores || []).filter((score) => !score.span_id),
   };
 
   // Convert signals to badges
@@ -2514,6 +2563,7 @@ export function adaptObservaTraceToAgentPrism(
     spans: transformedSpans,
     badges: badges.length > 0 ? badges : undefined,
     errorSummary: errorSummary.hasErrors ? errorSummary : undefined,
+    criticalPath: observaTrace.performanceAnalysis?.criticalPath ?? undefined,
   };
 }
 
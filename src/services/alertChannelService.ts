@@ -0,0 +1,407 @@
+/**
+ * Alert Channel Service
+ *
+ * Delivers alert notifications to configured channels:
+ * - webhook: JSON POST signed with HMAC-SHA256 (X-Observa-Signature)
+ * - slack: Slack incoming-webhook payload (text + Block Kit blocks)
+ * - email: sent through Resend
+ *
+ * Also manages channel records (secrets are never returned after creation).
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { Resend } from "resend";
+import { query } from "../db/client.js";
+import { env } from "../config/env.js";
+
+export type AlertChannelType = "webhook" | "slack" | "email";
+
+export interface AlertChannelConfig {
+  url?: string; // webhook / slack
+  secret?: string; // webhook signing secret
+  headers?: Record<string, string>; // extra webhook headers
+  recipients?: string[]; // email
+}
+
+export interface AlertChannel {
+  id: string;
+  tenant_id: string;
+  name: string;
+  type: AlertChannelType;
+  config: AlertChannelConfig;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertChannelInput {
+  name: string;
+  type: AlertChannelType;
+  config: AlertChannelConfig;
+  enabled?: boolean;
+}
+
+/**
+ * Body sent to every channel (webhooks receive it verbatim)
+ */
+export interface AlertNotification {
+  event: "alert.fired" | "alert.resolved" | "alert.test";
+  rule: {
+    id: string;
+    name: string;
+    rule_type: string;
+    project_id: string | null;
+    signal_name: string | null;
+    metric: string | null;
+  };
+  value: number | null;
+  threshold: number;
+  operator: string;
+  window_minutes: number;
+  window: { start: string; end: string };
+  message: string;
+  timestamp: string;
+  url?: string;
+}
+
+export interface AlertDelivery {
+  channel_id: string;
+  channel_type: AlertChannelType;
+  ok: boolean;
+  status_code?: number;
+  error?: string;
+  duration_ms: number;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+export class AlertChannelService {
+  /**
+   * HMAC-SHA256 over "<timestamp>.<body>"; receivers recompute and compare
+   */
+  static signWebhookPayload(
+    secret: string,
+    timestamp: string,
+    body: string,
+  ): string {
+    return `sha256=${createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex")}`;
+  }
+
+  /**
+   * Slack incoming-webhook payload for a notification
+   */
+  static formatSlackPayload(notification: AlertNotification): Record<string, any> {
+    const icon =
+      notification.event === "alert.fired"
+        ? "🔴"
+        : notification.event === "alert.resolved"
+          ? "✅"
+          : "🧪";
+    const label =
+      notification.event === "alert.fired"
+        ? "Alert fired"
+        : notification.event === "alert.resolved"
+          ? "Alert resolved"
+          : "Test notification";
+    const title = `${icon} ${label}: ${notification.rule.name}`;
+
+    const fields = [
+      {
+        type: "mrkdwn",
+        text: `*Value*\n${this.formatValue(notification.value)}`,
+      },
+      {
+        type: "mrkdwn",
+        text: `*Threshold*\n${notification.operator} ${this.formatValue(notification.threshold)}`,
+      },
+      {
+        type: "mrkdwn",
+        text: `*Window*\n${notification.window_minutes}m`,
+      },
+      {
+        type: "mrkdwn",
+        text: `*Type*\n${notification.rule.signal_name || notification.rule.metric || notification.rule.rule_type}`,
+      },
+    ];
+
+    const blocks: any[] = [
+      { type: "header", text: { type: "plain_text", text: title } },
+      { type: "section", text: { type: "mrkdwn", text: notification.message } },
+      { type: "section", fields },
+    ];
+    if (notification.url) {
+      blocks.push({
+        type: "context",
+        elements: [
+          { type: "mrkdwn", text: `<${notification.url}|Open in Observa>` },
+        ],
+      });
+    }
+
+    return { text: `${title} — ${notification.message}`, blocks };
+  }
+
+  /**
+   * Send a notification to one channel; never throws
+   */
+  static async send(
+    channel: Pick<AlertChannel, "id" | "type" | "config">,
+    notification: AlertNotification,
+  ): Promise<AlertDelivery> {
+    const startedAt = Date.now();
+    const result = (partial: Omit<AlertDelivery, "channel_id" | "channel_type" | "duration_ms">): AlertDelivery => ({
+      channel_id: channel.id,
+      channel_type: channel.type,
+      duration_ms: Date.now() - startedAt,
+      ...partial,
+    });
+
+    try {
+      switch (channel.type) {
+        case "webhook": {
+          const body = JSON.stringify(notification);
+          const timestamp = Math.floor(Date.now() / 1000).toString();
+          const headers: Record<string, string> = {
+            ...(channel.config.headers || {}),
+            "Content-Type": "application/json",
+            "User-Agent": "Observa-Alerts/1.0",
+            "X-Observa-Event": notification.event,
+            "X-Observa-Timestamp": timestamp,
+          };
+          if (channel.config.secret) {
+            headers["X-Observa-Signature"] = this.signWebhookPayload(
+              channel.config.secret,
+              timestamp,
+              body,
+            );
+          }
+          const response = await this.post(channel.config.url, headers, body);
+          return result({
+            ok: response.ok,
+            status_code: response.status,
+            ...(response.ok ? {} : { error: `HTTP ${response.status}` }),
+          });
+        }
+        case "slack": {
+          const response = await this.post(
+            channel.config.url,
+            { "Content-Type": "application/json" },
+            JSON.stringify(this.formatSlackPayload(notification)),
+          );
+          return result({
+            ok: response.ok,
+            status_code: response.status,
+            ...(response.ok ? {} : { error: `HTTP ${response.status}` }),
+          });
+        }
+        case "email": {
+          if (!env.RESEND_API_KEY) {
+            return result({ ok: false, error: "RESEND_API_KEY is not configured" });
+          }
+          const recipients = channel.config.recipients || [];
+          if (recipients.length === 0) {
+            return result({ ok: false, error: "No recipients configured" });
+          }
+          const resend = new Resend(env.RESEND_API_KEY);
+          const { error } = await resend.emails.send({
+            from: env.ALERT_EMAIL_FROM,
+            to: recipients,
+            subject: this.formatSlackPayload(notification).text,
+            text: this.formatEmailText(notification),
+          });
+          return result(error ? { ok: false, error: error.message } : { ok: true });
+        }
+        default:
+          return result({ ok: false, error: `Unsupported channel type: ${channel.type}` });
+      }
+    } catch (error) {
+      return result({
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  static async listChannels(tenantId: string): Promise<AlertChannel[]> {
+    const rows = await query<any>(
+      `SELECT * FROM alert_channels WHERE tenant_id = $1 ORDER BY created_at DESC`,
+      [tenantId],
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  static async getChannel(
+    tenantId: string,
+    channelId: string,
+  ): Promise<AlertChannel | null> {
+    const rows = await query<any>(
+      `SELECT * FROM alert_channels WHERE id = $1 AND tenant_id = $2`,
+      [channelId, tenantId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Channels by id within a tenant (used when a rule fires)
+   */
+  static async getChannelsByIds(
+    tenantId: string,
+    channelIds: string[],
+  ): Promise<AlertChannel[]> {
+    if (channelIds.length === 0) return [];
+    const rows = await query<any>(
+      `SELECT * FROM alert_channels WHERE tenant_id = $1 AND id = ANY($2)`,
+      [tenantId, channelIds],
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Create a channel; webhook channels get a generated signing secret if none is given
+   */
+  static async createChannel(
+    tenantId: string,
+    userId: string | null,
+    input: AlertChannelInput,
+  ): Promise<AlertChannel> {
+    const config = { ...input.config };
+    if (input.type === "webhook" && !config.secret) {
+      config.secret = `whsec_${randomBytes(24).toString("hex")}`;
+    }
+    const rows = await query<any>(
+      `INSERT INTO alert_channels (tenant_id, name, type, config, enabled, created_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        tenantId,
+        input.name,
+        input.type,
+        JSON.stringify(config),
+        input.enabled ?? true,
+        userId,
+      ],
+    );
+    return this.mapRow(rows[0]);
+  }
+
+  static async updateChannel(
+    tenantId: string,
+    channelId: string,
+    input: Partial<AlertChannelInput>,
+  ): Promise<AlertChannel | null> {
+    const existing = await this.getChannel(tenantId, channelId);
+    if (!existing) return null;
+
+    const config = input.config
+      ? {
+          ...input.config,
+          // Keep the existing secret unless a new one is supplied
+          secret: input.config.secret ?? existing.config.secret,
+        }
+      : existing.config;
+
+    const rows = await query<any>(
+      `UPDATE alert_channels SET
+         name = $3, config = $4, enabled = $5, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      [
+        channelId,
+        tenantId,
+        input.name ?? existing.name,
+        JSON.stringify(config),
+        input.enabled ?? existing.enabled,
+      ],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async deleteChannel(
+    tenantId: string,
+    channelId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM alert_channels WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [channelId, tenantId],
+    );
+    if (rows.length > 0) {
+      await query(
+        `UPDATE alert_rules SET channel_ids = array_remove(channel_ids, $2::uuid)
+         WHERE tenant_id = $1`,
+        [tenantId, channelId],
+      );
+    }
+    return rows.length > 0;
+  }
+
+  /**
+   * Channel as returned by the API: secrets are replaced by a flag
+   */
+  static toPublic(
+    channel: AlertChannel,
+  ): Omit<AlertChannel, "config"> & { config: Omit<AlertChannelConfig, "secret"> & { has_secret?: boolean } } {
+    const { secret, ...config } = channel.config;
+    return {
+      ...channel,
+      config: channel.type === "webhook" ? { ...config, has_secret: !!secret } : config,
+    };
+  }
+
+  private static async post(
+    url: string | undefined,
+    headers: Record<string, string>,
+    body: string,
+  ): Promise<{ ok: boolean; status: number }> {
+    if (!url) {
+      throw new Error("Channel URL is not configured");
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      // Drain the body so the connection is released back to the pool
+      await response.text().catch(() => undefined);
+      return { ok: response.ok, status: response.status };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private static formatEmailText(notification: AlertNotification): string {
+    return [
+      notification.message,
+      "",
+      `Rule: ${notification.rule.name}`,
+      `Value: ${this.formatValue(notification.value)}`,
+      `Threshold: ${notification.operator} ${this.formatValue(notification.threshold)}`,
+      `Window: ${notification.window.start} – ${notification.window.end}`,
+      ...(notification.url ? ["", notification.url] : []),
+    ].join("\n");
+  }
+
+  private static formatValue(value: number | null): string {
+    if (value === null || !Number.isFinite(value)) return "n/a";
+    return Number.isInteger(value) ? value.toString() : value.toFixed(4).replace(/0+$/, "");
+  }
+
+  private static mapRow(row: any): AlertChannel {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      name: row.name,
+      type: row.type,
+      config:
+        typeof row.config === "string" ? JSON.parse(row.config) : row.config || {},
+      enabled: row.enabled,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,641 @@
+/**
+ * Alert Service
+ *
+ * Alert rules evaluated on a schedule over a sliding window:
+ * - signal_count: number of signals (optionally one signal name / severity)
+ * - error_rate: % of traces with errors (DashboardMetricsService)
+ * - metric_threshold: latency percentiles, cost, tokens or trace count
+ *
+ * A rule fires when its condition holds and it is outside its cooldown, and
+ * resolves when the condition clears. Both transitions are recorded in
+ * alert_events and delivered to the rule's channels.
+ *
+ * With REDIS_URL (or UPSTASH_REDIS_URL) set, each evaluation tick takes a
+ * Redis lock so only one worker instance evaluates (and notifies) per tick.
+ */
+
+import { hostname } from "os";
+import Redis from "ioredis";
+import { query } from "../db/client.js";
+import { env } from "../config/env.js";
+import {
+  DashboardMetricsService,
+  LatencyMetrics,
+} from "./dashboardMetricsService.js";
+import { SignalsQueryService } from "./signalsQueryService.js";
+import { SignalRuleOperator, SignalRulesService } from "./signalRulesService.js";
+import {
+  AlertChannelService,
+  AlertDelivery,
+  AlertNotification,
+} from "./alertChannelService.js";
+
+export type AlertRuleType = "signal_count" | "error_rate" | "metric_threshold";
+
+export const ALERT_METRICS = [
+  "latency_p50",
+  "latency_p95",
+  "latency_p99",
+  "latency_avg",
+  "error_rate",
+  "total_cost",
+  "avg_cost_per_trace",
+  "total_tokens",
+  "avg_tokens_per_trace",
+  "trace_count",
+] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+export interface AlertRule {
+  id: string;
+  tenant_id: string;
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  rule_type: AlertRuleType;
+  signal_name: string | null;
+  signal_severity: "low" | "medium" | "high" | null;
+  metric: AlertMetric | null;
+  operator: SignalRuleOperator;
+  threshold: number;
+  window_minutes: number;
+  cooldown_minutes: number;
+  channel_ids: string[];
+  enabled: boolean;
+  state: "ok" | "firing";
+  last_value: number | null;
+  last_evaluated_at: string | null;
+  last_fired_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRuleInput {
+  projectId?: string | null;
+  name: string;
+  description?: string | null;
+  ruleType: AlertRuleType;
+  signalName?: string | null;
+  signalSeverity?: "low" | "medium" | "high" | null;
+  metric?: AlertMetric | null;
+  operator?: SignalRuleOperator;
+  threshold: number;
+  windowMinutes?: number;
+  cooldownMinutes?: number;
+  channelIds?: string[];
+  enabled?: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  rule_name?: string;
+  status: "fired" | "resolved";
+  value: number | null;
+  threshold: number | null;
+  message: string | null;
+  window_start: string | null;
+  window_end: string | null;
+  deliveries: AlertDelivery[];
+  created_at: string;
+}
+
+export interface AlertEvaluation {
+  rule_id: string;
+  value: number;
+  breaching: boolean;
+  transition: "fired" | "resolved" | "suppressed" | null;
+  window: { start: string; end: string };
+}
+
+const JOB_INTERVAL_MS = 60 * 1000;
+// Signals fetched per evaluation; counts above this are reported as the cap
+const SIGNAL_COUNT_LIMIT = 10000;
+
+const JOB_LOCK_KEY = "observa:alert-job:lock";
+
+let jobTimer: NodeJS.Timeout | null = null;
+let jobRunning = false;
+let jobIntervalMs = JOB_INTERVAL_MS;
+let lockClient: Redis | null = null;
+let lockClientInitialized = false;
+
+export class AlertService {
+  /**
+   * Decide the state transition for a rule given whether it is breaching now
+   */
+  static nextTransition(
+    rule: Pick<AlertRule, "state" | "last_fired_at" | "cooldown_minutes">,
+    breaching: boolean,
+    now: Date = new Date(),
+  ): AlertEvaluation["transition"] {
+    if (!breaching) {
+      return rule.state === "firing" ? "resolved" : null;
+    }
+    if (rule.state === "firing") {
+      return null;
+    }
+    if (rule.last_fired_at) {
+      const cooldownEnds =
+        new Date(rule.last_fired_at).getTime() +
+        rule.cooldown_minutes * 60 * 1000;
+      if (now.getTime() < cooldownEnds) {
+        return "suppressed";
+      }
+    }
+    return "fired";
+  }
+
+  /**
+   * Current value of a rule's measurement over [start, end]
+   */
+  static async measure(
+    rule: AlertRule,
+    start: string,
+    end: string,
+  ): Promise<number> {
+    const projectId = rule.project_id;
+
+    if (rule.rule_type === "signal_count") {
+      const signals = await SignalsQueryService.querySignals({
+        tenantId: rule.tenant_id,
+        projectId,
+        signalNames: rule.signal_name ? [rule.signal_name] : undefined,
+        severity: rule.signal_severity || undefined,
+        startTime: start,
+        endTime: end,
+        limit: SIGNAL_COUNT_LIMIT,
+      });
+      return signals.length;
+    }
+
+    const metric: AlertMetric =
+      rule.rule_type === "error_rate" ? "error_rate" : rule.metric!;
+
+    switch (metric) {
+      case "latency_p50":
+      case "latency_p95":
+      case "latency_p99":
+      case "latency_avg": {
+        // Without groupBy the result is a single LatencyMetrics
+        const latency = (await DashboardMetricsService.getLatencyMetrics(
+          rule.tenant_id,
+          projectId,
+          start,
+          end,
+        )) as LatencyMetrics;
+        const key = metric.replace("latency_", "") as "p50" | "p95" | "p99" | "avg";
+        return latency[key] || 0;
+      }
+      case "error_rate": {
+        const errors = await DashboardMetricsService.getErrorRateMetrics(
+          rule.tenant_id,
+          projectId,
+          start,
+          end,
+        );
+        return errors.error_rate;
+      }
+      case "total_cost":
+      case "avg_cost_per_trace": {
+        const cost = await DashboardMetricsService.getCostMetrics(
+          rule.tenant_id,
+          projectId,
+          start,
+          end,
+        );
+        return cost[metric] || 0;
+      }
+      case "total_tokens":
+      case "avg_tokens_per_trace": {
+        const tokens = await DashboardMetricsService.getTokenMetrics(
+          rule.tenant_id,
+          projectId,
+          start,
+          end,
+        );
+        return tokens[metric] || 0;
+      }
+      case "trace_count":
+        return await DashboardMetricsService.getTraceCount(
+          rule.tenant_id,
+          projectId,
+          start,
+          end,
+        );
+      default:
+        throw new Error(`Unsupported alert metric: ${metric}`);
+    }
+  }
+
+  /**
+   * Evaluate one rule, record fired/resolved events and notify its channels
+   */
+  static async evaluateRule(
+    rule: AlertRule,
+    now: Date = new Date(),
+  ): Promise<AlertEvaluation> {
+    const end = now.toISOString();
+    const start = new Date(
+      now.getTime() - rule.window_minutes * 60 * 1000,
+    ).toISOString();
+
+    const value = await this.measure(rule, start, end);
+    const breaching = SignalRulesService.compare(
+      value,
+      rule.operator,
+      rule.threshold,
+    );
+    const transition = this.nextTransition(rule, breaching, now);
+
+    if (transition === "fired" || transition === "resolved") {
+      await this.recordTransition(rule, transition, value, start, end);
+    }
+
+    await query(
+      `UPDATE alert_rules SET
+         last_value = $2,
+         last_evaluated_at = $3,
+         state = CASE WHEN $4::text = 'fired' THEN 'firing' WHEN $4::text = 'resolved' THEN 'ok' ELSE state END,
+         last_fired_at = CASE WHEN $4::text = 'fired' THEN $3 ELSE last_fired_at END
+       WHERE id = $1`,
+      [rule.id, value, now, transition],
+    );
+
+    return { rule_id: rule.id, value, breaching, transition, window: { start, end } };
+  }
+
+  /**
+   * Evaluate every enabled rule
+   */
+  static async runAlertJob(): Promise<void> {
+    if (jobRunning) return;
+    jobRunning = true;
+    try {
+      if (!(await this.acquireJobLock())) {
+        return;
+      }
+      const rows = await query<any>(
+        `SELECT * FROM alert_rules WHERE enabled = TRUE ORDER BY tenant_id`,
+      );
+      for (const row of rows) {
+        const rule = this.mapRow(row);
+        try {
+          await this.evaluateRule(rule);
+        } catch (error) {
+          console.error(
+            `[AlertService] Failed to evaluate alert rule ${rule.id}:`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+      }
+    } catch (error) {
+      console.error("[AlertService] Alert job failed:", error);
+    } finally {
+      jobRunning = false;
+    }
+  }
+
+  /**
+   * Start the periodic alert evaluation job
+   */
+  static startAlertJob(intervalMs: number = JOB_INTERVAL_MS): void {
+    if (jobTimer) return;
+    jobIntervalMs = intervalMs;
+    jobTimer = setInterval(() => void this.runAlertJob(), intervalMs);
+    console.log(
+      `✅ Alert evaluation scheduled every ${Math.round(intervalMs / 1000)} seconds`,
+    );
+  }
+
+  static stopAlertJob(): void {
+    if (jobTimer) {
+      clearInterval(jobTimer);
+      jobTimer = null;
+    }
+    if (lockClient) {
+      lockClient.disconnect();
+      lockClient = null;
+      lockClientInitialized = false;
+    }
+  }
+
+  /**
+   * Claim the current tick across instances (SET NX PX, left to expire just
+   * before the next tick). Always true without Redis; fails open on Redis
+   * errors so alerts are never silently skipped.
+   */
+  private static async acquireJobLock(): Promise<boolean> {
+    if (!lockClientInitialized) {
+      lockClientInitialized = true;
+      const redisUrl = process.env.REDIS_URL || process.env.UPSTASH_REDIS_URL;
+      if (redisUrl) {
+        lockClient = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+        lockClient.on("error", (error) =>
+          console.error("[AlertService] Redis error:", error.message),
+        );
+      }
+    }
+    if (!lockClient) return true;
+
+    try {
+      const acquired = await lockClient.set(
+        JOB_LOCK_KEY,
+        `${hostname()}:${process.pid}`,
+        "PX",
+        Math.max(1000, jobIntervalMs - 1000),
+        "NX",
+      );
+      return acquired === "OK";
+    } catch (error) {
+      console.warn(
+        "[AlertService] Failed to take the alert job lock, evaluating anyway:",
+        error instanceof Error ? error.message : error,
+      );
+      return true;
+    }
+  }
+
+  /**
+   * Build the notification body for a rule
+   */
+  static buildNotification(
+    rule: AlertRule,
+    event: AlertNotification["event"],
+    value: number | null,
+    start: string,
+    end: string,
+  ): AlertNotification {
+    const subject =
+      rule.rule_type === "signal_count"
+        ? `${rule.signal_name || "signal"} count`
+        : rule.rule_type === "error_rate"
+          ? "error rate (%)"
+          : rule.metric || "metric";
+    const state =
+      event === "alert.resolved"
+        ? "is back within threshold"
+        : event === "alert.test"
+          ? "test notification"
+          : `is ${rule.operator} ${rule.threshold}`;
+
+    return {
+      event,
+      rule: {
+        id: rule.id,
+        name: rule.name,
+        rule_type: rule.rule_type,
+        project_id: rule.project_id,
+        signal_name: rule.signal_name,
+        metric: rule.metric,
+      },
+      value,
+      threshold: rule.threshold,
+      operator: rule.operator,
+      window_minutes: rule.window_minutes,
+      window: { start, end },
+      message: `${rule.name}: ${subject} ${state} (value ${value ?? "n/a"} over the last ${rule.window_minutes}m)`,
+      timestamp: new Date().toISOString(),
+      ...(env.FRONTEND_URL
+        ? { url: `${env.FRONTEND_URL.replace(/\/$/, "")}/dashboard/alerts` }
+        : {}),
+    };
+  }
+
+  static async listRules(
+    tenantId: string,
+    projectId?: string | null,
+  ): Promise<AlertRule[]> {
+    const params: any[] = [tenantId];
+    let whereClause = "WHERE tenant_id = $1";
+    if (projectId) {
+      params.push(projectId);
+      whereClause += ` AND (project_id = $2 OR project_id IS NULL)`;
+    }
+    const rows = await query<any>(
+      `SELECT * FROM alert_rules ${whereClause} ORDER BY created_at DESC`,
+      params,
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  static async getRule(
+    tenantId: string,
+    ruleId: string,
+  ): Promise<AlertRule | null> {
+    const rows = await query<any>(
+      `SELECT * FROM alert_rules WHERE id = $1 AND tenant_id = $2`,
+      [ruleId, tenantId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async createRule(
+    tenantId: string,
+    userId: string | null,
+    input: AlertRuleInput,
+  ): Promise<AlertRule> {
+    const rows = await query<any>(
+      `INSERT INTO alert_rules (
+         tenant_id, project_id, name, description, rule_type, signal_name,
+         signal_severity, metric, operator, threshold, window_minutes,
+         cooldown_minutes, channel_ids, enabled, created_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING *`,
+      [
+        tenantId,
+        input.projectId ?? null,
+        input.name,
+        input.description ?? null,
+        input.ruleType,
+        input.signalName ?? null,
+        input.signalSeverity ?? null,
+        input.metric ?? null,
+        input.operator ?? "gt",
+        input.threshold,
+        input.windowMinutes ?? 5,
+        input.cooldownMinutes ?? 60,
+        input.channelIds ?? [],
+        input.enabled ?? true,
+        userId,
+      ],
+    );
+    return this.mapRow(rows[0]);
+  }
+
+  static async updateRule(
+    tenantId: string,
+    ruleId: string,
+    input: Partial<AlertRuleInput>,
+  ): Promise<AlertRule | null> {
+    const columns: Record<keyof AlertRuleInput, string> = {
+      projectId: "project_id",
+      name: "name",
+      description: "description",
+      ruleType: "rule_type",
+      signalName: "signal_name",
+      signalSeverity: "signal_severity",
+      metric: "metric",
+      operator: "operator",
+      threshold: "threshold",
+      windowMinutes: "window_minutes",
+      cooldownMinutes: "cooldown_minutes",
+      channelIds: "channel_ids",
+      enabled: "enabled",
+    };
+
+    const sets: string[] = [];
+    const params: any[] = [ruleId, tenantId];
+    let paramIndex = 3;
+    for (const [key, column] of Object.entries(columns)) {
+      const value = (input as any)[key];
+      if (value === undefined) continue;
+      sets.push(`${column} = $${paramIndex}`);
+      params.push(value);
+      paramIndex++;
+    }
+
+    if (sets.length === 0) {
+      return this.getRule(tenantId, ruleId);
+    }
+
+    const rows = await query<any>(
+      `UPDATE alert_rules SET ${sets.join(", ")}, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      params,
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async deleteRule(tenantId: string, ruleId: string): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM alert_rules WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [ruleId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Fired/resolved history for a tenant, optionally one rule
+   */
+  static async getHistory(
+    tenantId: string,
+    options: { ruleId?: string; limit?: number; offset?: number } = {},
+  ): Promise<AlertEvent[]> {
+    const params: any[] = [tenantId];
+    let whereClause = "WHERE e.tenant_id = $1";
+    if (options.ruleId) {
+      params.push(options.ruleId);
+      whereClause += ` AND e.rule_id = $2`;
+    }
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), 500);
+    const offset = Math.max(options.offset ?? 0, 0);
+
+    const rows = await query<any>(
+      `SELECT e.*, r.name as rule_name
+       FROM alert_events e
+       JOIN alert_rules r ON r.id = e.rule_id
+       ${whereClause}
+       ORDER BY e.created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      rule_id: row.rule_id,
+      rule_name: row.rule_name,
+      status: row.status,
+      value: row.value === null ? null : Number(row.value),
+      threshold: row.threshold === null ? null : Number(row.threshold),
+      message: row.message,
+      window_start: row.window_start
+        ? new Date(row.window_start).toISOString()
+        : null,
+      window_end: row.window_end ? new Date(row.window_end).toISOString() : null,
+      deliveries:
+        typeof row.deliveries === "string"
+          ? JSON.parse(row.deliveries)
+          : row.deliveries || [],
+      created_at: new Date(row.created_at).toISOString(),
+    }));
+  }
+
+  private static async recordTransition(
+    rule: AlertRule,
+    transition: "fired" | "resolved",
+    value: number,
+    start: string,
+    end: string,
+  ): Promise<void> {
+    const notification = this.buildNotification(
+      rule,
+      transition === "fired" ? "alert.fired" : "alert.resolved",
+      value,
+      start,
+      end,
+    );
+
+    const channels = (
+      await AlertChannelService.getChannelsByIds(rule.tenant_id, rule.channel_ids)
+    ).filter((channel) => channel.enabled);
+    const deliveries = await Promise.all(
+      channels.map((channel) => AlertChannelService.send(channel, notification)),
+    );
+
+    const failed = deliveries.filter((d) => !d.ok);
+    if (failed.length > 0) {
+      console.warn(
+        `[AlertService] ${failed.length}/${deliveries.length} deliveries failed for rule ${rule.id}:`,
+        failed.map((d) => d.error).join("; "),
+      );
+    }
+
+    await query(
+      `INSERT INTO alert_events (
+         tenant_id, rule_id, status, value, threshold, message,
+         window_start, window_end, deliveries
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        rule.tenant_id,
+        rule.id,
+        transition,
+        value,
+        rule.threshold,
+        notification.message,
+        new Date(start),
+        new Date(end),
+        JSON.stringify(deliveries),
+      ],
+    );
+  }
+
+  private static mapRow(row: any): AlertRule {
+    const iso = (value: any) => (value ? new Date(value).toISOString() : null);
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      description: row.description,
+      rule_type: row.rule_type,
+      signal_name: row.signal_name,
+      signal_severity: row.signal_severity,
+      metric: row.metric,
+      operator: row.operator,
+      threshold: Number(row.threshold),
+      window_minutes: Number(row.window_minutes),
+      cooldown_minutes: Number(row.cooldown_minutes),
+      channel_ids: row.channel_ids || [],
+      enabled: row.enabled,
+      state: row.state,
+      last_value: row.last_value === null ? null : Number(row.last_value),
+      last_evaluated_at: iso(row.last_evaluated_at),
+      last_fired_at: iso(row.last_fired_at),
+      created_at: iso(row.created_at)!,
+      updated_at: iso(row.updated_at)!,
+    };
+  }
+}
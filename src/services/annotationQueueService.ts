@@ -0,0 +1,641 @@
+/**
+ * Annotation Queue Service
+ *
+ * Review queues of traces for human annotation.
+ * Traces enter a queue manually or from the queue's filter: the trace list
+ * filters (GET /api/v1/traces), plus signal names and end-user feedback types
+ * matched in Tinybird (e.g. every trace with a `hallucination` signal or a
+ * dislike). Items move pending → in_progress (claimed via next) →
+ * completed | skipped; soft-deleted traces are never queued.
+ */
+
+import { query } from "../db/client.js";
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { TraceQueryService } from "./traceQueryService.js";
+import type { TraceFilter } from "./datasetService.js";
+import {
+  chDateTime,
+  chStringList,
+  chUuid,
+} from "../utils/clickhouseSql.js";
+
+export type QueueItemStatus = "pending" | "in_progress" | "completed" | "skipped";
+
+export const QUEUE_ITEM_STATUSES: QueueItemStatus[] = [
+  "pending",
+  "in_progress",
+  "completed",
+  "skipped",
+];
+
+export type FeedbackType = "like" | "dislike" | "rating" | "correction";
+
+export interface QueueFilter extends TraceFilter {
+  signals?: string[];
+  feedbackTypes?: FeedbackType[];
+}
+
+export interface QueueStats {
+  total: number;
+  pending: number;
+  in_progress: number;
+  completed: number;
+  skipped: number;
+  completion_rate: number; // percentage of items completed or skipped
+}
+
+export interface AssigneeStats extends QueueStats {
+  user_id: string | null;
+  email: string | null;
+}
+
+export interface AnnotationQueue {
+  id: string;
+  tenant_id: string;
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  filter: QueueFilter | null;
+  score_config_ids: string[];
+  last_populated_at: string | null;
+  stats: QueueStats;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnnotationQueueInput {
+  name: string;
+  description?: string | null;
+  projectId?: string | null;
+  filter?: QueueFilter | null;
+  scoreConfigIds?: string[];
+}
+
+export interface QueueItem {
+  id: string;
+  queue_id: string;
+  trace_id: string;
+  source: "manual" | "filter";
+  status: QueueItemStatus;
+  assigned_user_id: string | null;
+  assigned_user_email: string | null;
+  notes: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  completed_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QueueItemUpdate {
+  status?: QueueItemStatus;
+  assignedUserId?: string | null;
+  notes?: string | null;
+}
+
+// Maximum traces added by a single populate run
+export const MAX_POPULATE = 1000;
+
+// Filter keys that only shape ordering or the time window, not the trace set
+const NON_CRITERIA_KEYS = new Set(["startDate", "endDate", "sortBy", "sortOrder"]);
+
+export class AnnotationQueueService {
+  /**
+   * Status counts → queue stats
+   */
+  static buildStats(counts: Partial<Record<QueueItemStatus, number>>): QueueStats {
+    const pending = counts.pending || 0;
+    const inProgress = counts.in_progress || 0;
+    const completed = counts.completed || 0;
+    const skipped = counts.skipped || 0;
+    const total = pending + inProgress + completed + skipped;
+    return {
+      total,
+      pending,
+      in_progress: inProgress,
+      completed,
+      skipped,
+      completion_rate: total > 0 ? ((completed + skipped) / total) * 100 : 0,
+    };
+  }
+
+  /**
+   * Whether the filter restricts traces beyond signals/feedback and the time window
+   */
+  static hasTraceCriteria(filter: QueueFilter): boolean {
+    return Object.entries(filter).some(
+      ([key, value]) =>
+        key !== "signals" &&
+        key !== "feedbackTypes" &&
+        !NON_CRITERIA_KEYS.has(key) &&
+        value !== undefined &&
+        value !== null &&
+        !(Array.isArray(value) && value.length === 0),
+    );
+  }
+
+  static async listQueues(
+    tenantId: string,
+    projectId?: string | null,
+  ): Promise<AnnotationQueue[]> {
+    const params: any[] = [tenantId];
+    let whereClause = "WHERE q.tenant_id = $1";
+    if (projectId) {
+      whereClause += " AND q.project_id = $2";
+      params.push(projectId);
+    }
+    const rows = await query<any>(
+      `SELECT q.*, ${this.statsColumns()}
+       FROM annotation_queues q
+       LEFT JOIN annotation_queue_items i ON i.queue_id = q.id
+       ${whereClause}
+       GROUP BY q.id
+       ORDER BY q.created_at DESC`,
+      params,
+    );
+    return rows.map((row) => this.mapQueue(row));
+  }
+
+  static async getQueue(
+    tenantId: string,
+    queueId: string,
+  ): Promise<AnnotationQueue | null> {
+    const rows = await query<any>(
+      `SELECT q.*, ${this.statsColumns()}
+       FROM annotation_queues q
+       LEFT JOIN annotation_queue_items i ON i.queue_id = q.id
+       WHERE q.id = $1 AND q.tenant_id = $2
+       GROUP BY q.id`,
+      [queueId, tenantId],
+    );
+    return rows[0] ? this.mapQueue(rows[0]) : null;
+  }
+
+  /**
+   * Create a queue; returns null if the tenant already has one with this name
+   */
+  static async createQueue(
+    tenantId: string,
+    userId: string | null,
+    input: AnnotationQueueInput,
+  ): Promise<AnnotationQueue | null> {
+    const rows = await query<{ id: string }>(
+      `INSERT INTO annotation_queues (
+         tenant_id, project_id, name, description, filter, score_config_ids, created_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (tenant_id, name) DO NOTHING
+       RETURNING id`,
+      [
+        tenantId,
+        input.projectId ?? null,
+        input.name,
+        input.description ?? null,
+        input.filter ? JSON.stringify(input.filter) : null,
+        input.scoreConfigIds || [],
+        userId,
+      ],
+    );
+    return rows[0] ? this.getQueue(tenantId, rows[0].id) : null;
+  }
+
+  static async updateQueue(
+    tenantId: string,
+    queueId: string,
+    input: Partial<Omit<AnnotationQueueInput, "projectId">>,
+  ): Promise<AnnotationQueue | null> {
+    await query(
+      `UPDATE annotation_queues SET
+         name = COALESCE($3, name),
+         description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+         filter = CASE WHEN $6::boolean THEN $7::jsonb ELSE filter END,
+         score_config_ids = COALESCE($8, score_config_ids),
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2`,
+      [
+        queueId,
+        tenantId,
+        input.name ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+        input.filter !== undefined,
+        input.filter ? JSON.stringify(input.filter) : null,
+        input.scoreConfigIds ?? null,
+      ],
+    );
+    return this.getQueue(tenantId, queueId);
+  }
+
+  static async deleteQueue(tenantId: string, queueId: string): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM annotation_queues WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [queueId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Trace ids matching a queue filter, newest first
+   * Signals and feedback types are OR-ed together; any other trace filter
+   * criteria narrow that set further (or select traces on their own).
+   */
+  static async matchTraceIds(
+    tenantId: string,
+    projectId: string | null,
+    filter: QueueFilter,
+    limit: number,
+  ): Promise<string[]> {
+    const { signals, feedbackTypes, ...traceFilter } = filter;
+    const hasEventCriteria =
+      (signals?.length ?? 0) > 0 || (feedbackTypes?.length ?? 0) > 0;
+
+    let traceIds: string[] | null = null;
+    if (!hasEventCriteria || this.hasTraceCriteria(traceFilter)) {
+      const { traces } = await TraceQueryService.getTracesV2(tenantId, {
+        ...traceFilter,
+        projectId,
+        limit: hasEventCriteria ? MAX_POPULATE : limit,
+        offset: 0,
+        includeStats: false,
+      });
+      traceIds = traces.map((trace) => trace.trace_id);
+    }
+    if (!hasEventCriteria) {
+      return traceIds || [];
+    }
+
+    const eventTraceIds = await this.matchEventTraceIds(
+      tenantId,
+      projectId,
+      signals || [],
+      feedbackTypes || [],
+      traceFilter.startDate,
+      traceFilter.endDate,
+      traceIds ? MAX_POPULATE : limit,
+    );
+    if (!traceIds) return eventTraceIds;
+
+    const allowed = new Set(traceIds);
+    return eventTraceIds.filter((id) => allowed.has(id)).slice(0, limit);
+  }
+
+  /**
+   * Run the queue filter and add matching traces not already queued
+   */
+  static async populate(
+    queue: AnnotationQueue,
+    limit: number = MAX_POPULATE,
+  ): Promise<{ matched: number; added: number }> {
+    if (!queue.filter) {
+      return { matched: 0, added: 0 };
+    }
+    const traceIds = await this.matchTraceIds(
+      queue.tenant_id,
+      queue.project_id,
+      queue.filter,
+      Math.min(Math.max(limit, 1), MAX_POPULATE),
+    );
+    const added = await this.addItems(queue, traceIds, "filter");
+    await query(
+      `UPDATE annotation_queues SET last_populated_at = NOW() WHERE id = $1`,
+      [queue.id],
+    );
+    return { matched: traceIds.length, added };
+  }
+
+  /**
+   * Add traces to a queue; already queued and soft-deleted traces are skipped
+   * Returns the number of items created.
+   */
+  static async addItems(
+    queue: Pick<AnnotationQueue, "id" | "tenant_id">,
+    traceIds: string[],
+    source: QueueItem["source"],
+    assignedUserId: string | null = null,
+  ): Promise<number> {
+    if (traceIds.length === 0) return 0;
+    const rows = await query<{ id: string }>(
+      `INSERT INTO annotation_queue_items (queue_id, tenant_id, trace_id, source, assigned_user_id)
+       SELECT $1, $2, t.trace_id, $4, $5
+       FROM unnest($3::text[]) AS t(trace_id)
+       WHERE NOT EXISTS (
+         SELECT 1 FROM trace_index ti
+         WHERE ti.trace_id::text = t.trace_id AND ti.tenant_id = $2 AND ti.is_deleted = TRUE
+       )
+       ON CONFLICT (queue_id, trace_id) DO NOTHING
+       RETURNING id`,
+      [queue.id, queue.tenant_id, [...new Set(traceIds)], source, assignedUserId],
+    );
+    return rows.length;
+  }
+
+  static async listItems(
+    queueId: string,
+    filters: {
+      status?: QueueItemStatus;
+      assignedUserId?: string;
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): Promise<{ items: QueueItem[]; total: number }> {
+    const conditions = ["i.queue_id = $1"];
+    const params: any[] = [queueId];
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`i.status = $${params.length}`);
+    }
+    if (filters.assignedUserId) {
+      params.push(filters.assignedUserId);
+      conditions.push(`i.assigned_user_id = $${params.length}`);
+    }
+    const whereClause = conditions.join(" AND ");
+
+    const countRows = await query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM annotation_queue_items i WHERE ${whereClause}`,
+      params,
+    );
+    const rows = await query<any>(
+      `SELECT i.*, u.email AS assigned_user_email
+       FROM annotation_queue_items i
+       LEFT JOIN users u ON u.id = i.assigned_user_id
+       WHERE ${whereClause}
+       ORDER BY i.created_at ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit ?? 100, filters.offset ?? 0],
+    );
+    return {
+      items: rows.map((row) => this.mapItem(row)),
+      total: parseInt(countRows[0]?.count || "0", 10),
+    };
+  }
+
+  /**
+   * Claim the next item for a reviewer
+   * Resumes the reviewer's own in-progress item first, then their assigned
+   * pending items, then unassigned pending items (oldest first). Concurrent
+   * reviewers never receive the same item.
+   */
+  static async claimNext(
+    queueId: string,
+    userId: string,
+  ): Promise<QueueItem | null> {
+    const rows = await query<{ id: string }>(
+      `UPDATE annotation_queue_items SET
+         status = 'in_progress',
+         assigned_user_id = $2,
+         started_at = COALESCE(started_at, NOW()),
+         updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM annotation_queue_items
+         WHERE queue_id = $1
+           AND (
+             (status = 'in_progress' AND assigned_user_id = $2)
+             OR (status = 'pending' AND (assigned_user_id = $2 OR assigned_user_id IS NULL))
+           )
+         ORDER BY
+           CASE
+             WHEN status = 'in_progress' THEN 0
+             WHEN assigned_user_id = $2 THEN 1
+             ELSE 2
+           END,
+           created_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id`,
+      [queueId, userId],
+    );
+    return rows[0] ? this.getItem(queueId, rows[0].id) : null;
+  }
+
+  /**
+   * Mark an item completed (or skipped) by a reviewer
+   */
+  static async completeItem(
+    queueId: string,
+    itemId: string,
+    userId: string,
+    status: "completed" | "skipped" = "completed",
+    notes?: string | null,
+  ): Promise<QueueItem | null> {
+    const rows = await query<{ id: string }>(
+      `UPDATE annotation_queue_items SET
+         status = $3,
+         assigned_user_id = COALESCE(assigned_user_id, $4),
+         completed_by_user_id = $4,
+         completed_at = NOW(),
+         notes = CASE WHEN $5::boolean THEN $6 ELSE notes END,
+         updated_at = NOW()
+       WHERE id = $2 AND queue_id = $1
+       RETURNING id`,
+      [queueId, itemId, status, userId, notes !== undefined, notes ?? null],
+    );
+    return rows[0] ? this.getItem(queueId, rows[0].id) : null;
+  }
+
+  /**
+   * Update status, assignee or notes
+   * Moving an item back to pending clears its started/completed markers.
+   */
+  static async updateItem(
+    queueId: string,
+    itemId: string,
+    input: QueueItemUpdate,
+  ): Promise<QueueItem | null> {
+    const rows = await query<{ id: string }>(
+      `UPDATE annotation_queue_items SET
+         status = COALESCE($3, status),
+         assigned_user_id = CASE WHEN $4::boolean THEN $5::uuid ELSE assigned_user_id END,
+         notes = CASE WHEN $6::boolean THEN $7 ELSE notes END,
+         started_at = CASE WHEN $3 = 'pending' THEN NULL ELSE started_at END,
+         completed_at = CASE
+           WHEN $3 IN ('completed', 'skipped') THEN COALESCE(completed_at, NOW())
+           WHEN $3 IS NOT NULL THEN NULL
+           ELSE completed_at
+         END,
+         updated_at = NOW()
+       WHERE id = $2 AND queue_id = $1
+       RETURNING id`,
+      [
+        queueId,
+        itemId,
+        input.status ?? null,
+        input.assignedUserId !== undefined,
+        input.assignedUserId ?? null,
+        input.notes !== undefined,
+        input.notes ?? null,
+      ],
+    );
+    return rows[0] ? this.getItem(queueId, rows[0].id) : null;
+  }
+
+  /**
+   * Assign items to a user (null unassigns); completed and skipped items are left alone
+   */
+  static async assignItems(
+    queueId: string,
+    itemIds: string[],
+    userId: string | null,
+  ): Promise<number> {
+    const rows = await query<{ id: string }>(
+      `UPDATE annotation_queue_items SET assigned_user_id = $3, updated_at = NOW()
+       WHERE queue_id = $1 AND id = ANY($2::uuid[])
+         AND status IN ('pending', 'in_progress')
+       RETURNING id`,
+      [queueId, itemIds, userId],
+    );
+    return rows.length;
+  }
+
+  static async deleteItem(queueId: string, itemId: string): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM annotation_queue_items WHERE id = $1 AND queue_id = $2 RETURNING id`,
+      [itemId, queueId],
+    );
+    return rows.length > 0;
+  }
+
+  static async getItem(queueId: string, itemId: string): Promise<QueueItem | null> {
+    const rows = await query<any>(
+      `SELECT i.*, u.email AS assigned_user_email
+       FROM annotation_queue_items i
+       LEFT JOIN users u ON u.id = i.assigned_user_id
+       WHERE i.id = $1 AND i.queue_id = $2`,
+      [itemId, queueId],
+    );
+    return rows[0] ? this.mapItem(rows[0]) : null;
+  }
+
+  /**
+   * Queue progress broken down by assignee (unassigned items have user_id null)
+   */
+  static async getAssigneeStats(queueId: string): Promise<AssigneeStats[]> {
+    const rows = await query<any>(
+      `SELECT i.assigned_user_id, u.email, i.status, COUNT(*) AS count
+       FROM annotation_queue_items i
+       LEFT JOIN users u ON u.id = i.assigned_user_id
+       WHERE i.queue_id = $1
+       GROUP BY i.assigned_user_id, u.email, i.status`,
+      [queueId],
+    );
+    const byUser = new Map<
+      string,
+      { email: string | null; counts: Partial<Record<QueueItemStatus, number>> }
+    >();
+    for (const row of rows) {
+      const key = row.assigned_user_id || "";
+      const entry = byUser.get(key) || {
+        email: row.email ?? null,
+        counts: {} as Partial<Record<QueueItemStatus, number>>,
+      };
+      entry.counts[row.status as QueueItemStatus] = parseInt(row.count, 10);
+      byUser.set(key, entry);
+    }
+    return [...byUser.entries()].map(([userId, { email, counts }]) => ({
+      user_id: userId || null,
+      email,
+      ...this.buildStats(counts),
+    }));
+  }
+
+  private static async matchEventTraceIds(
+    tenantId: string,
+    projectId: string | null,
+    signals: string[],
+    feedbackTypes: string[],
+    startDate: string | undefined,
+    endDate: string | undefined,
+    limit: number,
+  ): Promise<string[]> {
+    const predicates: string[] = [];
+    if (signals.length > 0) {
+      predicates.push(
+        `(event_type = 'error' AND JSONExtractString(attributes_json, '$.signal.signal_name') IN (${chStringList(signals)}))`,
+      );
+    }
+    if (feedbackTypes.length > 0) {
+      predicates.push(
+        `(event_type = 'feedback' AND JSONExtractString(attributes_json, '$.feedback.type') IN (${chStringList(feedbackTypes)}))`,
+      );
+    }
+
+    let sql = `
+      SELECT trace_id, max(timestamp) AS last_seen
+      FROM canonical_events
+      WHERE tenant_id = ${chUuid(tenantId)}
+        AND (${predicates.join(" OR ")})
+    `;
+    if (projectId) {
+      sql += ` AND project_id = ${chUuid(projectId)}`;
+    }
+    if (startDate) {
+      sql += ` AND timestamp >= ${chDateTime(startDate)}`;
+    }
+    if (endDate) {
+      sql += ` AND timestamp <= ${chDateTime(endDate)}`;
+    }
+    sql += ` GROUP BY trace_id ORDER BY last_seen DESC LIMIT ${Math.floor(limit)}`;
+
+    const result = await TinybirdRepository.rawQuery(sql, {
+      tenantId,
+      projectId: projectId || undefined,
+    });
+    const rows = Array.isArray(result) ? result : result?.data || [];
+    return rows.map((row: any) => String(row.trace_id));
+  }
+
+  private static statsColumns(): string {
+    return QUEUE_ITEM_STATUSES.map(
+      (status) => `COUNT(i.id) FILTER (WHERE i.status = '${status}') AS ${status}_count`,
+    ).join(", ");
+  }
+
+  private static mapQueue(row: any): AnnotationQueue {
+    let filter: QueueFilter | null = row.filter ?? null;
+    if (typeof filter === "string") {
+      try {
+        filter = JSON.parse(filter);
+      } catch {
+        filter = null;
+      }
+    }
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      description: row.description,
+      filter,
+      score_config_ids: row.score_config_ids || [],
+      last_populated_at: row.last_populated_at
+        ? new Date(row.last_populated_at).toISOString()
+        : null,
+      stats: this.buildStats({
+        pending: parseInt(row.pending_count || "0", 10),
+        in_progress: parseInt(row.in_progress_count || "0", 10),
+        completed: parseInt(row.completed_count || "0", 10),
+        skipped: parseInt(row.skipped_count || "0", 10),
+      }),
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private static mapItem(row: any): QueueItem {
+    const iso = (value: any) => (value ? new Date(value).toISOString() : null);
+    return {
+      id: row.id,
+      queue_id: row.queue_id,
+      trace_id: row.trace_id,
+      source: row.source,
+      status: row.status,
+      assigned_user_id: row.assigned_user_id,
+      assigned_user_email: row.assigned_user_email ?? null,
+      notes: row.notes,
+      started_at: iso(row.started_at),
+      completed_at: iso(row.completed_at),
+      completed_by_user_id: row.completed_by_user_id,
+      created_at: iso(row.created_at)!,
+      updated_at: iso(row.updated_at)!,
+    };
+  }
+}
@@ -0,0 +1,664 @@
+/**
+ * Baseline Service
+ *
+ * Maintains rolling statistical baselines (EWMA mean/stddev, p95, p99) per
+ * tenant/project/route/model for latency_ms, total_tokens, cost and error rate.
+ * Baselines are recomputed by a background job from hourly buckets and used by
+ * SignalsService to flag spans that deviate from normal behaviour. LLM metric
+ * baselines with route "" roll up all of a project's traffic for a model.
+ *
+ * cache_hit_rate baselines are kept per cache namespace and backend instead:
+ * their route holds the namespace and their model the backend.
+ */
+
+import { query } from "../db/client.js";
+import { env } from "../config/env.js";
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { chDateTime, chUuid } from "../utils/clickhouseSql.js";
+
+export type BaselineMetric =
+  | "latency_ms"
+  | "total_tokens"
+  | "cost"
+  | "error_rate"
+  | "cache_hit_rate";
+
+export const BASELINE_METRICS: BaselineMetric[] = [
+  "latency_ms",
+  "total_tokens",
+  "cost",
+  "error_rate",
+  "cache_hit_rate",
+];
+
+export interface MetricBaseline {
+  id?: string;
+  tenant_id: string;
+  project_id: string;
+  route: string;
+  model: string;
+  metric: BaselineMetric;
+  ewma_mean: number;
+  ewma_stddev: number;
+  p95: number | null;
+  p99: number | null;
+  sample_count: number;
+  bucket_count: number;
+  window_start: string | null;
+  window_end: string | null;
+  updated_at?: string;
+}
+
+/**
+ * One hourly bucket of a metric: sample count, mean, population variance and quantiles
+ */
+export interface BaselineBucket {
+  bucket: string;
+  count: number;
+  mean: number;
+  variance: number;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Hourly buckets of one baseline, with the parts of its key
+ */
+interface BaselineGroup {
+  projectId: string;
+  route: string;
+  model: string;
+  metric: BaselineMetric;
+  buckets: BaselineBucket[];
+}
+
+export interface BaselineFilters {
+  projectId?: string;
+  route?: string;
+  model?: string;
+  metric?: BaselineMetric;
+}
+
+export interface AnomalyScore {
+  baseline: MetricBaseline;
+  zScore: number;
+}
+
+const LOOKBACK_DAYS = 7;
+// Weight of the newest hourly bucket; ~0.1 gives an effective memory of ~10 buckets
+const EWMA_ALPHA = 0.1;
+const JOB_INTERVAL_MS = 15 * 60 * 1000;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const METRIC_EXPRESSIONS: Record<
+  Exclude<BaselineMetric, "error_rate" | "cache_hit_rate">,
+  string
+> = {
+  latency_ms: `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.latency_ms'))`,
+  total_tokens: `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.total_tokens'))`,
+  cost: `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.cost'))`,
+};
+
+let jobTimer: NodeJS.Timeout | null = null;
+let jobRunning = false;
+
+export class BaselineService {
+  private static cache = new Map<
+    string,
+    { baselines: Map<string, MetricBaseline>; expiresAt: number }
+  >();
+
+  /**
+   * Lookup key for a baseline within a tenant
+   * (JSON so routes and models containing any character stay distinct)
+   */
+  static key(
+    projectId: string,
+    route: string | null | undefined,
+    model: string | null | undefined,
+    metric: BaselineMetric,
+  ): string {
+    return JSON.stringify([projectId, route || "", model || "", metric]);
+  }
+
+  /**
+   * Fold chronologically ordered buckets into an EWMA baseline
+   * Mean and second moment are smoothed separately so stddev includes
+   * both within-bucket and between-bucket variance.
+   */
+  static foldBuckets(
+    buckets: BaselineBucket[],
+    alpha: number = EWMA_ALPHA,
+  ): Pick<
+    MetricBaseline,
+    | "ewma_mean"
+    | "ewma_stddev"
+    | "p95"
+    | "p99"
+    | "sample_count"
+    | "bucket_count"
+    | "window_start"
+    | "window_end"
+  > & { ewma_sq: number } {
+    const ordered = buckets
+      .filter((b) => b.count > 0 && Number.isFinite(b.mean))
+      .sort((a, b) => a.bucket.localeCompare(b.bucket));
+
+    let mean = 0;
+    let sq = 0;
+    let p95: number | null = null;
+    let p99: number | null = null;
+    let sampleCount = 0;
+
+    ordered.forEach((b, index) => {
+      const variance = Number.isFinite(b.variance) ? Math.max(0, b.variance) : 0;
+      const bucketSq = variance + b.mean * b.mean;
+      if (index === 0) {
+        mean = b.mean;
+        sq = bucketSq;
+        p95 = b.p95;
+        p99 = b.p99;
+      } else {
+        mean = (1 - alpha) * mean + alpha * b.mean;
+        sq = (1 - alpha) * sq + alpha * bucketSq;
+        if (b.p95 !== null && Number.isFinite(b.p95)) {
+          p95 = p95 === null ? b.p95 : (1 - alpha) * p95 + alpha * b.p95;
+        }
+        if (b.p99 !== null && Number.isFinite(b.p99)) {
+          p99 = p99 === null ? b.p99 : (1 - alpha) * p99 + alpha * b.p99;
+        }
+      }
+      sampleCount += b.count;
+    });
+
+    return {
+      ewma_mean: mean,
+      ewma_sq: sq,
+      ewma_stddev: Math.sqrt(Math.max(0, sq - mean * mean)),
+      p95,
+      p99,
+      sample_count: sampleCount,
+      bucket_count: ordered.length,
+      window_start: ordered[0]?.bucket ?? null,
+      window_end: ordered[ordered.length - 1]?.bucket ?? null,
+    };
+  }
+
+  /**
+   * Score a value against a baseline
+   * Returns null when the baseline is too small or flat to be meaningful.
+   */
+  static score(
+    baseline: MetricBaseline | undefined,
+    value: number,
+    minSamples: number = env.ANOMALY_MIN_SAMPLES,
+  ): AnomalyScore | null {
+    if (!baseline || !Number.isFinite(value)) return null;
+    if (baseline.sample_count < minSamples) return null;
+    if (!(baseline.ewma_stddev > 0)) return null;
+    return {
+      baseline,
+      zScore: (value - baseline.ewma_mean) / baseline.ewma_stddev,
+    };
+  }
+
+  /**
+   * Baselines for a tenant keyed by BaselineService.key (cached for ingestion)
+   * Returns an empty map on DB failure so signal generation never blocks.
+   */
+  static async getBaselines(
+    tenantId: string,
+  ): Promise<Map<string, MetricBaseline>> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.baselines;
+    }
+
+    try {
+      const rows = await this.listBaselines(tenantId);
+      const baselines = new Map<string, MetricBaseline>();
+      for (const row of rows) {
+        baselines.set(
+          this.key(row.project_id, row.route, row.model, row.metric),
+          row,
+        );
+      }
+      this.cache.set(tenantId, {
+        baselines,
+        expiresAt: Date.now() + CACHE_TTL_MS,
+      });
+      return baselines;
+    } catch (error) {
+      console.warn(
+        "[BaselineService] Failed to load baselines (anomaly detection skipped):",
+        error instanceof Error ? error.message : error,
+      );
+      return new Map();
+    }
+  }
+
+  /**
+   * List stored baselines for a tenant
+   */
+  static async listBaselines(
+    tenantId: string,
+    filters: BaselineFilters = {},
+  ): Promise<MetricBaseline[]> {
+    const conditions = ["tenant_id = $1"];
+    const params: any[] = [tenantId];
+
+    if (filters.projectId) {
+      params.push(filters.projectId);
+      conditions.push(`project_id = $${params.length}`);
+    }
+    if (filters.route !== undefined) {
+      params.push(filters.route);
+      conditions.push(`route = $${params.length}`);
+    }
+    if (filters.model !== undefined) {
+      params.push(filters.model);
+      conditions.push(`model = $${params.length}`);
+    }
+    if (filters.metric) {
+      params.push(filters.metric);
+      conditions.push(`metric = $${params.length}`);
+    }
+
+    const rows = await query<any>(
+      `SELECT id, tenant_id, project_id, route, model, metric, ewma_mean,
+              ewma_stddev, p95, p99, sample_count, bucket_count,
+              window_start, window_end, updated_at
+       FROM metric_baselines
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY project_id, metric, route, model`,
+      params,
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      route: row.route,
+      model: row.model,
+      metric: row.metric,
+      ewma_mean: Number(row.ewma_mean),
+      ewma_stddev: Number(row.ewma_stddev),
+      p95: row.p95 === null ? null : Number(row.p95),
+      p99: row.p99 === null ? null : Number(row.p99),
+      sample_count: Number(row.sample_count),
+      bucket_count: Number(row.bucket_count),
+      window_start: row.window_start
+        ? new Date(row.window_start).toISOString()
+        : null,
+      window_end: row.window_end ? new Date(row.window_end).toISOString() : null,
+      updated_at: row.updated_at
+        ? new Date(row.updated_at).toISOString()
+        : undefined,
+    }));
+  }
+
+  /**
+   * Recompute all baselines for a tenant from the last LOOKBACK_DAYS of data
+   * Uses Tinybird; falls back to Postgres analysis_results (latency/tokens by model).
+   */
+  static async recomputeTenantBaselines(tenantId: string): Promise<number> {
+    if (!UUID_REGEX.test(tenantId)) {
+      throw new Error("Invalid tenant_id format: must be a valid UUID");
+    }
+
+    const since = new Date(
+      Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    let groups = new Map<string, BaselineGroup>();
+    try {
+      groups = await this.loadTinybirdBuckets(tenantId, since);
+    } catch (error) {
+      console.warn(
+        "[BaselineService] Tinybird query failed, falling back to Postgres:",
+        error instanceof Error ? error.message : error,
+      );
+    }
+    if (groups.size === 0) {
+      groups = await this.loadPostgresBuckets(tenantId, since);
+    }
+
+    let written = 0;
+    for (const { projectId, route, model, metric, buckets } of groups.values()) {
+      if (!UUID_REGEX.test(projectId)) continue;
+      const folded = this.foldBuckets(buckets);
+      if (folded.bucket_count === 0) continue;
+
+      await query(
+        `INSERT INTO metric_baselines (
+           tenant_id, project_id, route, model, metric, ewma_mean, ewma_stddev,
+           ewma_sq, p95, p99, sample_count, bucket_count, window_start,
+           window_end, updated_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+         ON CONFLICT (tenant_id, project_id, route, model, metric) DO UPDATE SET
+           ewma_mean = EXCLUDED.ewma_mean,
+           ewma_stddev = EXCLUDED.ewma_stddev,
+           ewma_sq = EXCLUDED.ewma_sq,
+           p95 = EXCLUDED.p95,
+           p99 = EXCLUDED.p99,
+           sample_count = EXCLUDED.sample_count,
+           bucket_count = EXCLUDED.bucket_count,
+           window_start = EXCLUDED.window_start,
+           window_end = EXCLUDED.window_end,
+           updated_at = NOW()`,
+        [
+          tenantId,
+          projectId,
+          route,
+          model,
+          metric,
+          folded.ewma_mean,
+          folded.ewma_stddev,
+          folded.ewma_sq,
+          folded.p95,
+          folded.p99,
+          folded.sample_count,
+          folded.bucket_count,
+          folded.window_start,
+          folded.window_end,
+        ],
+      );
+      written++;
+    }
+
+    this.cache.delete(tenantId);
+    return written;
+  }
+
+  /**
+   * Recompute baselines for every tenant
+   */
+  static async runBaselineJob(): Promise<void> {
+    if (jobRunning) {
+      console.log("[BaselineService] Previous run still in progress, skipping");
+      return;
+    }
+    jobRunning = true;
+    const startedAt = Date.now();
+    try {
+      const tenants = await query<{ id: string }>(`SELECT id FROM tenants`);
+      let total = 0;
+      for (const tenant of tenants) {
+        try {
+          total += await this.recomputeTenantBaselines(tenant.id);
+        } catch (error) {
+          console.error(
+            `[BaselineService] Failed to recompute baselines for tenant ${tenant.id}:`,
+            error,
+          );
+        }
+      }
+      console.log(
+        `[BaselineService] Recomputed ${total} baselines for ${tenants.length} tenants in ${Date.now() - startedAt}ms`,
+      );
+    } catch (error) {
+      console.error("[BaselineService] Baseline job failed:", error);
+    } finally {
+      jobRunning = false;
+    }
+  }
+
+  /**
+   * Start the periodic baseline job (runs once immediately)
+   */
+  static startBaselineJob(intervalMs: number = JOB_INTERVAL_MS): void {
+    if (jobTimer) return;
+    void this.runBaselineJob();
+    jobTimer = setInterval(() => void this.runBaselineJob(), intervalMs);
+    console.log(
+      `✅ Baseline job scheduled every ${Math.round(intervalMs / 60000)} minutes`,
+    );
+  }
+
+  static stopBaselineJob(): void {
+    if (jobTimer) {
+      clearInterval(jobTimer);
+      jobTimer = null;
+    }
+  }
+
+  /**
+   * Hourly buckets from Tinybird keyed by BaselineService.key
+   */
+  private static async loadTinybirdBuckets(
+    tenantId: string,
+    since: string,
+  ): Promise<Map<string, BaselineGroup>> {
+    const groups = new Map<string, BaselineGroup>();
+    const tenantExpr = chUuid(tenantId);
+    const sinceExpr = chDateTime(since);
+
+    const metricColumns = Object.entries(METRIC_EXPRESSIONS)
+      .map(
+        ([metric, expr]) => `
+        count(${expr}) as ${metric}_count,
+        avg(${expr}) as ${metric}_mean,
+        varPop(${expr}) as ${metric}_variance,
+        quantile(0.95)(${expr}) as ${metric}_p95,
+        quantile(0.99)(${expr}) as ${metric}_p99`,
+      )
+      .join(",");
+
+    // Per route (routed traffic only) and rolled up per project/model under
+    // route "", which also covers spans without a route
+    const metricSql = (routed: boolean) => `
+      SELECT
+        toString(project_id) as project_id,
+        ${routed ? "route" : "''"} as route,
+        JSONExtractString(attributes_json, '$.llm_call.model') as model,
+        toString(toStartOfHour(timestamp)) as bucket,${metricColumns}
+      FROM canonical_events
+      WHERE tenant_id = ${tenantExpr}
+        AND event_type = 'llm_call'
+        AND timestamp >= ${sinceExpr}
+        ${routed ? "AND ifNull(route, '') != ''" : ""}
+      GROUP BY project_id, ${routed ? "route, " : ""}model, bucket
+      ORDER BY bucket ASC
+    `;
+
+    for (const routed of [true, false]) {
+      const metricResult = await TinybirdRepository.rawQuery(metricSql(routed), {
+        tenantId,
+      });
+      const metricRows = Array.isArray(metricResult)
+        ? metricResult
+        : metricResult?.data || [];
+
+      for (const row of metricRows) {
+        for (const metric of Object.keys(METRIC_EXPRESSIONS) as BaselineMetric[]) {
+          const count = Number(row[`${metric}_count`] || 0);
+          if (count === 0) continue;
+          this.pushBucket(groups, row.project_id, row.route, row.model, metric, {
+            bucket: row.bucket,
+            count,
+            mean: Number(row[`${metric}_mean`]),
+            variance: Number(row[`${metric}_variance`] || 0),
+            p95: this.toNumberOrNull(row[`${metric}_p95`]),
+            p99: this.toNumberOrNull(row[`${metric}_p99`]),
+          });
+        }
+      }
+    }
+
+    // Error rate per project/route: share of traces with an error event
+    // (signal events are stored as event_type "error" too, so exclude them)
+    const errorSql = `
+      SELECT
+        toString(project_id) as project_id,
+        route,
+        bucket,
+        count() as trace_count,
+        countIf(has_error = 1) as error_count
+      FROM (
+        SELECT
+          project_id,
+          ifNull(route, '') as route,
+          trace_id,
+          toString(toStartOfHour(min(timestamp))) as bucket,
+          max(if(event_type = 'error' AND NOT JSONHas(attributes_json, 'signal'), 1, 0)) as has_error
+        FROM canonical_events
+        WHERE tenant_id = ${tenantExpr}
+          AND timestamp >= ${sinceExpr}
+        GROUP BY project_id, route, trace_id
+      )
+      GROUP BY project_id, route, bucket
+      ORDER BY bucket ASC
+    `;
+
+    const errorResult = await TinybirdRepository.rawQuery(errorSql, {
+      tenantId,
+    });
+    const errorRows = Array.isArray(errorResult)
+      ? errorResult
+      : errorResult?.data || [];
+
+    for (const row of errorRows) {
+      const count = Number(row.trace_count || 0);
+      if (count === 0) continue;
+      const rate = Number(row.error_count || 0) / count;
+      this.pushBucket(groups, row.project_id, row.route, "", "error_rate", {
+        bucket: row.bucket,
+        count,
+        mean: rate,
+        variance: rate * (1 - rate),
+        p95: null,
+        p99: null,
+      });
+    }
+
+    // Cache hit rate per project/namespace/backend
+    const cacheSql = `
+      SELECT
+        toString(project_id) as project_id,
+        JSONExtractString(attributes_json, '$.cache_operation.cache_namespace') as namespace,
+        JSONExtractString(attributes_json, '$.cache_operation.cache_backend') as backend,
+        toString(toStartOfHour(timestamp)) as bucket,
+        count() as operations,
+        countIf(JSONExtractString(attributes_json, '$.cache_operation.hit_status') = 'hit') as hits
+      FROM canonical_events
+      WHERE tenant_id = ${tenantExpr}
+        AND event_type = 'cache_operation'
+        AND timestamp >= ${sinceExpr}
+      GROUP BY project_id, namespace, backend, bucket
+      ORDER BY bucket ASC
+    `;
+
+    const cacheResult = await TinybirdRepository.rawQuery(cacheSql, {
+      tenantId,
+    });
+    const cacheRows = Array.isArray(cacheResult)
+      ? cacheResult
+      : cacheResult?.data || [];
+
+    for (const row of cacheRows) {
+      const count = Number(row.operations || 0);
+      if (count === 0) continue;
+      const rate = Number(row.hits || 0) / count;
+      this.pushBucket(
+        groups,
+        row.project_id,
+        row.namespace,
+        row.backend,
+        "cache_hit_rate",
+        {
+          bucket: row.bucket,
+          count,
+          mean: rate,
+          variance: rate * (1 - rate),
+          p95: null,
+          p99: null,
+        },
+      );
+    }
+
+    return groups;
+  }
+
+  /**
+   * Hourly latency/token buckets from Postgres analysis_results (no route available)
+   */
+  private static async loadPostgresBuckets(
+    tenantId: string,
+    since: string,
+  ): Promise<Map<string, BaselineGroup>> {
+    const groups = new Map<string, BaselineGroup>();
+    try {
+      const rows = await query<any>(
+        `SELECT
+           project_id,
+           COALESCE(model, '') as model,
+           date_trunc('hour', timestamp) as bucket,
+           COUNT(latency_ms) as latency_ms_count,
+           AVG(latency_ms) as latency_ms_mean,
+           VAR_POP(latency_ms) as latency_ms_variance,
+           PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY latency_ms) as latency_ms_p95,
+           PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY latency_ms) as latency_ms_p99,
+           COUNT(tokens_total) as total_tokens_count,
+           AVG(tokens_total) as total_tokens_mean,
+           VAR_POP(tokens_total) as total_tokens_variance,
+           PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY tokens_total) as total_tokens_p95,
+           PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY tokens_total) as total_tokens_p99
+         FROM analysis_results
+         WHERE tenant_id = $1 AND project_id IS NOT NULL AND timestamp >= $2
+         GROUP BY project_id, COALESCE(model, ''), date_trunc('hour', timestamp)
+         ORDER BY bucket ASC`,
+        [tenantId, new Date(since)],
+      );
+
+      for (const row of rows) {
+        for (const metric of ["latency_ms", "total_tokens"] as const) {
+          const count = Number(row[`${metric}_count`] || 0);
+          if (count === 0) continue;
+          this.pushBucket(groups, row.project_id, "", row.model, metric, {
+            bucket: new Date(row.bucket).toISOString(),
+            count,
+            mean: Number(row[`${metric}_mean`]),
+            variance: Number(row[`${metric}_variance`] || 0),
+            p95: this.toNumberOrNull(row[`${metric}_p95`]),
+            p99: this.toNumberOrNull(row[`${metric}_p99`]),
+          });
+        }
+      }
+    } catch (error) {
+      console.error("[BaselineService] Postgres fallback failed:", error);
+    }
+    return groups;
+  }
+
+  private static pushBucket(
+    groups: Map<string, BaselineGroup>,
+    projectId: string,
+    route: string | null | undefined,
+    model: string | null | undefined,
+    metric: BaselineMetric,
+    bucket: BaselineBucket,
+  ): void {
+    const key = this.key(projectId, route, model, metric);
+    const existing = groups.get(key);
+    if (existing) {
+      existing.buckets.push(bucket);
+    } else {
+      groups.set(key, {
+        projectId,
+        route: route || "",
+        model: model || "",
+        metric,
+        buckets: [bucket],
+      });
+    }
+  }
+
+  private static toNumberOrNull(value: any): number | null {
+    if (value === null || value === undefined) return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+}
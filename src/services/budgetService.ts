@@ -0,0 +1,559 @@
+/**
+ * Budget Service
+ *
+ * Monthly or daily spend budgets per project, optionally scoped to a route or
+ * an end user. Spend is tracked incrementally at ingestion from the cost of
+ * llm_call and embedding events (see EventIngestionService), one row per
+ * budget and period in budget_spend. Crossing a warning threshold emits a
+ * `budget_warning` signal, reaching 100% a `budget_exceeded` signal (each at
+ * most once per period). While a project-wide budget with hard_limit set is
+ * exhausted, ingestion drops the project's llm_call and embedding events
+ * until the period resets; other events are still accepted.
+ *
+ * Periods are calendar months / days in UTC.
+ */
+
+import { query } from "../db/client.js";
+import { CanonicalEvent } from "../types/events.js";
+import type { Signal } from "./signalsService.js";
+
+export type BudgetPeriod = "monthly" | "daily";
+export type BudgetScopeType = "project" | "route" | "user";
+
+export interface Budget {
+  id: string;
+  tenant_id: string;
+  project_id: string;
+  name: string;
+  period: BudgetPeriod;
+  amount_usd: number;
+  scope_type: BudgetScopeType;
+  scope_value: string | null;
+  warning_thresholds: number[]; // percentages below 100, ascending
+  hard_limit: boolean;
+  enabled: boolean;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetInput {
+  projectId: string;
+  name: string;
+  period?: BudgetPeriod;
+  amountUsd: number;
+  scopeType?: BudgetScopeType;
+  scopeValue?: string | null;
+  warningThresholds?: number[];
+  hardLimit?: boolean;
+  enabled?: boolean;
+}
+
+export interface BudgetStatus {
+  period_start: string;
+  period_end: string;
+  spend_usd: number;
+  remaining_usd: number;
+  percent_used: number;
+  event_count: number;
+  exceeded: boolean;
+  exceeded_at: string | null;
+  last_threshold_pct: number;
+  burn_rate_per_hour: number; // average over the elapsed part of the period
+  burn_rate_per_day: number;
+  projected_spend_usd: number; // at period end, at the current burn rate
+  projected_exhaustion_at: string | null; // when remaining hits 0 at the current burn rate
+}
+
+export interface BudgetStatusWithHistory extends BudgetStatus {
+  history: Array<{ period_start: string; spend_usd: number; event_count: number }>;
+}
+
+export interface BudgetSpendRow {
+  period_start: Date;
+  spend_usd: number;
+  event_count: number;
+  last_threshold_pct: number;
+  exceeded_at: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class BudgetService {
+  private static cache = new Map<string, { budgets: Budget[]; expires: number }>();
+  private static readonly CACHE_TTL_MS = 60 * 1000;
+
+  /**
+   * UTC calendar period containing `at`
+   */
+  static periodBounds(
+    period: BudgetPeriod,
+    at: Date = new Date(),
+  ): { start: Date; end: Date } {
+    if (period === "daily") {
+      const start = new Date(
+        Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()),
+      );
+      return { start, end: new Date(start.getTime() + 24 * HOUR_MS) };
+    }
+    return {
+      start: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  /**
+   * Highest threshold level (warning percentage or 100) newly reached when
+   * spend goes to `percentUsed`, given the level already signalled; null if none
+   */
+  static crossedThreshold(
+    warningThresholds: number[],
+    previousLevel: number,
+    percentUsed: number,
+  ): number | null {
+    const levels = [...warningThresholds.filter((t) => t > 0 && t < 100), 100];
+    const reached = levels.filter((level) => percentUsed >= level);
+    if (reached.length === 0) return null;
+    const level = Math.max(...reached);
+    return level > previousLevel ? level : null;
+  }
+
+  /**
+   * Whether an event counts against a budget's scope
+   */
+  static matchesScope(
+    budget: Pick<Budget, "scope_type" | "scope_value">,
+    event: Pick<CanonicalEvent, "route" | "user_id">,
+  ): boolean {
+    switch (budget.scope_type) {
+      case "route":
+        return !!event.route && event.route === budget.scope_value;
+      case "user":
+        return !!event.user_id && event.user_id === budget.scope_value;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Whether an event's type carries spend (llm_call / embedding)
+   */
+  static isSpendEvent(event: Pick<CanonicalEvent, "event_type">): boolean {
+    return event.event_type === "llm_call" || event.event_type === "embedding";
+  }
+
+  /**
+   * Ingested cost of an event (llm_call / embedding), or null if it has none
+   */
+  static eventCost(event: CanonicalEvent): number | null {
+    if (!this.isSpendEvent(event)) {
+      return null;
+    }
+    const cost = (event.attributes as any)?.[event.event_type]?.cost;
+    return typeof cost === "number" && Number.isFinite(cost) && cost > 0
+      ? cost
+      : null;
+  }
+
+  /**
+   * Spend, remaining amount and burn rate for a budget period
+   */
+  static buildStatus(
+    budget: Pick<Budget, "period" | "amount_usd">,
+    spend: BudgetSpendRow | null,
+    now: Date = new Date(),
+  ): BudgetStatus {
+    const { start, end } = this.periodBounds(budget.period, now);
+    const spendUsd = spend ? spend.spend_usd : 0;
+    const elapsedHours = Math.max(
+      (Math.min(now.getTime(), end.getTime()) - start.getTime()) / HOUR_MS,
+      1 / 60, // avoid division by ~0 right after the period starts
+    );
+    const periodHours = (end.getTime() - start.getTime()) / HOUR_MS;
+    const burnRatePerHour = spendUsd / elapsedHours;
+    const remaining = Math.max(budget.amount_usd - spendUsd, 0);
+
+    let projectedExhaustionAt: string | null = null;
+    if (remaining > 0 && burnRatePerHour > 0) {
+      const exhaustion = new Date(
+        now.getTime() + (remaining / burnRatePerHour) * HOUR_MS,
+      );
+      projectedExhaustionAt =
+        exhaustion < end ? exhaustion.toISOString() : null;
+    }
+
+    return {
+      period_start: start.toISOString(),
+      period_end: end.toISOString(),
+      spend_usd: spendUsd,
+      remaining_usd: remaining,
+      percent_used: (spendUsd / budget.amount_usd) * 100,
+      event_count: spend ? spend.event_count : 0,
+      exceeded: spendUsd >= budget.amount_usd,
+      exceeded_at: spend?.exceeded_at ? spend.exceeded_at.toISOString() : null,
+      last_threshold_pct: spend ? spend.last_threshold_pct : 0,
+      burn_rate_per_hour: burnRatePerHour,
+      burn_rate_per_day: burnRatePerHour * 24,
+      projected_spend_usd: burnRatePerHour * periodHours,
+      projected_exhaustion_at: projectedExhaustionAt,
+    };
+  }
+
+  /**
+   * Enabled budgets of a project (cached briefly; ingestion hot path)
+   */
+  static async getActiveBudgets(
+    tenantId: string,
+    projectId: string,
+  ): Promise<Budget[]> {
+    const cached = this.cache.get(projectId);
+    if (cached && cached.expires > Date.now()) {
+      return cached.budgets;
+    }
+    const rows = await query<any>(
+      `SELECT * FROM project_budgets
+       WHERE tenant_id = $1 AND project_id = $2 AND enabled = true`,
+      [tenantId, projectId],
+    );
+    const budgets = rows.map((row) => this.mapRow(row));
+    this.cache.set(projectId, {
+      budgets,
+      expires: Date.now() + this.CACHE_TTL_MS,
+    });
+    return budgets;
+  }
+
+  static invalidateCache(projectId: string): void {
+    this.cache.delete(projectId);
+  }
+
+  /**
+   * Add the cost of ingested events to every matching budget and return the
+   * budget_warning / budget_exceeded signals for thresholds crossed
+   */
+  static async recordSpend(
+    tenantId: string,
+    projectId: string | null,
+    events: CanonicalEvent[],
+  ): Promise<Signal[]> {
+    if (!projectId) return [];
+    const costed = events
+      .map((event) => ({ event, cost: this.eventCost(event) }))
+      .filter((entry): entry is { event: CanonicalEvent; cost: number } =>
+        entry.cost !== null,
+      );
+    if (costed.length === 0) return [];
+
+    const budgets = await this.getActiveBudgets(tenantId, projectId);
+    const signals: Signal[] = [];
+
+    for (const budget of budgets) {
+      // Late events count toward the period they happened in
+      const byPeriod = new Map<
+        number,
+        { cost: number; count: number; lastEvent: CanonicalEvent }
+      >();
+      for (const { event, cost } of costed) {
+        if (!this.matchesScope(budget, event)) continue;
+        const at = new Date(event.timestamp);
+        const { start } = this.periodBounds(
+          budget.period,
+          Number.isNaN(at.getTime()) ? new Date() : at,
+        );
+        const entry = byPeriod.get(start.getTime()) || {
+          cost: 0,
+          count: 0,
+          lastEvent: event,
+        };
+        entry.cost += cost;
+        entry.count += 1;
+        entry.lastEvent = event;
+        byPeriod.set(start.getTime(), entry);
+      }
+
+      for (const [periodStart, entry] of byPeriod) {
+        const rows = await query<{
+          spend_usd: string;
+          last_threshold_pct: number;
+        }>(
+          `INSERT INTO budget_spend (budget_id, period_start, spend_usd, event_count)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (budget_id, period_start) DO UPDATE
+           SET spend_usd = budget_spend.spend_usd + EXCLUDED.spend_usd,
+               event_count = budget_spend.event_count + EXCLUDED.event_count,
+               updated_at = NOW()
+           RETURNING spend_usd, last_threshold_pct`,
+          [budget.id, new Date(periodStart), entry.cost, entry.count],
+        );
+        const spendUsd = parseFloat(rows[0]?.spend_usd || "0");
+        const percentUsed = (spendUsd / budget.amount_usd) * 100;
+        const level = this.crossedThreshold(
+          budget.warning_thresholds,
+          rows[0]?.last_threshold_pct ?? 0,
+          percentUsed,
+        );
+        if (level === null) continue;
+
+        // Claim the level so concurrent ingests signal it only once
+        const claimed = await query<{ budget_id: string }>(
+          `UPDATE budget_spend
+           SET last_threshold_pct = $3,
+               exceeded_at = CASE WHEN $3 >= 100 THEN COALESCE(exceeded_at, NOW()) ELSE exceeded_at END
+           WHERE budget_id = $1 AND period_start = $2 AND last_threshold_pct < $3
+           RETURNING budget_id`,
+          [budget.id, new Date(periodStart), level],
+        );
+        if (claimed.length === 0) continue;
+
+        signals.push(
+          this.buildSignal(budget, entry.lastEvent, level, spendUsd, new Date(periodStart)),
+        );
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Exhausted project-wide hard budget for the current period, if any
+   */
+  static async getExceededHardBudget(
+    tenantId: string,
+    projectId: string,
+  ): Promise<{ budget: Budget; spend_usd: number; reset_at: Date } | null> {
+    const budgets = (await this.getActiveBudgets(tenantId, projectId)).filter(
+      (budget) => budget.hard_limit && budget.scope_type === "project",
+    );
+    for (const budget of budgets) {
+      const { start, end } = this.periodBounds(budget.period);
+      const rows = await query<{ spend_usd: string }>(
+        `SELECT spend_usd FROM budget_spend
+         WHERE budget_id = $1 AND period_start = $2`,
+        [budget.id, start],
+      );
+      const spendUsd = parseFloat(rows[0]?.spend_usd || "0");
+      if (spendUsd >= budget.amount_usd) {
+        return { budget, spend_usd: spendUsd, reset_at: end };
+      }
+    }
+    return null;
+  }
+
+  static async listBudgets(
+    tenantId: string,
+    projectId: string | null,
+  ): Promise<Budget[]> {
+    const params: any[] = [tenantId];
+    let where = "tenant_id = $1";
+    if (projectId) {
+      params.push(projectId);
+      where += ` AND project_id = $2`;
+    }
+    const rows = await query<any>(
+      `SELECT * FROM project_budgets WHERE ${where} ORDER BY created_at DESC`,
+      params,
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  static async getBudget(
+    tenantId: string,
+    budgetId: string,
+  ): Promise<Budget | null> {
+    const rows = await query<any>(
+      `SELECT * FROM project_budgets WHERE id = $1 AND tenant_id = $2`,
+      [budgetId, tenantId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Create a budget; returns null if the project already has one with this name
+   */
+  static async createBudget(
+    tenantId: string,
+    userId: string,
+    input: BudgetInput,
+  ): Promise<Budget | null> {
+    const scopeType = input.scopeType || "project";
+    const rows = await query<any>(
+      `INSERT INTO project_budgets (
+         tenant_id, project_id, name, period, amount_usd, scope_type, scope_value,
+         warning_thresholds, hard_limit, enabled, created_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (project_id, name) DO NOTHING
+       RETURNING *`,
+      [
+        tenantId,
+        input.projectId,
+        input.name,
+        input.period || "monthly",
+        input.amountUsd,
+        scopeType,
+        scopeType === "project" ? null : input.scopeValue ?? null,
+        this.normalizeThresholds(input.warningThresholds ?? [80]),
+        input.hardLimit ?? false,
+        input.enabled ?? true,
+        userId,
+      ],
+    );
+    this.invalidateCache(input.projectId);
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async updateBudget(
+    tenantId: string,
+    budgetId: string,
+    input: Partial<Omit<BudgetInput, "projectId">>,
+  ): Promise<Budget | null> {
+    const rows = await query<any>(
+      `UPDATE project_budgets SET
+         name = COALESCE($3, name),
+         period = COALESCE($4, period),
+         amount_usd = COALESCE($5, amount_usd),
+         scope_type = COALESCE($6, scope_type),
+         scope_value = CASE WHEN COALESCE($6, scope_type) = 'project' THEN NULL
+                            WHEN $7::boolean THEN $8 ELSE scope_value END,
+         warning_thresholds = COALESCE($9, warning_thresholds),
+         hard_limit = COALESCE($10, hard_limit),
+         enabled = COALESCE($11, enabled),
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      [
+        budgetId,
+        tenantId,
+        input.name ?? null,
+        input.period ?? null,
+        input.amountUsd ?? null,
+        input.scopeType ?? null,
+        input.scopeValue !== undefined,
+        input.scopeValue ?? null,
+        input.warningThresholds
+          ? this.normalizeThresholds(input.warningThresholds)
+          : null,
+        input.hardLimit ?? null,
+        input.enabled ?? null,
+      ],
+    );
+    if (!rows[0]) return null;
+    const budget = this.mapRow(rows[0]);
+    this.invalidateCache(budget.project_id);
+    return budget;
+  }
+
+  static async deleteBudget(
+    tenantId: string,
+    budgetId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ project_id: string }>(
+      `DELETE FROM project_budgets WHERE id = $1 AND tenant_id = $2 RETURNING project_id`,
+      [budgetId, tenantId],
+    );
+    if (rows[0]) this.invalidateCache(rows[0].project_id);
+    return rows.length > 0;
+  }
+
+  /**
+   * Current-period status plus the previous periods' spend
+   */
+  static async getStatus(
+    budget: Budget,
+    historyPeriods: number = 6,
+  ): Promise<BudgetStatusWithHistory> {
+    const now = new Date();
+    const { start } = this.periodBounds(budget.period, now);
+    const rows = await query<any>(
+      `SELECT period_start, spend_usd, event_count, last_threshold_pct, exceeded_at
+       FROM budget_spend
+       WHERE budget_id = $1 AND period_start <= $2
+       ORDER BY period_start DESC
+       LIMIT $3`,
+      [budget.id, start, historyPeriods + 1],
+    );
+    const spendRows: BudgetSpendRow[] = rows.map((row) => ({
+      period_start: new Date(row.period_start),
+      spend_usd: parseFloat(row.spend_usd),
+      event_count: Number(row.event_count),
+      last_threshold_pct: Number(row.last_threshold_pct),
+      exceeded_at: row.exceeded_at ? new Date(row.exceeded_at) : null,
+    }));
+    const current =
+      spendRows.find((row) => row.period_start.getTime() === start.getTime()) ||
+      null;
+
+    return {
+      ...this.buildStatus(budget, current, now),
+      history: spendRows
+        .filter((row) => row !== current)
+        .slice(0, historyPeriods)
+        .map((row) => ({
+          period_start: row.period_start.toISOString(),
+          spend_usd: row.spend_usd,
+          event_count: row.event_count,
+        })),
+    };
+  }
+
+  private static buildSignal(
+    budget: Budget,
+    event: CanonicalEvent,
+    level: number,
+    spendUsd: number,
+    periodStart: Date,
+  ): Signal {
+    const exceeded = level >= 100;
+    const percentUsed = (spendUsd / budget.amount_usd) * 100;
+    return {
+      tenant_id: budget.tenant_id,
+      project_id: budget.project_id,
+      trace_id: event.trace_id,
+      span_id: event.span_id,
+      signal_name: exceeded ? "budget_exceeded" : "budget_warning",
+      signal_type: "threshold",
+      signal_value: Math.round(percentUsed * 100) / 100,
+      signal_severity: exceeded ? "high" : "medium",
+      metadata: {
+        budget: {
+          id: budget.id,
+          name: budget.name,
+          period: budget.period,
+          period_start: periodStart.toISOString(),
+          amount_usd: budget.amount_usd,
+          scope_type: budget.scope_type,
+          scope_value: budget.scope_value,
+          hard_limit: budget.hard_limit,
+        },
+        spend_usd: spendUsd,
+        threshold_pct: level,
+        route: event.route ?? null,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private static normalizeThresholds(thresholds: number[]): number[] {
+    return [...new Set(thresholds.map((t) => Math.round(t)))]
+      .filter((t) => t > 0 && t < 100)
+      .sort((a, b) => a - b);
+  }
+
+  private static mapRow(row: any): Budget {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      period: row.period,
+      amount_usd: parseFloat(row.amount_usd),
+      scope_type: row.scope_type,
+      scope_value: row.scope_value,
+      warning_thresholds: (row.warning_thresholds || []).map(Number),
+      hard_limit: row.hard_limit,
+      enabled: row.enabled,
+      created_by_user_id: row.created_by_user_id,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Cache Analytics Service
+ *
+ * Aggregates cache_operation events (hit_status, latency_ms, saved_cost) from
+ * Tinybird canonical_events: hit rate over time, latency percentiles and
+ * saved cost per project, namespace and backend.
+ *
+ * Also detects hit-rate drops at ingestion: when a batch contains cache
+ * operations, the last hour's hit rate of each project/namespace/backend is
+ * compared with its cache_hit_rate baseline from BaselineService and a
+ * `cache_hit_rate_drop` signal is emitted on a significant drop (usually a
+ * cache key format regression).
+ */
+
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { BaselineService, MetricBaseline } from "./baselineService.js";
+import { chDateTime, chUuid } from "../utils/clickhouseSql.js";
+import { CanonicalEvent } from "../types/events.js";
+import type { Signal } from "./signalsService.js";
+
+export interface CacheLatency {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface CacheStats {
+  operations: number;
+  hits: number;
+  misses: number;
+  hit_rate: number; // 0-1
+  saved_cost: number;
+  latency: CacheLatency;
+  hit_latency: CacheLatency;
+  miss_latency: CacheLatency;
+}
+
+export interface CacheGroupStats extends CacheStats {
+  project_id: string;
+  namespace: string | null;
+  backend: string | null;
+}
+
+export interface CacheTimePoint {
+  timestamp: string;
+  operations: number;
+  hits: number;
+  hit_rate: number;
+  saved_cost: number;
+}
+
+export interface CacheAnalytics {
+  summary: CacheStats;
+  by_group: CacheGroupStats[];
+  time_series: CacheTimePoint[];
+}
+
+export interface HitRateWindow {
+  hits: number;
+  total: number;
+}
+
+export interface HitRateDrop {
+  baseline_rate: number;
+  recent_rate: number;
+  absolute_drop: number;
+  relative_drop: number;
+  severity: "medium" | "high";
+}
+
+// Drop detection: last hour vs the cache_hit_rate baseline
+const RECENT_WINDOW_MS = 60 * 60 * 1000;
+const MIN_RECENT_OPERATIONS = 50;
+const MIN_BASELINE_OPERATIONS = 200;
+const MIN_BASELINE_HIT_RATE = 0.2;
+const MIN_ABSOLUTE_DROP = 0.1;
+const MIN_RELATIVE_DROP = 0.3;
+const HIGH_SEVERITY_RELATIVE_DROP = 0.5;
+// One signal per project/namespace/backend per cooldown
+const SIGNAL_COOLDOWN_MS = 60 * 60 * 1000;
+const CACHE_TTL_MS = 60 * 1000;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const HIT_EXPR = `JSONExtractString(attributes_json, '$.cache_operation.hit_status') = 'hit'`;
+const LATENCY_EXPR = `toFloat64OrNull(JSONExtractString(attributes_json, '$.cache_operation.latency_ms'))`;
+const SAVED_COST_EXPR = `toFloat64OrNull(JSONExtractString(attributes_json, '$.cache_operation.saved_cost'))`;
+const NAMESPACE_EXPR = `JSONExtractString(attributes_json, '$.cache_operation.cache_namespace')`;
+const BACKEND_EXPR = `JSONExtractString(attributes_json, '$.cache_operation.cache_backend')`;
+
+export class CacheAnalyticsService {
+  private static windowCache = new Map<
+    string,
+    { windows: Map<string, HitRateWindow>; expires: number }
+  >();
+  private static lastSignalAt = new Map<string, number>();
+
+  /**
+   * Hit rate (0-1) of a window; 0 without operations
+   */
+  static hitRate(window: HitRateWindow): number {
+    return window.total > 0 ? window.hits / window.total : 0;
+  }
+
+  /**
+   * Compare the recent hit rate with the baseline's EWMA hit rate
+   * Returns null when either side has too few operations or the drop is not
+   * significant (both an absolute and a relative drop are required).
+   */
+  static detectHitRateDrop(
+    baseline: Pick<MetricBaseline, "ewma_mean" | "sample_count">,
+    recent: HitRateWindow,
+  ): HitRateDrop | null {
+    if (
+      baseline.sample_count < MIN_BASELINE_OPERATIONS ||
+      recent.total < MIN_RECENT_OPERATIONS
+    ) {
+      return null;
+    }
+    const baselineRate = baseline.ewma_mean;
+    if (baselineRate < MIN_BASELINE_HIT_RATE) return null;
+    const recentRate = this.hitRate(recent);
+    const absoluteDrop = baselineRate - recentRate;
+    const relativeDrop = absoluteDrop / baselineRate;
+    if (absoluteDrop < MIN_ABSOLUTE_DROP || relativeDrop < MIN_RELATIVE_DROP) {
+      return null;
+    }
+    return {
+      baseline_rate: baselineRate,
+      recent_rate: recentRate,
+      absolute_drop: absoluteDrop,
+      relative_drop: relativeDrop,
+      severity:
+        relativeDrop >= HIGH_SEVERITY_RELATIVE_DROP ? "high" : "medium",
+    };
+  }
+
+  /**
+   * Cache analytics for a time range
+   *
+   * @param bucket - time-series granularity
+   */
+  static async getCacheAnalytics(
+    tenantId: string,
+    projectId: string | null | undefined,
+    startTime: string,
+    endTime: string,
+    bucket: "hour" | "day" = "day",
+  ): Promise<CacheAnalytics> {
+    // SECURITY: Validate tenantId/projectId format (UUID) to prevent SQL injection
+    if (!UUID_REGEX.test(tenantId)) {
+      throw new Error("Invalid tenant_id format: must be a valid UUID");
+    }
+    if (projectId && !UUID_REGEX.test(projectId)) {
+      throw new Error("Invalid project_id format: must be a valid UUID");
+    }
+
+    let whereClause = `WHERE tenant_id = ${chUuid(tenantId)} AND event_type = 'cache_operation'`;
+    if (projectId) {
+      whereClause += ` AND project_id = ${chUuid(projectId)}`;
+    }
+    whereClause += ` AND timestamp >= ${chDateTime(startTime)}`;
+    whereClause += ` AND timestamp <= ${chDateTime(endTime)}`;
+
+    const statsColumns = `
+      count() as operations,
+      countIf(${HIT_EXPR}) as hits,
+      sum(ifNull(${SAVED_COST_EXPR}, 0)) as saved_cost,
+      quantile(0.5)(${LATENCY_EXPR}) as p50,
+      quantile(0.95)(${LATENCY_EXPR}) as p95,
+      quantile(0.99)(${LATENCY_EXPR}) as p99,
+      quantileIf(0.5)(${LATENCY_EXPR}, ${HIT_EXPR}) as hit_p50,
+      quantileIf(0.95)(${LATENCY_EXPR}, ${HIT_EXPR}) as hit_p95,
+      quantileIf(0.99)(${LATENCY_EXPR}, ${HIT_EXPR}) as hit_p99,
+      quantileIf(0.5)(${LATENCY_EXPR}, NOT ${HIT_EXPR}) as miss_p50,
+      quantileIf(0.95)(${LATENCY_EXPR}, NOT ${HIT_EXPR}) as miss_p95,
+      quantileIf(0.99)(${LATENCY_EXPR}, NOT ${HIT_EXPR}) as miss_p99`;
+    const timeGroupExpr =
+      bucket === "hour" ? "toStartOfHour(timestamp)" : "toStartOfDay(timestamp)";
+    const params = { tenantId, projectId: projectId || undefined };
+    const rowsOf = (result: any) =>
+      Array.isArray(result) ? result : result?.data || [];
+
+    try {
+      const [summaryResult, groupResult, seriesResult] = await Promise.all([
+        TinybirdRepository.rawQuery(
+          `SELECT ${statsColumns} FROM canonical_events ${whereClause}`,
+          params,
+        ),
+        TinybirdRepository.rawQuery(
+          `SELECT
+            project_id,
+            ${NAMESPACE_EXPR} as namespace,
+            ${BACKEND_EXPR} as backend,
+            ${statsColumns}
+          FROM canonical_events
+          ${whereClause}
+          GROUP BY project_id, namespace, backend
+          ORDER BY operations DESC
+          LIMIT 500`,
+          params,
+        ),
+        TinybirdRepository.rawQuery(
+          `SELECT
+            ${timeGroupExpr} as time_bucket,
+            count() as operations,
+            countIf(${HIT_EXPR}) as hits,
+            sum(ifNull(${SAVED_COST_EXPR}, 0)) as saved_cost
+          FROM canonical_events
+          ${whereClause}
+          GROUP BY time_bucket
+          ORDER BY time_bucket ASC`,
+          params,
+        ),
+      ]);
+
+      const summaryRow = rowsOf(summaryResult)[0];
+      return {
+        summary: summaryRow ? this.toStats(summaryRow) : this.emptyStats(),
+        by_group: rowsOf(groupResult).map((row: any) => ({
+          project_id: row.project_id,
+          namespace: row.namespace || null,
+          backend: row.backend || null,
+          ...this.toStats(row),
+        })),
+        time_series: rowsOf(seriesResult).map((row: any) => {
+          const operations = parseInt(row.operations) || 0;
+          const hits = parseInt(row.hits) || 0;
+          return {
+            timestamp: new Date(row.time_bucket).toISOString(),
+            operations,
+            hits,
+            hit_rate: this.hitRate({ hits, total: operations }),
+            saved_cost: parseFloat(row.saved_cost) || 0,
+          };
+        }),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(
+        "[CacheAnalyticsService] Failed to get cache analytics from Tinybird:",
+        errorMessage,
+      );
+      // cache_operation events are only stored in Tinybird
+      return { summary: this.emptyStats(), by_group: [], time_series: [] };
+    }
+  }
+
+  /**
+   * Check the hit rate of every project/namespace/backend with cache
+   * operations in the batch and return cache_hit_rate_drop signals
+   */
+  static async checkHitRates(
+    tenantId: string,
+    projectId: string | null,
+    events: CanonicalEvent[],
+  ): Promise<Signal[]> {
+    if (!projectId) return [];
+    const cacheEvents = events.filter(
+      (event) =>
+        event.event_type === "cache_operation" &&
+        event.attributes?.cache_operation,
+    );
+    if (cacheEvents.length === 0) return [];
+
+    // Latest event per key; the signal is attached to it (a miss when there is one)
+    const latestByKey = new Map<string, CanonicalEvent>();
+    for (const event of cacheEvents) {
+      const cache = event.attributes.cache_operation!;
+      const key = this.groupKey(cache.cache_namespace, cache.cache_backend);
+      const current = latestByKey.get(key);
+      if (
+        !current ||
+        current.attributes.cache_operation!.hit_status === "hit" ||
+        cache.hit_status === "miss"
+      ) {
+        latestByKey.set(key, event);
+      }
+    }
+
+    const [windows, baselines] = await Promise.all([
+      this.getRecentWindows(tenantId, projectId),
+      BaselineService.getBaselines(tenantId),
+    ]);
+    const signals: Signal[] = [];
+    const now = Date.now();
+
+    for (const [cooldownKey, signalAt] of this.lastSignalAt) {
+      if (now - signalAt >= SIGNAL_COOLDOWN_MS) {
+        this.lastSignalAt.delete(cooldownKey);
+      }
+    }
+
+    for (const [key, event] of latestByKey) {
+      const recent = windows.get(key);
+      if (!recent) continue;
+      const cache = event.attributes.cache_operation!;
+      const baseline = baselines.get(
+        BaselineService.key(
+          projectId,
+          cache.cache_namespace || "",
+          cache.cache_backend || "",
+          "cache_hit_rate",
+        ),
+      );
+      if (!baseline) continue;
+      const drop = this.detectHitRateDrop(baseline, recent);
+      if (!drop) continue;
+
+      const cooldownKey = `${projectId}|${key}`;
+      const lastSignal = this.lastSignalAt.get(cooldownKey);
+      if (lastSignal && now - lastSignal < SIGNAL_COOLDOWN_MS) continue;
+      this.lastSignalAt.set(cooldownKey, now);
+
+      signals.push({
+        tenant_id: tenantId,
+        project_id: projectId,
+        trace_id: event.trace_id,
+        span_id: event.span_id,
+        signal_name: "cache_hit_rate_drop",
+        signal_type: "drop",
+        signal_value: Math.round(drop.recent_rate * 10000) / 100,
+        signal_severity: drop.severity,
+        metadata: {
+          cache_namespace: cache.cache_namespace ?? null,
+          cache_backend: cache.cache_backend ?? null,
+          baseline_hit_rate: drop.baseline_rate,
+          recent_hit_rate: drop.recent_rate,
+          relative_drop: drop.relative_drop,
+          baseline_operations: baseline.sample_count,
+          recent_operations: recent.total,
+          recent_window_minutes: RECENT_WINDOW_MS / 60000,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return signals;
+  }
+
+  /**
+   * Last hour's hit counts per namespace/backend of a project; cached briefly
+   * per project
+   */
+  private static async getRecentWindows(
+    tenantId: string,
+    projectId: string,
+  ): Promise<Map<string, HitRateWindow>> {
+    const now = Date.now();
+    for (const [key, entry] of this.windowCache) {
+      if (entry.expires <= now) this.windowCache.delete(key);
+    }
+    const cached = this.windowCache.get(projectId);
+    if (cached) return cached.windows;
+
+    const windows = new Map<string, HitRateWindow>();
+    if (!UUID_REGEX.test(tenantId) || !UUID_REGEX.test(projectId)) {
+      return windows;
+    }
+
+    const recentStart = new Date(now - RECENT_WINDOW_MS).toISOString();
+
+    try {
+      const result = await TinybirdRepository.rawQuery(
+        `SELECT
+          ${NAMESPACE_EXPR} as namespace,
+          ${BACKEND_EXPR} as backend,
+          count() as total,
+          countIf(${HIT_EXPR}) as hits
+        FROM canonical_events
+        WHERE tenant_id = ${chUuid(tenantId)}
+          AND project_id = ${chUuid(projectId)}
+          AND event_type = 'cache_operation'
+          AND timestamp >= ${chDateTime(recentStart)}
+        GROUP BY namespace, backend`,
+        { tenantId, projectId },
+      );
+      const rows = Array.isArray(result) ? result : result?.data || [];
+      for (const row of rows) {
+        windows.set(this.groupKey(row.namespace, row.backend), {
+          hits: parseInt(row.hits) || 0,
+          total: parseInt(row.total) || 0,
+        });
+      }
+    } catch (error) {
+      console.error(
+        "[CacheAnalyticsService] Failed to load recent hit rates:",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    this.windowCache.set(projectId, {
+      windows,
+      expires: now + CACHE_TTL_MS,
+    });
+    return windows;
+  }
+
+  private static groupKey(
+    namespace: string | null | undefined,
+    backend: string | null | undefined,
+  ): string {
+    return `${namespace || ""}|${backend || ""}`;
+  }
+
+  private static toStats(row: any): CacheStats {
+    const operations = parseInt(row.operations) || 0;
+    const hits = parseInt(row.hits) || 0;
+    const latency = (p50: any, p95: any, p99: any): CacheLatency => ({
+      p50: this.toNumberOrNull(p50),
+      p95: this.toNumberOrNull(p95),
+      p99: this.toNumberOrNull(p99),
+    });
+    return {
+      operations,
+      hits,
+      misses: operations - hits,
+      hit_rate: this.hitRate({ hits, total: operations }),
+      saved_cost: parseFloat(row.saved_cost) || 0,
+      latency: latency(row.p50, row.p95, row.p99),
+      hit_latency: latency(row.hit_p50, row.hit_p95, row.hit_p99),
+      miss_latency: latency(row.miss_p50, row.miss_p95, row.miss_p99),
+    };
+  }
+
+  private static emptyStats(): CacheStats {
+    const latency = { p50: null, p95: null, p99: null };
+    return {
+      operations: 0,
+      hits: 0,
+      misses: 0,
+      hit_rate: 0,
+      saved_cost: 0,
+      latency,
+      hit_latency: latency,
+      miss_latency: latency,
+    };
+  }
+
+  private static toNumberOrNull(value: any): number | null {
+    const num = parseFloat(value);
+    return Number.isFinite(num) ? num : null;
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Cost Forecast Service
+ *
+ * Projects end-of-month LLM spend from daily cost history. The model is a
+ * linear trend plus additive day-of-week seasonality (used once at least two
+ * full weeks of history exist), fitted by least squares on complete UTC days.
+ * Confidence bands combine residual noise with trend-parameter uncertainty.
+ *
+ * Forecasts are produced for the requested scope (a project or the whole
+ * tenant), per project and per model, and compared against project-wide
+ * budgets to flag projected overruns.
+ */
+
+import { DashboardMetricsService } from "./dashboardMetricsService.js";
+import { BudgetService } from "./budgetService.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_SEASONAL_DAYS = 14;
+// Two-sided normal quantiles for the 80% and 95% bands
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export interface ForecastModel {
+  intercept: number; // trend value at t = 0 (first history day)
+  slope: number; // change in daily cost per day
+  seasonal: number[]; // additive offset by UTC weekday (0 = Sunday), sums to 0
+  seasonal_enabled: boolean;
+  sigma: number; // residual standard deviation
+  n: number;
+  t_mean: number;
+  sxx: number;
+  start_day: string; // YYYY-MM-DD of t = 0
+}
+
+export interface ForecastBand {
+  lower: number;
+  upper: number;
+}
+
+export interface DailyForecastPoint {
+  day: string;
+  cost: number;
+  band_80: ForecastBand;
+  band_95: ForecastBand;
+}
+
+export interface PeriodProjection {
+  period_start: string;
+  period_end: string;
+  month_to_date: number;
+  today_to_date: number; // part of month_to_date spent today
+  projected_remaining: number;
+  projected_total: number;
+  band_80: ForecastBand;
+  band_95: ForecastBand;
+  trend_per_day: number;
+  history_days: number;
+  seasonal: boolean;
+  daily: DailyForecastPoint[];
+}
+
+export interface BudgetForecast {
+  budget_id: string;
+  name: string;
+  project_id: string;
+  period: "monthly" | "daily";
+  amount_usd: number;
+  projected_spend_usd: number; // month end (monthly) or highest forecast day (daily)
+  crosses_budget: boolean; // point projection over the budget
+  at_risk: boolean; // upper 80% band over the budget
+  projected_crossing_day: string | null; // first day the cumulative projection passes the budget
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dayIndex(day: string, startDay: string): number {
+  return Math.round(
+    (Date.parse(`${day}T00:00:00Z`) - Date.parse(`${startDay}T00:00:00Z`)) /
+      DAY_MS,
+  );
+}
+
+export class CostForecastService {
+  /**
+   * Fit trend + weekly seasonality to a dense daily series starting at startDay
+   */
+  static fitModel(values: number[], startDay: string): ForecastModel {
+    const n = values.length;
+    const weekdayOf = (t: number) =>
+      new Date(Date.parse(`${startDay}T00:00:00Z`) + t * DAY_MS).getUTCDay();
+
+    const fitLine = (ys: number[]) => {
+      const tMean = (n - 1) / 2;
+      const yMean = ys.reduce((sum, y) => sum + y, 0) / Math.max(n, 1);
+      let sxy = 0;
+      let sxx = 0;
+      ys.forEach((y, t) => {
+        sxy += (t - tMean) * (y - yMean);
+        sxx += (t - tMean) ** 2;
+      });
+      const slope = sxx > 0 ? sxy / sxx : 0;
+      return { intercept: yMean - slope * tMean, slope, tMean, sxx };
+    };
+
+    let line = fitLine(values);
+    const seasonal = new Array(7).fill(0);
+    const seasonalEnabled = n >= MIN_SEASONAL_DAYS;
+
+    if (seasonalEnabled) {
+      // Weekday means of the detrended series, centered, then refit the trend
+      const sums = new Array(7).fill(0);
+      const counts = new Array(7).fill(0);
+      values.forEach((y, t) => {
+        const weekday = weekdayOf(t);
+        sums[weekday] += y - (line.intercept + line.slope * t);
+        counts[weekday] += 1;
+      });
+      const raw = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+      const mean = raw.reduce((sum, v) => sum + v, 0) / 7;
+      raw.forEach((v, i) => (seasonal[i] = v - mean));
+      line = fitLine(values.map((y, t) => y - seasonal[weekdayOf(t)]));
+    }
+
+    let sse = 0;
+    values.forEach((y, t) => {
+      const fitted = line.intercept + line.slope * t + seasonal[weekdayOf(t)];
+      sse += (y - fitted) ** 2;
+    });
+    const dof = n - 2 - (seasonalEnabled ? 6 : 0);
+
+    return {
+      intercept: line.intercept,
+      slope: line.slope,
+      seasonal,
+      seasonal_enabled: seasonalEnabled,
+      sigma: dof > 0 ? Math.sqrt(sse / dof) : 0,
+      n,
+      t_mean: line.tMean,
+      sxx: line.sxx,
+      start_day: startDay,
+    };
+  }
+
+  /**
+   * Point forecast (never negative) for a day
+   */
+  static predict(model: ForecastModel, day: string): number {
+    const t = dayIndex(day, model.start_day);
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return Math.max(
+      model.intercept + model.slope * t + model.seasonal[weekday],
+      0,
+    );
+  }
+
+  /**
+   * Forecast a set of days; `weights` scales each day (e.g. the remaining
+   * fraction of today). The sum's band accounts for the shared trend error.
+   */
+  static forecastDays(
+    model: ForecastModel,
+    days: string[],
+    weights: number[] = days.map(() => 1),
+  ): { daily: DailyForecastPoint[]; total: number; totalStdDev: number } {
+    const { sigma, n, t_mean: tMean, sxx } = model;
+    let total = 0;
+    let weightSum = 0;
+    let weightedT = 0;
+    let noiseVar = 0;
+
+    const daily = days.map((day, i) => {
+      const t = dayIndex(day, model.start_day);
+      const w = weights[i];
+      const cost = this.predict(model, day) * w;
+      total += cost;
+      weightSum += w;
+      weightedT += w * t;
+      noiseVar += w * w * sigma * sigma;
+
+      const sd =
+        sigma *
+        w *
+        Math.sqrt(1 + (n > 0 ? 1 / n : 0) + (sxx > 0 ? (t - tMean) ** 2 / sxx : 0));
+      return {
+        day,
+        cost,
+        band_80: { lower: Math.max(cost - Z_80 * sd, 0), upper: cost + Z_80 * sd },
+        band_95: { lower: Math.max(cost - Z_95 * sd, 0), upper: cost + Z_95 * sd },
+      };
+    });
+
+    // Var(sum) = noise + Var(a·Σw + b·Σw·t) with centered trend parameters
+    const paramVar =
+      sigma * sigma *
+      ((n > 0 ? (weightSum * weightSum) / n : 0) +
+        (sxx > 0 ? (weightedT - weightSum * tMean) ** 2 / sxx : 0));
+
+    return { daily, total, totalStdDev: Math.sqrt(noiseVar + paramVar) };
+  }
+
+  /**
+   * End-of-month projection from daily history (UTC days, sparse is fine)
+   * History is fitted up to yesterday; today's actual spend so far counts as
+   * month-to-date and the rest of today is forecast pro rata.
+   */
+  static projectMonth(
+    history: Array<{ day: string; cost: number }>,
+    now: Date,
+    historyDays: number,
+  ): PeriodProjection {
+    const today = dayKey(now);
+    const { start, end } = BudgetService.periodBounds("monthly", now);
+    const byDay = new Map<string, number>();
+    for (const row of history) {
+      byDay.set(row.day, (byDay.get(row.day) || 0) + row.cost);
+    }
+
+    const startDay = dayKey(
+      new Date(Date.parse(`${today}T00:00:00Z`) - historyDays * DAY_MS),
+    );
+    const values: number[] = [];
+    for (let t = 0; t < historyDays; t++) {
+      values.push(
+        byDay.get(dayKey(new Date(Date.parse(`${startDay}T00:00:00Z`) + t * DAY_MS))) || 0,
+      );
+    }
+    const model = this.fitModel(values, startDay);
+
+    let monthToDate = 0;
+    for (const [day, cost] of byDay) {
+      if (day >= dayKey(start) && day <= today) monthToDate += cost;
+    }
+    const todayToDate = byDay.get(today) || 0;
+
+    const days: string[] = [];
+    const weights: number[] = [];
+    const dayStart = Date.parse(`${today}T00:00:00Z`);
+    for (let ts = dayStart; ts < end.getTime(); ts += DAY_MS) {
+      days.push(dayKey(new Date(ts)));
+      weights.push(
+        ts === dayStart ? Math.max(1 - (now.getTime() - dayStart) / DAY_MS, 0) : 1,
+      );
+    }
+    const forecast = this.forecastDays(model, days, weights);
+    const total = monthToDate + forecast.total;
+
+    return {
+      period_start: start.toISOString(),
+      period_end: end.toISOString(),
+      month_to_date: monthToDate,
+      today_to_date: todayToDate,
+      projected_remaining: forecast.total,
+      projected_total: total,
+      band_80: {
+        lower: Math.max(total - Z_80 * forecast.totalStdDev, monthToDate),
+        upper: total + Z_80 * forecast.totalStdDev,
+      },
+      band_95: {
+        lower: Math.max(total - Z_95 * forecast.totalStdDev, monthToDate),
+        upper: total + Z_95 * forecast.totalStdDev,
+      },
+      trend_per_day: model.slope,
+      history_days: historyDays,
+      seasonal: model.seasonal_enabled,
+      daily: forecast.daily,
+    };
+  }
+
+  /**
+   * First forecast day on which cumulative spend passes `amount`
+   */
+  static crossingDay(
+    projection: PeriodProjection,
+    amount: number,
+  ): string | null {
+    let cumulative = projection.month_to_date;
+    if (cumulative >= amount) return projection.daily[0]?.day ?? null;
+    for (const point of projection.daily) {
+      cumulative += point.cost;
+      if (cumulative >= amount) return point.day;
+    }
+    return null;
+  }
+
+  /**
+   * Forecast for a project (or the whole tenant), per project and per model,
+   * with budget overrun flags
+   */
+  static async getForecast(
+    tenantId: string,
+    projectId: string | null,
+    options: { historyDays?: number; topModels?: number; now?: Date } = {},
+  ) {
+    const now = options.now || new Date();
+    const historyDays = options.historyDays ?? 56;
+    const topModels = options.topModels ?? 10;
+    const startTime = new Date(
+      Date.parse(`${dayKey(now)}T00:00:00Z`) - historyDays * DAY_MS,
+    ).toISOString();
+    const endTime = now.toISOString();
+
+    const [series, breakdown] = await Promise.all([
+      DashboardMetricsService.getTimeSeriesMetrics(
+        tenantId,
+        projectId,
+        startTime,
+        endTime,
+        "day",
+      ),
+      DashboardMetricsService.getDailyCostBreakdown(
+        tenantId,
+        projectId,
+        startTime,
+        endTime,
+      ),
+    ]);
+
+    // Tinybird buckets are "YYYY-MM-DD hh:mm:ss" (UTC), Postgres ones ISO strings
+    const totalHistory = series.map((point) => ({
+      day: point.timestamp.slice(0, 10),
+      cost: point.cost,
+    }));
+    const total = this.projectMonth(totalHistory, now, historyDays);
+
+    const group = (key: "project_id" | "model") => {
+      const histories = new Map<string, Array<{ day: string; cost: number }>>();
+      for (const row of breakdown) {
+        const value = row[key] || "unknown";
+        if (!histories.has(value)) histories.set(value, []);
+        histories.get(value)!.push({ day: row.day, cost: row.cost });
+      }
+      return histories;
+    };
+
+    const byProject = new Map<string, PeriodProjection>();
+    for (const [id, history] of group("project_id")) {
+      byProject.set(id, this.projectMonth(history, now, historyDays));
+    }
+    if (projectId && !byProject.has(projectId)) {
+      byProject.set(projectId, total);
+    }
+
+    const modelHistories = [...group("model").entries()]
+      .map(([model, history]) => ({
+        model,
+        history,
+        spend: history.reduce((sum, row) => sum + row.cost, 0),
+      }))
+      .sort((a, b) => b.spend - a.spend);
+    const byModel = modelHistories.slice(0, topModels).map(({ model, history }) => {
+      const { daily, ...projection } = this.projectMonth(history, now, historyDays);
+      return { model, ...projection };
+    });
+
+    const budgets = (await BudgetService.listBudgets(tenantId, projectId)).filter(
+      (budget) => budget.enabled && budget.scope_type === "project",
+    );
+    const budgetForecasts: BudgetForecast[] = budgets
+      .filter((budget) => byProject.has(budget.project_id))
+      .map((budget) => {
+        const projection = byProject.get(budget.project_id)!;
+        if (budget.period === "daily") {
+          // Highest forecast day (today includes its actual spend so far)
+          const days = projection.daily.map((point, i) => {
+            const actual = i === 0 ? projection.today_to_date : 0;
+            return {
+              day: point.day,
+              cost: point.cost + actual,
+              upper: point.band_80.upper + actual,
+            };
+          });
+          const worst = days.reduce(
+            (max, day) => (day.cost > max.cost ? day : max),
+            days[0] || { day: dayKey(now), cost: 0, upper: 0 },
+          );
+          const firstOver = days.find((day) => day.cost >= budget.amount_usd);
+          return {
+            budget_id: budget.id,
+            name: budget.name,
+            project_id: budget.project_id,
+            period: budget.period,
+            amount_usd: budget.amount_usd,
+            projected_spend_usd: worst.cost,
+            crosses_budget: !!firstOver,
+            at_risk: days.some((day) => day.upper >= budget.amount_usd),
+            projected_crossing_day: firstOver ? firstOver.day : null,
+          };
+        }
+        return {
+          budget_id: budget.id,
+          name: budget.name,
+          project_id: budget.project_id,
+          period: budget.period,
+          amount_usd: budget.amount_usd,
+          projected_spend_usd: projection.projected_total,
+          crosses_budget: projection.projected_total >= budget.amount_usd,
+          at_risk: projection.band_80.upper >= budget.amount_usd,
+          projected_crossing_day: this.crossingDay(projection, budget.amount_usd),
+        };
+      });
+
+    return {
+      total,
+      by_project: [...byProject.entries()].map(([id, projection]) => {
+        const { daily, ...rest } = projection;
+        return { project_id: id, ...rest };
+      }),
+      by_model: byModel,
+      budgets: budgetForecasts,
+    };
+  }
+}
+
@@ -0,0 +1,209 @@
+/**
+ * Critical Path Service
+ *
+ * Overlap-aware timing for trace detail trees. Agent traces run tool calls in
+ * parallel and nest chains, so summing span latencies overstates where time
+ * went. For every span this computes:
+ * - child time: the union of its children's intervals (overlap counted once)
+ * - self time: its duration minus child time
+ * - critical path time: how much of the end-to-end latency is spent in the
+ *   span itself along the critical path, and that as a percentage
+ *
+ * The critical path is walked backwards from the end of the trace: at each
+ * point the child that finished last is on the path, then the walk continues
+ * from where that child started. Time not covered by a child on the path is
+ * the parent's own (self) time on the path.
+ *
+ * A span's interval is stretched to cover its children, since a root span
+ * often has only trace_start/trace_end events and child timestamps can drift.
+ */
+
+export interface SpanTiming {
+  self_time_ms: number;
+  child_time_ms: number;
+  on_critical_path: boolean;
+  critical_path_ms: number;
+  critical_path_pct: number; // of end-to-end latency
+}
+
+export interface CriticalPathStep {
+  span_id: string;
+  name: string;
+  event_type: string | null;
+  start_offset_ms: number; // from trace start
+  critical_path_ms: number;
+  critical_path_pct: number;
+}
+
+export interface CriticalPathAnalysis {
+  total_ms: number; // end-to-end latency
+  unattributed_ms: number; // gaps between root spans
+  path: CriticalPathStep[]; // spans on the path, in start order
+  bottlenecks: CriticalPathStep[]; // largest contributors first
+}
+
+interface TimedSpan {
+  span: any;
+  id: string;
+  start: number;
+  end: number;
+  children: TimedSpan[];
+}
+
+const MAX_BOTTLENECKS = 5;
+
+export class CriticalPathService {
+  /**
+   * Compute timings for a span tree; each span gets a `timing` field
+   * Returns null when the spans carry no usable timestamps.
+   */
+  static analyze(roots: any[]): CriticalPathAnalysis | null {
+    const visited = new Set<any>();
+    const timedRoots = roots
+      .map((root) => this.toTimed(root, visited))
+      .filter((root): root is TimedSpan => root !== null);
+    if (timedRoots.length === 0) return null;
+
+    const traceStart = Math.min(...timedRoots.map((root) => root.start));
+    const traceEnd = Math.max(...timedRoots.map((root) => root.end));
+    const total = traceEnd - traceStart;
+
+    // Critical path time per span; roots hang off a virtual trace span
+    const pathTime = new Map<TimedSpan, number>();
+    const virtualRoot: TimedSpan = {
+      span: null,
+      id: "",
+      start: traceStart,
+      end: traceEnd,
+      children: timedRoots,
+    };
+    this.walkCriticalPath(virtualRoot, traceEnd, pathTime);
+    const unattributed = pathTime.get(virtualRoot) || 0;
+    pathTime.delete(virtualRoot);
+
+    const pct = (ms: number) =>
+      total > 0 ? Math.round((ms / total) * 10000) / 100 : 0;
+    const steps: CriticalPathStep[] = [];
+    const annotate = (node: TimedSpan) => {
+      const childTime = unionLength(
+        node.children.map((child) => [child.start, child.end] as [number, number]),
+      );
+      const onPath = pathTime.has(node);
+      const pathMs = pathTime.get(node) || 0;
+      const timing: SpanTiming = {
+        self_time_ms: Math.max(0, node.end - node.start - childTime),
+        child_time_ms: childTime,
+        on_critical_path: onPath,
+        critical_path_ms: pathMs,
+        critical_path_pct: pct(pathMs),
+      };
+      node.span.timing = timing;
+      if (onPath) {
+        steps.push({
+          span_id: node.id,
+          name: String(node.span.name || node.id),
+          event_type: node.span.event_type || node.span.type || null,
+          start_offset_ms: node.start - traceStart,
+          critical_path_ms: pathMs,
+          critical_path_pct: timing.critical_path_pct,
+        });
+      }
+      node.children.forEach(annotate);
+    };
+    timedRoots.forEach(annotate);
+
+    const path = [...steps].sort((a, b) => a.start_offset_ms - b.start_offset_ms);
+    const bottlenecks = steps
+      .filter((step) => step.critical_path_ms > 0)
+      .sort((a, b) => b.critical_path_ms - a.critical_path_ms)
+      .slice(0, MAX_BOTTLENECKS);
+    return { total_ms: total, unattributed_ms: unattributed, path, bottlenecks };
+  }
+
+  /**
+   * Interval of a span stretched over its children (null without timestamps)
+   */
+  private static toTimed(span: any, visited: Set<any>): TimedSpan | null {
+    if (!span || typeof span !== "object" || visited.has(span)) return null;
+    visited.add(span);
+
+    const children = (Array.isArray(span.children) ? span.children : [])
+      .map((child: any) => this.toTimed(child, visited))
+      .filter((child: TimedSpan | null): child is TimedSpan => child !== null);
+
+    let start = Date.parse(span.start_time);
+    let end = Date.parse(span.end_time);
+    const duration = typeof span.duration_ms === "number" ? span.duration_ms : null;
+    if (Number.isFinite(start) && duration !== null && duration > 0) {
+      if (!Number.isFinite(end) || end < start + duration) end = start + duration;
+    }
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+      if (children.length === 0) return null;
+      start = Infinity;
+      end = -Infinity;
+    }
+    for (const child of children) {
+      start = Math.min(start, child.start);
+      end = Math.max(end, child.end);
+    }
+    return {
+      span,
+      id: String(span.span_id ?? span.id ?? ""),
+      start,
+      end,
+      children,
+    };
+  }
+
+  /**
+   * Attribute [node.start, until] to the node and the children on its path
+   */
+  private static walkCriticalPath(
+    node: TimedSpan,
+    until: number,
+    pathTime: Map<TimedSpan, number>,
+  ): void {
+    pathTime.set(node, pathTime.get(node) || 0);
+    let cursor = Math.min(until, node.end);
+    while (cursor > node.start) {
+      // The child that finished last before the cursor
+      let next: TimedSpan | null = null;
+      let nextEnd = -Infinity;
+      for (const child of node.children) {
+        if (child.start >= cursor) continue;
+        const childEnd = Math.min(child.end, cursor);
+        if (childEnd > nextEnd) {
+          next = child;
+          nextEnd = childEnd;
+        }
+      }
+      if (!next) {
+        pathTime.set(node, pathTime.get(node)! + (cursor - node.start));
+        break;
+      }
+      pathTime.set(node, pathTime.get(node)! + (cursor - nextEnd));
+      this.walkCriticalPath(next, nextEnd, pathTime);
+      cursor = Math.max(next.start, node.start);
+    }
+  }
+}
+
+/**
+ * Total length covered by a set of intervals (overlap counted once)
+ */
+function unionLength(intervals: Array<[number, number]>): number {
+  const sorted = intervals
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of sorted) {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) total += current[1] - current[0];
+      current = [start, end];
+    }
+  }
+  return current ? total + current[1] - current[0] : total;
+}
@@ -9,6 +9,9 @@
 import { SignalsQueryService } from "./signalsQueryService.js";
 import { TinybirdRepository } from "./tinybirdRepository.js";
 import { query } from "../db/client.js";
+import { ModelPricingService } from "./modelPricingService.js";
+import { TAG_KEY_PATTERN } from "../utils/eventTags.js";
+import { chDateTime, chString, chUuid } from "../utils/clickhouseSql.js";
 
 export interface LatencyMetrics {
   p50: number;
@@ -34,6 +37,24 @@ export interface CostMetrics {
   cost_by_route: Record<string, number>;
 }
 
+export interface CostBreakdownGroup {
+  value: string | null; // null = events without the tag / user
+  cost: number;
+  traces: number;
+  llm_calls: number;
+  tokens: number;
+  share_pct: number;
+}
+
+export interface CostBreakdown {
+  group_by: string;
+  total_cost: number;
+  group_count: number;
+  groups: CostBreakdownGroup[];
+  other: CostBreakdownGroup | null; // groups beyond the top N
+  unattributed: CostBreakdownGroup | null;
+}
+
 export interface TokenMetrics {
   total_tokens: number;
   avg_tokens_per_trace: number;
@@ -65,6 +86,25 @@ export interface FeedbackMetrics {
   };
 }
 
+export interface ScoreConfigMetrics {
+  config_id: string;
+  name: string;
+  data_type: "numeric" | "categorical" | "boolean";
+  count: number;
+  traces_scored: number;
+  with_comments: number;
+  avg: number | null; // Numeric value average (true rate for boolean, category value for categorical)
+  min: number | null;
+  max: number | null;
+  distribution: Record<string, number>; // Counts per label (categorical/boolean)
+}
+
+export interface ScoreMetrics {
+  total: number;
+  traces_scored: number;
+  by_config: ScoreConfigMetrics[];
+}
+
 export class DashboardMetricsService {
   /**
    * Get latency metrics (P50, P95, P99) from Tinybird canonical_events
@@ -548,19 +588,24 @@ export class DashboardMetricsService {
     // Use toFloat64OrNull to avoid query failure when the value is missing/empty/non-numeric.
     const costExpr = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.cost'))`;
     const modelExpr = `JSONExtractString(attributes_json, '$.llm_call.model')`;
+    const tokensExpr = (field: string) =>
+      `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.${field}'))`;
 
     try {
-      // Get total cost and cost by model
+      // Recorded cost by model and day, plus token usage of calls without a
+      // cost (ingested before pricing was known), priced below from the catalog
       const sql = `
         SELECT 
           ${modelExpr} as model,
-          sum(${costExpr}) as total_cost,
+          toString(toDate(timestamp)) as day,
+          sumIf(${costExpr}, ${costExpr} > 0) as total_cost,
+          sumIf(${tokensExpr("input_tokens")}, ${costExpr} IS NULL) as unpriced_input_tokens,
+          sumIf(${tokensExpr("output_tokens")}, ${costExpr} IS NULL) as unpriced_output_tokens,
+          sumIf(${tokensExpr("total_tokens")}, ${costExpr} IS NULL) as unpriced_total_tokens,
           count(DISTINCT trace_id) as trace_count
         FROM canonical_events
         ${whereClause}
-          AND ${costExpr} IS NOT NULL
-          AND ${costExpr} > 0
-        GROUP BY model
+        GROUP BY model, day
       `;
 
       const result = await TinybirdRepository.rawQuery(sql, {
@@ -568,19 +613,39 @@ export class DashboardMetricsService {
         projectId: projectId || undefined,
       });
       const results = Array.isArray(result) ? result : result?.data || [];
+      const prices = results.some(
+        (row: any) => parseFloat(row.unpriced_total_tokens) > 0,
+      )
+        ? await ModelPricingService.getCatalog(tenantId)
+        : [];
 
       let totalCost = 0;
       let totalTraces = 0;
       const costByModel: Record<string, number> = {};
 
       for (const row of results) {
-        const cost = parseFloat(row.total_cost) || 0;
+        const inputTokens = parseFloat(row.unpriced_input_tokens) || 0;
+        const outputTokens = parseFloat(row.unpriced_output_tokens) || 0;
+        const totalTokens = parseFloat(row.unpriced_total_tokens) || 0;
+        const estimated =
+          totalTokens > 0 || inputTokens > 0 || outputTokens > 0
+            ? ModelPricingService.estimateCost(
+                prices,
+                row.model,
+                inputTokens > 0 || outputTokens > 0
+                  ? { inputTokens, outputTokens }
+                  : { totalTokens },
+                new Date(`${row.day}T12:00:00Z`),
+              )
+            : null;
+        const cost = (parseFloat(row.total_cost) || 0) + (estimated || 0);
+        if (cost <= 0) continue;
         const traces = parseInt(row.trace_count) || 0;
         const model = row.model || "unknown";
 
         totalCost += cost;
         totalTraces += traces;
-        costByModel[model] = cost;
+        costByModel[model] = (costByModel[model] || 0) + cost;
       }
 
       // If Tinybird returns 0, try PostgreSQL fallback
@@ -610,7 +675,7 @@ export class DashboardMetricsService {
 
   /**
    * Get cost metrics from PostgreSQL analysis_results (fallback)
-   * Uses estimated cost calculation based on tokens and model
+   * Uses estimated cost from tokens priced against the model pricing catalog
    */
   private static async getCostFromPostgres(
     tenantId: string,
@@ -641,7 +706,7 @@ export class DashboardMetricsService {
         paramIndex++;
       }
 
-      // Estimate cost based on tokens (rough estimate: $0.002 per 1K tokens)
+      // Estimate cost from tokens and the model pricing catalog (unpriced models count as 0)
       const result = await query<{
         total_cost: string;
         trace_count: string;
@@ -649,7 +714,7 @@ export class DashboardMetricsService {
       }>(
         `SELECT 
           model,
-          SUM(COALESCE(tokens_total, 0) * 0.000002) as total_cost,
+          COALESCE(SUM(${ModelPricingService.costSql()}), 0) as total_cost,
           COUNT(*) as trace_count
         FROM analysis_results 
         ${whereClause}
@@ -1221,6 +1286,103 @@ export class DashboardMetricsService {
     };
   }
 
+  /**
+   * Get human annotation score aggregates per score config from PostgreSQL
+   * Scores live only in Postgres, so there is no Tinybird path.
+   */
+  static async getScoreMetrics(
+    tenantId: string,
+    projectId?: string | null,
+    startTime?: string,
+    endTime?: string
+  ): Promise<ScoreMetrics> {
+    let scoreFilter = "";
+    let configFilter = "";
+    const params: any[] = [tenantId];
+    let paramIndex = 2;
+
+    if (projectId) {
+      configFilter += ` AND c.project_id = $${paramIndex}`;
+      params.push(projectId);
+      paramIndex++;
+    }
+
+    if (startTime) {
+      scoreFilter += ` AND s.created_at >= $${paramIndex}`;
+      params.push(new Date(startTime));
+      paramIndex++;
+    }
+
+    if (endTime) {
+      scoreFilter += ` AND s.created_at <= $${paramIndex}`;
+      params.push(new Date(endTime));
+      paramIndex++;
+    }
+
+    const [configRows, distributionRows, totalRows] = await Promise.all([
+      query<any>(
+        `SELECT
+          c.id,
+          c.name,
+          c.data_type,
+          COUNT(s.id) AS count,
+          COUNT(DISTINCT s.trace_id) AS traces_scored,
+          COUNT(s.id) FILTER (WHERE s.comment IS NOT NULL AND s.comment <> '') AS with_comments,
+          AVG(s.numeric_value) AS avg,
+          MIN(s.numeric_value) AS min,
+          MAX(s.numeric_value) AS max
+        FROM score_configs c
+        LEFT JOIN scores s ON s.config_id = c.id${scoreFilter}
+        WHERE c.tenant_id = $1 AND c.is_archived = FALSE${configFilter}
+        GROUP BY c.id, c.name, c.data_type
+        ORDER BY c.name`,
+        params
+      ),
+      query<{ config_id: string; string_value: string; count: string }>(
+        `SELECT s.config_id, s.string_value, COUNT(*) AS count
+        FROM scores s
+        JOIN score_configs c ON c.id = s.config_id
+        WHERE s.tenant_id = $1 AND s.string_value IS NOT NULL${configFilter}${scoreFilter}
+        GROUP BY s.config_id, s.string_value`,
+        params
+      ),
+      query<{ total: string; traces_scored: string }>(
+        `SELECT COUNT(*) AS total, COUNT(DISTINCT s.trace_id) AS traces_scored
+        FROM scores s
+        JOIN score_configs c ON c.id = s.config_id
+        WHERE s.tenant_id = $1${configFilter}${scoreFilter}`,
+        params
+      ),
+    ]);
+
+    const distributions = new Map<string, Record<string, number>>();
+    for (const row of distributionRows) {
+      const distribution = distributions.get(row.config_id) || {};
+      distribution[row.string_value] = parseInt(row.count, 10);
+      distributions.set(row.config_id, distribution);
+    }
+
+    const toNumber = (value: any) =>
+      value === null || value === undefined ? null : Number(value);
+
+    return {
+      total: parseInt(totalRows[0]?.total || "0", 10),
+      traces_scored: parseInt(totalRows[0]?.traces_scored || "0", 10),
+      by_config: configRows.map((row) => ({
+        config_id: row.id,
+        name: row.name,
+        data_type: row.data_type,
+        count: parseInt(row.count, 10),
+        traces_scored: parseInt(row.traces_scored, 10),
+        with_comments: parseInt(row.with_comments, 10),
+        avg: toNumber(row.avg),
+        min: toNumber(row.min),
+        max: toNumber(row.max),
+        distribution: distributions.get(row.id) || {},
+      })),
+    };
+  }
+
   /**
    * Get trace count for a time period from Tinybird canonical_events
    */
@@ -1667,6 +1829,7 @@ export class DashboardMetricsService {
         p95: string;
         p99: string;
         total_tokens: string;
+        total_cost: string;
         error_count: string;
       }>(
         `SELECT 
@@ -1676,6 +1839,7 @@ export class DashboardMetricsService {
           PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY latency_ms) FILTER (WHERE latency_ms IS NOT NULL) as p95,
           PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY latency_ms) FILTER (WHERE latency_ms IS NOT NULL) as p99,
           SUM(COALESCE(tokens_total, 0)) as total_tokens,
+          COALESCE(SUM(${ModelPricingService.costSql()}), 0) as total_cost,
           COUNT(*) FILTER (WHERE status >= 400) as error_count
         FROM analysis_results
         ${whereClause}
@@ -1697,7 +1861,7 @@ export class DashboardMetricsService {
             p99: parseFloat(row.p99 || "0"),
           },
           error_rate: traceCount > 0 ? (errorCount / traceCount) * 100 : 0,
-          cost: tokens * 0.000002, // Estimated cost
+          cost: parseFloat(row.total_cost || "0"), // Estimated from tokens and model prices
           tokens: tokens,
           trace_count: traceCount,
           feedback: {
@@ -1717,6 +1881,284 @@ export class DashboardMetricsService {
     }
   }
 
+  /**
+   * Get daily LLM cost broken down by project and model
+   * Used for per-project / per-model forecasts; days are UTC (YYYY-MM-DD)
+   */
+  static async getDailyCostBreakdown(
+    tenantId: string,
+    projectId: string | null | undefined,
+    startTime: string,
+    endTime: string
+  ): Promise<Array<{ day: string; project_id: string; model: string; cost: number }>> {
+    // SECURITY: Validate tenantId format (UUID) to prevent SQL injection
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(tenantId)) {
+      throw new Error("Invalid tenant_id format: must be a valid UUID");
+    }
+
+    // SECURITY: Validate projectId format if provided
+    if (projectId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(projectId)) {
+      throw new Error("Invalid project_id format: must be a valid UUID");
+    }
+
+    let whereClause = `WHERE tenant_id = ${chUuid(tenantId)} AND event_type = 'llm_call'`;
+    if (projectId) {
+      whereClause += ` AND project_id = ${chUuid(projectId)}`;
+    }
+    whereClause += ` AND timestamp >= ${chDateTime(startTime)}`;
+    whereClause += ` AND timestamp <= ${chDateTime(endTime)}`;
+
+    const costExpr = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.cost'))`;
+    const modelExpr = `JSONExtractString(attributes_json, '$.llm_call.model')`;
+
+    try {
+      const sql = `
+        SELECT 
+          toString(toDate(timestamp)) as day,
+          project_id,
+          ${modelExpr} as model,
+          sum(${costExpr}) as cost
+        FROM canonical_events
+        ${whereClause}
+          AND ${costExpr} IS NOT NULL
+          AND ${costExpr} > 0
+        GROUP BY day, project_id, model
+        ORDER BY day ASC
+      `;
+      const result = await TinybirdRepository.rawQuery(sql, {
+        tenantId,
+        projectId: projectId || undefined,
+      });
+      const rows = Array.isArray(result) ? result : result?.data || [];
+      if (rows.length > 0) {
+        return rows.map((row: any) => ({
+          day: String(row.day),
+          project_id: row.project_id,
+          model: row.model || "unknown",
+          cost: parseFloat(row.cost) || 0,
+        }));
+      }
+      console.log("[DashboardMetricsService] Tinybird cost breakdown empty, falling back to PostgreSQL");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(
+        "[DashboardMetricsService] Failed to get daily cost breakdown from Tinybird:",
+        errorMessage
+      );
+    }
+
+    try {
+      const params: any[] = [tenantId, new Date(startTime), new Date(endTime)];
+      let projectFilter = "";
+      if (projectId) {
+        params.push(projectId);
+        projectFilter = ` AND project_id = $4`;
+      }
+      const rows = await query<{ day: string; project_id: string; model: string | null; cost: string }>(
+        `SELECT 
+          TO_CHAR(DATE_TRUNC('day', COALESCE(timestamp, analyzed_at)), 'YYYY-MM-DD') as day,
+          project_id,
+          model,
+          SUM(${ModelPricingService.costSql()}) as cost
+        FROM analysis_results
+        WHERE tenant_id = $1
+          AND COALESCE(timestamp, analyzed_at) >= $2
+          AND COALESCE(timestamp, analyzed_at) <= $3${projectFilter}
+        GROUP BY day, project_id, model
+        HAVING SUM(${ModelPricingService.costSql()}) > 0
+        ORDER BY day ASC`,
+        params
+      );
+      return rows.map((row) => ({
+        day: row.day,
+        project_id: row.project_id,
+        model: row.model || "unknown",
+        cost: parseFloat(row.cost) || 0,
+      }));
+    } catch (error) {
+      console.error("[DashboardMetricsService] PostgreSQL cost breakdown fallback failed:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Summarize per-group cost rows into top N groups, an "other" bucket and
+   * the unattributed bucket (rows whose value is empty). top = null keeps all.
+   */
+  static summarizeCostGroups(
+    groupBy: string,
+    rows: Array<Omit<CostBreakdownGroup, "share_pct">>,
+    top: number | null
+  ): CostBreakdown {
+    const totalCost = rows.reduce((sum, row) => sum + row.cost, 0);
+    const withShare = (row: Omit<CostBreakdownGroup, "share_pct">): CostBreakdownGroup => ({
+      ...row,
+      cost: parseFloat(row.cost.toFixed(6)),
+      share_pct: totalCost > 0 ? parseFloat(((row.cost / totalCost) * 100).toFixed(2)) : 0,
+    });
+
+    const attributed = rows
+      .filter((row) => row.value !== null && row.value !== "")
+      .sort((a, b) => b.cost - a.cost || String(a.value).localeCompare(String(b.value)));
+    const unattributed = rows.filter((row) => row.value === null || row.value === "");
+    const kept = top === null ? attributed : attributed.slice(0, top);
+    const rest = top === null ? [] : attributed.slice(top);
+
+    const sumRows = (group: typeof rows, value: string | null) =>
+      group.reduce(
+        (acc, row) => ({
+          value,
+          cost: acc.cost + row.cost,
+          traces: acc.traces + row.traces,
+          llm_calls: acc.llm_calls + row.llm_calls,
+          tokens: acc.tokens + row.tokens,
+        }),
+        { value, cost: 0, traces: 0, llm_calls: 0, tokens: 0 }
+      );
+
+    return {
+      group_by: groupBy,
+      total_cost: parseFloat(totalCost.toFixed(6)),
+      group_count: attributed.length,
+      groups: kept.map(withShare),
+      other: rest.length > 0 ? withShare(sumRows(rest, null)) : null,
+      unattributed: unattributed.length > 0 ? withShare(sumRows(unattributed, null)) : null,
+    };
+  }
+
+  /**
+   * Get LLM cost grouped by a tag key ("tag:<key>"), "user_id", "model" or "route"
+   * Trace counts are distinct traces per group; traces spanning several
+   * groups count once in each.
+   */
+  static async getCostBreakdown(
+    tenantId: string,
+    projectId: string | null | undefined,
+    startTime: string,
+    endTime: string,
+    groupBy: string,
+    top: number | null
+  ): Promise<CostBreakdown> {
+    // SECURITY: Validate tenantId format (UUID) to prevent SQL injection
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(tenantId)) {
+      throw new Error("Invalid tenant_id format: must be a valid UUID");
+    }
+
+    // SECURITY: Validate projectId format if provided
+    if (projectId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(projectId)) {
+      throw new Error("Invalid project_id format: must be a valid UUID");
+    }
+
+    const tagKey = groupBy.startsWith("tag:") ? groupBy.slice(4) : null;
+    if (tagKey !== null ? !TAG_KEY_PATTERN.test(tagKey) : !["user_id", "model", "route"].includes(groupBy)) {
+      throw new Error(`Invalid groupBy: ${groupBy}`);
+    }
+
+    let whereClause = `WHERE tenant_id = ${chUuid(tenantId)} AND event_type = 'llm_call'`;
+    if (projectId) {
+      whereClause += ` AND project_id = ${chUuid(projectId)}`;
+    }
+    whereClause += ` AND timestamp >= ${chDateTime(startTime)}`;
+    whereClause += ` AND timestamp <= ${chDateTime(endTime)}`;
+
+    const costExpr = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.cost'))`;
+    const tokensExpr = `toInt64OrNull(JSONExtractString(attributes_json, '$.llm_call.total_tokens'))`;
+    const groupExpr =
+      tagKey !== null
+        ? `JSONExtractString(attributes_json, 'tags', ${chString(tagKey)})`
+        : groupBy === "model"
+          ? `JSONExtractString(attributes_json, '$.llm_call.model')`
+          : `ifNull(${groupBy}, '')`;
+
+    try {
+      const sql = `
+        SELECT 
+          ${groupExpr} as group_value,
+          sum(ifNull(${costExpr}, 0)) as cost,
+          uniqExact(trace_id) as traces,
+          count() as llm_calls,
+          sum(ifNull(${tokensExpr}, 0)) as tokens
+        FROM canonical_events
+        ${whereClause}
+        GROUP BY group_value
+        ORDER BY cost DESC
+        LIMIT 10000
+      `;
+      const result = await TinybirdRepository.rawQuery(sql, {
+        tenantId,
+        projectId: projectId || undefined,
+      });
+      const rows = Array.isArray(result) ? result : result?.data || [];
+      if (rows.length > 0) {
+        return this.summarizeCostGroups(
+          groupBy,
+          rows.map((row: any) => ({
+            value: row.group_value ? String(row.group_value) : null,
+            cost: parseFloat(row.cost) || 0,
+            traces: parseInt(row.traces) || 0,
+            llm_calls: parseInt(row.llm_calls) || 0,
+            tokens: parseInt(row.tokens) || 0,
+          })),
+          top
+        );
+      }
+      console.log("[DashboardMetricsService] Tinybird cost attribution empty, falling back to PostgreSQL");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(
+        "[DashboardMetricsService] Failed to get cost attribution from Tinybird:",
+        errorMessage
+      );
+    }
+
+    // analysis_results holds one summary per trace and has no route column
+    if (groupBy === "route") {
+      return this.summarizeCostGroups(groupBy, [], top);
+    }
+    try {
+      const params: any[] = [tenantId, new Date(startTime), new Date(endTime)];
+      let groupSql = groupBy === "model" ? "model" : "user_id";
+      if (tagKey !== null) {
+        params.push(tagKey);
+        groupSql = `tags->>$${params.length}`;
+      }
+      let projectFilter = "";
+      if (projectId) {
+        params.push(projectId);
+        projectFilter = ` AND project_id = $${params.length}`;
+      }
+      const rows = await query<{ group_value: string | null; cost: string; traces: string; tokens: string }>(
+        `SELECT 
+          ${groupSql} as group_value,
+          COALESCE(SUM(${ModelPricingService.costSql()}), 0) as cost,
+          COUNT(*) as traces,
+          COALESCE(SUM(tokens_total), 0) as tokens
+        FROM analysis_results
+        WHERE tenant_id = $1
+          AND COALESCE(timestamp, analyzed_at) >= $2
+          AND COALESCE(timestamp, analyzed_at) <= $3${projectFilter}
+        GROUP BY group_value
+        ORDER BY cost DESC
+        LIMIT 10000`,
+        params
+      );
+      return this.summarizeCostGroups(
+        groupBy,
+        rows.map((row) => ({
+          value: row.group_value || null,
+          cost: parseFloat(row.cost) || 0,
+          traces: parseInt(row.traces) || 0,
+          llm_calls: parseInt(row.traces) || 0,
+          tokens: parseInt(row.tokens) || 0,
+        })),
+        top
+      );
+    } catch (error) {
+      console.error("[DashboardMetricsService] PostgreSQL cost attribution fallback failed:", error);
+      return this.summarizeCostGroups(groupBy, [], top);
+    }
+  }
+
   /**
    * Get metrics comparison between current period and previous period
    * Returns percentage changes for trend indicators
@@ -0,0 +1,543 @@
+/**
+ * Dataset Service
+ *
+ * Golden datasets built from production traces.
+ * Each dataset item snapshots the trace input (query, messages, system
+ * instructions, model config) from TraceQueryService.getTraceDetailTree so the
+ * item stays reproducible after the trace itself expires or is deleted.
+ */
+
+import { getClient, query } from "../db/client.js";
+import {
+  TraceListQueryOptions,
+  TraceQueryService,
+} from "./traceQueryService.js";
+
+export interface Dataset {
+  id: string;
+  tenant_id: string;
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  item_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatasetItem {
+  id: string;
+  dataset_id: string;
+  project_id: string | null;
+  trace_id: string;
+  input_snapshot: DatasetInputSnapshot | null;
+  expected_output: string | null;
+  corrected_output: string | null;
+  notes: string | null;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What an experiment needs to replay a trace
+ */
+export interface DatasetInputSnapshot {
+  trace_id: string;
+  captured_at: string;
+  input: string | null;
+  messages: any[] | null;
+  system_instructions: any | null;
+  model: string | null;
+  model_config: Record<string, any>;
+  tools: any[] | null;
+  original_output: string | null;
+  metadata: {
+    conversation_id: string | null;
+    session_id: string | null;
+    user_id: string | null;
+    environment: string | null;
+    timestamp: string | null;
+  };
+}
+
+export interface DatasetItemUpdate {
+  expectedOutput?: string | null;
+  correctedOutput?: string | null;
+  notes?: string | null;
+}
+
+export interface AddTraceResult {
+  item: DatasetItem;
+  created: boolean;
+}
+
+export type TraceFilter = Omit<
+  TraceListQueryOptions,
+  "limit" | "offset" | "includeStats" | "projectId"
+>;
+
+// Maximum traces added by a single bulk add
+export const MAX_BULK_ADD = 500;
+
+export class DatasetService {
+  /**
+   * Build an input snapshot from a trace detail tree
+   * The first LLM call (by start time) is treated as the trace's entry prompt.
+   */
+  static buildInputSnapshot(traceId: string, tree: any): DatasetInputSnapshot {
+    const summary = tree?.summary || {};
+    const spans: any[] = Array.isArray(tree?.allSpans)
+      ? tree.allSpans
+      : Array.isArray(tree?.spans)
+        ? tree.spans
+        : [];
+    const firstLlm = spans
+      .filter((span) => span?.llm_call)
+      .sort((a, b) =>
+        String(a.start_time || "").localeCompare(String(b.start_time || "")),
+      )[0]?.llm_call;
+
+    const modelConfig: Record<string, any> = {};
+    if (firstLlm) {
+      for (const key of [
+        "temperature",
+        "max_tokens",
+        "top_p",
+        "top_k",
+        "frequency_penalty",
+        "presence_penalty",
+        "stop_sequences",
+        "seed",
+      ]) {
+        if (firstLlm[key] !== null && firstLlm[key] !== undefined) {
+          modelConfig[key] = firstLlm[key];
+        }
+      }
+    }
+
+    return {
+      trace_id: traceId,
+      captured_at: new Date().toISOString(),
+      input: summary.query ?? firstLlm?.input ?? null,
+      messages: firstLlm?.input_messages ?? null,
+      system_instructions: firstLlm?.system_instructions ?? null,
+      model: summary.model ?? firstLlm?.model ?? null,
+      model_config: modelConfig,
+      tools: firstLlm?.tool_definitions ?? null,
+      original_output: summary.response ?? null,
+      metadata: {
+        conversation_id: summary.conversation_id ?? null,
+        session_id: summary.session_id ?? null,
+        user_id: summary.user_id ?? null,
+        environment: summary.environment ?? null,
+        timestamp: summary.timestamp ?? summary.start_time ?? null,
+      },
+    };
+  }
+
+  static async listDatasets(
+    tenantId: string,
+    projectId?: string | null,
+  ): Promise<Dataset[]> {
+    const params: any[] = [tenantId];
+    let whereClause = "WHERE d.tenant_id = $1";
+    if (projectId) {
+      params.push(projectId);
+      whereClause += ` AND d.project_id = $2`;
+    }
+    const rows = await query<any>(
+      `SELECT d.*, COUNT(i.id) as item_count
+       FROM datasets d
+       LEFT JOIN dataset_items i ON i.dataset_id = d.id
+       ${whereClause}
+       GROUP BY d.id
+       ORDER BY d.created_at DESC`,
+      params,
+    );
+    return rows.map((row) => this.mapDataset(row));
+  }
+
+  static async getDataset(
+    tenantId: string,
+    datasetId: string,
+  ): Promise<Dataset | null> {
+    const rows = await query<any>(
+      `SELECT d.*, (SELECT COUNT(*) FROM dataset_items WHERE dataset_id = d.id) as item_count
+       FROM datasets d
+       WHERE d.id = $1 AND d.tenant_id = $2`,
+      [datasetId, tenantId],
+    );
+    return rows[0] ? this.mapDataset(rows[0]) : null;
+  }
+
+  /**
+   * Create a dataset; returns null when the name is already used in the tenant
+   */
+  static async createDataset(
+    tenantId: string,
+    input: { name: string; description?: string | null; projectId?: string | null },
+  ): Promise<Dataset | null> {
+    const rows = await query<any>(
+      `INSERT INTO datasets (tenant_id, project_id, name, description)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (tenant_id, name) DO NOTHING
+       RETURNING *, 0 as item_count`,
+      [tenantId, input.projectId ?? null, input.name, input.description ?? null],
+    );
+    return rows[0] ? this.mapDataset(rows[0]) : null;
+  }
+
+  static async updateDataset(
+    tenantId: string,
+    datasetId: string,
+    input: { name?: string; description?: string | null },
+  ): Promise<Dataset | null> {
+    await query(
+      `UPDATE datasets SET
+         name = COALESCE($3, name),
+         description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2`,
+      [
+        datasetId,
+        tenantId,
+        input.name ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+      ],
+    );
+    return this.getDataset(tenantId, datasetId);
+  }
+
+  static async deleteDataset(
+    tenantId: string,
+    datasetId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM datasets WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [datasetId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  static async listItems(
+    tenantId: string,
+    datasetId: string,
+    limit: number = 100,
+    offset: number = 0,
+  ): Promise<{ items: DatasetItem[]; total: number }> {
+    const countRows = await query<{ total: string }>(
+      `SELECT COUNT(*) as total FROM dataset_items WHERE dataset_id = $1 AND tenant_id = $2`,
+      [datasetId, tenantId],
+    );
+    const rows = await query<any>(
+      `SELECT * FROM dataset_items
+       WHERE dataset_id = $1 AND tenant_id = $2
+       ORDER BY created_at ASC
+       LIMIT $3 OFFSET $4`,
+      [datasetId, tenantId, limit, offset],
+    );
+    return {
+      items: rows.map((row) => this.mapItem(row)),
+      total: parseInt(countRows[0]?.total || "0", 10),
+    };
+  }
+
+  /**
+   * All items of a dataset, oldest first (exports and experiments)
+   */
+  static async getAllItems(
+    tenantId: string,
+    datasetId: string,
+  ): Promise<DatasetItem[]> {
+    const rows = await query<any>(
+      `SELECT * FROM dataset_items
+       WHERE dataset_id = $1 AND tenant_id = $2
+       ORDER BY created_at ASC`,
+      [datasetId, tenantId],
+    );
+    return rows.map((row) => this.mapItem(row));
+  }
+
+  static async getItem(
+    tenantId: string,
+    datasetId: string,
+    itemId: string,
+  ): Promise<DatasetItem | null> {
+    const rows = await query<any>(
+      `SELECT * FROM dataset_items WHERE id = $1 AND dataset_id = $2 AND tenant_id = $3`,
+      [itemId, datasetId, tenantId],
+    );
+    return rows[0] ? this.mapItem(rows[0]) : null;
+  }
+
+  static async updateItem(
+    tenantId: string,
+    datasetId: string,
+    itemId: string,
+    input: DatasetItemUpdate,
+  ): Promise<DatasetItem | null> {
+    const columns: Record<keyof DatasetItemUpdate, string> = {
+      expectedOutput: "expected_output",
+      correctedOutput: "corrected_output",
+      notes: "notes",
+    };
+    const sets: string[] = [];
+    const params: any[] = [itemId, datasetId, tenantId];
+    for (const [key, column] of Object.entries(columns)) {
+      const value = (input as any)[key];
+      if (value === undefined) continue;
+      params.push(value);
+      sets.push(`${column} = $${params.length}`);
+    }
+    if (sets.length === 0) {
+      return this.getItem(tenantId, datasetId, itemId);
+    }
+
+    const rows = await query<any>(
+      `UPDATE dataset_items SET ${sets.join(", ")}, updated_at = NOW()
+       WHERE id = $1 AND dataset_id = $2 AND tenant_id = $3
+       RETURNING *`,
+      params,
+    );
+    return rows[0] ? this.mapItem(rows[0]) : null;
+  }
+
+  static async deleteItem(
+    tenantId: string,
+    datasetId: string,
+    itemId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM dataset_items WHERE id = $1 AND dataset_id = $2 AND tenant_id = $3 RETURNING id`,
+      [itemId, datasetId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Add a trace to a dataset, snapshotting its input
+   * A trace already in the dataset is returned as-is (created: false).
+   * Returns null if the trace can't be found.
+   */
+  static async addTrace(
+    tenantId: string,
+    dataset: Dataset,
+    traceId: string,
+    userId: string | null,
+    options: DatasetItemUpdate = {},
+  ): Promise<AddTraceResult | null> {
+    const findExisting = () =>
+      query<any>(
+        `SELECT * FROM dataset_items WHERE dataset_id = $1 AND trace_id = $2 LIMIT 1`,
+        [dataset.id, traceId],
+      );
+    const existing = await findExisting();
+    if (existing[0]) {
+      return { item: this.mapItem(existing[0]), created: false };
+    }
+
+    const tree = await TraceQueryService.getTraceDetailTree(
+      traceId,
+      tenantId,
+      dataset.project_id,
+    );
+    if (!tree) {
+      return null;
+    }
+
+    const snapshot = this.buildInputSnapshot(traceId, tree);
+    const projectId = dataset.project_id ?? tree.summary?.project_id ?? null;
+
+    // Serialize adds of the same trace to the same dataset; the insert only
+    // runs when the trace is not in the dataset yet
+    const client = await getClient();
+    let rows: any[];
+    try {
+      await client.query("BEGIN");
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [
+        `dataset_items:${dataset.id}:${traceId}`,
+      ]);
+      const result = await client.query(
+        `INSERT INTO dataset_items (
+           dataset_id, tenant_id, project_id, trace_id, input_snapshot_json,
+           expected_output, corrected_output, notes, created_by_user_id
+         )
+         SELECT $1, $2, $3, $4, $5, $6, $7, $8, $9
+         WHERE NOT EXISTS (
+           SELECT 1 FROM dataset_items WHERE dataset_id = $1 AND trace_id = $4
+         )
+         RETURNING *`,
+        [
+          dataset.id,
+          tenantId,
+          projectId || null,
+          traceId,
+          JSON.stringify(snapshot),
+          options.expectedOutput ?? snapshot.original_output,
+          options.correctedOutput ?? null,
+          options.notes ?? null,
+          userId,
+        ],
+      );
+      await client.query("COMMIT");
+      rows = result.rows;
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+    if (!rows[0]) {
+      // Added concurrently since the check above
+      const added = await findExisting();
+      return added[0] ? { item: this.mapItem(added[0]), created: false } : null;
+    }
+    await query(`UPDATE datasets SET updated_at = NOW() WHERE id = $1`, [
+      dataset.id,
+    ]);
+    return { item: this.mapItem(rows[0]), created: true };
+  }
+
+  /**
+   * Add every trace matching a trace-list filter (up to `limit`, max MAX_BULK_ADD)
+   */
+  static async addTracesFromFilter(
+    tenantId: string,
+    dataset: Dataset,
+    filter: TraceFilter,
+    userId: string | null,
+    limit: number = 100,
+    projectId?: string | null,
+  ): Promise<{ matched: number; added: number; skipped: number; failed: string[] }> {
+    const { traces } = await TraceQueryService.getTracesV2(tenantId, {
+      ...filter,
+      projectId: projectId ?? dataset.project_id,
+      limit: Math.min(Math.max(limit, 1), MAX_BULK_ADD),
+      offset: 0,
+      includeStats: false,
+    });
+
+    let added = 0;
+    let skipped = 0;
+    const failed: string[] = [];
+    for (const trace of traces) {
+      try {
+        const result = await this.addTrace(tenantId, dataset, trace.trace_id, userId);
+        if (!result) {
+          failed.push(trace.trace_id);
+        } else if (result.created) {
+          added++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        console.error(
+          `[DatasetService] Failed to add trace ${trace.trace_id} to dataset ${dataset.id}:`,
+          error,
+        );
+        failed.push(trace.trace_id);
+      }
+    }
+
+    return { matched: traces.length, added, skipped, failed };
+  }
+
+  /**
+   * One JSON object per line: { id, trace_id, input, expected_output, ... }
+   */
+  static toJsonl(items: DatasetItem[]): string {
+    return items
+      .map((item) =>
+        JSON.stringify({
+          id: item.id,
+          trace_id: item.trace_id,
+          input: item.input_snapshot?.input ?? null,
+          messages: item.input_snapshot?.messages ?? null,
+          system_instructions: item.input_snapshot?.system_instructions ?? null,
+          model: item.input_snapshot?.model ?? null,
+          model_config: item.input_snapshot?.model_config ?? {},
+          expected_output: item.corrected_output ?? item.expected_output,
+          original_output: item.input_snapshot?.original_output ?? null,
+          corrected: item.corrected_output !== null,
+          notes: item.notes,
+        }),
+      )
+      .join("\n");
+  }
+
+  static toCsv(items: DatasetItem[]): string {
+    const headers = [
+      "id",
+      "trace_id",
+      "input",
+      "model",
+      "expected_output",
+      "corrected_output",
+      "original_output",
+      "notes",
+      "created_at",
+    ];
+
+    const escape = (v: any) => {
+      const s = v === null || v === undefined ? "" : String(v);
+      if (/[",\r\n]/.test(s)) {
+        return `"${s.replace(/"/g, '""')}"`;
+      }
+      return s;
+    };
+
+    const rows = items.map((item) => [
+      item.id,
+      item.trace_id,
+      item.input_snapshot?.input,
+      item.input_snapshot?.model,
+      item.expected_output,
+      item.corrected_output,
+      item.input_snapshot?.original_output,
+      item.notes,
+      item.created_at,
+    ]);
+
+    return [headers.join(","), ...rows.map((r) => r.map(escape).join(","))].join(
+      "\n",
+    );
+  }
+
+  private static mapDataset(row: any): Dataset {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      description: row.description,
+      item_count: parseInt(row.item_count || "0", 10),
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private static mapItem(row: any): DatasetItem {
+    let snapshot: DatasetInputSnapshot | null = null;
+    if (row.input_snapshot_json) {
+      try {
+        snapshot = JSON.parse(row.input_snapshot_json);
+      } catch {
+        snapshot = null;
+      }
+    }
+    return {
+      id: row.id,
+      dataset_id: row.dataset_id,
+      project_id: row.project_id,
+      trace_id: row.trace_id,
+      input_snapshot: snapshot,
+      expected_output: row.expected_output,
+      corrected_output: row.corrected_output,
+      notes: row.notes,
+      created_by_user_id: row.created_by_user_id,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Experiment Dispatcher
+ *
+ * Queues experiment runs (BullMQ/Redis) so they execute on the worker
+ * process rather than in the API process, where serverless invocations end
+ * as soon as the response is sent.
+ * Gracefully degrades if Redis is not available (callers run in-process).
+ */
+
+import { Queue, QueueOptions } from "bullmq";
+import Redis from "ioredis";
+
+export interface ExperimentRunJob {
+  experiment_id: string;
+  tenant_id: string;
+}
+
+let experimentQueue: Queue<ExperimentRunJob> | null = null;
+let redisClient: Redis | null = null;
+
+/**
+ * Initialize Redis connection and job queue
+ * Gracefully degrades if Redis is not available
+ */
+export function initializeExperimentQueue(): void {
+  const redisUrl = process.env.REDIS_URL || process.env.UPSTASH_REDIS_URL;
+
+  if (!redisUrl) {
+    console.log(
+      "[ExperimentDispatcher] ℹ️  REDIS_URL not set - experiments will run in the API process"
+    );
+    return;
+  }
+
+  try {
+    redisClient = new Redis(redisUrl, {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times) => {
+        const delay = Math.min(times * 50, 2000);
+        return delay;
+      },
+      enableReadyCheck: true,
+    });
+
+    const queueOptions: QueueOptions = {
+      connection: redisClient,
+      defaultJobOptions: {
+        // runExperiment records failures on the experiment itself
+        attempts: 1,
+        removeOnComplete: {
+          age: 24 * 3600, // Keep completed jobs for 24 hours
+          count: 1000, // Keep max 1000 completed jobs
+        },
+        removeOnFail: {
+          age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+        },
+      },
+    };
+
+    experimentQueue = new Queue<ExperimentRunJob>("experiment-runs", queueOptions);
+
+    console.log("[ExperimentDispatcher] ✅ Experiment run queue initialized");
+  } catch (error) {
+    console.error(
+      "[ExperimentDispatcher] ❌ Failed to initialize Redis queue:",
+      error
+    );
+  }
+}
+
+/**
+ * Queue an experiment run
+ * Returns true if queued successfully, false if queue unavailable
+ */
+export async function queueExperimentRun(job: ExperimentRunJob): Promise<boolean> {
+  if (!experimentQueue) {
+    return false;
+  }
+
+  try {
+    await experimentQueue.add("run-experiment", job, {
+      jobId: `experiment-${job.experiment_id}-${Date.now()}`,
+    });
+    console.log(
+      `[ExperimentDispatcher] ✅ Queued run for experiment ${job.experiment_id}`
+    );
+    return true;
+  } catch (error) {
+    console.error(
+      `[ExperimentDispatcher] ❌ Failed to queue run for experiment ${job.experiment_id}:`,
+      error
+    );
+    return false;
+  }
+}
+
+/**
+ * Cleanup: Close Redis connection
+ */
+export async function closeExperimentQueue(): Promise<void> {
+  if (experimentQueue) {
+    await experimentQueue.close();
+    experimentQueue = null;
+  }
+  if (redisClient) {
+    await redisClient.quit();
+    redisClient = null;
+  }
+}
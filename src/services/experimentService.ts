@@ -0,0 +1,897 @@
+/**
+ * Experiment Service
+ *
+ * Runs a dataset against an HTTP target and scores the outputs.
+ * For each dataset item the input snapshot is POSTed to the target; the
+ * response is recorded as a canonical trace (session_id = experiment id,
+ * trace_start metadata carries experiment/dataset ids) and scored.
+ *
+ * Target contract:
+ *   Request:  POST { experiment_id, dataset_item_id, input, messages,
+ *                    system_instructions, model, model_config, tools, metadata }
+ *   Response: { output: string, model?, usage?: { input_tokens, output_tokens }, cost? }
+ *             (a plain-text body is used as the output)
+ */
+
+import { randomUUID } from "crypto";
+import { query } from "../db/client.js";
+import { CanonicalEvent } from "../types/events.js";
+import { Dataset, DatasetItem, DatasetService } from "./datasetService.js";
+import { EventIngestionService } from "./eventIngestionService.js";
+import { queueExperimentRun } from "./experimentDispatcher.js";
+import { ModelPricingService } from "./modelPricingService.js";
+
+export type ExperimentStatus = "pending" | "running" | "completed" | "failed";
+
+export type ExperimentScorer =
+  | { type: "exact_match"; name?: string; caseSensitive?: boolean }
+  | { type: "contains"; name?: string; value?: string; caseSensitive?: boolean }
+  | { type: "regex"; name?: string; pattern: string; flags?: string }
+  | { type: "json_valid"; name?: string }
+  | { type: "similarity"; name?: string; threshold?: number }
+  | { type: "max_latency"; name?: string; maxMs: number }
+  | { type: "max_cost"; name?: string; maxCost: number };
+
+export interface ScoreResult {
+  name: string;
+  type: ExperimentScorer["type"];
+  score: number | null; // 0..1, null when the scorer doesn't apply (e.g. no expected output)
+  passed: boolean | null;
+}
+
+export interface Experiment {
+  id: string;
+  tenant_id: string;
+  project_id: string;
+  dataset_id: string;
+  name: string;
+  description: string | null;
+  target_url: string;
+  target_headers: Record<string, string>;
+  scorers: ExperimentScorer[];
+  metadata: Record<string, any>;
+  status: ExperimentStatus;
+  summary: ExperimentSummary | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExperimentInput {
+  name: string;
+  description?: string | null;
+  datasetId: string;
+  projectId?: string | null;
+  targetUrl: string;
+  targetHeaders?: Record<string, string>;
+  scorers?: ExperimentScorer[];
+  metadata?: Record<string, any>;
+}
+
+export interface ExperimentResult {
+  id?: string;
+  dataset_item_id: string;
+  trace_id: string;
+  status: "success" | "error";
+  output: string | null;
+  expected_output: string | null;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost: number | null;
+  scores: ScoreResult[];
+  passed: boolean | null;
+  error: string | null;
+}
+
+export interface ExperimentSummary {
+  item_count: number;
+  success_count: number;
+  error_count: number;
+  passed_count: number;
+  pass_rate: number; // percentage of items that passed all scorers
+  avg_latency_ms: number | null;
+  p95_latency_ms: number | null;
+  total_cost: number;
+  avg_cost: number | null;
+  total_tokens: number;
+  scorer_averages: Record<string, number | null>;
+}
+
+export type ItemChange =
+  | "improved"
+  | "regressed"
+  | "unchanged"
+  | "added"
+  | "removed";
+
+export interface ExperimentComparisonItem {
+  dataset_item_id: string;
+  input: string | null;
+  expected_output: string | null;
+  a: ExperimentResult | null;
+  b: ExperimentResult | null;
+  change: ItemChange;
+}
+
+const TARGET_TIMEOUT_MS = 60000;
+const RUN_CONCURRENCY = 4;
+// A run touches updated_at after every item; one silent for this long was
+// killed mid-run (process exit, serverless timeout) and may be started again
+const STALE_RUN_MINUTES = 10;
+const DEFAULT_SCORERS: ExperimentScorer[] = [
+  { type: "similarity", threshold: 0.8 },
+];
+
+export class ExperimentService {
+  /**
+   * Apply scorers to one output
+   */
+  static scoreOutput(
+    scorers: ExperimentScorer[],
+    output: string | null,
+    expected: string | null,
+    latencyMs: number | null,
+    cost: number | null,
+  ): ScoreResult[] {
+    const active = scorers.length > 0 ? scorers : DEFAULT_SCORERS;
+    return active.map((scorer) => {
+      const name = scorer.name || scorer.type;
+      const result = (score: number | null, passed: boolean | null) => ({
+        name,
+        type: scorer.type,
+        score,
+        passed,
+      });
+      const text = output ?? "";
+
+      switch (scorer.type) {
+        case "exact_match": {
+          if (expected === null) return result(null, null);
+          const match = scorer.caseSensitive
+            ? text.trim() === expected.trim()
+            : text.trim().toLowerCase() === expected.trim().toLowerCase();
+          return result(match ? 1 : 0, match);
+        }
+        case "contains": {
+          const needle = scorer.value ?? expected;
+          if (needle === null || needle === undefined) return result(null, null);
+          const found = scorer.caseSensitive
+            ? text.includes(needle)
+            : text.toLowerCase().includes(needle.toLowerCase());
+          return result(found ? 1 : 0, found);
+        }
+        case "regex": {
+          let matched = false;
+          try {
+            matched = new RegExp(scorer.pattern, scorer.flags).test(text);
+          } catch {
+            matched = false;
+          }
+          return result(matched ? 1 : 0, matched);
+        }
+        case "json_valid": {
+          let valid = false;
+          try {
+            JSON.parse(text);
+            valid = true;
+          } catch {
+            valid = false;
+          }
+          return result(valid ? 1 : 0, valid);
+        }
+        case "similarity": {
+          if (expected === null) return result(null, null);
+          const score = this.tokenF1(text, expected);
+          return result(score, score >= (scorer.threshold ?? 0.8));
+        }
+        case "max_latency": {
+          if (latencyMs === null) return result(null, null);
+          const ok = latencyMs <= scorer.maxMs;
+          return result(ok ? 1 : 0, ok);
+        }
+        case "max_cost": {
+          if (cost === null) return result(null, null);
+          const ok = cost <= scorer.maxCost;
+          return result(ok ? 1 : 0, ok);
+        }
+        default:
+          return result(null, null);
+      }
+    });
+  }
+
+  /**
+   * Token-level F1 between output and expected (0..1)
+   */
+  static tokenF1(output: string, expected: string): number {
+    const tokenize = (s: string) =>
+      s.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const a = tokenize(output);
+    const b = tokenize(expected);
+    if (a.length === 0 && b.length === 0) return 1;
+    if (a.length === 0 || b.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    for (const token of b) counts.set(token, (counts.get(token) || 0) + 1);
+    let overlap = 0;
+    for (const token of a) {
+      const remaining = counts.get(token) || 0;
+      if (remaining > 0) {
+        overlap++;
+        counts.set(token, remaining - 1);
+      }
+    }
+    if (overlap === 0) return 0;
+    const precision = overlap / a.length;
+    const recall = overlap / b.length;
+    return (2 * precision * recall) / (precision + recall);
+  }
+
+  /**
+   * Item passes when the target succeeded and no applicable scorer failed
+   */
+  static itemPassed(
+    status: ExperimentResult["status"],
+    scores: ScoreResult[],
+  ): boolean {
+    return status === "success" && scores.every((s) => s.passed !== false);
+  }
+
+  /**
+   * Aggregate metrics over an experiment's results
+   */
+  static summarize(results: ExperimentResult[]): ExperimentSummary {
+    const latencies = results
+      .map((r) => r.latency_ms)
+      .filter((v): v is number => typeof v === "number")
+      .sort((a, b) => a - b);
+    const costs = results
+      .map((r) => r.cost)
+      .filter((v): v is number => typeof v === "number");
+    const totalCost = costs.reduce((sum, c) => sum + c, 0);
+    const passed = results.filter((r) => r.passed === true).length;
+
+    const scorerTotals = new Map<string, { sum: number; count: number }>();
+    for (const result of results) {
+      for (const score of result.scores) {
+        const entry = scorerTotals.get(score.name) || { sum: 0, count: 0 };
+        if (score.score !== null) {
+          entry.sum += score.score;
+          entry.count++;
+        }
+        scorerTotals.set(score.name, entry);
+      }
+    }
+    const scorerAverages: Record<string, number | null> = {};
+    for (const [name, { sum, count }] of scorerTotals) {
+      scorerAverages[name] = count > 0 ? sum / count : null;
+    }
+
+    return {
+      item_count: results.length,
+      success_count: results.filter((r) => r.status === "success").length,
+      error_count: results.filter((r) => r.status === "error").length,
+      passed_count: passed,
+      pass_rate: results.length > 0 ? (passed / results.length) * 100 : 0,
+      avg_latency_ms:
+        latencies.length > 0
+          ? latencies.reduce((sum, v) => sum + v, 0) / latencies.length
+          : null,
+      p95_latency_ms:
+        latencies.length > 0
+          ? latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)]
+          : null,
+      total_cost: totalCost,
+      avg_cost: costs.length > 0 ? totalCost / costs.length : null,
+      total_tokens: results.reduce(
+        (sum, r) => sum + (r.input_tokens || 0) + (r.output_tokens || 0),
+        0,
+      ),
+      scorer_averages: scorerAverages,
+    };
+  }
+
+  /**
+   * Align two experiments' results by dataset item
+   */
+  static compareResults(
+    resultsA: ExperimentResult[],
+    resultsB: ExperimentResult[],
+    items: Map<string, Pick<DatasetItem, "input_snapshot" | "expected_output" | "corrected_output">>,
+  ): { items: ExperimentComparisonItem[]; counts: Record<ItemChange, number> } {
+    const byItemA = new Map(resultsA.map((r) => [r.dataset_item_id, r]));
+    const byItemB = new Map(resultsB.map((r) => [r.dataset_item_id, r]));
+    const itemIds = [...new Set([...byItemA.keys(), ...byItemB.keys()])];
+    const counts: Record<ItemChange, number> = {
+      improved: 0,
+      regressed: 0,
+      unchanged: 0,
+      added: 0,
+      removed: 0,
+    };
+
+    const comparison = itemIds.map((itemId) => {
+      const a = byItemA.get(itemId) || null;
+      const b = byItemB.get(itemId) || null;
+      let change: ItemChange;
+      if (a && b) {
+        change =
+          a.passed !== true && b.passed === true
+            ? "improved"
+            : a.passed === true && b.passed !== true
+              ? "regressed"
+              : "unchanged";
+      } else {
+        change = b ? "added" : "removed";
+      }
+      counts[change]++;
+
+      const item = items.get(itemId);
+      return {
+        dataset_item_id: itemId,
+        input: item?.input_snapshot?.input ?? null,
+        expected_output:
+          item?.corrected_output ?? item?.expected_output ?? a?.expected_output ?? b?.expected_output ?? null,
+        a,
+        b,
+        change,
+      };
+    });
+
+    // Regressions first, then improvements
+    const order: Record<ItemChange, number> = {
+      regressed: 0,
+      improved: 1,
+      removed: 2,
+      added: 3,
+      unchanged: 4,
+    };
+    comparison.sort((x, y) => order[x.change] - order[y.change]);
+
+    return { items: comparison, counts };
+  }
+
+  static async listExperiments(
+    tenantId: string,
+    filters: { datasetId?: string; projectId?: string } = {},
+  ): Promise<Experiment[]> {
+    const conditions = ["tenant_id = $1"];
+    const params: any[] = [tenantId];
+    if (filters.datasetId) {
+      params.push(filters.datasetId);
+      conditions.push(`dataset_id = $${params.length}`);
+    }
+    if (filters.projectId) {
+      params.push(filters.projectId);
+      conditions.push(`project_id = $${params.length}`);
+    }
+    const rows = await query<any>(
+      `SELECT * FROM experiments WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC`,
+      params,
+    );
+    return rows.map((row) => this.mapExperiment(row));
+  }
+
+  static async getExperiment(
+    tenantId: string,
+    experimentId: string,
+  ): Promise<Experiment | null> {
+    const rows = await query<any>(
+      `SELECT * FROM experiments WHERE id = $1 AND tenant_id = $2`,
+      [experimentId, tenantId],
+    );
+    return rows[0] ? this.mapExperiment(rows[0]) : null;
+  }
+
+  static async createExperiment(
+    tenantId: string,
+    userId: string | null,
+    dataset: Dataset,
+    projectId: string,
+    input: ExperimentInput,
+  ): Promise<Experiment> {
+    const rows = await query<any>(
+      `INSERT INTO experiments (
+         tenant_id, project_id, dataset_id, name, description, target_url,
+         target_headers, scorers, metadata, created_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        tenantId,
+        projectId,
+        dataset.id,
+        input.name,
+        input.description ?? null,
+        input.targetUrl,
+        JSON.stringify(input.targetHeaders || {}),
+        JSON.stringify(input.scorers || []),
+        JSON.stringify(input.metadata || {}),
+        userId,
+      ],
+    );
+    return this.mapExperiment(rows[0]);
+  }
+
+  static async deleteExperiment(
+    tenantId: string,
+    experimentId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM experiments WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [experimentId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  static async getResults(experimentId: string): Promise<ExperimentResult[]> {
+    const rows = await query<any>(
+      `SELECT * FROM experiment_results WHERE experiment_id = $1 ORDER BY created_at ASC`,
+      [experimentId],
+    );
+    return rows.map((row) => this.mapResult(row));
+  }
+
+  /**
+   * Mark an experiment as running; returns false if it is already running
+   * (a stale run counts as stopped)
+   */
+  static async markRunning(experimentId: string): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `UPDATE experiments SET
+         status = 'running', started_at = NOW(), completed_at = NULL,
+         summary = NULL, error = NULL, updated_at = NOW()
+       WHERE id = $1
+         AND (status <> 'running' OR updated_at < NOW() - make_interval(mins => $2))
+       RETURNING id`,
+      [experimentId, STALE_RUN_MINUTES],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Start a run marked with markRunning: queued for the worker when Redis is
+   * configured, otherwise run in this process
+   */
+  static async startRun(experiment: Experiment): Promise<void> {
+    const queued = await queueExperimentRun({
+      experiment_id: experiment.id,
+      tenant_id: experiment.tenant_id,
+    });
+    if (!queued) {
+      void this.runExperiment(experiment);
+    }
+  }
+
+  /**
+   * Run every dataset item through the target (call markRunning first)
+   * Never throws; failures are recorded on the experiment.
+   */
+  static async runExperiment(experiment: Experiment): Promise<void> {
+    try {
+      const items = await DatasetService.getAllItems(
+        experiment.tenant_id,
+        experiment.dataset_id,
+      );
+      await query(`DELETE FROM experiment_results WHERE experiment_id = $1`, [
+        experiment.id,
+      ]);
+
+      const results: ExperimentResult[] = [];
+      let next = 0;
+      const workers = Array.from(
+        { length: Math.min(RUN_CONCURRENCY, items.length) },
+        async () => {
+          while (next < items.length) {
+            const item = items[next++];
+            const result = await this.runItem(experiment, item);
+            await this.storeResult(experiment.id, result);
+            await query(
+              `UPDATE experiments SET updated_at = NOW() WHERE id = $1`,
+              [experiment.id],
+            );
+            results.push(result);
+          }
+        },
+      );
+      await Promise.all(workers);
+
+      const summary = this.summarize(results);
+      await query(
+        `UPDATE experiments SET
+           status = 'completed', summary = $2, completed_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [experiment.id, JSON.stringify(summary)],
+      );
+      console.log(
+        `[ExperimentService] Experiment ${experiment.id} completed: ${summary.passed_count}/${summary.item_count} passed`,
+      );
+    } catch (error) {
+      console.error(
+        `[ExperimentService] Experiment ${experiment.id} failed:`,
+        error,
+      );
+      await query(
+        `UPDATE experiments SET
+           status = 'failed', error = $2, completed_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [
+          experiment.id,
+          error instanceof Error ? error.message : String(error),
+        ],
+      ).catch(() => {});
+    }
+  }
+
+  /**
+   * Experiment as returned by the API: header values are masked
+   */
+  static toPublic(experiment: Experiment): Experiment {
+    const headers: Record<string, string> = {};
+    for (const key of Object.keys(experiment.target_headers)) {
+      headers[key] = "********";
+    }
+    return { ...experiment, target_headers: headers };
+  }
+
+  private static async runItem(
+    experiment: Experiment,
+    item: DatasetItem,
+  ): Promise<ExperimentResult> {
+    const snapshot = item.input_snapshot;
+    const expected = item.corrected_output ?? item.expected_output ?? null;
+    const traceId = randomUUID();
+    const startedAt = new Date();
+
+    let status: ExperimentResult["status"] = "success";
+    let output: string | null = null;
+    let error: string | null = null;
+    let model: string | null = snapshot?.model ?? null;
+    let inputTokens: number | null = null;
+    let outputTokens: number | null = null;
+    let cost: number | null = null;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TARGET_TIMEOUT_MS);
+    try {
+      const response = await fetch(experiment.target_url, {
+        method: "POST",
+        headers: {
+          ...experiment.target_headers,
+          "Content-Type": "application/json",
+          "X-Observa-Experiment-Id": experiment.id,
+        },
+        body: JSON.stringify({
+          experiment_id: experiment.id,
+          dataset_item_id: item.id,
+          input: snapshot?.input ?? null,
+          messages: snapshot?.messages ?? null,
+          system_instructions: snapshot?.system_instructions ?? null,
+          model: snapshot?.model ?? null,
+          model_config: snapshot?.model_config ?? {},
+          tools: snapshot?.tools ?? null,
+          metadata: experiment.metadata,
+        }),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      let body: any = null;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = null;
+      }
+
+      if (!response.ok) {
+        status = "error";
+        error = `Target returned HTTP ${response.status}`;
+      } else if (body && typeof body === "object") {
+        const value = body.output ?? body.text ?? body.content ?? null;
+        output =
+          value === null || typeof value === "string"
+            ? value
+            : JSON.stringify(value);
+        model = typeof body.model === "string" ? body.model : model;
+        const usage = body.usage || {};
+        inputTokens = this.toNumber(usage.input_tokens ?? usage.prompt_tokens);
+        outputTokens = this.toNumber(
+          usage.output_tokens ?? usage.completion_tokens,
+        );
+        cost = this.toNumber(body.cost);
+      } else {
+        output = text;
+      }
+    } catch (err) {
+      status = "error";
+      error =
+        err instanceof Error && err.name === "AbortError"
+          ? `Target timed out after ${TARGET_TIMEOUT_MS}ms`
+          : err instanceof Error
+            ? err.message
+            : String(err);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const latencyMs = Date.now() - startedAt.getTime();
+    if (cost === null && status === "success" && model) {
+      const totalTokens = (inputTokens || 0) + (outputTokens || 0);
+      if (totalTokens > 0) {
+        cost = await ModelPricingService.calculateCost(
+          experiment.tenant_id,
+          model,
+          { inputTokens, outputTokens, totalTokens },
+          startedAt,
+        );
+      }
+    }
+
+    const scores =
+      status === "success"
+        ? this.scoreOutput(experiment.scorers, output, expected, latencyMs, cost)
+        : [];
+
+    await this.ingestTrace(experiment, item, {
+      traceId,
+      startedAt,
+      latencyMs,
+      status,
+      output,
+      error,
+      model,
+      inputTokens,
+      outputTokens,
+      cost,
+    });
+
+    return {
+      dataset_item_id: item.id,
+      trace_id: traceId,
+      status,
+      output,
+      expected_output: expected,
+      latency_ms: latencyMs,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost,
+      scores,
+      passed: this.itemPassed(status, scores),
+      error,
+    };
+  }
+
+  /**
+   * Record an item run as a canonical trace tagged with the experiment
+   * Ingestion failures are logged; the result is still stored.
+   */
+  private static async ingestTrace(
+    experiment: Experiment,
+    item: DatasetItem,
+    run: {
+      traceId: string;
+      startedAt: Date;
+      latencyMs: number;
+      status: ExperimentResult["status"];
+      output: string | null;
+      error: string | null;
+      model: string | null;
+      inputTokens: number | null;
+      outputTokens: number | null;
+      cost: number | null;
+    },
+  ): Promise<void> {
+    const rootSpanId = randomUUID();
+    const llmSpanId = randomUUID();
+    const endTime = new Date(run.startedAt.getTime() + run.latencyMs);
+    const base = {
+      tenant_id: experiment.tenant_id,
+      project_id: experiment.project_id,
+      environment: "dev" as const,
+      trace_id: run.traceId,
+      session_id: experiment.id,
+      conversation_id: null,
+      user_id: null,
+      agent_name: null,
+      version: null,
+      route: "experiment",
+    };
+    const totalTokens =
+      run.inputTokens !== null || run.outputTokens !== null
+        ? (run.inputTokens || 0) + (run.outputTokens || 0)
+        : null;
+
+    const events: CanonicalEvent[] = [
+      {
+        ...base,
+        span_id: rootSpanId,
+        parent_span_id: null,
+        timestamp: run.startedAt.toISOString(),
+        event_type: "trace_start",
+        attributes: {
+          trace_start: {
+            name: `experiment:${experiment.name}`,
+            metadata: {
+              experiment_id: experiment.id,
+              experiment_name: experiment.name,
+              dataset_id: experiment.dataset_id,
+              dataset_item_id: item.id,
+              source_trace_id: item.trace_id,
+            },
+          },
+        },
+      },
+      {
+        ...base,
+        span_id: llmSpanId,
+        parent_span_id: rootSpanId,
+        timestamp: endTime.toISOString(),
+        event_type: "llm_call",
+        attributes: {
+          llm_call: {
+            model: run.model || "unknown",
+            input: item.input_snapshot?.input ?? null,
+            output: run.output,
+            input_tokens: run.inputTokens,
+            output_tokens: run.outputTokens,
+            total_tokens: totalTokens,
+            latency_ms: run.latencyMs,
+            cost: run.cost,
+            input_messages: item.input_snapshot?.messages ?? null,
+          },
+        },
+      },
+    ];
+
+    if (run.status === "error") {
+      events.push({
+        ...base,
+        span_id: llmSpanId,
+        parent_span_id: rootSpanId,
+        timestamp: endTime.toISOString(),
+        event_type: "error",
+        attributes: {
+          error: {
+            error_type: "experiment_target_error",
+            error_message: run.error || "Target request failed",
+          },
+        },
+      });
+    } else {
+      events.push({
+        ...base,
+        span_id: rootSpanId,
+        parent_span_id: null,
+        timestamp: endTime.toISOString(),
+        event_type: "output",
+        attributes: {
+          output: {
+            final_output: run.output,
+            output_length: run.output?.length ?? 0,
+          },
+        },
+      });
+    }
+
+    events.push({
+      ...base,
+      span_id: rootSpanId,
+      parent_span_id: null,
+      timestamp: endTime.toISOString(),
+      event_type: "trace_end",
+      attributes: {
+        trace_end: {
+          total_latency_ms: run.latencyMs,
+          total_cost: run.cost,
+          total_tokens: totalTokens,
+          outcome: run.status === "success" ? "success" : "error",
+        },
+      },
+    });
+
+    try {
+      const result = await EventIngestionService.ingestCanonicalEvents(
+        events,
+        experiment.tenant_id,
+        experiment.project_id,
+      );
+      if (!result.ok) {
+        console.warn(
+          `[ExperimentService] Trace ${run.traceId} rejected: ${result.error.message}`,
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[ExperimentService] Failed to ingest trace ${run.traceId}:`,
+        error,
+      );
+    }
+  }
+
+  private static async storeResult(
+    experimentId: string,
+    result: ExperimentResult,
+  ): Promise<void> {
+    await query(
+      `INSERT INTO experiment_results (
+         experiment_id, dataset_item_id, trace_id, status, output, expected_output,
+         latency_ms, input_tokens, output_tokens, cost, scores, passed, error
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (experiment_id, dataset_item_id) DO NOTHING`,
+      [
+        experimentId,
+        result.dataset_item_id,
+        result.trace_id,
+        result.status,
+        result.output,
+        result.expected_output,
+        result.latency_ms,
+        result.input_tokens,
+        result.output_tokens,
+        result.cost,
+        JSON.stringify(result.scores),
+        result.passed,
+        result.error,
+      ],
+    );
+  }
+
+  private static toNumber(value: any): number | null {
+    if (value === null || value === undefined) return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+
+  private static parseJson(value: any, fallback: any): any {
+    if (value === null || value === undefined) return fallback;
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static mapExperiment(row: any): Experiment {
+    const iso = (value: any) => (value ? new Date(value).toISOString() : null);
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      dataset_id: row.dataset_id,
+      name: row.name,
+      description: row.description,
+      target_url: row.target_url,
+      target_headers: this.parseJson(row.target_headers, {}),
+      scorers: this.parseJson(row.scorers, []),
+      metadata: this.parseJson(row.metadata, {}),
+      status: row.status,
+      summary: this.parseJson(row.summary, null),
+      error: row.error,
+      started_at: iso(row.started_at),
+      completed_at: iso(row.completed_at),
+      created_at: iso(row.created_at)!,
+      updated_at: iso(row.updated_at)!,
+    };
+  }
+
+  private static mapResult(row: any): ExperimentResult {
+    return {
+      id: row.id,
+      dataset_item_id: row.dataset_item_id,
+      trace_id: row.trace_id,
+      status: row.status,
+      output: row.output,
+      expected_output: row.expected_output,
+      latency_ms: row.latency_ms,
+      input_tokens: row.input_tokens,
+      output_tokens: row.output_tokens,
+      cost: row.cost === null ? null : Number(row.cost),
+      scores: this.parseJson(row.scores, []),
+      passed: row.passed,
+      error: row.error,
+    };
+  }
+}
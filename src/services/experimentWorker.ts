@@ -0,0 +1,96 @@
+/**
+ * Experiment Worker
+ *
+ * Processes experiment runs queued by the experiment dispatcher.
+ * Runs in the worker process (src/worker.ts), not in the API server.
+ */
+
+import { Worker, Job } from "bullmq";
+import Redis from "ioredis";
+import { ExperimentRunJob } from "./experimentDispatcher.js";
+import { ExperimentService } from "./experimentService.js";
+
+let experimentWorker: Worker<ExperimentRunJob> | null = null;
+let redisClient: Redis | null = null;
+
+/**
+ * Initialize experiment worker
+ */
+export function initializeExperimentWorker(): void {
+  const redisUrl = process.env.REDIS_URL || process.env.UPSTASH_REDIS_URL;
+
+  if (!redisUrl) {
+    console.warn(
+      "[ExperimentWorker] REDIS_URL not set - worker will not start"
+    );
+    return;
+  }
+
+  try {
+    redisClient = new Redis(redisUrl, {
+      // BullMQ workers block on Redis and require this to be null
+      maxRetriesPerRequest: null,
+      retryStrategy: (times) => {
+        const delay = Math.min(times * 50, 2000);
+        return delay;
+      },
+    });
+
+    experimentWorker = new Worker<ExperimentRunJob>(
+      "experiment-runs",
+      async (job: Job<ExperimentRunJob>) => {
+        return await processExperimentRun(job.data);
+      },
+      {
+        connection: redisClient,
+        concurrency: 2, // Each run already calls its target concurrently
+      }
+    );
+
+    experimentWorker.on("failed", (job, err) => {
+      console.error(
+        `[ExperimentWorker] ❌ Failed run for experiment ${job?.data.experiment_id}:`,
+        err
+      );
+    });
+
+    experimentWorker.on("error", (err) => {
+      console.error("[ExperimentWorker] Worker error:", err);
+    });
+
+    console.log("[ExperimentWorker] ✅ Experiment worker initialized and listening for jobs");
+  } catch (error) {
+    console.error("[ExperimentWorker] ❌ Failed to initialize worker:", error);
+  }
+}
+
+/**
+ * Run a queued experiment unless it was deleted or finished in the meantime
+ */
+async function processExperimentRun(job: ExperimentRunJob): Promise<void> {
+  const experiment = await ExperimentService.getExperiment(
+    job.tenant_id,
+    job.experiment_id
+  );
+  if (!experiment || experiment.status !== "running") {
+    console.log(
+      `[ExperimentWorker] Skipping experiment ${job.experiment_id} (${experiment ? experiment.status : "deleted"})`
+    );
+    return;
+  }
+  await ExperimentService.runExperiment(experiment);
+}
+
+/**
+ * Cleanup: Close worker and Redis connection
+ */
+export async function closeExperimentWorker(): Promise<void> {
+  if (experimentWorker) {
+    await experimentWorker.close();
+    experimentWorker = null;
+  }
+  if (redisClient) {
+    await redisClient.quit();
+    redisClient = null;
+  }
+}
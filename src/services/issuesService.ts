@@ -0,0 +1,421 @@
+/**
+ * Issues Service
+ *
+ * Groups Layer 2 signals into issues by fingerprint
+ * (signal name + route + model + tool name + normalized error message)
+ * and tracks each issue's lifecycle: open → acknowledged → resolved / ignored.
+ * A resolved issue that receives new matching signals becomes "regressed".
+ */
+
+import { createHash } from "crypto";
+import { query } from "../db/client.js";
+import { Signal } from "./signalsService.js";
+
+export type IssueStatus =
+  | "open"
+  | "acknowledged"
+  | "resolved"
+  | "ignored"
+  | "regressed";
+
+export const ISSUE_STATUSES: IssueStatus[] = [
+  "open",
+  "acknowledged",
+  "resolved",
+  "ignored",
+  "regressed",
+];
+
+export type IssueSeverity = "high" | "medium" | "low";
+
+export const ISSUE_SEVERITIES: IssueSeverity[] = ["high", "medium", "low"];
+
+export interface Issue {
+  id: string;
+  tenant_id: string;
+  project_id: string;
+  fingerprint: string;
+  signal_name: string;
+  signal_type: string | null;
+  severity: IssueSeverity;
+  route: string | null;
+  model: string | null;
+  tool_name: string | null;
+  error_message: string | null;
+  status: IssueStatus;
+  first_seen: string;
+  last_seen: string;
+  count: number;
+  trace_count: number;
+  user_count: number;
+  last_trace_id: string | null;
+  last_span_id: string | null;
+  metadata_sample: Record<string, any> | null;
+  resolved_at: string | null;
+  regressed_at: string | null;
+  regression_count: number;
+  status_changed_at: string | null;
+  status_changed_by_user_id: string | null;
+}
+
+/**
+ * A signal plus the source-event context needed for grouping
+ */
+export interface IssueOccurrence {
+  signal: Signal;
+  route: string | null;
+  userId: string | null;
+}
+
+export interface IssueFingerprintParts {
+  signalName: string;
+  route: string | null;
+  model: string | null;
+  toolName: string | null;
+  errorMessage: string | null;
+}
+
+export interface IssueListFilters {
+  projectId?: string | null;
+  statuses?: IssueStatus[];
+  signalNames?: string[];
+  severity?: IssueSeverity;
+  since?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+// A resolved issue only regresses on signals newer than its resolution
+const REGRESSES = `issues.status = 'resolved' AND EXCLUDED.last_seen > COALESCE(issues.resolved_at, issues.last_seen)`;
+
+export class IssuesService {
+  /**
+   * Strip volatile parts (ids, numbers, quoted values, URLs) from an error message
+   * so that occurrences of the same failure share a fingerprint
+   */
+  static normalizeErrorMessage(message: unknown): string | null {
+    if (typeof message !== "string" || !message.trim()) return null;
+    return message
+      .toLowerCase()
+      .replace(/https?:\/\/\S+/g, "<url>")
+      .replace(
+        /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g,
+        "<uuid>",
+      )
+      .replace(/\b0x[0-9a-f]+\b/g, "<hex>")
+      .replace(/\b[0-9a-f]{16,}\b/g, "<hex>")
+      .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, "<str>")
+      .replace(/\d+(\.\d+)?/g, "<n>")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_ERROR_MESSAGE_LENGTH);
+  }
+
+  /**
+   * Grouping parts for a signal occurrence
+   */
+  static fingerprintParts(occurrence: IssueOccurrence): IssueFingerprintParts {
+    const metadata = occurrence.signal.metadata || {};
+    const str = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value : null;
+    return {
+      signalName: occurrence.signal.signal_name,
+      route: str(occurrence.route),
+      model: str(metadata.model),
+      toolName: str(metadata.tool_name),
+      errorMessage: this.normalizeErrorMessage(metadata.error_message),
+    };
+  }
+
+  static fingerprint(parts: IssueFingerprintParts): string {
+    return createHash("sha256")
+      .update(
+        [
+          parts.signalName,
+          parts.route || "",
+          parts.model || "",
+          parts.toolName || "",
+          parts.errorMessage || "",
+        ].join("\u0000"),
+      )
+      .digest("hex");
+  }
+
+  /**
+   * Upsert issues for a batch of signals
+   * Called from SignalsService after signals are generated; failures are logged, not thrown.
+   */
+  static async recordSignals(occurrences: IssueOccurrence[]): Promise<void> {
+    const groups = new Map<
+      string,
+      { parts: IssueFingerprintParts; occurrences: IssueOccurrence[] }
+    >();
+
+    for (const occurrence of occurrences) {
+      if (!occurrence.signal.project_id) continue;
+      const parts = this.fingerprintParts(occurrence);
+      const key = `${occurrence.signal.tenant_id}|${occurrence.signal.project_id}|${this.fingerprint(parts)}`;
+      const group = groups.get(key);
+      if (group) {
+        group.occurrences.push(occurrence);
+      } else {
+        groups.set(key, { parts, occurrences: [occurrence] });
+      }
+    }
+
+    for (const { parts, occurrences: items } of groups.values()) {
+      try {
+        await this.upsertIssue(parts, items);
+      } catch (error) {
+        console.error(
+          `[IssuesService] Failed to record issue for ${parts.signalName}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * List issues for a tenant, most recently seen first
+   */
+  static async listIssues(
+    tenantId: string,
+    filters: IssueListFilters = {},
+  ): Promise<{ issues: Issue[]; total: number }> {
+    const conditions = ["tenant_id = $1"];
+    const params: any[] = [tenantId];
+
+    if (filters.projectId) {
+      params.push(filters.projectId);
+      conditions.push(`project_id = $${params.length}`);
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      params.push(filters.statuses);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+    if (filters.signalNames && filters.signalNames.length > 0) {
+      params.push(filters.signalNames);
+      conditions.push(`signal_name = ANY($${params.length})`);
+    }
+    if (filters.severity) {
+      params.push(filters.severity);
+      conditions.push(`severity = $${params.length}`);
+    }
+    if (filters.since) {
+      params.push(new Date(filters.since));
+      conditions.push(`last_seen >= $${params.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(" AND ")}`;
+    const countRows = await query<{ total: string }>(
+      `SELECT COUNT(*) as total FROM issues ${whereClause}`,
+      params,
+    );
+
+    const limit = Math.min(Math.max(filters.limit ?? 50, 1), 500);
+    const offset = Math.max(filters.offset ?? 0, 0);
+    const rows = await query<any>(
+      `SELECT * FROM issues ${whereClause}
+       ORDER BY last_seen DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return {
+      issues: rows.map((row) => this.mapRow(row)),
+      total: parseInt(countRows[0]?.total || "0", 10),
+    };
+  }
+
+  static async getIssue(
+    tenantId: string,
+    issueId: string,
+  ): Promise<Issue | null> {
+    const rows = await query<any>(
+      `SELECT * FROM issues WHERE id = $1 AND tenant_id = $2`,
+      [issueId, tenantId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Most recent affected traces for an issue
+   */
+  static async getIssueTraces(
+    issueId: string,
+    limit: number = 20,
+  ): Promise<Array<{ trace_id: string; user_id: string | null; first_seen: string }>> {
+    const rows = await query<any>(
+      `SELECT trace_id, user_id, first_seen FROM issue_traces
+       WHERE issue_id = $1
+       ORDER BY first_seen DESC
+       LIMIT $2`,
+      [issueId, limit],
+    );
+    return rows.map((row) => ({
+      trace_id: row.trace_id,
+      user_id: row.user_id || null,
+      first_seen: new Date(row.first_seen).toISOString(),
+    }));
+  }
+
+  /**
+   * Change an issue's status (returns null if the issue doesn't exist)
+   */
+  static async updateStatus(
+    tenantId: string,
+    issueId: string,
+    status: IssueStatus,
+    userId: string | null,
+  ): Promise<Issue | null> {
+    const rows = await query<any>(
+      `UPDATE issues SET
+         status = $3,
+         resolved_at = CASE WHEN $3 = 'resolved' THEN NOW() ELSE resolved_at END,
+         status_changed_at = NOW(),
+         status_changed_by_user_id = $4,
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      [issueId, tenantId, status, userId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  private static async upsertIssue(
+    parts: IssueFingerprintParts,
+    items: IssueOccurrence[],
+  ): Promise<void> {
+    const sorted = [...items].sort((a, b) =>
+      a.signal.timestamp.localeCompare(b.signal.timestamp),
+    );
+    const first = sorted[0].signal;
+    const last = sorted[sorted.length - 1].signal;
+    const severity = sorted.some((o) => o.signal.signal_severity === "high")
+      ? "high"
+      : sorted.some((o) => o.signal.signal_severity === "medium")
+        ? "medium"
+        : "low";
+
+    const rows = await query<{ id: string; status: IssueStatus }>(
+      `INSERT INTO issues (
+         tenant_id, project_id, fingerprint, signal_name, signal_type, severity,
+         route, model, tool_name, error_message, status, first_seen, last_seen,
+         count, last_trace_id, last_span_id, metadata_sample
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'open', $11, $12, $13, $14, $15, $16)
+       ON CONFLICT (tenant_id, project_id, fingerprint) DO UPDATE SET
+         first_seen = LEAST(issues.first_seen, EXCLUDED.first_seen),
+         last_seen = GREATEST(issues.last_seen, EXCLUDED.last_seen),
+         count = issues.count + EXCLUDED.count,
+         severity = CASE
+           WHEN issues.severity = 'high' OR EXCLUDED.severity = 'high' THEN 'high'
+           WHEN issues.severity = 'medium' OR EXCLUDED.severity = 'medium' THEN 'medium'
+           ELSE 'low'
+         END,
+         last_trace_id = EXCLUDED.last_trace_id,
+         last_span_id = EXCLUDED.last_span_id,
+         metadata_sample = EXCLUDED.metadata_sample,
+         status = CASE WHEN ${REGRESSES} THEN 'regressed' ELSE issues.status END,
+         regressed_at = CASE WHEN ${REGRESSES} THEN NOW() ELSE issues.regressed_at END,
+         regression_count = issues.regression_count + CASE WHEN ${REGRESSES} THEN 1 ELSE 0 END,
+         status_changed_at = CASE WHEN ${REGRESSES} THEN NOW() ELSE issues.status_changed_at END,
+         updated_at = NOW()
+       RETURNING id, status`,
+      [
+        first.tenant_id,
+        first.project_id,
+        this.fingerprint(parts),
+        parts.signalName,
+        first.signal_type,
+        severity,
+        parts.route,
+        parts.model,
+        parts.toolName,
+        parts.errorMessage,
+        new Date(first.timestamp),
+        new Date(last.timestamp),
+        sorted.length,
+        last.trace_id,
+        last.span_id,
+        last.metadata ? JSON.stringify(last.metadata) : null,
+      ],
+    );
+
+    const issue = rows[0];
+    if (!issue) return;
+    if (issue.status === "regressed") {
+      console.log(
+        `[IssuesService] Issue ${issue.id} (${parts.signalName}) regressed`,
+      );
+    }
+
+    // Distinct traces (first occurrence per trace wins)
+    const traces = new Map<string, IssueOccurrence>();
+    for (const occurrence of sorted) {
+      if (!traces.has(occurrence.signal.trace_id)) {
+        traces.set(occurrence.signal.trace_id, occurrence);
+      }
+    }
+    const traceOccurrences = [...traces.values()];
+
+    await query(
+      `INSERT INTO issue_traces (issue_id, trace_id, user_id, first_seen)
+       SELECT $1, t.trace_id, NULLIF(t.user_id, ''), t.first_seen
+       FROM unnest($2::text[], $3::text[], $4::timestamp[]) AS t(trace_id, user_id, first_seen)
+       ON CONFLICT (issue_id, trace_id) DO NOTHING`,
+      [
+        issue.id,
+        traceOccurrences.map((o) => o.signal.trace_id),
+        traceOccurrences.map((o) => o.userId || ""),
+        traceOccurrences.map((o) => new Date(o.signal.timestamp)),
+      ],
+    );
+
+    await query(
+      `UPDATE issues SET
+         trace_count = (SELECT COUNT(*) FROM issue_traces WHERE issue_id = $1),
+         user_count = (
+           SELECT COUNT(DISTINCT user_id) FROM issue_traces
+           WHERE issue_id = $1 AND user_id IS NOT NULL
+         )
+       WHERE id = $1`,
+      [issue.id],
+    );
+  }
+
+  private static mapRow(row: any): Issue {
+    const iso = (value: any) => (value ? new Date(value).toISOString() : null);
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      fingerprint: row.fingerprint,
+      signal_name: row.signal_name,
+      signal_type: row.signal_type,
+      severity: row.severity,
+      route: row.route,
+      model: row.model,
+      tool_name: row.tool_name,
+      error_message: row.error_message,
+      status: row.status,
+      first_seen: iso(row.first_seen)!,
+      last_seen: iso(row.last_seen)!,
+      count: Number(row.count),
+      trace_count: Number(row.trace_count),
+      user_count: Number(row.user_count),
+      last_trace_id: row.last_trace_id,
+      last_span_id: row.last_span_id,
+      metadata_sample:
+        typeof row.metadata_sample === "string"
+          ? JSON.parse(row.metadata_sample)
+          : row.metadata_sample,
+      resolved_at: iso(row.resolved_at),
+      regressed_at: iso(row.regressed_at),
+      regression_count: Number(row.regression_count),
+      status_changed_at: iso(row.status_changed_at),
+      status_changed_by_user_id: row.status_changed_by_user_id,
+    };
+  }
+}
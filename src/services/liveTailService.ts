@@ -0,0 +1,324 @@
+/**
+ * Live Tail Service
+ *
+ * Fans out canonical events and signals from POST /api/v1/events/ingest to
+ * live-tail subscribers (GET /api/v1/events/tail, Server-Sent Events).
+ *
+ * With REDIS_URL (or UPSTASH_REDIS_URL) set, batches are published on a
+ * per-project Redis channel so every API instance delivers them to its own
+ * subscribers; an instance only opens a subscriber connection, and only
+ * subscribes to projects, once someone is tailing there. Without Redis, or
+ * when publishing fails, delivery is in-process. Ingestion does not wait for
+ * publishing.
+ */
+
+import { EventEmitter } from "events";
+import Redis, { RedisOptions } from "ioredis";
+import type { CanonicalEvent, TinybirdCanonicalEvent } from "../types/events.js";
+import type { Signal } from "./signalsService.js";
+
+export interface LiveTailFilter {
+  eventTypes?: string[]; // "signal" selects signals
+  routes?: string[];
+  models?: string[];
+  severities?: Array<"low" | "medium" | "high">; // only signals have a severity
+}
+
+export type LiveTailItem =
+  | {
+      kind: "event";
+      trace_id: string;
+      span_id: string;
+      parent_span_id: string | null;
+      timestamp: string;
+      event_type: string;
+      environment: string | null;
+      route: string | null;
+      model: string | null;
+      attributes: Record<string, any>;
+    }
+  | {
+      kind: "signal";
+      trace_id: string;
+      span_id: string;
+      timestamp: string;
+      signal_name: string;
+      signal_type: Signal["signal_type"];
+      signal_value: Signal["signal_value"];
+      severity: Signal["signal_severity"];
+      route: string | null;
+      model: string | null;
+      metadata: Record<string, any>;
+    };
+
+interface LiveTailBatch {
+  tenant_id: string;
+  project_id: string;
+  items: LiveTailItem[];
+}
+
+const CHANNEL_PREFIX = "observa:live-tail:";
+// Long attribute strings (prompts, outputs) are cut for the stream
+const MAX_STRING_LENGTH = 2000;
+
+export class LiveTailService {
+  private static emitter = (() => {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    return emitter;
+  })();
+  private static subscriberCounts = new Map<string, number>();
+  private static publisher: Redis | null = null;
+  private static subscriber: Redis | null = null;
+  private static publisherInitialized = false;
+  private static subscriberInitialized = false;
+
+  /**
+   * Whether an item passes a subscriber's filter (empty lists match everything)
+   */
+  static matchesFilter(item: LiveTailItem, filter: LiveTailFilter): boolean {
+    const type = item.kind === "signal" ? "signal" : item.event_type;
+    if (filter.eventTypes?.length && !filter.eventTypes.includes(type)) {
+      return false;
+    }
+    if (filter.routes?.length && !(item.route && filter.routes.includes(item.route))) {
+      return false;
+    }
+    if (filter.models?.length && !(item.model && filter.models.includes(item.model))) {
+      return false;
+    }
+    if (
+      filter.severities?.length &&
+      !(item.kind === "signal" && filter.severities.includes(item.severity))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Receive items for a project; returns the unsubscribe function
+   */
+  static subscribe(
+    tenantId: string,
+    projectId: string,
+    filter: LiveTailFilter,
+    onItem: (item: LiveTailItem) => void,
+  ): () => void {
+    const listener = (batch: LiveTailBatch) => {
+      if (batch.tenant_id !== tenantId) return;
+      for (const item of batch.items) {
+        if (this.matchesFilter(item, filter)) {
+          onItem(item);
+        }
+      }
+    };
+    this.emitter.on(projectId, listener);
+
+    const count = (this.subscriberCounts.get(projectId) || 0) + 1;
+    this.subscriberCounts.set(projectId, count);
+    const subscriber = this.subscriberClient();
+    if (count === 1 && subscriber) {
+      subscriber
+        .subscribe(CHANNEL_PREFIX + projectId)
+        .catch((error) =>
+          console.error("[LiveTailService] Failed to subscribe:", error),
+        );
+    }
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      this.emitter.off(projectId, listener);
+      const remaining = (this.subscriberCounts.get(projectId) || 1) - 1;
+      if (remaining > 0) {
+        this.subscriberCounts.set(projectId, remaining);
+        return;
+      }
+      this.subscriberCounts.delete(projectId);
+      if (subscriber) {
+        subscriber
+          .unsubscribe(CHANNEL_PREFIX + projectId)
+          .catch((error) =>
+            console.error("[LiveTailService] Failed to unsubscribe:", error),
+          );
+      }
+    };
+  }
+
+  /**
+   * Publish ingested events (after secrets scrubbing)
+   */
+  static async publishEvents(
+    tenantId: string,
+    events: CanonicalEvent[],
+  ): Promise<void> {
+    const byProject = new Map<string, LiveTailItem[]>();
+    for (const event of events) {
+      if (!event.project_id) continue;
+      if (!byProject.has(event.project_id)) {
+        byProject.set(event.project_id, []);
+      }
+      byProject.get(event.project_id)!.push({
+        kind: "event",
+        trace_id: event.trace_id,
+        span_id: event.span_id,
+        parent_span_id: event.parent_span_id,
+        timestamp: event.timestamp,
+        event_type: event.event_type,
+        environment: event.environment ?? null,
+        route: event.route ?? null,
+        model: event.attributes?.llm_call?.model ?? null,
+        attributes: truncateStrings(event.attributes || {}),
+      });
+    }
+    for (const [projectId, items] of byProject) {
+      await this.publish({ tenant_id: tenantId, project_id: projectId, items });
+    }
+  }
+
+  /**
+   * Publish signals; route and model come from the span that raised them
+   */
+  static async publishSignals(
+    signals: Signal[],
+    events: TinybirdCanonicalEvent[],
+  ): Promise<void> {
+    const sources = new Map<string, TinybirdCanonicalEvent>();
+    for (const event of events) {
+      const key = `${event.trace_id}:${event.span_id}`;
+      if (!sources.has(key) || event.event_type === "llm_call") {
+        sources.set(key, event);
+      }
+    }
+
+    const batches = new Map<string, LiveTailBatch>();
+    for (const signal of signals) {
+      const source = sources.get(`${signal.trace_id}:${signal.span_id}`);
+      let model: string | null = null;
+      if (source?.event_type === "llm_call") {
+        try {
+          model = JSON.parse(source.attributes_json)?.llm_call?.model ?? null;
+        } catch {
+          model = null;
+        }
+      }
+      const key = `${signal.tenant_id}:${signal.project_id}`;
+      if (!batches.has(key)) {
+        batches.set(key, {
+          tenant_id: signal.tenant_id,
+          project_id: signal.project_id,
+          items: [],
+        });
+      }
+      batches.get(key)!.items.push({
+        kind: "signal",
+        trace_id: signal.trace_id,
+        span_id: signal.span_id,
+        timestamp: signal.timestamp,
+        signal_name: signal.signal_name,
+        signal_type: signal.signal_type,
+        signal_value: signal.signal_value,
+        severity: signal.signal_severity,
+        route: source?.route ?? null,
+        model,
+        metadata: truncateStrings(signal.metadata || {}),
+      });
+    }
+    for (const batch of batches.values()) {
+      await this.publish(batch);
+    }
+  }
+
+  private static async publish(batch: LiveTailBatch): Promise<void> {
+    if (batch.items.length === 0 || !batch.project_id) return;
+    const publisher = this.publisherClient();
+    if (publisher) {
+      try {
+        await publisher.publish(
+          CHANNEL_PREFIX + batch.project_id,
+          JSON.stringify(batch),
+        );
+        return;
+      } catch (error) {
+        console.error(
+          "[LiveTailService] Redis publish failed, delivering in-process:",
+          error,
+        );
+      }
+    }
+    this.emitter.emit(batch.project_id, batch);
+  }
+
+  /**
+   * Lazily connect the publishing client; null without Redis
+   */
+  private static publisherClient(): Redis | null {
+    if (!this.publisherInitialized) {
+      this.publisherInitialized = true;
+      this.publisher = this.connect({ maxRetriesPerRequest: 3 });
+    }
+    return this.publisher;
+  }
+
+  /**
+   * Lazily connect the subscribing client (a subscribing connection cannot
+   * publish, so it is separate); null without Redis
+   */
+  private static subscriberClient(): Redis | null {
+    if (!this.subscriberInitialized) {
+      this.subscriberInitialized = true;
+      this.subscriber = this.connect({});
+      this.subscriber?.on("message", (channel: string, message: string) => {
+        if (!channel.startsWith(CHANNEL_PREFIX)) return;
+        try {
+          this.emitter.emit(
+            channel.slice(CHANNEL_PREFIX.length),
+            JSON.parse(message) as LiveTailBatch,
+          );
+        } catch (error) {
+          console.error("[LiveTailService] Invalid message:", error);
+        }
+      });
+    }
+    return this.subscriber;
+  }
+
+  private static connect(options: RedisOptions): Redis | null {
+    const redisUrl = process.env.REDIS_URL || process.env.UPSTASH_REDIS_URL;
+    if (!redisUrl) return null;
+    try {
+      const client = new Redis(redisUrl, options);
+      client.on("error", (error) =>
+        console.error("[LiveTailService] Redis error:", error.message),
+      );
+      return client;
+    } catch (error) {
+      console.error(
+        "[LiveTailService] Failed to connect to Redis, using in-process fan-out:",
+        error,
+      );
+      return null;
+    }
+  }
+}
+
+function truncateStrings(value: any, depth: number = 0): any {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}…`
+      : value;
+  }
+  if (depth > 10 || value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => truncateStrings(entry, depth + 1));
+  }
+  const result: Record<string, any> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = truncateStrings(entry, depth + 1);
+  }
+  return result;
+}
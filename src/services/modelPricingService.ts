@@ -0,0 +1,380 @@
+/**
+ * Model Pricing Service
+ *
+ * Postgres-backed pricing catalog (USD per 1K tokens) with separate input,
+ * output and cached-input prices, effective date ranges and model-name match
+ * patterns. Global list prices (tenant_id NULL) are seeded from
+ * config/modelPrices.ts; tenant rows override them with negotiated rates.
+ *
+ * Resolution for a model at time t: tenant overrides before global prices,
+ * then the longest (most specific) match pattern, then the latest
+ * effective_from. Unknown models have no price (cost stays null) rather than
+ * a made-up default.
+ */
+
+import { query } from "../db/client.js";
+import {
+  DEFAULT_MODEL_PRICES,
+  modelMatchPattern,
+} from "../config/modelPrices.js";
+
+export interface ModelPrice {
+  id: string | null; // null for built-in defaults used when Postgres is unavailable
+  tenant_id: string | null;
+  model_name: string;
+  provider: string | null;
+  match_pattern: string;
+  input_price_per_1k: number;
+  output_price_per_1k: number;
+  cached_input_price_per_1k: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  is_override: boolean;
+}
+
+export interface ModelPriceInput {
+  modelName: string;
+  provider?: string | null;
+  matchPattern?: string | null;
+  inputPricePer1k: number;
+  outputPricePer1k: number;
+  cachedInputPricePer1k?: number | null;
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+}
+
+export interface TokenUsage {
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  cachedInputTokens?: number | null; // Subset of inputTokens served from the provider's prompt cache
+  totalTokens?: number | null;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const EPOCH = "1970-01-01T00:00:00.000Z";
+
+export class ModelPricingService {
+  private static cache = new Map<
+    string,
+    { prices: ModelPrice[]; expiresAt: number }
+  >();
+  private static patternCache = new Map<string, RegExp | null>();
+
+  /**
+   * Whether a match pattern compiles both as a JavaScript RegExp (ingest-time
+   * pricing) and as a Postgres regex (`~*` in costSql)
+   */
+  static async isValidPattern(pattern: string): Promise<boolean> {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return false;
+    }
+    try {
+      await query(`SELECT '' ~* $1 AS matched`, [pattern]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static matches(price: Pick<ModelPrice, "match_pattern">, model: string): boolean {
+    let regex = this.patternCache.get(price.match_pattern);
+    if (regex === undefined) {
+      try {
+        regex = new RegExp(price.match_pattern, "i");
+      } catch {
+        regex = null;
+      }
+      this.patternCache.set(price.match_pattern, regex);
+    }
+    return !!regex && regex.test(model.trim());
+  }
+
+  /**
+   * Pick the price that applies to a model at a point in time
+   */
+  static resolvePrice(
+    prices: ModelPrice[],
+    model: string | null | undefined,
+    at: Date = new Date(),
+  ): ModelPrice | null {
+    if (!model) return null;
+    const time = at.getTime();
+    const candidates = prices.filter(
+      (price) =>
+        new Date(price.effective_from).getTime() <= time &&
+        (!price.effective_to || new Date(price.effective_to).getTime() > time) &&
+        this.matches(price, model),
+    );
+    if (candidates.length === 0) return null;
+
+    candidates.sort(
+      (a, b) =>
+        Number(b.is_override) - Number(a.is_override) ||
+        b.match_pattern.length - a.match_pattern.length ||
+        new Date(b.effective_from).getTime() -
+          new Date(a.effective_from).getTime(),
+    );
+    return candidates[0];
+  }
+
+  /**
+   * Cost in USD for a usage under a price
+   * With an input/output split, cached input tokens are billed at the cached
+   * rate (input rate if none). With only a total, the input/output average is used.
+   */
+  static computeCost(price: ModelPrice, usage: TokenUsage): number | null {
+    const input = usage.inputTokens ?? null;
+    const output = usage.outputTokens ?? null;
+
+    if (input !== null || output !== null) {
+      const cached = Math.min(usage.cachedInputTokens || 0, input || 0);
+      const cachedRate = price.cached_input_price_per_1k ?? price.input_price_per_1k;
+      return (
+        (((input || 0) - cached) * price.input_price_per_1k +
+          cached * cachedRate +
+          (output || 0) * price.output_price_per_1k) /
+        1000
+      );
+    }
+
+    if (typeof usage.totalTokens === "number") {
+      return (
+        (usage.totalTokens *
+          (price.input_price_per_1k + price.output_price_per_1k)) /
+        2000
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Resolve and compute in one step; null when the model is unpriced or usage is empty
+   */
+  static estimateCost(
+    prices: ModelPrice[],
+    model: string | null | undefined,
+    usage: TokenUsage,
+    at: Date = new Date(),
+  ): number | null {
+    const price = this.resolvePrice(prices, model, at);
+    return price ? this.computeCost(price, usage) : null;
+  }
+
+  /**
+   * Built-in list prices (used when the catalog can't be loaded)
+   */
+  static defaultPrices(): ModelPrice[] {
+    return DEFAULT_MODEL_PRICES.map((price) => ({
+      id: null,
+      tenant_id: null,
+      model_name: price.model_name,
+      provider: price.provider,
+      match_pattern: price.match_pattern,
+      input_price_per_1k: price.input_price_per_1k,
+      output_price_per_1k: price.output_price_per_1k,
+      cached_input_price_per_1k: price.cached_input_price_per_1k,
+      effective_from: EPOCH,
+      effective_to: null,
+      is_override: false,
+    }));
+  }
+
+  /**
+   * Global prices plus the tenant's overrides (cached for 5 minutes)
+   */
+  static async getCatalog(tenantId: string): Promise<ModelPrice[]> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.prices;
+    }
+
+    try {
+      const prices = await this.listPrices(tenantId);
+      this.cache.set(tenantId, {
+        prices: prices.length > 0 ? prices : this.defaultPrices(),
+        expiresAt: Date.now() + CACHE_TTL_MS,
+      });
+      return this.cache.get(tenantId)!.prices;
+    } catch (error) {
+      console.error(
+        "[ModelPricingService] Failed to load pricing catalog, using defaults:",
+        error,
+      );
+      return this.defaultPrices();
+    }
+  }
+
+  static invalidate(tenantId: string): void {
+    this.cache.delete(tenantId);
+  }
+
+  /**
+   * Cost for a usage against the tenant's catalog
+   */
+  static async calculateCost(
+    tenantId: string,
+    model: string | null | undefined,
+    usage: TokenUsage,
+    at: Date = new Date(),
+  ): Promise<number | null> {
+    const prices = await this.getCatalog(tenantId);
+    return this.estimateCost(prices, model, usage, at);
+  }
+
+  /**
+   * SQL expression pricing an analysis_results row against the catalog
+   * `table` must be the (unaliased or aliased) analysis_results reference of
+   * the outer query; NULL when no price matches.
+   */
+  static costSql(table: string = "analysis_results"): string {
+    const at = `COALESCE(${table}.timestamp, ${table}.analyzed_at, NOW())`;
+    return `
+      (
+        SELECT
+          CASE
+            WHEN ${table}.tokens_prompt IS NOT NULL OR ${table}.tokens_completion IS NOT NULL THEN
+              (COALESCE(${table}.tokens_prompt, 0)::numeric * mp.input_price_per_1k +
+               COALESCE(${table}.tokens_completion, 0)::numeric * mp.output_price_per_1k) / 1000.0
+            ELSE
+              COALESCE(${table}.tokens_total, 0)::numeric *
+              (mp.input_price_per_1k + mp.output_price_per_1k) / 2000.0
+          END
+        FROM model_prices mp
+        WHERE (mp.tenant_id = ${table}.tenant_id OR mp.tenant_id IS NULL)
+          AND ${table}.model ~* mp.match_pattern
+          AND mp.effective_from <= ${at}
+          AND (mp.effective_to IS NULL OR mp.effective_to > ${at})
+        ORDER BY (mp.tenant_id IS NULL), length(mp.match_pattern) DESC, mp.effective_from DESC
+        LIMIT 1
+      )
+    `;
+  }
+
+  static async listPrices(tenantId: string): Promise<ModelPrice[]> {
+    const rows = await query<any>(
+      `SELECT * FROM model_prices
+       WHERE tenant_id = $1 OR tenant_id IS NULL
+       ORDER BY (tenant_id IS NULL), provider NULLS LAST, model_name, effective_from DESC`,
+      [tenantId],
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  static async getOverride(
+    tenantId: string,
+    priceId: string,
+  ): Promise<ModelPrice | null> {
+    const rows = await query<any>(
+      `SELECT * FROM model_prices WHERE id = $1 AND tenant_id = $2`,
+      [priceId, tenantId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Create a tenant override; returns null if one already exists for this
+   * model and effective_from
+   */
+  static async createOverride(
+    tenantId: string,
+    input: ModelPriceInput,
+  ): Promise<ModelPrice | null> {
+    const rows = await query<any>(
+      `INSERT INTO model_prices (
+         tenant_id, model_name, provider, match_pattern,
+         input_price_per_1k, output_price_per_1k, cached_input_price_per_1k,
+         effective_from, effective_to
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamp, '1970-01-01'), $9)
+       ON CONFLICT (tenant_id, model_name, effective_from) WHERE tenant_id IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [
+        tenantId,
+        input.modelName,
+        input.provider ?? null,
+        input.matchPattern || modelMatchPattern(input.modelName),
+        input.inputPricePer1k,
+        input.outputPricePer1k,
+        input.cachedInputPricePer1k ?? null,
+        input.effectiveFrom ? new Date(input.effectiveFrom) : null,
+        input.effectiveTo ? new Date(input.effectiveTo) : null,
+      ],
+    );
+    this.invalidate(tenantId);
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async updateOverride(
+    tenantId: string,
+    priceId: string,
+    input: Partial<ModelPriceInput>,
+  ): Promise<ModelPrice | null> {
+    const columns: Record<string, string> = {
+      modelName: "model_name",
+      provider: "provider",
+      matchPattern: "match_pattern",
+      inputPricePer1k: "input_price_per_1k",
+      outputPricePer1k: "output_price_per_1k",
+      cachedInputPricePer1k: "cached_input_price_per_1k",
+      effectiveFrom: "effective_from",
+      effectiveTo: "effective_to",
+    };
+    const sets: string[] = [];
+    const params: any[] = [priceId, tenantId];
+    for (const [key, column] of Object.entries(columns)) {
+      const value = (input as any)[key];
+      if (value === undefined) continue;
+      params.push(
+        (key === "effectiveFrom" || key === "effectiveTo") && value
+          ? new Date(value)
+          : key === "effectiveFrom" && !value
+            ? new Date(EPOCH)
+            : value,
+      );
+      sets.push(`${column} = $${params.length}`);
+    }
+    if (sets.length === 0) return this.getOverride(tenantId, priceId);
+
+    const rows = await query<any>(
+      `UPDATE model_prices SET ${sets.join(", ")}, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      params,
+    );
+    this.invalidate(tenantId);
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async deleteOverride(
+    tenantId: string,
+    priceId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM model_prices WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [priceId, tenantId],
+    );
+    this.invalidate(tenantId);
+    return rows.length > 0;
+  }
+
+  private static mapRow(row: any): ModelPrice {
+    const toNumber = (value: any) =>
+      value === null || value === undefined ? null : Number(value);
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      model_name: row.model_name,
+      provider: row.provider,
+      match_pattern: row.match_pattern,
+      input_price_per_1k: Number(row.input_price_per_1k),
+      output_price_per_1k: Number(row.output_price_per_1k),
+      cached_input_price_per_1k: toNumber(row.cached_input_price_per_1k),
+      effective_from: new Date(row.effective_from).toISOString(),
+      effective_to: row.effective_to
+        ? new Date(row.effective_to).toISOString()
+        : null,
+      is_override: row.tenant_id !== null,
+    };
+  }
+}
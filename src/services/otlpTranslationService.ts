@@ -0,0 +1,917 @@
+/**
+ * OTLP Translation Service
+ *
+ * Converts OpenTelemetry trace exports (OTLP/HTTP, protobuf or JSON) into
+ * canonical events. Spans following the GenAI semantic conventions
+ * (gen_ai.*) become llm_call, tool_call, embedding, retrieval and
+ * agent_create events; spans with an error status additionally produce an
+ * error event. Other spans are skipped, and their GenAI descendants are
+ * re-parented to the nearest converted ancestor.
+ */
+
+import { createHash } from "crypto";
+import { CanonicalEvent, EventAttributes } from "../types/events.js";
+
+/**
+ * OTLP AnyValue in its JSON encoding (protobuf input is decoded into the same shape)
+ */
+export interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: number | string;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+  bytesValue?: string;
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+export interface OtlpSpanEvent {
+  timeUnixNano?: string | number;
+  name?: string;
+  attributes?: OtlpKeyValue[];
+}
+
+export interface OtlpSpan {
+  traceId: string; // hex
+  spanId: string; // hex
+  parentSpanId?: string; // hex, empty for root spans
+  name?: string;
+  kind?: number | string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  events?: OtlpSpanEvent[];
+  status?: { code?: number | string; message?: string };
+}
+
+export interface OtlpTracesRequest {
+  resourceSpans?: Array<{
+    resource?: { attributes?: OtlpKeyValue[] };
+    scopeSpans?: Array<{
+      scope?: { name?: string; version?: string };
+      spans?: OtlpSpan[];
+    }>;
+  }>;
+}
+
+export interface OtlpTranslationContext {
+  tenantId: string;
+  // Project from the API key; tenant-level keys must send observa.project_id as a resource attribute
+  projectId: string | null;
+}
+
+export interface OtlpTranslationResult {
+  events: CanonicalEvent[];
+  spanCount: number;
+  // Non-GenAI spans, left out on purpose
+  skippedSpanCount: number;
+  // Spans that could not be converted (see errors)
+  rejectedSpanCount: number;
+  errors: string[];
+}
+
+type FlatAttributes = Record<string, any>;
+
+const STATUS_CODE_ERROR = 2;
+
+const LLM_OPERATIONS = new Set(["chat", "text_completion", "generate_content"]);
+const RETRIEVAL_OPERATIONS = new Set(["retrieval", "retrieve", "search"]);
+
+/**
+ * Minimal protobuf wire-format reader (varint, fixed64, fixed32, length-delimited)
+ */
+class ProtoReader {
+  private pos = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    while (true) {
+      if (this.pos >= this.buf.length) {
+        throw new Error("Truncated varint");
+      }
+      const byte = this.buf[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+      if (shift > 63n) throw new Error("Varint too long");
+    }
+  }
+
+  fixed64(): bigint {
+    this.ensure(8);
+    const value = this.buf.readBigUInt64LE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  double(): number {
+    this.ensure(8);
+    const value = this.buf.readDoubleLE(this.pos);
+    this.pos += 8;
+    return value;
+  }
+
+  bytes(): Buffer {
+    const length = Number(this.varint());
+    this.ensure(length);
+    const value = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  tag(): { field: number; wireType: number } {
+    const key = Number(this.varint());
+    return { field: key >>> 3, wireType: key & 0x7 };
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.varint();
+        break;
+      case 1:
+        this.ensure(8);
+        this.pos += 8;
+        break;
+      case 2:
+        this.bytes();
+        break;
+      case 5:
+        this.ensure(4);
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private ensure(length: number): void {
+    if (this.pos + length > this.buf.length) {
+      throw new Error("Truncated message");
+    }
+  }
+}
+
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let n = BigInt(Math.max(0, Math.floor(value)));
+  do {
+    let byte = Number(n & 0x7fn);
+    n >>= 7n;
+    if (n > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (n > 0n);
+  return Buffer.from(bytes);
+}
+
+export class OtlpTranslationService {
+  /**
+   * Encode a protobuf ExportTraceServiceResponse; partial_success is only
+   * set when spans were rejected
+   */
+  static encodeExportResponse(rejectedSpans: number, errorMessage: string): Buffer {
+    if (rejectedSpans <= 0) return Buffer.alloc(0);
+    const message = Buffer.from(errorMessage, "utf8");
+    // ExportTracePartialSuccess { int64 rejected_spans = 1; string error_message = 2; }
+    const partialSuccess = Buffer.concat([
+      encodeVarint((1 << 3) | 0),
+      encodeVarint(rejectedSpans),
+      ...(message.length > 0
+        ? [encodeVarint((2 << 3) | 2), encodeVarint(message.length), message]
+        : []),
+    ]);
+    return Buffer.concat([
+      encodeVarint((1 << 3) | 2),
+      encodeVarint(partialSuccess.length),
+      partialSuccess,
+    ]);
+  }
+
+  /**
+   * Decode a protobuf ExportTraceServiceRequest into its OTLP/JSON shape
+   */
+  static decodeProtobuf(buf: Buffer): OtlpTracesRequest {
+    const request: OtlpTracesRequest = { resourceSpans: [] };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1 && wireType === 2) {
+        request.resourceSpans!.push(this.decodeResourceSpans(reader.bytes()));
+      } else {
+        reader.skip(wireType);
+      }
+    }
+    return request;
+  }
+
+  /**
+   * Convert an OTLP traces request into canonical events
+   */
+  static toCanonicalEvents(
+    request: OtlpTracesRequest,
+    context: OtlpTranslationContext
+  ): OtlpTranslationResult {
+    const events: CanonicalEvent[] = [];
+    const errors: string[] = [];
+    let spanCount = 0;
+    let skippedSpanCount = 0;
+    let rejectedSpanCount = 0;
+
+    for (const resourceSpans of request.resourceSpans || []) {
+      const resource = this.flattenAttributes(resourceSpans.resource?.attributes);
+      const projectId =
+        context.projectId || this.asString(resource["observa.project_id"]);
+      const spans = (resourceSpans.scopeSpans || []).flatMap(
+        (scopeSpans) => scopeSpans.spans || []
+      );
+      spanCount += spans.length;
+
+      if (!projectId) {
+        errors.push(
+          "Missing project: use a project-scoped API key or set the observa.project_id resource attribute"
+        );
+        rejectedSpanCount += spans.length;
+        continue;
+      }
+
+      // Index spans so GenAI spans can be re-parented past skipped spans
+      const spansById = new Map<string, OtlpSpan>();
+      for (const span of spans) {
+        spansById.set(this.normalizeHexId(span.spanId), span);
+      }
+      const convertible = new Set<string>();
+      for (const span of spans) {
+        const attrs = this.flattenAttributes(span.attributes);
+        if (this.classifySpan(attrs)) {
+          convertible.add(this.normalizeHexId(span.spanId));
+        }
+      }
+
+      for (const span of spans) {
+        const spanHex = this.normalizeHexId(span.spanId);
+        if (!convertible.has(spanHex)) {
+          skippedSpanCount++;
+          continue;
+        }
+
+        const traceHex = this.normalizeHexId(span.traceId);
+        if (!/^[0-9a-f]{32}$/.test(traceHex) || !/^[0-9a-f]{16}$/.test(spanHex)) {
+          errors.push(`Span ${span.spanId || "(missing)"} has an invalid trace or span id`);
+          rejectedSpanCount++;
+          continue;
+        }
+
+        // Walk up to the nearest ancestor that is converted too
+        let parentHex = this.normalizeHexId(span.parentSpanId);
+        const visited = new Set<string>([spanHex]);
+        while (parentHex && !convertible.has(parentHex)) {
+          if (visited.has(parentHex)) {
+            parentHex = "";
+            break;
+          }
+          visited.add(parentHex);
+          parentHex = this.normalizeHexId(spansById.get(parentHex)?.parentSpanId);
+        }
+
+        events.push(
+          ...this.spanToEvents(span, resource, {
+            tenantId: context.tenantId,
+            projectId,
+            traceId: this.traceIdToUuid(traceHex),
+            spanId: this.spanIdToUuid(traceHex, spanHex),
+            parentSpanId: parentHex ? this.spanIdToUuid(traceHex, parentHex) : null,
+          })
+        );
+      }
+    }
+
+    return { events, spanCount, skippedSpanCount, rejectedSpanCount, errors };
+  }
+
+  /**
+   * Map an OTEL trace id (16 bytes) onto a UUIDv4-shaped id
+   *
+   * The version and variant nibbles are forced so ids pass isValidUUIDv4;
+   * the remaining 122 bits are kept, so the original id stays recognizable.
+   */
+  static traceIdToUuid(traceHex: string): string {
+    const hex = this.normalizeHexId(traceHex).padStart(32, "0").slice(0, 32);
+    return this.formatUuidV4(hex);
+  }
+
+  /**
+   * Map an OTEL span id (8 bytes) onto a UUIDv4-shaped id, scoped to its trace
+   */
+  static spanIdToUuid(traceHex: string, spanHex: string): string {
+    const digest = createHash("sha256")
+      .update(`${this.normalizeHexId(traceHex)}:${this.normalizeHexId(spanHex)}`)
+      .digest("hex");
+    return this.formatUuidV4(digest.slice(0, 32));
+  }
+
+  /**
+   * Flatten OTLP key/value attributes into a plain object
+   */
+  static flattenAttributes(attributes?: OtlpKeyValue[]): FlatAttributes {
+    const result: FlatAttributes = {};
+    for (const kv of attributes || []) {
+      if (!kv || typeof kv.key !== "string") continue;
+      result[kv.key] = this.anyValueToJs(kv.value);
+    }
+    return result;
+  }
+
+  private static spanToEvents(
+    span: OtlpSpan,
+    resource: FlatAttributes,
+    ids: {
+      tenantId: string;
+      projectId: string;
+      traceId: string;
+      spanId: string;
+      parentSpanId: string | null;
+    }
+  ): CanonicalEvent[] {
+    const attrs = this.flattenAttributes(span.attributes);
+    const eventType = this.classifySpan(attrs)!;
+    const startNs = this.toBigInt(span.startTimeUnixNano);
+    const endNs = this.toBigInt(span.endTimeUnixNano);
+    const latencyMs =
+      startNs > 0n && endNs >= startNs ? Number(endNs - startNs) / 1e6 : 0;
+    const timestamp =
+      startNs > 0n
+        ? new Date(Number(startNs / 1000000n)).toISOString()
+        : new Date().toISOString();
+    const statusCode = this.statusCode(span.status?.code);
+    const exception = (span.events || []).find((e) => e.name === "exception");
+    const exceptionAttrs = this.flattenAttributes(exception?.attributes);
+    const isError = statusCode === STATUS_CODE_ERROR || !!exception;
+    const errorMessage =
+      span.status?.message ||
+      this.asString(exceptionAttrs["exception.message"]) ||
+      null;
+    const errorType =
+      this.asString(attrs["error.type"]) ||
+      this.asString(exceptionAttrs["exception.type"]) ||
+      null;
+
+    const environmentName = (
+      this.asString(resource["deployment.environment.name"]) ||
+      this.asString(resource["deployment.environment"]) ||
+      ""
+    ).toLowerCase();
+
+    const base = {
+      tenant_id: ids.tenantId,
+      project_id: ids.projectId,
+      environment: (["prod", "production"].includes(environmentName)
+        ? "prod"
+        : "dev") as "dev" | "prod",
+      trace_id: ids.traceId,
+      span_id: ids.spanId,
+      parent_span_id: ids.parentSpanId,
+      timestamp,
+      conversation_id: this.asString(attrs["gen_ai.conversation.id"]),
+      session_id: this.asString(attrs["session.id"]),
+      user_id:
+        this.asString(attrs["user.id"]) || this.asString(attrs["enduser.id"]),
+      agent_name:
+        this.asString(attrs["gen_ai.agent.name"]) ||
+        this.asString(resource["service.name"]),
+      version: this.asString(resource["service.version"]),
+      route:
+        this.asString(attrs["observa.route"]) ||
+        this.asString(attrs["http.route"]),
+    };
+
+    let attributes: EventAttributes;
+    let observationType: CanonicalEvent["observation_type"];
+    switch (eventType) {
+      case "llm_call":
+        attributes = { llm_call: this.toLlmCall(attrs, latencyMs) };
+        observationType = "generation";
+        break;
+      case "tool_call":
+        attributes = {
+          tool_call: this.toToolCall(attrs, span, latencyMs, isError, errorType, errorMessage),
+        };
+        observationType = "tool";
+        break;
+      case "embedding":
+        attributes = { embedding: this.toEmbedding(attrs, latencyMs) };
+        observationType = "embedding";
+        break;
+      case "retrieval":
+        attributes = { retrieval: this.toRetrieval(attrs, latencyMs) };
+        observationType = "retriever";
+        break;
+      default:
+        attributes = {
+          agent_create: {
+            agent_name:
+              this.asString(attrs["gen_ai.agent.name"]) || span.name || "agent",
+            operation_name: "create_agent",
+          },
+        };
+        observationType = "agent";
+    }
+
+    const events: CanonicalEvent[] = [
+      {
+        ...base,
+        event_type: eventType,
+        observation_type: observationType,
+        attributes,
+      },
+    ];
+
+    // Tool failures are carried by tool_call.result_status; other spans get an error event
+    if (isError && eventType !== "tool_call") {
+      events.push({
+        ...base,
+        event_type: "error",
+        attributes: {
+          error: {
+            error_type: errorType || "otel_span_error",
+            error_message: errorMessage || `${span.name || eventType} failed`,
+            stack_trace: this.asString(exceptionAttrs["exception.stacktrace"]),
+            context: { otel_span_name: span.name || null, source_event_type: eventType },
+          },
+        },
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Decide which canonical event a span becomes (null = skip)
+   */
+  private static classifySpan(
+    attrs: FlatAttributes
+  ): "llm_call" | "tool_call" | "embedding" | "retrieval" | "agent_create" | null {
+    const operation = this.asString(attrs["gen_ai.operation.name"]);
+    if (operation) {
+      if (LLM_OPERATIONS.has(operation)) return "llm_call";
+      if (operation === "execute_tool") return "tool_call";
+      if (operation === "embeddings") return "embedding";
+      if (RETRIEVAL_OPERATIONS.has(operation)) return "retrieval";
+      if (operation === "create_agent") return "agent_create";
+      return null;
+    }
+    // Older instrumentations omit the operation name but set the model and usage
+    if (attrs["gen_ai.request.model"] !== undefined || attrs["gen_ai.system"] !== undefined) {
+      return "llm_call";
+    }
+    if (attrs["gen_ai.tool.name"] !== undefined) return "tool_call";
+    return null;
+  }
+
+  private static toLlmCall(
+    attrs: FlatAttributes,
+    latencyMs: number
+  ): NonNullable<EventAttributes["llm_call"]> {
+    const inputTokens = this.asNumber(
+      attrs["gen_ai.usage.input_tokens"] ?? attrs["gen_ai.usage.prompt_tokens"]
+    );
+    const outputTokens = this.asNumber(
+      attrs["gen_ai.usage.output_tokens"] ?? attrs["gen_ai.usage.completion_tokens"]
+    );
+    const inputMessages = this.asJson(attrs["gen_ai.input.messages"]);
+    const outputMessages = this.asJson(attrs["gen_ai.output.messages"]);
+    const finishReasons = this.asStringArray(attrs["gen_ai.response.finish_reasons"]);
+    const ttftSeconds = this.asNumber(attrs["gen_ai.server.time_to_first_token"]);
+    const requestModel = this.asString(attrs["gen_ai.request.model"]);
+    const responseModel = this.asString(attrs["gen_ai.response.model"]);
+
+    return {
+      model: requestModel || responseModel || "unknown",
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens:
+        inputTokens !== null || outputTokens !== null
+          ? (inputTokens || 0) + (outputTokens || 0)
+          : null,
+      latency_ms: latencyMs,
+      temperature: this.asNumber(attrs["gen_ai.request.temperature"]),
+      max_tokens: this.asNumber(attrs["gen_ai.request.max_tokens"]),
+      top_k: this.asNumber(attrs["gen_ai.request.top_k"]),
+      top_p: this.asNumber(attrs["gen_ai.request.top_p"]),
+      frequency_penalty: this.asNumber(attrs["gen_ai.request.frequency_penalty"]),
+      presence_penalty: this.asNumber(attrs["gen_ai.request.presence_penalty"]),
+      stop_sequences: this.asStringArray(attrs["gen_ai.request.stop_sequences"]),
+      seed: this.asNumber(attrs["gen_ai.request.seed"]),
+      finish_reason: finishReasons?.[0] ?? null,
+      response_id: this.asString(attrs["gen_ai.response.id"]),
+      input: this.messagesToText(inputMessages),
+      output: this.messagesToText(outputMessages),
+      operation_name: this.asString(attrs["gen_ai.operation.name"]),
+      provider_name:
+        this.asString(attrs["gen_ai.provider.name"]) ||
+        this.asString(attrs["gen_ai.system"]),
+      response_model: responseModel,
+      input_cost: this.asNumber(attrs["gen_ai.usage.input_cost"]),
+      output_cost: this.asNumber(attrs["gen_ai.usage.output_cost"]),
+      input_messages: Array.isArray(inputMessages) ? inputMessages : null,
+      output_messages: Array.isArray(outputMessages) ? outputMessages : null,
+      system_instructions: (() => {
+        const value = this.asJson(attrs["gen_ai.system_instructions"]);
+        return Array.isArray(value) ? value : null;
+      })(),
+      tool_definitions: (() => {
+        const value = this.asJson(attrs["gen_ai.tool.definitions"]);
+        return Array.isArray(value) ? value : null;
+      })(),
+      server_address: this.asString(attrs["server.address"]),
+      server_port: this.asNumber(attrs["server.port"]),
+      conversation_id_otel: this.asString(attrs["gen_ai.conversation.id"]),
+      choice_count: this.asNumber(attrs["gen_ai.request.choice.count"]),
+      time_to_first_token_ms: ttftSeconds !== null ? ttftSeconds * 1000 : null,
+    };
+  }
+
+  private static toToolCall(
+    attrs: FlatAttributes,
+    span: OtlpSpan,
+    latencyMs: number,
+    isError: boolean,
+    errorType: string | null,
+    errorMessage: string | null
+  ): NonNullable<EventAttributes["tool_call"]> {
+    const args = this.asJson(attrs["gen_ai.tool.call.arguments"]);
+    const isTimeout =
+      isError && /timeout|timed out/i.test(`${errorType || ""} ${errorMessage || ""}`);
+    return {
+      tool_name:
+        this.asString(attrs["gen_ai.tool.name"]) ||
+        span.name?.replace(/^execute_tool\s+/, "") ||
+        "unknown",
+      args:
+        args && typeof args === "object" && !Array.isArray(args)
+          ? args
+          : args !== null
+            ? { value: args }
+            : null,
+      result_status: isTimeout ? "timeout" : isError ? "error" : "success",
+      result: this.asJson(attrs["gen_ai.tool.call.result"]),
+      latency_ms: latencyMs,
+      error_message: isError ? errorMessage : null,
+      operation_name: this.asString(attrs["gen_ai.operation.name"]),
+      tool_type: this.asString(attrs["gen_ai.tool.type"]),
+      tool_description: this.asString(attrs["gen_ai.tool.description"]),
+      tool_call_id: this.asString(attrs["gen_ai.tool.call.id"]),
+      error_type: isError ? errorType : null,
+    };
+  }
+
+  private static toEmbedding(
+    attrs: FlatAttributes,
+    latencyMs: number
+  ): NonNullable<EventAttributes["embedding"]> {
+    return {
+      model:
+        this.asString(attrs["gen_ai.request.model"]) ||
+        this.asString(attrs["gen_ai.response.model"]) ||
+        "unknown",
+      dimension_count: this.asNumber(attrs["gen_ai.embeddings.dimension.count"]),
+      encoding_formats: this.asStringArray(attrs["gen_ai.request.encoding_formats"]),
+      input_tokens: this.asNumber(attrs["gen_ai.usage.input_tokens"]),
+      output_tokens: this.asNumber(attrs["gen_ai.usage.output_tokens"]),
+      latency_ms: latencyMs,
+      operation_name: this.asString(attrs["gen_ai.operation.name"]),
+      provider_name:
+        this.asString(attrs["gen_ai.provider.name"]) ||
+        this.asString(attrs["gen_ai.system"]),
+    };
+  }
+
+  private static toRetrieval(
+    attrs: FlatAttributes,
+    latencyMs: number
+  ): NonNullable<EventAttributes["retrieval"]> {
+    // gen_ai.retrieval.documents: [{ id, score }] as a JSON string or structured value
+    const documents = this.asJson(attrs["gen_ai.retrieval.documents"]);
+    const docs = Array.isArray(documents) ? documents : [];
+    const ids = docs
+      .map((d: any) => (d && d.id !== undefined ? String(d.id) : null))
+      .filter((id: string | null): id is string => id !== null);
+    const scores = docs
+      .map((d: any) => (typeof d?.score === "number" ? d.score : null))
+      .filter((score: number | null): score is number => score !== null);
+    const topK = this.asNumber(attrs["gen_ai.request.top_k"]);
+
+    return {
+      retrieval_context_ids: ids.length > 0 ? ids : null,
+      k: docs.length > 0 ? docs.length : topK,
+      top_k: topK,
+      latency_ms: latencyMs,
+      similarity_scores: scores.length > 0 ? scores : null,
+      retrieval_context: this.asString(attrs["gen_ai.retrieval.query.text"]),
+      embedding_model: this.asString(attrs["gen_ai.request.model"]),
+    };
+  }
+
+  private static messagesToText(messages: any): string | null {
+    if (messages === null || messages === undefined) return null;
+    if (typeof messages === "string") return messages;
+    if (!Array.isArray(messages)) return JSON.stringify(messages);
+    const parts: string[] = [];
+    for (const message of messages) {
+      if (typeof message?.content === "string") {
+        parts.push(message.content);
+      } else if (Array.isArray(message?.parts)) {
+        for (const part of message.parts) {
+          if (typeof part?.content === "string") parts.push(part.content);
+        }
+      }
+    }
+    return parts.length > 0 ? parts.join("\n") : JSON.stringify(messages);
+  }
+
+  private static anyValueToJs(value?: OtlpAnyValue): any {
+    if (!value) return null;
+    if (value.stringValue !== undefined) return value.stringValue;
+    if (value.boolValue !== undefined) return value.boolValue;
+    if (value.intValue !== undefined) return Number(value.intValue);
+    if (value.doubleValue !== undefined) return Number(value.doubleValue);
+    if (value.arrayValue !== undefined) {
+      return (value.arrayValue.values || []).map((v) => this.anyValueToJs(v));
+    }
+    if (value.kvlistValue !== undefined) {
+      return this.flattenAttributes(value.kvlistValue.values);
+    }
+    if (value.bytesValue !== undefined) return value.bytesValue;
+    return null;
+  }
+
+  private static asString(value: any): string | null {
+    if (typeof value === "string") return value.trim() !== "" ? value : null;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    return null;
+  }
+
+  private static asNumber(value: any): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null;
+    if (typeof value === "string" && value.trim() !== "") {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+  }
+
+  private static asStringArray(value: any): string[] | null {
+    if (Array.isArray(value)) return value.map((v) => String(v));
+    if (typeof value === "string") return [value];
+    return null;
+  }
+
+  /**
+   * GenAI structured attributes are usually JSON strings; parse when possible
+   */
+  private static asJson(value: any): any {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "string") return value;
+    const trimmed = value.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  private static statusCode(code?: number | string): number {
+    if (typeof code === "number") return code;
+    if (code === "STATUS_CODE_ERROR") return STATUS_CODE_ERROR;
+    if (code === "STATUS_CODE_OK") return 1;
+    const parsed = Number(code);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+
+  private static toBigInt(value?: string | number): bigint {
+    if (value === undefined || value === null || value === "") return 0n;
+    try {
+      return BigInt(typeof value === "number" ? Math.trunc(value) : value);
+    } catch {
+      return 0n;
+    }
+  }
+
+  /**
+   * OTLP/JSON ids are hex; some exporters send base64 (protobuf-style JSON)
+   */
+  private static normalizeHexId(id?: string): string {
+    if (!id) return "";
+    if (/^[0-9a-fA-F]+$/.test(id)) return id.toLowerCase();
+    try {
+      return Buffer.from(id, "base64").toString("hex");
+    } catch {
+      return "";
+    }
+  }
+
+  private static formatUuidV4(hex32: string): string {
+    const chars = hex32.split("");
+    chars[12] = "4";
+    chars[16] = ((parseInt(chars[16], 16) & 0x3) | 0x8).toString(16);
+    const hex = chars.join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Protobuf message decoders (opentelemetry/proto/trace/v1/trace.proto)
+  // ---------------------------------------------------------------------------
+
+  private static decodeResourceSpans(buf: Buffer) {
+    const result: NonNullable<OtlpTracesRequest["resourceSpans"]>[number] = {
+      scopeSpans: [],
+    };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1 && wireType === 2) {
+        result.resource = { attributes: this.decodeAttributesMessage(reader.bytes(), 1) };
+      } else if (field === 2 && wireType === 2) {
+        result.scopeSpans!.push(this.decodeScopeSpans(reader.bytes()));
+      } else {
+        reader.skip(wireType);
+      }
+    }
+    return result;
+  }
+
+  private static decodeScopeSpans(buf: Buffer) {
+    const result: { scope?: { name?: string; version?: string }; spans: OtlpSpan[] } = {
+      spans: [],
+    };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1 && wireType === 2) {
+        const scope: { name?: string; version?: string } = {};
+        const scopeReader = new ProtoReader(reader.bytes());
+        while (!scopeReader.done) {
+          const t = scopeReader.tag();
+          if (t.field === 1 && t.wireType === 2) scope.name = scopeReader.bytes().toString("utf8");
+          else if (t.field === 2 && t.wireType === 2) scope.version = scopeReader.bytes().toString("utf8");
+          else scopeReader.skip(t.wireType);
+        }
+        result.scope = scope;
+      } else if (field === 2 && wireType === 2) {
+        result.spans.push(this.decodeSpan(reader.bytes()));
+      } else {
+        reader.skip(wireType);
+      }
+    }
+    return result;
+  }
+
+  private static decodeSpan(buf: Buffer): OtlpSpan {
+    const span: OtlpSpan = { traceId: "", spanId: "", attributes: [], events: [] };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      switch (true) {
+        case field === 1 && wireType === 2:
+          span.traceId = reader.bytes().toString("hex");
+          break;
+        case field === 2 && wireType === 2:
+          span.spanId = reader.bytes().toString("hex");
+          break;
+        case field === 4 && wireType === 2:
+          span.parentSpanId = reader.bytes().toString("hex");
+          break;
+        case field === 5 && wireType === 2:
+          span.name = reader.bytes().toString("utf8");
+          break;
+        case field === 6 && wireType === 0:
+          span.kind = Number(reader.varint());
+          break;
+        case field === 7 && wireType === 1:
+          span.startTimeUnixNano = reader.fixed64().toString();
+          break;
+        case field === 8 && wireType === 1:
+          span.endTimeUnixNano = reader.fixed64().toString();
+          break;
+        case field === 9 && wireType === 2:
+          span.attributes!.push(this.decodeKeyValue(reader.bytes()));
+          break;
+        case field === 11 && wireType === 2:
+          span.events!.push(this.decodeSpanEvent(reader.bytes()));
+          break;
+        case field === 15 && wireType === 2: {
+          const status: { code?: number; message?: string } = {};
+          const statusReader = new ProtoReader(reader.bytes());
+          while (!statusReader.done) {
+            const t = statusReader.tag();
+            if (t.field === 2 && t.wireType === 2) status.message = statusReader.bytes().toString("utf8");
+            else if (t.field === 3 && t.wireType === 0) status.code = Number(statusReader.varint());
+            else statusReader.skip(t.wireType);
+          }
+          span.status = status;
+          break;
+        }
+        default:
+          reader.skip(wireType);
+      }
+    }
+    return span;
+  }
+
+  private static decodeSpanEvent(buf: Buffer): OtlpSpanEvent {
+    const event: OtlpSpanEvent = { attributes: [] };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1 && wireType === 1) event.timeUnixNano = reader.fixed64().toString();
+      else if (field === 2 && wireType === 2) event.name = reader.bytes().toString("utf8");
+      else if (field === 3 && wireType === 2) event.attributes!.push(this.decodeKeyValue(reader.bytes()));
+      else reader.skip(wireType);
+    }
+    return event;
+  }
+
+  /**
+   * Decode messages whose only relevant content is a repeated KeyValue field
+   * (Resource.attributes = 1, KeyValueList.values = 1)
+   */
+  private static decodeAttributesMessage(buf: Buffer, fieldNumber: number): OtlpKeyValue[] {
+    const attributes: OtlpKeyValue[] = [];
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === fieldNumber && wireType === 2) attributes.push(this.decodeKeyValue(reader.bytes()));
+      else reader.skip(wireType);
+    }
+    return attributes;
+  }
+
+  private static decodeKeyValue(buf: Buffer): OtlpKeyValue {
+    const kv: OtlpKeyValue = { key: "" };
+    const reader = new ProtoReader(buf);
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      if (field === 1 && wireType === 2) kv.key = reader.bytes().toString("utf8");
+      else if (field === 2 && wireType === 2) kv.value = this.decodeAnyValue(reader.bytes());
+      else reader.skip(wireType);
+    }
+    return kv;
+  }
+
+  private static decodeAnyValue(buf: Buffer): OtlpAnyValue {
+    const reader = new ProtoReader(buf);
+    let value: OtlpAnyValue = {};
+    while (!reader.done) {
+      const { field, wireType } = reader.tag();
+      switch (true) {
+        case field === 1 && wireType === 2:
+          value = { stringValue: reader.bytes().toString("utf8") };
+          break;
+        case field === 2 && wireType === 0:
+          value = { boolValue: reader.varint() !== 0n };
+          break;
+        case field === 3 && wireType === 0:
+          // int64 is two's complement in a 64-bit varint
+          value = { intValue: Number(BigInt.asIntN(64, reader.varint())) };
+          break;
+        case field === 4 && wireType === 1:
+          value = { doubleValue: reader.double() };
+          break;
+        case field === 5 && wireType === 2: {
+          const values: OtlpAnyValue[] = [];
+          const arrayReader = new ProtoReader(reader.bytes());
+          while (!arrayReader.done) {
+            const t = arrayReader.tag();
+            if (t.field === 1 && t.wireType === 2) values.push(this.decodeAnyValue(arrayReader.bytes()));
+            else arrayReader.skip(t.wireType);
+          }
+          value = { arrayValue: { values } };
+          break;
+        }
+        case field === 6 && wireType === 2:
+          value = { kvlistValue: { values: this.decodeAttributesMessage(reader.bytes(), 1) } };
+          break;
+        case field === 7 && wireType === 2:
+          value = { bytesValue: reader.bytes().toString("base64") };
+          break;
+        default:
+          reader.skip(wireType);
+      }
+    }
+    return value;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Prompt Analytics Service
+ *
+ * Performance per prompt version from llm_call events linked to the prompt
+ * registry (llm_call.prompt_version_id, see PromptService.linkLlmCalls):
+ * call volume, latency, tokens and cost per call, plus outcomes of the traces
+ * the version ran in (errors, like/dislike feedback, signals, hallucinations).
+ *
+ * Version comparisons use the DashboardMetricsService.getMetricsComparison
+ * shape ({ current, previous, change, change_percent } per metric) with the
+ * candidate version as "current" and the baseline version as "previous".
+ */
+
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { chDateTime, chUuid } from "../utils/clickhouseSql.js";
+import { query } from "../db/client.js";
+
+export interface PromptVersionMetrics {
+  prompt_version_id: string;
+  calls: number;
+  traces: number;
+  latency_p50: number;
+  latency_p95: number;
+  avg_tokens: number;
+  total_tokens: number;
+  avg_cost: number;
+  total_cost: number;
+  error_rate: number; // % of traces with an error event
+  feedback: {
+    likes: number;
+    dislikes: number;
+    like_ratio: number | null; // likes / (likes + dislikes), null without feedback
+  };
+  signal_rate: number; // % of traces with any signal
+  signal_rates: Record<string, number>; // % of traces per signal name
+  hallucination_rate: number; // % of analyzed traces flagged as hallucination
+}
+
+export interface MetricComparison {
+  current: number;
+  previous: number;
+  change: number;
+  change_percent: number;
+}
+
+export type PromptVersionComparison = Record<
+  | "trace_count"
+  | "error_rate"
+  | "latency_p95"
+  | "cost"
+  | "tokens"
+  | "calls"
+  | "latency_p50"
+  | "avg_tokens"
+  | "avg_cost"
+  | "like_ratio"
+  | "signal_rate"
+  | "hallucination_rate"
+  | "tool_error_rate",
+  MetricComparison
+>;
+
+// Trace ids checked against analysis_results for hallucinations, per query
+const MAX_ANALYZED_TRACES = 20000;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const VERSION_EXPR = `JSONExtractString(attributes_json, '$.llm_call.prompt_version_id')`;
+const LATENCY_EXPR = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.latency_ms'))`;
+const TOKENS_EXPR = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.total_tokens'))`;
+const COST_EXPR = `toFloat64OrNull(JSONExtractString(attributes_json, '$.llm_call.cost'))`;
+
+export class PromptAnalyticsService {
+  /**
+   * Compare a candidate version (current) with a baseline version (previous)
+   */
+  static compareVersions(
+    baseline: PromptVersionMetrics,
+    candidate: PromptVersionMetrics,
+  ): PromptVersionComparison {
+    // Same change computation as DashboardMetricsService.getMetricsComparison
+    const compare = (current: number, previous: number): MetricComparison => {
+      const change = current - previous;
+      const changePercent =
+        previous > 0 ? (change / previous) * 100 : current > 0 ? 100 : 0;
+      return {
+        current,
+        previous,
+        change,
+        change_percent: parseFloat(changePercent.toFixed(2)),
+      };
+    };
+
+    return {
+      trace_count: compare(candidate.traces, baseline.traces),
+      error_rate: compare(candidate.error_rate, baseline.error_rate),
+      latency_p95: compare(candidate.latency_p95, baseline.latency_p95),
+      cost: compare(candidate.total_cost, baseline.total_cost),
+      tokens: compare(candidate.total_tokens, baseline.total_tokens),
+      calls: compare(candidate.calls, baseline.calls),
+      latency_p50: compare(candidate.latency_p50, baseline.latency_p50),
+      avg_tokens: compare(candidate.avg_tokens, baseline.avg_tokens),
+      avg_cost: compare(candidate.avg_cost, baseline.avg_cost),
+      like_ratio: compare(
+        candidate.feedback.like_ratio ?? 0,
+        baseline.feedback.like_ratio ?? 0,
+      ),
+      signal_rate: compare(candidate.signal_rate, baseline.signal_rate),
+      hallucination_rate: compare(
+        candidate.hallucination_rate,
+        baseline.hallucination_rate,
+      ),
+      tool_error_rate: compare(
+        candidate.signal_rates.tool_error ?? 0,
+        baseline.signal_rates.tool_error ?? 0,
+      ),
+    };
+  }
+
+  /**
+   * Metrics for the given prompt versions over a time range
+   * Versions without calls in the range get zeroed metrics.
+   */
+  static async getVersionMetrics(
+    tenantId: string,
+    projectId: string,
+    versionIds: string[],
+    startTime: string,
+    endTime: string,
+  ): Promise<Map<string, PromptVersionMetrics>> {
+    // SECURITY: Validate ids (UUID) to prevent SQL injection
+    if (!UUID_REGEX.test(tenantId) || !UUID_REGEX.test(projectId)) {
+      throw new Error("Invalid tenant_id or project_id format: must be a valid UUID");
+    }
+    const ids = versionIds.filter((id) => UUID_REGEX.test(id));
+    const metrics = new Map<string, PromptVersionMetrics>(
+      ids.map((id) => [id, this.emptyMetrics(id)]),
+    );
+    if (ids.length === 0) return metrics;
+
+    const timeFilter =
+      ` AND timestamp >= ${chDateTime(startTime)}` +
+      ` AND timestamp <= ${chDateTime(endTime)}`;
+    const baseWhere = `WHERE tenant_id = ${chUuid(tenantId)} AND project_id = ${chUuid(projectId)}`;
+    const versionList = ids.map(chUuid).join(", ");
+    // Traces each version ran in (a trace may use several versions)
+    const versionTraces = `
+      SELECT DISTINCT trace_id, ${VERSION_EXPR} as version_id
+      FROM canonical_events
+      ${baseWhere} AND event_type = 'llm_call'${timeFilter}
+        AND ${VERSION_EXPR} IN (${versionList})`;
+    const params = { tenantId, projectId };
+    const rowsOf = (result: any) =>
+      Array.isArray(result) ? result : result?.data || [];
+
+    const [callRows, outcomeRows, signalRows, traceRows] = await Promise.all([
+      TinybirdRepository.rawQuery(
+        `SELECT
+          ${VERSION_EXPR} as version_id,
+          count() as calls,
+          uniqExact(trace_id) as traces,
+          quantile(0.5)(${LATENCY_EXPR}) as latency_p50,
+          quantile(0.95)(${LATENCY_EXPR}) as latency_p95,
+          avg(${TOKENS_EXPR}) as avg_tokens,
+          sum(ifNull(${TOKENS_EXPR}, 0)) as total_tokens,
+          avg(${COST_EXPR}) as avg_cost,
+          sum(ifNull(${COST_EXPR}, 0)) as total_cost
+        FROM canonical_events
+        ${baseWhere} AND event_type = 'llm_call'${timeFilter}
+          AND ${VERSION_EXPR} IN (${versionList})
+        GROUP BY version_id`,
+        params,
+      ).then(rowsOf),
+      // Errors exclude signals, which are stored as error events too
+      TinybirdRepository.rawQuery(
+        `SELECT
+          v.version_id as version_id,
+          uniqExactIf(e.trace_id, e.event_type = 'error' AND NOT JSONHas(e.attributes_json, 'signal')) as error_traces,
+          uniqExactIf(e.trace_id, JSONHas(e.attributes_json, 'signal')) as signal_traces,
+          countIf(e.event_type = 'feedback' AND JSONExtractString(e.attributes_json, '$.feedback.type') = 'like') as likes,
+          countIf(e.event_type = 'feedback' AND JSONExtractString(e.attributes_json, '$.feedback.type') = 'dislike') as dislikes
+        FROM canonical_events e
+        INNER JOIN (${versionTraces}) v ON e.trace_id = v.trace_id
+        WHERE e.tenant_id = ${chUuid(tenantId)} AND e.project_id = ${chUuid(projectId)}
+          AND e.event_type IN ('error', 'feedback')
+        GROUP BY version_id`,
+        params,
+      ).then(rowsOf),
+      TinybirdRepository.rawQuery(
+        `SELECT
+          v.version_id as version_id,
+          JSONExtractString(e.attributes_json, 'signal', 'signal_name') as signal_name,
+          uniqExact(e.trace_id) as traces
+        FROM canonical_events e
+        INNER JOIN (${versionTraces}) v ON e.trace_id = v.trace_id
+        WHERE e.tenant_id = ${chUuid(tenantId)} AND e.project_id = ${chUuid(projectId)}
+          AND e.event_type = 'error' AND JSONHas(e.attributes_json, 'signal')
+        GROUP BY version_id, signal_name`,
+        params,
+      ).then(rowsOf),
+      TinybirdRepository.rawQuery(
+        `${versionTraces} LIMIT ${MAX_ANALYZED_TRACES}`,
+        params,
+      ).then(rowsOf),
+    ]);
+
+    const pct = (part: number, whole: number) =>
+      whole > 0 ? (part / whole) * 100 : 0;
+    const num = (value: any) => {
+      const parsed = parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : 0;
+    };
+
+    for (const row of callRows) {
+      const entry = metrics.get(row.version_id);
+      if (!entry) continue;
+      Object.assign(entry, {
+        calls: num(row.calls),
+        traces: num(row.traces),
+        latency_p50: num(row.latency_p50),
+        latency_p95: num(row.latency_p95),
+        avg_tokens: num(row.avg_tokens),
+        total_tokens: num(row.total_tokens),
+        avg_cost: num(row.avg_cost),
+        total_cost: num(row.total_cost),
+      });
+    }
+    for (const row of outcomeRows) {
+      const entry = metrics.get(row.version_id);
+      if (!entry) continue;
+      const likes = num(row.likes);
+      const dislikes = num(row.dislikes);
+      entry.error_rate = pct(num(row.error_traces), entry.traces);
+      entry.signal_rate = pct(num(row.signal_traces), entry.traces);
+      entry.feedback = {
+        likes,
+        dislikes,
+        like_ratio: likes + dislikes > 0 ? likes / (likes + dislikes) : null,
+      };
+    }
+    for (const row of signalRows) {
+      const entry = metrics.get(row.version_id);
+      if (!entry || !row.signal_name) continue;
+      entry.signal_rates[row.signal_name] = pct(num(row.traces), entry.traces);
+    }
+
+    // Hallucinations come from analysis (analysis_results), not ingestion signals
+    const tracesByVersion = new Map<string, string[]>();
+    for (const row of traceRows) {
+      if (!tracesByVersion.has(row.version_id)) {
+        tracesByVersion.set(row.version_id, []);
+      }
+      tracesByVersion.get(row.version_id)!.push(row.trace_id);
+    }
+    for (const [versionId, traceIds] of tracesByVersion) {
+      const entry = metrics.get(versionId);
+      if (!entry) continue;
+      try {
+        const rows = await query<{ analyzed: string; hallucinations: string }>(
+          `SELECT COUNT(*) as analyzed,
+                  COUNT(*) FILTER (WHERE is_hallucination = TRUE) as hallucinations
+           FROM analysis_results
+           WHERE tenant_id = $1 AND trace_id = ANY($2) AND is_hallucination IS NOT NULL`,
+          [tenantId, traceIds],
+        );
+        entry.hallucination_rate = pct(
+          num(rows[0]?.hallucinations),
+          num(rows[0]?.analyzed),
+        );
+      } catch (error) {
+        console.error(
+          "[PromptAnalyticsService] Failed to load hallucination rate:",
+          error,
+        );
+      }
+    }
+
+    return metrics;
+  }
+
+  private static emptyMetrics(versionId: string): PromptVersionMetrics {
+    return {
+      prompt_version_id: versionId,
+      calls: 0,
+      traces: 0,
+      latency_p50: 0,
+      latency_p95: 0,
+      avg_tokens: 0,
+      total_tokens: 0,
+      avg_cost: 0,
+      total_cost: 0,
+      error_rate: 0,
+      feedback: { likes: 0, dislikes: 0, like_ratio: null },
+      signal_rate: 0,
+      signal_rates: {},
+      hallucination_rate: 0,
+    };
+  }
+}
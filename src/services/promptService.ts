@@ -0,0 +1,524 @@
+/**
+ * Prompt Service
+ *
+ * Prompt registry per project: named templates with immutable, sequentially
+ * numbered versions (text or chat messages, variables, model config) and
+ * labels ("production", "staging", ...) that point at one version each.
+ * "latest" is an implicit label for the highest version.
+ *
+ * The SDK fetches a version by name and label and reports the version id as
+ * llm_call.prompt_template_id; at ingestion linkLlmCalls resolves that
+ * reference (a version id, "name@<version>" or "name@<label>") and stores the
+ * linked name/version on the llm_call so the trace view can show it.
+ */
+
+import { query } from "../db/client.js";
+import { CanonicalEvent } from "../types/events.js";
+import { isValidUUIDv4 } from "../utils/uuidValidation.js";
+
+export type PromptType = "text" | "chat";
+
+export interface PromptMessage {
+  role: string;
+  content: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  tenant_id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  latest_version: number | null;
+  labels: Record<string, number>; // label -> version
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptVersion {
+  id: string;
+  template_id: string;
+  project_id: string;
+  name: string;
+  version: number;
+  type: PromptType;
+  prompt: string | PromptMessage[];
+  variables: string[];
+  model_config: Record<string, any>;
+  labels: string[];
+  commit_message: string | null;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+export interface PromptVersionInput {
+  type?: PromptType;
+  prompt: string | PromptMessage[];
+  variables?: string[];
+  modelConfig?: Record<string, any>;
+  labels?: string[];
+  commitMessage?: string | null;
+}
+
+export interface PromptInput extends PromptVersionInput {
+  projectId: string;
+  name: string;
+  description?: string | null;
+}
+
+/**
+ * What an llm_call's prompt_template_id refers to
+ */
+export type PromptReference =
+  | { kind: "id"; id: string }
+  | { kind: "version"; name: string; version: number }
+  | { kind: "label"; name: string; label: string };
+
+/**
+ * Linked prompt version stored on llm_call attributes
+ */
+export interface PromptLink {
+  prompt_version_id: string;
+  prompt_name: string;
+  prompt_version: number;
+}
+
+export const LATEST_LABEL = "latest";
+export const PROMPT_LABEL_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/;
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_.]*)\s*\}\}/g;
+const CACHE_TTL_MS = 60 * 1000;
+
+export class PromptService {
+  private static linkCache = new Map<
+    string,
+    { link: PromptLink | null; expires: number }
+  >();
+
+  /**
+   * Variables ({{ name }}) used by a text prompt or chat messages, in order of appearance
+   */
+  static extractVariables(prompt: string | PromptMessage[]): string[] {
+    const texts =
+      typeof prompt === "string"
+        ? [prompt]
+        : prompt.map((message) => message.content || "");
+    const variables: string[] = [];
+    for (const text of texts) {
+      for (const match of text.matchAll(VARIABLE_PATTERN)) {
+        if (!variables.includes(match[1])) variables.push(match[1]);
+      }
+    }
+    return variables;
+  }
+
+  /**
+   * Parse an llm_call prompt_template_id: a version id, "name@<version>" or "name@<label>"
+   */
+  static parseReference(value: string): PromptReference | null {
+    const ref = value.trim();
+    if (isValidUUIDv4(ref)) return { kind: "id", id: ref.toLowerCase() };
+    const at = ref.lastIndexOf("@");
+    if (at <= 0 || at === ref.length - 1) return null;
+    const name = ref.slice(0, at);
+    const suffix = ref.slice(at + 1);
+    if (/^[0-9]+$/.test(suffix)) {
+      return { kind: "version", name, version: parseInt(suffix, 10) };
+    }
+    if (PROMPT_LABEL_PATTERN.test(suffix)) {
+      return { kind: "label", name, label: suffix };
+    }
+    return null;
+  }
+
+  static async listPrompts(
+    tenantId: string,
+    projectId: string | null,
+  ): Promise<PromptTemplate[]> {
+    const params: any[] = [tenantId];
+    let where = "t.tenant_id = $1";
+    if (projectId) {
+      params.push(projectId);
+      where += ` AND t.project_id = $2`;
+    }
+    const rows = await query<any>(
+      `${this.templateSelect()} WHERE ${where} ORDER BY t.name ASC`,
+      params,
+    );
+    return rows.map((row) => this.mapTemplate(row));
+  }
+
+  static async getPrompt(
+    tenantId: string,
+    promptId: string,
+  ): Promise<PromptTemplate | null> {
+    const rows = await query<any>(
+      `${this.templateSelect()} WHERE t.id = $1 AND t.tenant_id = $2`,
+      [promptId, tenantId],
+    );
+    return rows[0] ? this.mapTemplate(rows[0]) : null;
+  }
+
+  /**
+   * Create a template with its first version; returns null if the project
+   * already has a prompt with this name
+   */
+  static async createPrompt(
+    tenantId: string,
+    userId: string | null,
+    input: PromptInput,
+  ): Promise<{ prompt: PromptTemplate; version: PromptVersion } | null> {
+    const rows = await query<{ id: string }>(
+      `INSERT INTO prompt_templates (tenant_id, project_id, name, description, created_by_user_id)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (project_id, name) DO NOTHING
+       RETURNING id`,
+      [tenantId, input.projectId, input.name, input.description ?? null, userId],
+    );
+    if (!rows[0]) return null;
+
+    const version = await this.createVersion(tenantId, userId, rows[0].id, input);
+    const prompt = await this.getPrompt(tenantId, rows[0].id);
+    return { prompt: prompt!, version: version! };
+  }
+
+  /**
+   * Add the next version of a template (versions are immutable) and move the
+   * given labels to it
+   */
+  static async createVersion(
+    tenantId: string,
+    userId: string | null,
+    promptId: string,
+    input: PromptVersionInput,
+  ): Promise<PromptVersion | null> {
+    const variables = [
+      ...new Set([
+        ...this.extractVariables(input.prompt),
+        ...(input.variables || []),
+      ]),
+    ];
+    const type: PromptType =
+      input.type || (typeof input.prompt === "string" ? "text" : "chat");
+
+    // Concurrent creates collide on UNIQUE(template_id, version); retry once
+    let rows: Array<{ id: string; version: number }> = [];
+    for (let attempt = 0; attempt < 2 && rows.length === 0; attempt++) {
+      try {
+        rows = await query<{ id: string; version: number }>(
+          `INSERT INTO prompt_versions (
+             template_id, tenant_id, project_id, version, type, prompt,
+             variables, model_config, commit_message, created_by_user_id
+           )
+           SELECT t.id, t.tenant_id, t.project_id,
+                  COALESCE((SELECT MAX(version) FROM prompt_versions WHERE template_id = t.id), 0) + 1,
+                  $3, $4::jsonb, $5, $6::jsonb, $7, $8
+           FROM prompt_templates t
+           WHERE t.id = $1 AND t.tenant_id = $2
+           RETURNING id, version`,
+          [
+            promptId,
+            tenantId,
+            type,
+            JSON.stringify(input.prompt),
+            variables,
+            JSON.stringify(input.modelConfig || {}),
+            input.commitMessage ?? null,
+            userId,
+          ],
+        );
+        if (rows.length === 0) return null;
+      } catch (error: any) {
+        if (error?.code !== "23505" || attempt === 1) throw error;
+      }
+    }
+
+    for (const label of new Set(input.labels || [])) {
+      await this.setLabel(tenantId, userId, promptId, label, rows[0].version);
+    }
+    await query(
+      `UPDATE prompt_templates SET updated_at = NOW() WHERE id = $1`,
+      [promptId],
+    );
+    return this.getVersion(tenantId, promptId, rows[0].version);
+  }
+
+  static async listVersions(
+    tenantId: string,
+    promptId: string,
+  ): Promise<PromptVersion[]> {
+    const rows = await query<any>(
+      `${this.versionSelect()}
+       WHERE v.template_id = $1 AND v.tenant_id = $2
+       ORDER BY v.version DESC`,
+      [promptId, tenantId],
+    );
+    return rows.map((row) => this.mapVersion(row));
+  }
+
+  static async getVersion(
+    tenantId: string,
+    promptId: string,
+    version: number,
+  ): Promise<PromptVersion | null> {
+    const rows = await query<any>(
+      `${this.versionSelect()}
+       WHERE v.template_id = $1 AND v.tenant_id = $2 AND v.version = $3`,
+      [promptId, tenantId, version],
+    );
+    return rows[0] ? this.mapVersion(rows[0]) : null;
+  }
+
+  static async getVersionById(
+    tenantId: string,
+    versionId: string,
+  ): Promise<PromptVersion | null> {
+    const rows = await query<any>(
+      `${this.versionSelect()} WHERE v.id = $1 AND v.tenant_id = $2`,
+      [versionId, tenantId],
+    );
+    return rows[0] ? this.mapVersion(rows[0]) : null;
+  }
+
+  /**
+   * Version of a project's prompt by label ("latest" = highest) or version number
+   */
+  static async resolveVersion(
+    tenantId: string,
+    projectId: string,
+    name: string,
+    selector: { label?: string; version?: number },
+  ): Promise<PromptVersion | null> {
+    const params: any[] = [tenantId, projectId, name];
+    let condition: string;
+    if (selector.version !== undefined) {
+      params.push(selector.version);
+      condition = `v.version = $4`;
+    } else if (!selector.label || selector.label === LATEST_LABEL) {
+      condition = `v.version = (SELECT MAX(version) FROM prompt_versions WHERE template_id = t.id)`;
+    } else {
+      params.push(selector.label);
+      condition = `v.id = (SELECT version_id FROM prompt_labels WHERE template_id = t.id AND label = $4)`;
+    }
+    const rows = await query<any>(
+      `${this.versionSelect()}
+       WHERE t.tenant_id = $1 AND t.project_id = $2 AND t.name = $3 AND ${condition}`,
+      params,
+    );
+    return rows[0] ? this.mapVersion(rows[0]) : null;
+  }
+
+  /**
+   * Point a label at a version; returns false if the version does not exist
+   */
+  static async setLabel(
+    tenantId: string,
+    userId: string | null,
+    promptId: string,
+    label: string,
+    version: number,
+  ): Promise<boolean> {
+    const rows = await query<{ label: string }>(
+      `INSERT INTO prompt_labels (template_id, label, version_id, updated_by_user_id)
+       SELECT v.template_id, $3, v.id, $5
+       FROM prompt_versions v
+       WHERE v.template_id = $1 AND v.tenant_id = $2 AND v.version = $4
+       ON CONFLICT (template_id, label) DO UPDATE
+       SET version_id = EXCLUDED.version_id,
+           updated_by_user_id = EXCLUDED.updated_by_user_id,
+           updated_at = NOW()
+       RETURNING label`,
+      [promptId, tenantId, label, version, userId],
+    );
+    this.linkCache.clear();
+    return rows.length > 0;
+  }
+
+  static async removeLabel(
+    tenantId: string,
+    promptId: string,
+    label: string,
+  ): Promise<boolean> {
+    const rows = await query<{ label: string }>(
+      `DELETE FROM prompt_labels l
+       USING prompt_templates t
+       WHERE l.template_id = t.id AND t.id = $1 AND t.tenant_id = $2 AND l.label = $3
+       RETURNING l.label`,
+      [promptId, tenantId, label],
+    );
+    this.linkCache.clear();
+    return rows.length > 0;
+  }
+
+  static async updatePrompt(
+    tenantId: string,
+    promptId: string,
+    input: { name?: string; description?: string | null },
+  ): Promise<PromptTemplate | null> {
+    const rows = await query<{ id: string }>(
+      `UPDATE prompt_templates SET
+         name = COALESCE($3, name),
+         description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING id`,
+      [
+        promptId,
+        tenantId,
+        input.name ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+      ],
+    );
+    if (!rows[0]) return null;
+    this.linkCache.clear();
+    return this.getPrompt(tenantId, promptId);
+  }
+
+  static async deletePrompt(
+    tenantId: string,
+    promptId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM prompt_templates WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [promptId, tenantId],
+    );
+    this.linkCache.clear();
+    return rows.length > 0;
+  }
+
+  /**
+   * Link llm_call events to the prompt version their prompt_template_id refers to
+   * Unresolvable references are left as they are.
+   */
+  static async linkLlmCalls(
+    tenantId: string,
+    events: CanonicalEvent[],
+  ): Promise<CanonicalEvent[]> {
+    const refs = new Set<string>();
+    for (const event of events) {
+      const ref = event.attributes?.llm_call?.prompt_template_id;
+      if (event.event_type === "llm_call" && typeof ref === "string" && ref) {
+        refs.add(`${event.project_id}|${ref}`);
+      }
+    }
+    if (refs.size === 0) return events;
+
+    const links = new Map<string, PromptLink | null>();
+    for (const key of refs) {
+      const separator = key.indexOf("|");
+      links.set(
+        key,
+        await this.resolveLink(
+          tenantId,
+          key.slice(0, separator),
+          key.slice(separator + 1),
+        ),
+      );
+    }
+
+    return events.map((event) => {
+      const llm = event.attributes?.llm_call;
+      if (event.event_type !== "llm_call" || !llm?.prompt_template_id) {
+        return event;
+      }
+      const link = links.get(`${event.project_id}|${llm.prompt_template_id}`);
+      if (!link) return event;
+      return {
+        ...event,
+        attributes: {
+          ...event.attributes,
+          llm_call: { ...llm, ...link },
+        },
+      };
+    });
+  }
+
+  private static async resolveLink(
+    tenantId: string,
+    projectId: string,
+    value: string,
+  ): Promise<PromptLink | null> {
+    const cacheKey = `${tenantId}|${projectId}|${value}`;
+    const cached = this.linkCache.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      return cached.link;
+    }
+
+    const ref = this.parseReference(value);
+    let version: PromptVersion | null = null;
+    if (ref?.kind === "id") {
+      version = await this.getVersionById(tenantId, ref.id);
+      if (version && version.project_id !== projectId) version = null;
+    } else if (ref?.kind === "version") {
+      version = await this.resolveVersion(tenantId, projectId, ref.name, {
+        version: ref.version,
+      });
+    } else if (ref?.kind === "label") {
+      version = await this.resolveVersion(tenantId, projectId, ref.name, {
+        label: ref.label,
+      });
+    }
+
+    const link = version
+      ? {
+          prompt_version_id: version.id,
+          prompt_name: version.name,
+          prompt_version: version.version,
+        }
+      : null;
+    this.linkCache.set(cacheKey, { link, expires: Date.now() + CACHE_TTL_MS });
+    return link;
+  }
+
+  private static templateSelect(): string {
+    return `SELECT t.*,
+      (SELECT MAX(version) FROM prompt_versions WHERE template_id = t.id) as latest_version,
+      (SELECT COALESCE(jsonb_object_agg(l.label, v.version), '{}'::jsonb)
+       FROM prompt_labels l JOIN prompt_versions v ON v.id = l.version_id
+       WHERE l.template_id = t.id) as labels
+    FROM prompt_templates t`;
+  }
+
+  private static versionSelect(): string {
+    return `SELECT v.*, t.name,
+      ARRAY(SELECT label FROM prompt_labels WHERE version_id = v.id ORDER BY label) as labels
+    FROM prompt_versions v
+    JOIN prompt_templates t ON t.id = v.template_id`;
+  }
+
+  private static mapTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      description: row.description,
+      latest_version:
+        row.latest_version !== null ? Number(row.latest_version) : null,
+      labels: row.labels || {},
+      created_by_user_id: row.created_by_user_id,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private static mapVersion(row: any): PromptVersion {
+    return {
+      id: row.id,
+      template_id: row.template_id,
+      project_id: row.project_id,
+      name: row.name,
+      version: Number(row.version),
+      type: row.type,
+      prompt: row.prompt,
+      variables: row.variables || [],
+      model_config: row.model_config || {},
+      labels: row.labels || [],
+      commit_message: row.commit_message,
+      created_by_user_id: row.created_by_user_id,
+      created_at: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Saved View Service
+ *
+ * Named filter sets for the trace list (GET /api/v1/traces) and the issues
+ * timeline (GET /api/v1/issues). A view belongs to the user who created it
+ * and can be shared with everyone in the tenant (scoped to its project when
+ * it has one). Only the owner can change or delete a view.
+ *
+ * time_range is relative ("24h", "7d") and resolved when the view is applied;
+ * list endpoints take `viewId`, with explicit query params overriding the view.
+ */
+
+import { query } from "../db/client.js";
+import type { TraceListQueryOptions } from "./traceQueryService.js";
+import { resolveRelativeTimeRange } from "../utils/relativeTimeRange.js";
+
+export type SavedViewResource = "traces" | "issues";
+
+export interface IssueViewFilters {
+  severity?: "high" | "medium" | "low";
+  signalNames?: string[];
+}
+
+export type TraceViewFilters = Omit<
+  TraceListQueryOptions,
+  "limit" | "offset" | "includeStats" | "projectId"
+>;
+
+export interface SavedView {
+  id: string;
+  tenant_id: string;
+  project_id: string | null;
+  user_id: string;
+  resource: SavedViewResource;
+  name: string;
+  description: string | null;
+  filters: Record<string, any>;
+  time_range: string | null;
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewInput {
+  resource: SavedViewResource;
+  name: string;
+  description?: string | null;
+  projectId?: string | null;
+  filters?: Record<string, any>;
+  timeRange?: string | null;
+  shared?: boolean;
+}
+
+export interface SavedViewUpdate {
+  name?: string;
+  description?: string | null;
+  filters?: Record<string, any>;
+  timeRange?: string | null;
+  shared?: boolean;
+}
+
+// Own views plus views shared in the tenant
+const VISIBLE = `tenant_id = $1 AND (user_id = $2 OR shared = TRUE)`;
+
+export class SavedViewService {
+  static async listViews(
+    tenantId: string,
+    userId: string,
+    opts: { resource?: SavedViewResource; projectId?: string | null } = {},
+  ): Promise<SavedView[]> {
+    const params: any[] = [tenantId, userId];
+    let whereClause = `WHERE ${VISIBLE}`;
+    if (opts.resource) {
+      params.push(opts.resource);
+      whereClause += ` AND resource = $${params.length}`;
+    }
+    // Project views plus views without a project
+    if (opts.projectId) {
+      params.push(opts.projectId);
+      whereClause += ` AND (project_id = $${params.length} OR project_id IS NULL)`;
+    }
+    const rows = await query<any>(
+      `SELECT * FROM saved_views ${whereClause} ORDER BY name ASC`,
+      params,
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * A view the user can see (their own or shared)
+   */
+  static async getView(
+    tenantId: string,
+    userId: string,
+    viewId: string,
+  ): Promise<SavedView | null> {
+    const rows = await query<any>(
+      `SELECT * FROM saved_views WHERE ${VISIBLE} AND id = $3`,
+      [tenantId, userId, viewId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Returns null when the user already has a view with this name
+   */
+  static async createView(
+    tenantId: string,
+    userId: string,
+    input: SavedViewInput,
+  ): Promise<SavedView | null> {
+    const rows = await query<any>(
+      `INSERT INTO saved_views
+         (tenant_id, project_id, user_id, resource, name, description, filters, time_range, shared)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9)
+       ON CONFLICT (user_id, resource, name) DO NOTHING
+       RETURNING *`,
+      [
+        tenantId,
+        input.projectId ?? null,
+        userId,
+        input.resource,
+        input.name,
+        input.description ?? null,
+        JSON.stringify(input.filters || {}),
+        input.timeRange ?? null,
+        input.shared ?? false,
+      ],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Owner-only update; null when the view does not exist or is not the user's
+   */
+  static async updateView(
+    tenantId: string,
+    userId: string,
+    viewId: string,
+    input: SavedViewUpdate,
+  ): Promise<SavedView | null> {
+    const rows = await query<any>(
+      `UPDATE saved_views SET
+         name = COALESCE($4, name),
+         description = CASE WHEN $5::boolean THEN $6 ELSE description END,
+         filters = COALESCE($7::jsonb, filters),
+         time_range = CASE WHEN $8::boolean THEN $9 ELSE time_range END,
+         shared = COALESCE($10, shared),
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND user_id = $3
+       RETURNING *`,
+      [
+        viewId,
+        tenantId,
+        userId,
+        input.name ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+        input.filters ? JSON.stringify(input.filters) : null,
+        input.timeRange !== undefined,
+        input.timeRange ?? null,
+        input.shared ?? null,
+      ],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  static async deleteView(
+    tenantId: string,
+    userId: string,
+    viewId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM saved_views WHERE id = $1 AND tenant_id = $2 AND user_id = $3 RETURNING id`,
+      [viewId, tenantId, userId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Trace list options from a view, with explicitly given options winning
+   * The view's time_range becomes startDate/endDate relative to `now`.
+   */
+  static applyTraceView(
+    view: SavedView,
+    explicit: TraceListQueryOptions,
+    now: Date = new Date(),
+  ): TraceListQueryOptions {
+    const filters = { ...(view.filters as TraceViewFilters) };
+    const range = view.time_range
+      ? resolveRelativeTimeRange(view.time_range, now)
+      : null;
+    if (range) {
+      filters.startDate = range.start;
+      filters.endDate = range.end;
+    }
+    const merged: TraceListQueryOptions = {
+      ...filters,
+      projectId: view.project_id,
+    };
+    for (const [key, value] of Object.entries(explicit)) {
+      const empty =
+        value === undefined ||
+        value === null ||
+        (typeof value === "object" && Object.keys(value).length === 0);
+      if (!empty) {
+        (merged as any)[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Issue filters and (if the view has a time_range) the window relative to `now`
+   */
+  static issueViewFilters(
+    view: SavedView,
+    now: Date = new Date(),
+  ): IssueViewFilters & { startTime?: string; endTime?: string } {
+    const filters = view.filters as IssueViewFilters;
+    const range = view.time_range
+      ? resolveRelativeTimeRange(view.time_range, now)
+      : null;
+    return {
+      severity: filters.severity,
+      signalNames: filters.signalNames,
+      ...(range ? { startTime: range.start, endTime: range.end } : {}),
+    };
+  }
+
+  private static mapRow(row: any): SavedView {
+    let filters = row.filters ?? {};
+    if (typeof filters === "string") {
+      try {
+        filters = JSON.parse(filters);
+      } catch {
+        filters = {};
+      }
+    }
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id ?? null,
+      user_id: row.user_id,
+      resource: row.resource,
+      name: row.name,
+      description: row.description ?? null,
+      filters,
+      time_range: row.time_range ?? null,
+      shared: row.shared === true,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
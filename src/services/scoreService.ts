@@ -0,0 +1,444 @@
+/**
+ * Score Service
+ *
+ * Human annotation scores on traces and spans.
+ * Each project defines named score configs (numeric with optional bounds,
+ * categorical with a fixed set of labels, or boolean); reviewers attach one
+ * score per config to a trace or span, with an optional comment.
+ * End-user feedback stays on the `feedback` event type.
+ */
+
+import { query } from "../db/client.js";
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { TraceQueryService } from "./traceQueryService.js";
+
+export type ScoreDataType = "numeric" | "categorical" | "boolean";
+
+export const SCORE_DATA_TYPES: ScoreDataType[] = [
+  "numeric",
+  "categorical",
+  "boolean",
+];
+
+export interface ScoreCategory {
+  label: string;
+  value?: number;
+}
+
+export interface ScoreConfig {
+  id: string;
+  tenant_id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  data_type: ScoreDataType;
+  min_value: number | null;
+  max_value: number | null;
+  categories: ScoreCategory[] | null;
+  is_archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScoreConfigInput {
+  projectId: string;
+  name: string;
+  description?: string | null;
+  dataType: ScoreDataType;
+  minValue?: number | null;
+  maxValue?: number | null;
+  categories?: ScoreCategory[] | null;
+}
+
+export interface ScoreConfigUpdate {
+  name?: string;
+  description?: string | null;
+  isArchived?: boolean;
+}
+
+export interface AnnotationScore {
+  id: string;
+  project_id: string;
+  trace_id: string;
+  span_id: string | null;
+  config_id: string;
+  name: string;
+  data_type: ScoreDataType;
+  value: number | string | boolean | null;
+  numeric_value: number | null;
+  string_value: string | null;
+  comment: string | null;
+  author_user_id: string | null;
+  author_email: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NormalizedScoreValue =
+  | { ok: true; numeric_value: number | null; string_value: string | null }
+  | { ok: false; message: string };
+
+export class ScoreService {
+  /**
+   * Validate a raw value against its config and split it into stored columns
+   * - numeric: numeric_value, within [min_value, max_value] when set
+   * - categorical: string_value = label, numeric_value = the category's value
+   * - boolean: numeric_value 1/0, string_value "true"/"false"
+   */
+  static normalizeValue(
+    config: Pick<ScoreConfig, "data_type" | "min_value" | "max_value" | "categories">,
+    value: unknown,
+  ): NormalizedScoreValue {
+    switch (config.data_type) {
+      case "numeric": {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          return { ok: false, message: "value must be a number" };
+        }
+        if (config.min_value !== null && value < config.min_value) {
+          return { ok: false, message: `value must be >= ${config.min_value}` };
+        }
+        if (config.max_value !== null && value > config.max_value) {
+          return { ok: false, message: `value must be <= ${config.max_value}` };
+        }
+        return { ok: true, numeric_value: value, string_value: null };
+      }
+      case "categorical": {
+        const category = (config.categories || []).find(
+          (c) => c.label === value,
+        );
+        if (!category) {
+          const labels = (config.categories || []).map((c) => c.label);
+          return {
+            ok: false,
+            message: `value must be one of: ${labels.join(", ")}`,
+          };
+        }
+        return {
+          ok: true,
+          numeric_value: category.value ?? null,
+          string_value: category.label,
+        };
+      }
+      case "boolean": {
+        if (typeof value !== "boolean") {
+          return { ok: false, message: "value must be a boolean" };
+        }
+        return {
+          ok: true,
+          numeric_value: value ? 1 : 0,
+          string_value: value ? "true" : "false",
+        };
+      }
+      default:
+        return { ok: false, message: "Unknown score data type" };
+    }
+  }
+
+  static async listConfigs(
+    tenantId: string,
+    projectId?: string | null,
+    includeArchived: boolean = false,
+  ): Promise<ScoreConfig[]> {
+    const conditions = ["tenant_id = $1"];
+    const params: any[] = [tenantId];
+    if (projectId) {
+      params.push(projectId);
+      conditions.push(`project_id = $${params.length}`);
+    }
+    if (!includeArchived) {
+      conditions.push("is_archived = FALSE");
+    }
+    const rows = await query<any>(
+      `SELECT * FROM score_configs WHERE ${conditions.join(" AND ")} ORDER BY name ASC`,
+      params,
+    );
+    return rows.map((row) => this.mapConfig(row));
+  }
+
+  static async getConfig(
+    tenantId: string,
+    configId: string,
+  ): Promise<ScoreConfig | null> {
+    const rows = await query<any>(
+      `SELECT * FROM score_configs WHERE id = $1 AND tenant_id = $2`,
+      [configId, tenantId],
+    );
+    return rows[0] ? this.mapConfig(rows[0]) : null;
+  }
+
+  /**
+   * Create a score config; returns null if the project already has one with this name
+   */
+  static async createConfig(
+    tenantId: string,
+    userId: string | null,
+    input: ScoreConfigInput,
+  ): Promise<ScoreConfig | null> {
+    const rows = await query<any>(
+      `INSERT INTO score_configs (
+         tenant_id, project_id, name, description, data_type,
+         min_value, max_value, categories, created_by_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (project_id, name) DO NOTHING
+       RETURNING *`,
+      [
+        tenantId,
+        input.projectId,
+        input.name,
+        input.description ?? null,
+        input.dataType,
+        input.dataType === "numeric" ? input.minValue ?? null : null,
+        input.dataType === "numeric" ? input.maxValue ?? null : null,
+        input.dataType === "categorical"
+          ? JSON.stringify(input.categories || [])
+          : null,
+        userId,
+      ],
+    );
+    return rows[0] ? this.mapConfig(rows[0]) : null;
+  }
+
+  /**
+   * Update name/description/archived state
+   * The data type and value constraints are fixed once a config exists so
+   * stored scores stay comparable.
+   */
+  static async updateConfig(
+    tenantId: string,
+    configId: string,
+    input: ScoreConfigUpdate,
+  ): Promise<ScoreConfig | null> {
+    const rows = await query<any>(
+      `UPDATE score_configs SET
+         name = COALESCE($3, name),
+         description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+         is_archived = COALESCE($6, is_archived),
+         updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      [
+        configId,
+        tenantId,
+        input.name ?? null,
+        input.description !== undefined,
+        input.description ?? null,
+        input.isArchived ?? null,
+      ],
+    );
+    return rows[0] ? this.mapConfig(rows[0]) : null;
+  }
+
+  /**
+   * Delete a config and every score recorded against it
+   */
+  static async deleteConfig(
+    tenantId: string,
+    configId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM score_configs WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [configId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Check that a trace (and span, if given) exists in the project
+   */
+  static async traceExists(
+    tenantId: string,
+    projectId: string,
+    traceId: string,
+    spanId?: string | null,
+  ): Promise<boolean> {
+    const result: any = await TinybirdRepository.getTraceEvents(
+      traceId,
+      tenantId,
+      projectId,
+    );
+    const events: any[] = Array.isArray(result) ? result : result?.data || [];
+    if (events.length > 0) {
+      return !spanId || events.some((event) => event.span_id === spanId);
+    }
+
+    // Traces that only exist in analysis_results have a single root span
+    const row = await TraceQueryService.getTraceDetail(
+      traceId,
+      tenantId,
+      projectId,
+    );
+    return !!row && (!spanId || spanId === row.span_id);
+  }
+
+  /**
+   * Record a score; a reviewer re-scoring the same trace/span/config replaces
+   * their previous value
+   */
+  static async upsertScore(
+    tenantId: string,
+    config: ScoreConfig,
+    traceId: string,
+    spanId: string | null,
+    userId: string | null,
+    value: { numeric_value: number | null; string_value: string | null },
+    comment?: string | null,
+  ): Promise<AnnotationScore> {
+    const rows = await query<{ id: string }>(
+      `INSERT INTO scores (
+         tenant_id, project_id, config_id, trace_id, span_id,
+         numeric_value, string_value, comment, author_user_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (config_id, trace_id, span_id, author_user_id) DO UPDATE SET
+         numeric_value = EXCLUDED.numeric_value,
+         string_value = EXCLUDED.string_value,
+         comment = EXCLUDED.comment,
+         updated_at = NOW()
+       RETURNING id`,
+      [
+        tenantId,
+        config.project_id,
+        config.id,
+        traceId,
+        spanId ?? "",
+        value.numeric_value,
+        value.string_value,
+        comment ?? null,
+        userId,
+      ],
+    );
+    const [score] = await this.queryScores("s.id = $2", [tenantId, rows[0].id]);
+    return score;
+  }
+
+  /**
+   * Scores on a trace; pass spanId to restrict to one span (null = trace-level only)
+   */
+  static async getScoresForTrace(
+    tenantId: string,
+    traceId: string,
+    spanId?: string | null,
+  ): Promise<AnnotationScore[]> {
+    if (spanId === undefined) {
+      return this.queryScores("s.trace_id = $2", [tenantId, traceId]);
+    }
+    return this.queryScores("s.trace_id = $2 AND s.span_id = $3", [
+      tenantId,
+      traceId,
+      spanId ?? "",
+    ]);
+  }
+
+  static async deleteScore(
+    tenantId: string,
+    scoreId: string,
+  ): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+      `DELETE FROM scores WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [scoreId, tenantId],
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Attach scores to a trace detail tree: `tree.scores` holds every score,
+   * each span in allSpans gets the scores recorded against its span_id.
+   * Failures are logged and leave the tree without scores.
+   */
+  static async attachToTree(
+    tree: any,
+    tenantId: string,
+    traceId: string,
+  ): Promise<void> {
+    if (!tree) return;
+    try {
+      const scores = await this.getScoresForTrace(tenantId, traceId);
+      tree.scores = scores;
+
+      const bySpan = new Map<string, AnnotationScore[]>();
+      for (const score of scores) {
+        if (!score.span_id) continue;
+        const list = bySpan.get(score.span_id) || [];
+        list.push(score);
+        bySpan.set(score.span_id, list);
+      }
+      for (const span of tree.allSpans || []) {
+        const spanScores = bySpan.get(span.span_id);
+        if (spanScores) span.scores = spanScores;
+      }
+    } catch (error) {
+      console.error(
+        `[ScoreService] Failed to load scores for trace ${traceId}:`,
+        error,
+      );
+    }
+  }
+
+  private static async queryScores(
+    where: string,
+    params: any[],
+  ): Promise<AnnotationScore[]> {
+    const rows = await query<any>(
+      `SELECT s.*, c.name, c.data_type, u.email AS author_email
+       FROM scores s
+       JOIN score_configs c ON c.id = s.config_id
+       LEFT JOIN users u ON u.id = s.author_user_id
+       WHERE s.tenant_id = $1 AND ${where}
+       ORDER BY s.created_at ASC`,
+      params,
+    );
+    return rows.map((row) => this.mapScore(row));
+  }
+
+  private static mapConfig(row: any): ScoreConfig {
+    let categories: ScoreCategory[] | null = row.categories ?? null;
+    if (typeof categories === "string") {
+      try {
+        categories = JSON.parse(categories);
+      } catch {
+        categories = null;
+      }
+    }
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id,
+      name: row.name,
+      description: row.description,
+      data_type: row.data_type,
+      min_value: row.min_value === null ? null : Number(row.min_value),
+      max_value: row.max_value === null ? null : Number(row.max_value),
+      categories,
+      is_archived: row.is_archived,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private static mapScore(row: any): AnnotationScore {
+    const numericValue =
+      row.numeric_value === null ? null : Number(row.numeric_value);
+    const value =
+      row.data_type === "numeric"
+        ? numericValue
+        : row.data_type === "boolean"
+          ? row.string_value === "true"
+          : row.string_value;
+    return {
+      id: row.id,
+      project_id: row.project_id,
+      trace_id: row.trace_id,
+      span_id: row.span_id || null,
+      config_id: row.config_id,
+      name: row.name,
+      data_type: row.data_type,
+      value,
+      numeric_value: numericValue,
+      string_value: row.string_value,
+      comment: row.comment,
+      author_user_id: row.author_user_id,
+      author_email: row.author_email ?? null,
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
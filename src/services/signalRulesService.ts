@@ -0,0 +1,478 @@
+/**
+ * Signal Rules Service
+ *
+ * Configurable Layer 2 threshold rules. Built-in defaults reproduce the
+ * original hard-coded thresholds; tenants can add rules scoped by project,
+ * route, model and event type, or override/disable a default by creating a
+ * rule with the same signal_name in a narrower scope.
+ */
+
+import { query } from "../db/client.js";
+import { EventType } from "../types/events.js";
+
+export type SignalRuleOperator = "gt" | "gte" | "lt" | "lte" | "eq";
+export type SignalRuleSeverity = "low" | "medium" | "high";
+
+export interface SignalRule {
+  id: string;
+  tenant_id: string | null; // null for built-in defaults
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  signal_name: string;
+  signal_type: "threshold" | "spike";
+  event_type: EventType;
+  route: string | null;
+  model: string | null;
+  metric: string;
+  operator: SignalRuleOperator;
+  threshold: number;
+  severity: SignalRuleSeverity;
+  enabled: boolean;
+  source: "default" | "custom";
+  created_by_user_id?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface SignalRuleInput {
+  projectId?: string | null;
+  name: string;
+  description?: string | null;
+  signalName: string;
+  signalType?: "threshold" | "spike";
+  eventType: EventType;
+  route?: string | null;
+  model?: string | null;
+  metric: string;
+  operator?: SignalRuleOperator;
+  threshold: number;
+  severity?: SignalRuleSeverity;
+  enabled?: boolean;
+}
+
+/**
+ * Context of the event a rule is evaluated against
+ */
+export interface SignalRuleContext {
+  projectId: string;
+  eventType: string;
+  route: string | null;
+  model: string | null;
+}
+
+function defaultRule(
+  rule: Omit<
+    SignalRule,
+    "id" | "tenant_id" | "project_id" | "route" | "model" | "enabled" | "source" | "description"
+  > & { description?: string }
+): SignalRule {
+  return {
+    id: `default:${rule.signal_name}`,
+    tenant_id: null,
+    project_id: null,
+    route: null,
+    model: null,
+    enabled: true,
+    source: "default",
+    description: rule.description ?? null,
+    ...rule,
+  };
+}
+
+/**
+ * Built-in rules (previously hard-coded in SignalsService)
+ */
+export const DEFAULT_SIGNAL_RULES: SignalRule[] = [
+  defaultRule({
+    name: "LLM latency > 5s",
+    signal_name: "high_latency",
+    signal_type: "threshold",
+    event_type: "llm_call",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 5000,
+    severity: "high",
+  }),
+  defaultRule({
+    name: "LLM latency > 2s",
+    signal_name: "medium_latency",
+    signal_type: "threshold",
+    event_type: "llm_call",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 2000,
+    severity: "medium",
+  }),
+  defaultRule({
+    name: "LLM tokens > 100k",
+    signal_name: "token_spike",
+    signal_type: "spike",
+    event_type: "llm_call",
+    metric: "total_tokens",
+    operator: "gt",
+    threshold: 100000,
+    severity: "high",
+  }),
+  defaultRule({
+    name: "LLM cost > $10",
+    signal_name: "cost_spike",
+    signal_type: "spike",
+    event_type: "llm_call",
+    metric: "cost",
+    operator: "gt",
+    threshold: 10,
+    severity: "high",
+  }),
+  defaultRule({
+    name: "Tool latency > 5s",
+    signal_name: "tool_latency",
+    signal_type: "threshold",
+    event_type: "tool_call",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 5000,
+    severity: "medium",
+  }),
+  defaultRule({
+    name: "Embedding latency > 5s",
+    signal_name: "embedding_high_latency",
+    signal_type: "threshold",
+    event_type: "embedding",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 5000,
+    severity: "medium",
+  }),
+  defaultRule({
+    name: "Vector DB query > 3s",
+    signal_name: "vector_db_slow_query",
+    signal_type: "threshold",
+    event_type: "vector_db_operation",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 3000,
+    severity: "medium",
+  }),
+  defaultRule({
+    name: "Cache latency > 1s",
+    signal_name: "cache_high_latency",
+    signal_type: "threshold",
+    event_type: "cache_operation",
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 1000,
+    severity: "medium",
+  }),
+];
+
+const SEVERITY_RANK: Record<SignalRuleSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+export class SignalRulesService {
+  // Custom rules per tenant, cached briefly so ingestion doesn't hit Postgres per batch
+  private static cache = new Map<string, { rules: SignalRule[]; expires: number }>();
+  private static readonly CACHE_TTL_MS = 60 * 1000;
+
+  /**
+   * Custom rules for a tenant (cached). Returns [] if Postgres is unavailable,
+   * so ingestion falls back to the defaults.
+   */
+  static async getCustomRules(tenantId: string): Promise<SignalRule[]> {
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.expires > Date.now()) {
+      return cached.rules;
+    }
+
+    try {
+      const rows = await query(
+        `SELECT * FROM signal_rules WHERE tenant_id = $1`,
+        [tenantId]
+      );
+      const rules = rows.map((row) => this.mapRow(row));
+      this.cache.set(tenantId, {
+        rules,
+        expires: Date.now() + this.CACHE_TTL_MS,
+      });
+      return rules;
+    } catch (error) {
+      console.error(
+        "[SignalRulesService] Failed to load signal rules (using defaults):",
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    }
+  }
+
+  static invalidateCache(tenantId: string): void {
+    this.cache.delete(tenantId);
+  }
+
+  /**
+   * Pick the rules that apply to an event
+   *
+   * For each signal_name the most specific matching rule wins
+   * (project > route > model, custom over default). A winning rule that is
+   * disabled suppresses that signal.
+   */
+  static resolveRules(
+    customRules: SignalRule[],
+    context: SignalRuleContext
+  ): SignalRule[] {
+    const best = new Map<string, { rule: SignalRule; score: number }>();
+
+    for (const rule of [...DEFAULT_SIGNAL_RULES, ...customRules]) {
+      if (rule.event_type !== context.eventType) continue;
+      if (rule.project_id && rule.project_id !== context.projectId) continue;
+      if (rule.route && rule.route !== context.route) continue;
+      if (
+        rule.model &&
+        (!context.model || rule.model.toLowerCase() !== context.model.toLowerCase())
+      ) {
+        continue;
+      }
+
+      const score =
+        (rule.source === "custom" ? 1 : 0) +
+        (rule.project_id ? 8 : 0) +
+        (rule.route ? 4 : 0) +
+        (rule.model ? 2 : 0);
+      const current = best.get(rule.signal_name);
+      if (
+        !current ||
+        score > current.score ||
+        (score === current.score &&
+          (rule.updated_at?.getTime() || 0) > (current.rule.updated_at?.getTime() || 0))
+      ) {
+        best.set(rule.signal_name, { rule, score });
+      }
+    }
+
+    return [...best.values()]
+      .map((entry) => entry.rule)
+      .filter((rule) => rule.enabled);
+  }
+
+  /**
+   * Evaluate resolved rules against an event's attributes
+   *
+   * When several rules on the same metric fire, only the most severe is kept
+   * (e.g. high_latency suppresses medium_latency for the same span).
+   */
+  static evaluate(
+    rules: SignalRule[],
+    eventAttributes: Record<string, any> | null | undefined
+  ): Array<{ rule: SignalRule; value: number }> {
+    const fired: Array<{ rule: SignalRule; value: number }> = [];
+    for (const rule of rules) {
+      const value = this.getMetricValue(eventAttributes, rule.metric);
+      if (value === null) continue;
+      if (this.compare(value, rule.operator, rule.threshold)) {
+        fired.push({ rule, value });
+      }
+    }
+
+    const maxSeverityByMetric = new Map<string, number>();
+    for (const { rule } of fired) {
+      const rank = SEVERITY_RANK[rule.severity];
+      maxSeverityByMetric.set(
+        rule.metric,
+        Math.max(maxSeverityByMetric.get(rule.metric) || 0, rank)
+      );
+    }
+    return fired.filter(
+      ({ rule }) => SEVERITY_RANK[rule.severity] === maxSeverityByMetric.get(rule.metric)
+    );
+  }
+
+  /**
+   * Read a numeric metric (dot path) from event-type attributes, e.g. "latency_ms"
+   */
+  static getMetricValue(
+    eventAttributes: Record<string, any> | null | undefined,
+    metric: string
+  ): number | null {
+    let current: any = eventAttributes;
+    for (const part of metric.split(".")) {
+      if (current === null || current === undefined || typeof current !== "object") {
+        return null;
+      }
+      current = current[part];
+    }
+    if (typeof current === "number" && Number.isFinite(current)) return current;
+    if (typeof current === "string" && current.trim() !== "") {
+      const parsed = Number(current);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+  }
+
+  /**
+   * Compare a value against a threshold (also used by alert rules)
+   */
+  static compare(
+    value: number,
+    operator: SignalRuleOperator,
+    threshold: number
+  ): boolean {
+    switch (operator) {
+      case "gt":
+        return value > threshold;
+      case "gte":
+        return value >= threshold;
+      case "lt":
+        return value < threshold;
+      case "lte":
+        return value <= threshold;
+      case "eq":
+        return value === threshold;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * List custom rules for a tenant (optionally one project, including tenant-wide rules)
+   */
+  static async listRules(
+    tenantId: string,
+    projectId?: string | null
+  ): Promise<SignalRule[]> {
+    let whereClause = "WHERE tenant_id = $1";
+    const params: any[] = [tenantId];
+    if (projectId) {
+      whereClause += " AND (project_id = $2 OR project_id IS NULL)";
+      params.push(projectId);
+    }
+    const rows = await query(
+      `SELECT * FROM signal_rules ${whereClause}
+       ORDER BY event_type, signal_name, created_at DESC`,
+      params
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  static async getRule(tenantId: string, ruleId: string): Promise<SignalRule | null> {
+    const rows = await query(
+      `SELECT * FROM signal_rules WHERE id = $1 AND tenant_id = $2`,
+      [ruleId, tenantId]
+    );
+    return rows.length > 0 ? this.mapRow(rows[0]) : null;
+  }
+
+  static async createRule(
+    tenantId: string,
+    userId: string | null,
+    input: SignalRuleInput
+  ): Promise<SignalRule> {
+    const rows = await query(
+      `INSERT INTO signal_rules (
+        tenant_id, project_id, name, description, signal_name, signal_type,
+        event_type, route, model, metric, operator, threshold, severity,
+        enabled, created_by_user_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING *`,
+      [
+        tenantId,
+        input.projectId ?? null,
+        input.name,
+        input.description ?? null,
+        input.signalName,
+        input.signalType ?? "threshold",
+        input.eventType,
+        input.route ?? null,
+        input.model ?? null,
+        input.metric,
+        input.operator ?? "gt",
+        input.threshold,
+        input.severity ?? "medium",
+        input.enabled ?? true,
+        userId,
+      ]
+    );
+    this.invalidateCache(tenantId);
+    return this.mapRow(rows[0]);
+  }
+
+  static async updateRule(
+    tenantId: string,
+    ruleId: string,
+    input: Partial<SignalRuleInput>
+  ): Promise<SignalRule | null> {
+    const columns: Record<keyof SignalRuleInput, string> = {
+      projectId: "project_id",
+      name: "name",
+      description: "description",
+      signalName: "signal_name",
+      signalType: "signal_type",
+      eventType: "event_type",
+      route: "route",
+      model: "model",
+      metric: "metric",
+      operator: "operator",
+      threshold: "threshold",
+      severity: "severity",
+      enabled: "enabled",
+    };
+
+    const sets: string[] = [];
+    const params: any[] = [ruleId, tenantId];
+    let paramIndex = 3;
+    for (const [key, column] of Object.entries(columns)) {
+      const value = (input as any)[key];
+      if (value === undefined) continue;
+      sets.push(`${column} = $${paramIndex}`);
+      params.push(value);
+      paramIndex++;
+    }
+
+    if (sets.length === 0) {
+      return this.getRule(tenantId, ruleId);
+    }
+
+    const rows = await query(
+      `UPDATE signal_rules SET ${sets.join(", ")}, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+      params
+    );
+    this.invalidateCache(tenantId);
+    return rows.length > 0 ? this.mapRow(rows[0]) : null;
+  }
+
+  static async deleteRule(tenantId: string, ruleId: string): Promise<boolean> {
+    const rows = await query(
+      `DELETE FROM signal_rules WHERE id = $1 AND tenant_id = $2 RETURNING id`,
+      [ruleId, tenantId]
+    );
+    this.invalidateCache(tenantId);
+    return rows.length > 0;
+  }
+
+  private static mapRow(row: any): SignalRule {
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id ?? null,
+      name: row.name,
+      description: row.description ?? null,
+      signal_name: row.signal_name,
+      signal_type: row.signal_type === "spike" ? "spike" : "threshold",
+      event_type: row.event_type,
+      route: row.route ?? null,
+      model: row.model ?? null,
+      metric: row.metric,
+      operator: row.operator,
+      threshold: Number(row.threshold),
+      severity: row.severity,
+      enabled: row.enabled !== false,
+      source: "custom",
+      created_by_user_id: row.created_by_user_id ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
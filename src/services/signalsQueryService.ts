@@ -7,6 +7,12 @@
 
 import { TinybirdRepository } from "./tinybirdRepository.js";
 import { Signal } from "./signalsService.js";
+import {
+  chDateTime,
+  chString,
+  chStringList,
+  chUuid,
+} from "../utils/clickhouseSql.js";
 
 export interface SignalQuery {
   tenantId: string;
@@ -41,52 +47,59 @@ export class SignalsQueryService {
       throw new Error("Invalid tenant_id format");
     }
 
-    const escapedTenantId = tenantId.replace(/'/g, "''");
-    const escapedProjectId = projectId ? projectId.replace(/'/g, "''") : null;
-    const escapedTraceId = traceId ? traceId.replace(/'/g, "''") : null;
+    // SECURITY: Tinybird's SQL API has no parameter binding, so every value
+    // below goes through the literal helpers (invalid ids/dates throw)
+    const conditions = [
+      `tenant_id = ${chUuid(tenantId)}`,
+      `event_type = 'error'`,
+      `JSONHas(attributes_json, 'signal')`,
+    ];
 
-    // Build SQL query to extract signals from canonical_events
-    // Signals are stored as event_type="error" with signal data in attributes_json.signal
-    let sql = `
-      SELECT 
-        tenant_id,
-        project_id,
-        environment,
-        trace_id,
-        span_id,
-        timestamp,
-        attributes_json
-      FROM canonical_events
-      WHERE tenant_id = '${escapedTenantId}'
-        AND event_type = 'error'
-        AND attributes_json LIKE '%"signal"%'
-    `;
+    if (projectId) {
+      conditions.push(`project_id = ${chUuid(projectId)}`);
+    }
 
-    if (escapedProjectId) {
-      sql += ` AND project_id = '${escapedProjectId}'`;
+    if (traceId) {
+      conditions.push(`trace_id = ${chString(traceId)}`);
+    }
+
+    if (signalNames && signalNames.length > 0) {
+      conditions.push(
+        `JSONExtractString(attributes_json, 'signal', 'signal_name') IN (${chStringList(signalNames)})`
+      );
     }
 
-    if (escapedTraceId) {
-      sql += ` AND trace_id = '${escapedTraceId}'`;
+    if (severity) {
+      conditions.push(
+        `JSONExtractString(attributes_json, 'signal', 'signal_severity') = ${chString(severity)}`
+      );
     }
 
     if (startTime) {
-      // Tinybird/ClickHouse: parse ISO 8601 (including milliseconds + Z) safely into DateTime64(3)
-      sql += ` AND timestamp >= parseDateTime64BestEffort('${startTime.replace(
-        /'/g,
-        "''"
-      )}', 3)`;
+      conditions.push(`timestamp >= ${chDateTime(startTime)}`);
     }
 
     if (endTime) {
-      // Tinybird/ClickHouse: parse ISO 8601 (including milliseconds + Z) safely into DateTime64(3)
-      sql += ` AND timestamp <= parseDateTime64BestEffort('${endTime.replace(
-        /'/g,
-        "''"
-      )}', 3)`;
+      conditions.push(`timestamp <= ${chDateTime(endTime)}`);
     }
 
-    sql += ` ORDER BY timestamp DESC LIMIT ${limit} OFFSET ${offset}`;
+    const safeLimit = Math.min(Math.max(Math.floor(Number(limit)) || 0, 0), 100000);
+    const safeOffset = Math.max(Math.floor(Number(offset)) || 0, 0);
+
+    // Signals are stored as event_type="error" with signal data in attributes_json.signal
+    const sql = `
+      SELECT 
+        tenant_id,
+        project_id,
+        environment,
+        trace_id,
+        span_id,
+        timestamp,
+        attributes_json
+      FROM canonical_events
+      WHERE ${conditions.join("\n        AND ")}
+      ORDER BY timestamp DESC LIMIT ${safeLimit} OFFSET ${safeOffset}
+    `;
 
     try {
       const result = await TinybirdRepository.rawQuery(sql, {
@@ -117,16 +130,6 @@ export class SignalsQueryService {
           const signalData = attributes?.signal;
           if (signalData && typeof signalData === "object") {
 
-            // Filter by signal name if specified
-            if (signalNames && signalNames.length > 0 && !signalNames.includes(signalData.signal_name)) {
-              continue;
-            }
-
-            // Filter by severity if specified
-            if (severity && signalData.signal_severity !== severity) {
-              continue;
-            }
-
             signals.push({
               tenant_id: event.tenant_id,
               project_id: event.project_id,
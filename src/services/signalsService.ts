@@ -11,6 +11,12 @@
 import { CanonicalEvent, EventType } from "../types/events.js";
 import { TinybirdCanonicalEvent } from "../types/events.js";
 import { CanonicalEventService } from "./canonicalEventService.js";
+import { SignalRule, SignalRulesService } from "./signalRulesService.js";
+import { BaselineService, MetricBaseline } from "./baselineService.js";
+import { IssuesService } from "./issuesService.js";
+import { LiveTailService } from "./liveTailService.js";
+import { env } from "../config/env.js";
+import { createHash } from "crypto";
 
 export interface Signal {
   tenant_id: string;
@@ -18,13 +24,33 @@ export interface Signal {
   trace_id: string;
   span_id: string;
   signal_name: string;
-  signal_type: "threshold" | "error" | "loop" | "spike" | "mismatch";
+  signal_type: "threshold" | "error" | "loop" | "spike" | "drop" | "mismatch";
   signal_value: number | boolean | string;
   signal_severity: "low" | "medium" | "high";
   metadata?: Record<string, any>;
   timestamp: string;
 }
 
+// Loop detection: repeats at or above these counts within one trace emit a signal
+const LOOP_MIN_ITERATIONS = 3;
+const LOOP_HIGH_SEVERITY_ITERATIONS = 5;
+// Longest agent route cycle (in steps) that is checked for repetition
+const ROUTE_CYCLE_MAX_PERIOD = 4;
+// Baseline metrics checked per llm_call, and the signal each one emits
+const ANOMALY_SIGNALS: Array<{ metric: "latency_ms" | "cost"; signal: string }> =
+  [
+    { metric: "latency_ms", signal: "latency_anomaly" },
+    { metric: "cost", signal: "cost_anomaly" },
+  ];
+
+/**
+ * Event with parsed attributes, as consumed by loop detection
+ */
+export interface ParsedSignalEvent {
+  event: TinybirdCanonicalEvent;
+  attributes: any;
+}
+
 /**
  * Layer 2 Signals Service
  * Generates deterministic signals from events
@@ -35,8 +61,29 @@ export class SignalsService {
    */
   static async processEvents(events: TinybirdCanonicalEvent[]): Promise<void> {
     const signals: Signal[] = [];
+    const parsedEvents: ParsedSignalEvent[] = [];
     let parseErrors = 0;
 
+    // Load custom threshold rules once per tenant in the batch
+    const rulesByTenant = new Map<string, SignalRule[]>();
+    for (const tenantId of new Set(events.map((e) => e.tenant_id))) {
+      rulesByTenant.set(
+        tenantId,
+        await SignalRulesService.getCustomRules(tenantId),
+      );
+    }
+
+    // Rolling baselines for statistical anomaly detection
+    const baselinesByTenant = new Map<string, Map<string, MetricBaseline>>();
+    if (events.some((e) => e.event_type === "llm_call")) {
+      for (const tenantId of new Set(events.map((e) => e.tenant_id))) {
+        baselinesByTenant.set(
+          tenantId,
+          await BaselineService.getBaselines(tenantId),
+        );
+      }
+    }
+
     for (const event of events) {
       // Safely parse attributes_json - skip events with invalid JSON
       let attributes: any;
@@ -63,92 +110,29 @@ export class SignalsService {
         continue;
       }
 
+      parsedEvents.push({ event, attributes });
       const eventTimestamp = new Date(event.timestamp).toISOString();
 
-      // Process LLM call events
-      if (event.event_type === "llm_call" && attributes.llm_call) {
-        const llmCall = attributes.llm_call;
-
-        // Latency threshold check (p95/p99)
-        if (llmCall.latency_ms) {
-          // Simple threshold: >5s is high, >2s is medium
-          if (llmCall.latency_ms > 5000) {
-            signals.push({
-              tenant_id: event.tenant_id,
-              project_id: event.project_id,
-              trace_id: event.trace_id,
-              span_id: event.span_id,
-              signal_name: "high_latency",
-              signal_type: "threshold",
-              signal_value: llmCall.latency_ms,
-              signal_severity: "high",
-              metadata: {
-                model: llmCall.model,
-                threshold_ms: 5000,
-              },
-              timestamp: eventTimestamp,
-            });
-          } else if (llmCall.latency_ms > 2000) {
-            signals.push({
-              tenant_id: event.tenant_id,
-              project_id: event.project_id,
-              trace_id: event.trace_id,
-              span_id: event.span_id,
-              signal_name: "medium_latency",
-              signal_type: "threshold",
-              signal_value: llmCall.latency_ms,
-              signal_severity: "medium",
-              metadata: {
-                model: llmCall.model,
-                threshold_ms: 2000,
-              },
-              timestamp: eventTimestamp,
-            });
-          }
-        }
-
-        // Token/cost spike detection
-        if (llmCall.total_tokens) {
-          // Simple threshold: >100k tokens is a spike
-          if (llmCall.total_tokens > 100000) {
-            signals.push({
-              tenant_id: event.tenant_id,
-              project_id: event.project_id,
-              trace_id: event.trace_id,
-              span_id: event.span_id,
-              signal_name: "token_spike",
-              signal_type: "spike",
-              signal_value: llmCall.total_tokens,
-              signal_severity: "high",
-              metadata: {
-                model: llmCall.model,
-                input_tokens: llmCall.input_tokens,
-                output_tokens: llmCall.output_tokens,
-              },
-              timestamp: eventTimestamp,
-            });
-          }
-        }
+      // Configurable threshold rules (latency, token/cost spikes, ...)
+      signals.push(
+        ...this.evaluateThresholdRules(
+          event,
+          attributes,
+          rulesByTenant.get(event.tenant_id) || [],
+          eventTimestamp,
+        ),
+      );
 
-        // Cost spike detection
-        if (llmCall.cost && llmCall.cost > 10) {
-          // $10+ per call is a spike
-          signals.push({
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            signal_name: "cost_spike",
-            signal_type: "spike",
-            signal_value: llmCall.cost,
-            signal_severity: "high",
-            metadata: {
-              model: llmCall.model,
-              tokens: llmCall.total_tokens,
-            },
-            timestamp: eventTimestamp,
-          });
-        }
+      // Deviations from the route/model baseline
+      if (event.event_type === "llm_call" && attributes.llm_call) {
+        signals.push(
+          ...this.detectAnomalies(
+            event,
+            attributes.llm_call,
+            baselinesByTenant.get(event.tenant_id),
+            eventTimestamp,
+          ),
+        );
       }
 
       // Process tool call events
@@ -192,24 +176,6 @@ export class SignalsService {
             timestamp: eventTimestamp,
           });
         }
-
-        // High latency for tool calls
-        if (toolCall.latency_ms > 5000) {
-          signals.push({
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            signal_name: "tool_latency",
-            signal_type: "threshold",
-            signal_value: toolCall.latency_ms,
-            signal_severity: "medium",
-            metadata: {
-              tool_name: toolCall.tool_name,
-            },
-            timestamp: eventTimestamp,
-          });
-        }
       }
 
       // Process error events
@@ -234,24 +200,6 @@ export class SignalsService {
       // Process embedding events
       if (event.event_type === "embedding" && attributes.embedding) {
         const emb = attributes.embedding;
-        if (emb.latency_ms && emb.latency_ms > 5000) {
-          signals.push({
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            signal_name: "embedding_high_latency",
-            signal_type: "threshold",
-            signal_value: emb.latency_ms,
-            signal_severity: "medium",
-            metadata: {
-              model: emb.model,
-              dimension_count: emb.dimension_count,
-              threshold_ms: 5000,
-            },
-            timestamp: eventTimestamp,
-          });
-        }
         if (
           emb.dimension_count &&
           (emb.dimension_count < 1 || emb.dimension_count > 10000)
@@ -277,25 +225,6 @@ export class SignalsService {
         attributes.vector_db_operation
       ) {
         const vdb = attributes.vector_db_operation;
-        if (vdb.latency_ms && vdb.latency_ms > 3000) {
-          signals.push({
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            signal_name: "vector_db_slow_query",
-            signal_type: "threshold",
-            signal_value: vdb.latency_ms,
-            signal_severity: "medium",
-            metadata: {
-              operation_type: vdb.operation_type,
-              index_name: vdb.index_name,
-              results_count: vdb.results_count,
-              threshold_ms: 3000,
-            },
-            timestamp: eventTimestamp,
-          });
-        }
         if (
           vdb.operation_type === "vector_search" &&
           typeof vdb.results_count === "number" &&
@@ -319,32 +248,6 @@ export class SignalsService {
         }
       }
 
-      // Process cache_operation events (high latency or repeated misses could indicate issues)
-      if (
-        event.event_type === "cache_operation" &&
-        attributes.cache_operation
-      ) {
-        const cache = attributes.cache_operation;
-        if (cache.latency_ms && cache.latency_ms > 1000) {
-          signals.push({
-            tenant_id: event.tenant_id,
-            project_id: event.project_id,
-            trace_id: event.trace_id,
-            span_id: event.span_id,
-            signal_name: "cache_high_latency",
-            signal_type: "threshold",
-            signal_value: cache.latency_ms,
-            signal_severity: "medium",
-            metadata: {
-              cache_backend: cache.cache_backend,
-              hit_status: cache.hit_status,
-              threshold_ms: 1000,
-            },
-            timestamp: eventTimestamp,
-          });
-        }
-      }
-
       // Process agent_create events (e.g. missing tools when agent type suggests tools)
       if (event.event_type === "agent_create" && attributes.agent_create) {
         const agent = attributes.agent_create;
@@ -393,109 +296,12 @@ export class SignalsService {
       }
     }
 
+    // Loop detection needs the whole trace, not a single event
+    signals.push(...this.detectLoops(parsedEvents));
+
     // Store signals as canonical events
-    // Note: Signals are stored as separate events with signal metadata in attributes
-    // In a full implementation, you might want a dedicated "signal" event_type
-    // For now, we'll use a metadata approach or store as error events with signal attributes
     if (signals.length > 0) {
-      // Get environment from first event (all events in batch should have same env)
-      const environment = events.length > 0 ? events[0].environment : "prod";
-
-      // Create a map to look up original events by trace_id + span_id
-      // This allows signals to inherit conversation_id, session_id, and user_id from source events
-      const eventMap = new Map<string, TinybirdCanonicalEvent>();
-      for (const event of events) {
-        const key = `${event.trace_id}:${event.span_id}`;
-        // Use the first event with this key (prefer events with non-empty conversation/session/user IDs)
-        if (!eventMap.has(key)) {
-          eventMap.set(key, event);
-        } else {
-          // Prefer events with actual conversation/session/user IDs over empty strings
-          const existing = eventMap.get(key)!;
-          const hasExistingValues =
-            (existing.conversation_id &&
-              existing.conversation_id.trim() !== "") ||
-            (existing.session_id && existing.session_id.trim() !== "") ||
-            (existing.user_id && existing.user_id.trim() !== "");
-          const hasNewValues =
-            (event.conversation_id && event.conversation_id.trim() !== "") ||
-            (event.session_id && event.session_id.trim() !== "") ||
-            (event.user_id && event.user_id.trim() !== "");
-          if (!hasExistingValues && hasNewValues) {
-            eventMap.set(key, event);
-          }
-        }
-      }
-
-      const signalEvents: TinybirdCanonicalEvent[] = signals.map((signal) => {
-        // Find the original event that generated this signal
-        const key = `${signal.trace_id}:${signal.span_id}`;
-        const sourceEvent = eventMap.get(key);
-
-        // Inherit conversation_id, session_id, user_id from source event
-        // Use empty string only if source event doesn't have them
-        // CRITICAL: These fields are REQUIRED (not nullable) in Tinybird
-        const conversationId =
-          sourceEvent?.conversation_id &&
-          sourceEvent.conversation_id.trim() !== ""
-            ? sourceEvent.conversation_id
-            : "";
-        const sessionId =
-          sourceEvent?.session_id && sourceEvent.session_id.trim() !== ""
-            ? sourceEvent.session_id
-            : "";
-        const userId =
-          sourceEvent?.user_id && sourceEvent.user_id.trim() !== ""
-            ? sourceEvent.user_id
-            : "";
-
-        // CRITICAL: Inherit parent_span_id from source event so signal doesn't create a false "second attempt"
-        // (Signals with parent_span_id null were being counted as separate roots → bogus "2 attempts")
-        const parentSpanId = sourceEvent?.parent_span_id ?? null;
-
-        return {
-          tenant_id: signal.tenant_id,
-          project_id: signal.project_id,
-          environment: environment,
-          trace_id: signal.trace_id,
-          span_id: signal.span_id,
-          parent_span_id: parentSpanId,
-          timestamp: signal.timestamp,
-          event_type: "error" as EventType, // Use error type as placeholder for signals
-          // Inherit conversation/session/user IDs from source event (required fields)
-          conversation_id: conversationId,
-          session_id: sessionId,
-          user_id: userId,
-          agent_name: null,
-          version: null,
-          route: null,
-          attributes_json: JSON.stringify({
-            signal: {
-              signal_name: signal.signal_name,
-              signal_type: signal.signal_type,
-              signal_value: signal.signal_value,
-              signal_severity: signal.signal_severity,
-              metadata: signal.metadata,
-            },
-          }),
-        };
-      });
-
-      // Format signals before forwarding (ensures required fields are present)
-      const { formatTinybirdEvents } =
-        await import("../utils/tinybirdEventFormatter.js");
-      const formattedSignalEvents = formatTinybirdEvents(signalEvents);
-
-      // Forward signals to Tinybird
-      try {
-        await CanonicalEventService.forwardToTinybird(formattedSignalEvents);
-        console.log(
-          `[SignalsService] ✅ Stored ${signals.length} signals to Tinybird (${signals.filter((s) => s.signal_severity === "high").length} high-severity)`,
-        );
-      } catch (error) {
-        console.error("[SignalsService] ❌ Failed to store signals:", error);
-        // Don't throw - signal storage failure shouldn't break ingestion
-      }
+      await this.storeSignals(signals, events);
 
       // SOTA: Trigger Layer 3/4 analysis for high-severity signals
       // This is the event-driven approach - analysis only runs when needed
@@ -568,4 +374,487 @@ export class SignalsService {
       }
     }
   }
+
+  /**
+   * Store signals as canonical events and group them into issues
+   * Signals inherit environment, conversation/session/user IDs and parent span
+   * from the source event with the same trace_id + span_id in `events`.
+   */
+  static async storeSignals(
+    signals: Signal[],
+    events: TinybirdCanonicalEvent[],
+  ): Promise<void> {
+    if (signals.length === 0) return;
+
+    // Note: Signals are stored as separate events with signal metadata in attributes
+    // In a full implementation, you might want a dedicated "signal" event_type
+    // For now, we'll use a metadata approach or store as error events with signal attributes
+    // Get environment from first event (all events in batch should have same env)
+    const environment = events.length > 0 ? events[0].environment : "prod";
+
+    // Create a map to look up original events by trace_id + span_id
+    // This allows signals to inherit conversation_id, session_id, and user_id from source events
+    const eventMap = new Map<string, TinybirdCanonicalEvent>();
+    for (const event of events) {
+      const key = `${event.trace_id}:${event.span_id}`;
+      // Use the first event with this key (prefer events with non-empty conversation/session/user IDs)
+      if (!eventMap.has(key)) {
+        eventMap.set(key, event);
+      } else {
+        // Prefer events with actual conversation/session/user IDs over empty strings
+        const existing = eventMap.get(key)!;
+        const hasExistingValues =
+          (existing.conversation_id &&
+            existing.conversation_id.trim() !== "") ||
+          (existing.session_id && existing.session_id.trim() !== "") ||
+          (existing.user_id && existing.user_id.trim() !== "");
+        const hasNewValues =
+          (event.conversation_id && event.conversation_id.trim() !== "") ||
+          (event.session_id && event.session_id.trim() !== "") ||
+          (event.user_id && event.user_id.trim() !== "");
+        if (!hasExistingValues && hasNewValues) {
+          eventMap.set(key, event);
+        }
+      }
+    }
+
+    const signalEvents: TinybirdCanonicalEvent[] = signals.map((signal) => {
+      // Find the original event that generated this signal
+      const key = `${signal.trace_id}:${signal.span_id}`;
+      const sourceEvent = eventMap.get(key);
+
+      // Inherit conversation_id, session_id, user_id from source event
+      // Use empty string only if source event doesn't have them
+      // CRITICAL: These fields are REQUIRED (not nullable) in Tinybird
+      const conversationId =
+        sourceEvent?.conversation_id &&
+        sourceEvent.conversation_id.trim() !== ""
+          ? sourceEvent.conversation_id
+          : "";
+      const sessionId =
+        sourceEvent?.session_id && sourceEvent.session_id.trim() !== ""
+          ? sourceEvent.session_id
+          : "";
+      const userId =
+        sourceEvent?.user_id && sourceEvent.user_id.trim() !== ""
+          ? sourceEvent.user_id
+          : "";
+
+      // CRITICAL: Inherit parent_span_id from source event so signal doesn't create a false "second attempt"
+      // (Signals with parent_span_id null were being counted as separate roots → bogus "2 attempts")
+      const parentSpanId = sourceEvent?.parent_span_id ?? null;
+
+      return {
+        tenant_id: signal.tenant_id,
+        project_id: signal.project_id,
+        environment: environment,
+        trace_id: signal.trace_id,
+        span_id: signal.span_id,
+        parent_span_id: parentSpanId,
+        timestamp: signal.timestamp,
+        event_type: "error" as EventType, // Use error type as placeholder for signals
+        // Inherit conversation/session/user IDs from source event (required fields)
+        conversation_id: conversationId,
+        session_id: sessionId,
+        user_id: userId,
+        agent_name: null,
+        version: null,
+        route: null,
+        attributes_json: JSON.stringify({
+          signal: {
+            signal_name: signal.signal_name,
+            signal_type: signal.signal_type,
+            signal_value: signal.signal_value,
+            signal_severity: signal.signal_severity,
+            metadata: signal.metadata,
+          },
+        }),
+      };
+    });
+
+    // Format signals before forwarding (ensures required fields are present)
+    const { formatTinybirdEvents } =
+      await import("../utils/tinybirdEventFormatter.js");
+    const formattedSignalEvents = formatTinybirdEvents(signalEvents);
+
+    // Forward signals to Tinybird
+    try {
+      await CanonicalEventService.forwardToTinybird(formattedSignalEvents);
+      console.log(
+        `[SignalsService] ✅ Stored ${signals.length} signals to Tinybird (${signals.filter((s) => s.signal_severity === "high").length} high-severity)`,
+      );
+    } catch (error) {
+      console.error("[SignalsService] ❌ Failed to store signals:", error);
+      // Don't throw - signal storage failure shouldn't break ingestion
+    }
+
+    // Group signals into issues (fingerprint + lifecycle state in Postgres)
+    try {
+      await IssuesService.recordSignals(
+        signals.map((signal) => {
+          const sourceEvent = eventMap.get(
+            `${signal.trace_id}:${signal.span_id}`,
+          );
+          return {
+            signal,
+            route: sourceEvent?.route ?? null,
+            userId: sourceEvent?.user_id || null,
+          };
+        }),
+      );
+    } catch (error) {
+      console.error(
+        "[SignalsService] Failed to record issues (non-fatal):",
+        error,
+      );
+    }
+
+    // Not awaited so a slow Redis never delays ingestion
+    void LiveTailService.publishSignals(signals, events).catch((error) => {
+      console.error(
+        "[SignalsService] Failed to publish signals to live tail (non-fatal):",
+        error,
+      );
+    });
+  }
+
+  /**
+   * Evaluate threshold rules (defaults + tenant overrides) for one event
+   * Signal metadata names the rule that fired.
+   */
+  private static evaluateThresholdRules(
+    event: TinybirdCanonicalEvent,
+    attributes: any,
+    customRules: SignalRule[],
+    eventTimestamp: string,
+  ): Signal[] {
+    const eventAttributes = attributes?.[event.event_type];
+    if (!eventAttributes || typeof eventAttributes !== "object") {
+      return [];
+    }
+
+    const model =
+      typeof eventAttributes.model === "string" ? eventAttributes.model : null;
+    const rules = SignalRulesService.resolveRules(customRules, {
+      projectId: event.project_id,
+      eventType: event.event_type,
+      route: event.route,
+      model,
+    });
+
+    return SignalRulesService.evaluate(rules, eventAttributes).map(
+      ({ rule, value }) => ({
+        tenant_id: event.tenant_id,
+        project_id: event.project_id,
+        trace_id: event.trace_id,
+        span_id: event.span_id,
+        signal_name: rule.signal_name,
+        signal_type: rule.signal_type,
+        signal_value: value,
+        signal_severity: rule.severity,
+        metadata: {
+          ...this.thresholdSignalContext(event.event_type, eventAttributes),
+          metric: rule.metric,
+          operator: rule.operator,
+          threshold: rule.threshold,
+          ...(rule.metric === "latency_ms"
+            ? { threshold_ms: rule.threshold }
+            : {}),
+          rule: {
+            id: rule.id,
+            name: rule.name,
+            source: rule.source,
+          },
+        },
+        timestamp: eventTimestamp,
+      }),
+    );
+  }
+
+  /**
+   * Compare an llm_call against its rolling baseline
+   * Emits latency_anomaly / cost_anomaly when the value is more than
+   * ANOMALY_SIGMA_THRESHOLD standard deviations above the EWMA mean.
+   * The route+model baseline is preferred; the project-wide rollup for the
+   * model (route "") is the fallback.
+   */
+  private static detectAnomalies(
+    event: TinybirdCanonicalEvent,
+    llmCall: any,
+    baselines: Map<string, MetricBaseline> | undefined,
+    eventTimestamp: string,
+  ): Signal[] {
+    if (!baselines || baselines.size === 0) return [];
+
+    const sigma = env.ANOMALY_SIGMA_THRESHOLD;
+    const signals: Signal[] = [];
+
+    for (const { metric, signal } of ANOMALY_SIGNALS) {
+      const value = Number(llmCall[metric]);
+      if (llmCall[metric] === null || llmCall[metric] === undefined) continue;
+
+      const baseline =
+        baselines.get(
+          BaselineService.key(event.project_id, event.route, llmCall.model, metric),
+        ) ||
+        baselines.get(
+          BaselineService.key(event.project_id, "", llmCall.model, metric),
+        );
+      const score = BaselineService.score(baseline, value);
+      if (!score || score.zScore < sigma) continue;
+
+      signals.push({
+        tenant_id: event.tenant_id,
+        project_id: event.project_id,
+        trace_id: event.trace_id,
+        span_id: event.span_id,
+        signal_name: signal,
+        signal_type: "spike",
+        signal_value: value,
+        signal_severity: score.zScore >= sigma * 2 ? "high" : "medium",
+        metadata: {
+          model: llmCall.model,
+          route: event.route,
+          metric,
+          z_score: Math.round(score.zScore * 100) / 100,
+          sigma_threshold: sigma,
+          baseline: {
+            mean: score.baseline.ewma_mean,
+            stddev: score.baseline.ewma_stddev,
+            p95: score.baseline.p95,
+            p99: score.baseline.p99,
+            sample_count: score.baseline.sample_count,
+            route: score.baseline.route || null,
+          },
+        },
+        timestamp: eventTimestamp,
+      });
+    }
+
+    return signals;
+  }
+
+  /**
+   * Event details attached to threshold signals (same fields as before rules were configurable)
+   */
+  private static thresholdSignalContext(
+    eventType: string,
+    attrs: any,
+  ): Record<string, any> {
+    switch (eventType) {
+      case "llm_call":
+        return {
+          model: attrs.model,
+          input_tokens: attrs.input_tokens,
+          output_tokens: attrs.output_tokens,
+          tokens: attrs.total_tokens,
+        };
+      case "tool_call":
+        return { tool_name: attrs.tool_name };
+      case "embedding":
+        return { model: attrs.model, dimension_count: attrs.dimension_count };
+      case "vector_db_operation":
+        return {
+          operation_type: attrs.operation_type,
+          index_name: attrs.index_name,
+          results_count: attrs.results_count,
+        };
+      case "cache_operation":
+        return {
+          cache_backend: attrs.cache_backend,
+          hit_status: attrs.hit_status,
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Detect loops within each trace of a batch
+   *
+   * - tool_loop: same tool_name + args_hash called repeatedly
+   * - llm_loop: same input_hash sent to the LLM repeatedly
+   * - agent_loop: the agent route (tool calls and agent hand-offs) repeats a cycle
+   *
+   * Only events present in the batch are considered; the SDK flushes a trace's
+   * events together, so this covers the common case without extra queries.
+   */
+  static detectLoops(parsedEvents: ParsedSignalEvent[]): Signal[] {
+    const signals: Signal[] = [];
+
+    const byTrace = new Map<string, ParsedSignalEvent[]>();
+    for (const parsed of parsedEvents) {
+      const list = byTrace.get(parsed.event.trace_id) || [];
+      list.push(parsed);
+      byTrace.set(parsed.event.trace_id, list);
+    }
+
+    for (const traceEvents of byTrace.values()) {
+      const ordered = [...traceEvents].sort(
+        (a, b) =>
+          new Date(a.event.timestamp).getTime() -
+          new Date(b.event.timestamp).getTime(),
+      );
+
+      // Repeated identical tool calls / LLM inputs
+      const repeats = new Map<
+        string,
+        { kind: "tool" | "llm"; label: string; hash: string; items: ParsedSignalEvent[] }
+      >();
+      for (const parsed of ordered) {
+        const { event, attributes } = parsed;
+        if (event.event_type === "tool_call" && attributes.tool_call?.tool_name) {
+          const toolCall = attributes.tool_call;
+          const hash =
+            toolCall.args_hash ||
+            (toolCall.args !== undefined && toolCall.args !== null
+              ? this.hashValue(toolCall.args)
+              : "no_args");
+          const key = `tool:${toolCall.tool_name}:${hash}`;
+          const entry = repeats.get(key) || {
+            kind: "tool" as const,
+            label: toolCall.tool_name,
+            hash,
+            items: [] as ParsedSignalEvent[],
+          };
+          entry.items.push(parsed);
+          repeats.set(key, entry);
+        } else if (event.event_type === "llm_call" && attributes.llm_call) {
+          const llmCall = attributes.llm_call;
+          const hash =
+            llmCall.input_hash ||
+            (typeof llmCall.input === "string" && llmCall.input.trim() !== ""
+              ? this.hashValue(llmCall.input)
+              : null);
+          if (!hash) continue;
+          const key = `llm:${hash}`;
+          const entry = repeats.get(key) || {
+            kind: "llm" as const,
+            label: llmCall.model || "unknown",
+            hash,
+            items: [] as ParsedSignalEvent[],
+          };
+          entry.items.push(parsed);
+          repeats.set(key, entry);
+        }
+      }
+
+      for (const entry of repeats.values()) {
+        const iterations = entry.items.length;
+        if (iterations < LOOP_MIN_ITERATIONS) continue;
+        const first = entry.items[0].event;
+        const last = entry.items[iterations - 1].event;
+        signals.push({
+          tenant_id: last.tenant_id,
+          project_id: last.project_id,
+          trace_id: last.trace_id,
+          span_id: last.span_id,
+          signal_name: entry.kind === "tool" ? "tool_loop" : "llm_loop",
+          signal_type: "loop",
+          signal_value: iterations,
+          signal_severity:
+            iterations >= LOOP_HIGH_SEVERITY_ITERATIONS ? "high" : "medium",
+          metadata: {
+            iterations,
+            ...(entry.kind === "tool"
+              ? { tool_name: entry.label, args_hash: entry.hash }
+              : { model: entry.label, input_hash: entry.hash }),
+            span_ids: entry.items.map((p) => p.event.span_id).slice(0, 20),
+            first_seen: new Date(first.timestamp).toISOString(),
+            last_seen: new Date(last.timestamp).toISOString(),
+            threshold: LOOP_MIN_ITERATIONS,
+          },
+          timestamp: new Date(last.timestamp).toISOString(),
+        });
+      }
+
+      // Agent route cycles (e.g. search → fetch → search → fetch → ...)
+      const steps: Array<{ key: string; event: TinybirdCanonicalEvent }> = [];
+      let currentAgent: string | null = null;
+      for (const { event, attributes } of ordered) {
+        if (event.agent_name && event.agent_name !== currentAgent) {
+          if (currentAgent !== null) {
+            steps.push({ key: `agent:${event.agent_name}`, event });
+          }
+          currentAgent = event.agent_name;
+        }
+        if (event.event_type === "tool_call" && attributes.tool_call?.tool_name) {
+          steps.push({ key: `tool:${attributes.tool_call.tool_name}`, event });
+        }
+      }
+
+      const cycle = this.findRouteCycle(steps.map((s) => s.key));
+      if (cycle) {
+        const lastStep = steps[cycle.endIndex].event;
+        signals.push({
+          tenant_id: lastStep.tenant_id,
+          project_id: lastStep.project_id,
+          trace_id: lastStep.trace_id,
+          span_id: lastStep.span_id,
+          signal_name: "agent_loop",
+          signal_type: "loop",
+          signal_value: cycle.iterations,
+          signal_severity:
+            cycle.iterations >= LOOP_HIGH_SEVERITY_ITERATIONS ? "high" : "medium",
+          metadata: {
+            iterations: cycle.iterations,
+            cycle: cycle.pattern,
+            cycle_length: cycle.pattern.length,
+            threshold: LOOP_MIN_ITERATIONS,
+          },
+          timestamp: new Date(lastStep.timestamp).toISOString(),
+        });
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Find the longest run of a repeating multi-step pattern in a route
+   * Single-step repeats are left to tool_loop, which also compares arguments.
+   */
+  private static findRouteCycle(
+    keys: string[],
+  ): { pattern: string[]; iterations: number; endIndex: number } | null {
+    let best: { pattern: string[]; iterations: number; endIndex: number } | null =
+      null;
+
+    for (let period = 2; period <= ROUTE_CYCLE_MAX_PERIOD; period++) {
+      for (let start = 0; start + period * LOOP_MIN_ITERATIONS <= keys.length; start++) {
+        const pattern = keys.slice(start, start + period);
+        // A cycle must visit at least two distinct steps
+        if (new Set(pattern).size < 2) continue;
+
+        let iterations = 1;
+        while (
+          start + (iterations + 1) * period <= keys.length &&
+          pattern.every(
+            (key, i) => keys[start + iterations * period + i] === key,
+          )
+        ) {
+          iterations++;
+        }
+
+        if (
+          iterations >= LOOP_MIN_ITERATIONS &&
+          (!best || iterations > best.iterations)
+        ) {
+          best = {
+            pattern,
+            iterations,
+            endIndex: start + iterations * period - 1,
+          };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private static hashValue(value: unknown): string {
+    const serialized =
+      typeof value === "string" ? value : JSON.stringify(value) ?? "";
+    return createHash("sha256").update(serialized).digest("hex").slice(0, 16);
+  }
 }
@@ -0,0 +1,291 @@
+/**
+ * Trace Compare Service
+ *
+ * Puts two trace detail trees (TraceQueryService.getTraceDetailTree) side by
+ * side. Spans are walked depth-first in start-time order and aligned on
+ * depth + event type + name (longest common subsequence); spans left over
+ * between two aligned spans are then paired by depth + event type in order,
+ * so an LLM call that switched model still lines up with its counterpart.
+ * Whatever remains is reported as removed (only in A) or added (only in B).
+ *
+ * Each aligned pair carries latency/token/cost deltas (B minus A) and text
+ * diffs of LLM input/output and tool args/result. All text diffs of one
+ * comparison share an LCS cell budget; once it is spent, remaining texts
+ * are diffed as whole-text replacements.
+ */
+
+import { DiffBudget, diffText, lcsPairs, TextDiff } from "../utils/textDiff.js";
+
+export interface ComparedSpanRef {
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  event_type: string;
+  depth: number;
+  start_time: string | null;
+}
+
+export interface MetricDelta {
+  a: number | null;
+  b: number | null;
+  delta: number | null; // b - a, when both are known
+}
+
+export interface SpanTextDiff extends TextDiff {
+  field: "llm_call.input" | "llm_call.output" | "tool_call.args" | "tool_call.result";
+}
+
+export interface AlignedSpanPair {
+  a: ComparedSpanRef;
+  b: ComparedSpanRef;
+  match: "exact" | "type"; // same name, or only the same event type
+  latency_ms: MetricDelta;
+  tokens: MetricDelta;
+  cost: MetricDelta;
+  diffs: SpanTextDiff[];
+}
+
+export interface TraceComparison {
+  a: TraceComparisonSide;
+  b: TraceComparisonSide;
+  totals: {
+    latency_ms: MetricDelta;
+    tokens: MetricDelta;
+    cost: MetricDelta;
+    spans: MetricDelta;
+  };
+  aligned: AlignedSpanPair[];
+  added: ComparedSpanRef[];
+  removed: ComparedSpanRef[];
+  stats: {
+    aligned: number;
+    changed: number;
+    added: number;
+    removed: number;
+  };
+}
+
+export interface TraceComparisonSide {
+  trace_id: string;
+  model: string | null;
+  start_time: string | null;
+  environment: string | null;
+}
+
+interface FlatSpan {
+  span: any;
+  ref: ComparedSpanRef;
+  key: string; // depth + event type + name
+  typeKey: string; // depth + event type
+}
+
+const TEXT_FIELDS: Array<{
+  field: SpanTextDiff["field"];
+  eventType: "llm_call" | "tool_call";
+  attribute: string;
+}> = [
+  { field: "llm_call.input", eventType: "llm_call", attribute: "input" },
+  { field: "llm_call.output", eventType: "llm_call", attribute: "output" },
+  { field: "tool_call.args", eventType: "tool_call", attribute: "args" },
+  { field: "tool_call.result", eventType: "tool_call", attribute: "result" },
+];
+
+// LCS table cells for all text diffs of one comparison
+const MAX_COMPARISON_DIFF_CELLS = 20_000_000;
+
+export class TraceCompareService {
+  /**
+   * Compare two detail trees as returned by getTraceDetailTree
+   */
+  static compareTrees(treeA: any, treeB: any): TraceComparison {
+    const spansA = this.flattenSpans(treeA);
+    const spansB = this.flattenSpans(treeB);
+    const pairs = this.alignSpans(spansA, spansB);
+
+    const pairedA = new Set(pairs.map(([i]) => i));
+    const pairedB = new Set(pairs.map(([, j]) => j));
+
+    const diffBudget: DiffBudget = { cells: MAX_COMPARISON_DIFF_CELLS };
+    const aligned = pairs.map(([i, j]) =>
+      this.comparePair(spansA[i], spansB[j], diffBudget),
+    );
+    const added = spansB.filter((_, j) => !pairedB.has(j)).map((s) => s.ref);
+    const removed = spansA.filter((_, i) => !pairedA.has(i)).map((s) => s.ref);
+
+    const summaryA = treeA?.summary || {};
+    const summaryB = treeB?.summary || {};
+    return {
+      a: this.side(summaryA),
+      b: this.side(summaryB),
+      totals: {
+        latency_ms: metricDelta(summaryA.total_latency_ms, summaryB.total_latency_ms),
+        tokens: metricDelta(summaryA.total_tokens, summaryB.total_tokens),
+        cost: metricDelta(
+          summaryA.total_cost ?? treeA?.costBreakdown?.totalCostUsd,
+          summaryB.total_cost ?? treeB?.costBreakdown?.totalCostUsd,
+        ),
+        spans: metricDelta(spansA.length, spansB.length),
+      },
+      aligned,
+      added,
+      removed,
+      stats: {
+        aligned: aligned.length,
+        changed: aligned.filter(
+          (pair) => pair.match === "type" || pair.diffs.length > 0,
+        ).length,
+        added: added.length,
+        removed: removed.length,
+      },
+    };
+  }
+
+  /**
+   * Spans depth-first from the roots, children in start-time order
+   */
+  static flattenSpans(tree: any): FlatSpan[] {
+    const roots: any[] = Array.isArray(tree?.spans) ? tree.spans : [];
+    const result: FlatSpan[] = [];
+    const seen = new Set<any>();
+
+    const byStart = (x: any, y: any) =>
+      String(x?.start_time || "").localeCompare(String(y?.start_time || ""));
+    const visit = (span: any, depth: number) => {
+      if (!span || typeof span !== "object" || seen.has(span)) return;
+      seen.add(span);
+      const eventType = String(span.event_type || span.type || "span");
+      const name = String(span.name || eventType);
+      result.push({
+        span,
+        ref: {
+          span_id: String(span.span_id ?? span.id ?? ""),
+          parent_span_id: span.parent_span_id ?? null,
+          name,
+          event_type: eventType,
+          depth,
+          start_time: span.start_time ?? null,
+        },
+        key: `${depth}|${eventType}|${name}`,
+        typeKey: `${depth}|${eventType}`,
+      });
+      const children = Array.isArray(span.children) ? [...span.children] : [];
+      for (const child of children.sort(byStart)) {
+        visit(child, depth + 1);
+      }
+    };
+    for (const root of [...roots].sort(byStart)) {
+      visit(root, 0);
+    }
+    return result;
+  }
+
+  /**
+   * Index pairs of aligned spans, in order
+   */
+  private static alignSpans(
+    spansA: FlatSpan[],
+    spansB: FlatSpan[],
+  ): Array<[number, number]> {
+    // With too many spans to align by name, everything pairs by type only
+    const anchors =
+      lcsPairs(
+        spansA.map((s) => s.key),
+        spansB.map((s) => s.key),
+      ) || [];
+
+    const pairs: Array<[number, number]> = [];
+    let startA = 0;
+    let startB = 0;
+    for (const [endA, endB] of [...anchors, [spansA.length, spansB.length]]) {
+      // Unaligned spans between two anchors pair up by type, in order
+      const waiting = new Map<string, number[]>();
+      for (let j = startB; j < endB; j++) {
+        const queue = waiting.get(spansB[j].typeKey) || [];
+        queue.push(j);
+        waiting.set(spansB[j].typeKey, queue);
+      }
+      for (let i = startA; i < endA; i++) {
+        const j = waiting.get(spansA[i].typeKey)?.shift();
+        if (j !== undefined) pairs.push([i, j]);
+      }
+      if (endA < spansA.length) pairs.push([endA, endB]);
+      startA = endA + 1;
+      startB = endB + 1;
+    }
+    return pairs.sort((x, y) => x[0] - y[0]);
+  }
+
+  private static comparePair(
+    a: FlatSpan,
+    b: FlatSpan,
+    diffBudget: DiffBudget,
+  ): AlignedSpanPair {
+    const diffs: SpanTextDiff[] = [];
+    for (const { field, eventType, attribute } of TEXT_FIELDS) {
+      const textA = spanText(a.span, eventType, attribute);
+      const textB = spanText(b.span, eventType, attribute);
+      if (textA === textB) continue;
+      diffs.push({ field, ...diffText(textA, textB, diffBudget) });
+    }
+    return {
+      a: a.ref,
+      b: b.ref,
+      match: a.key === b.key ? "exact" : "type",
+      latency_ms: metricDelta(spanLatency(a.span), spanLatency(b.span)),
+      tokens: metricDelta(spanTokens(a.span), spanTokens(b.span)),
+      cost: metricDelta(a.span.cost, b.span.cost),
+      diffs,
+    };
+  }
+
+  private static side(summary: any): TraceComparisonSide {
+    return {
+      trace_id: summary.trace_id,
+      model: summary.model ?? null,
+      start_time: summary.start_time ?? null,
+      environment: summary.environment ?? null,
+    };
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+function metricDelta(a: unknown, b: unknown): MetricDelta {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  return {
+    a: x,
+    b: y,
+    // Rounded to drop floating point noise on costs
+    delta: x !== null && y !== null ? Math.round((y - x) * 1e9) / 1e9 : null,
+  };
+}
+
+function spanLatency(span: any): number | null {
+  return toNumber(span.duration_ms) ?? toNumber(span.latency_ms);
+}
+
+function spanTokens(span: any): number | null {
+  const total = toNumber(span.total_tokens);
+  if (total !== null) return total;
+  const input = toNumber(span.input_tokens);
+  const output = toNumber(span.output_tokens);
+  return input === null && output === null ? null : (input ?? 0) + (output ?? 0);
+}
+
+/**
+ * Raw attribute text from the span's own event (the tree clears an LLM
+ * output that repeats the final answer), falling back to the span fields
+ */
+function spanText(span: any, eventType: string, attribute: string): string {
+  const event = Array.isArray(span.events)
+    ? span.events.find((e: any) => e?.event_type === eventType)
+    : null;
+  const value =
+    event?.attributes?.[eventType]?.[attribute] ?? span[eventType]?.[attribute];
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
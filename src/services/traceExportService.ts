@@ -0,0 +1,590 @@
+/**
+ * Trace Export Service
+ *
+ * Converts trace detail trees (TraceQueryService.getTraceDetailTree) and
+ * stored canonical events into formats other tooling can open:
+ * - OTLP/JSON: an ExportTraceServiceRequest with canonical attributes mapped
+ *   back to GenAI semantic conventions (gen_ai.*), the inverse of
+ *   OtlpTranslationService, so it can be replayed into any OTEL collector
+ *   (or back into Observa through POST /v1/traces)
+ * - Chrome trace events: complete ("X") events for chrome://tracing and
+ *   Perfetto; parallel spans are moved to their own thread so every thread
+ *   nests cleanly
+ * - Canonical events: one event per line (NDJSON), ready for
+ *   POST /api/v1/events/ingest into another project
+ */
+
+import { createHash } from "crypto";
+import { CanonicalEvent } from "../types/events.js";
+import type {
+  OtlpAnyValue,
+  OtlpKeyValue,
+  OtlpSpan,
+  OtlpSpanEvent,
+  OtlpTracesRequest,
+} from "./otlpTranslationService.js";
+
+export interface ChromeTraceEvent {
+  name: string;
+  ph: "X" | "M";
+  pid: number;
+  tid: number;
+  ts?: number; // microseconds from trace start
+  dur?: number; // microseconds
+  cat?: string;
+  cname?: string;
+  args?: Record<string, any>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms";
+  otherData: Record<string, string>;
+}
+
+interface ExportSpan {
+  span: any;
+  parent: ExportSpan | null;
+  start: number; // epoch ms
+  end: number;
+  children: ExportSpan[];
+}
+
+const SCOPE_NAME = "observa-export";
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_ERROR = 2;
+
+const PROCESS_ID = 1;
+
+// Canonical attributes checked in order to decide the GenAI operation of a span
+const GEN_AI_TYPES = [
+  "llm_call",
+  "tool_call",
+  "embedding",
+  "retrieval",
+  "agent_create",
+] as const;
+
+export class TraceExportService {
+  /**
+   * OTLP/JSON export request for a detail tree
+   */
+  static toOtlpJson(tree: any): OtlpTracesRequest {
+    const summary = tree?.summary || {};
+    const traceHex = uuidToHex(String(summary.trace_id || ""));
+    const spans = this.collectSpans(tree);
+
+    const first = spans[0]?.span;
+    const resourceAttributes = toKeyValues({
+      "service.name":
+        firstValue(spans, (s) => canonical(s, "agent_create")?.agent_name) ||
+        first?.metadata?.agent_name ||
+        "observa",
+      "observa.project_id": summary.project_id || null,
+      "deployment.environment.name": summary.environment || null,
+    });
+
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: resourceAttributes },
+          scopeSpans: [
+            {
+              scope: { name: SCOPE_NAME },
+              spans: spans.map((node) => this.toOtlpSpan(node, traceHex)),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Chrome trace-event JSON (object format) for a detail tree
+   */
+  static toChromeTrace(tree: any): ChromeTrace {
+    const summary = tree?.summary || {};
+    const spans = this.collectSpans(tree);
+    const traceStart = spans.length
+      ? Math.min(...spans.map((node) => node.start))
+      : 0;
+    const micros = (ms: number) => Math.round(ms * 1000);
+
+    const events: ChromeTraceEvent[] = [
+      {
+        name: "process_name",
+        ph: "M",
+        pid: PROCESS_ID,
+        tid: 0,
+        args: { name: `Trace ${summary.trace_id || ""}`.trim() },
+      },
+    ];
+
+    // A child shares its parent's thread unless it overlaps an earlier sibling
+    let nextTid = 1;
+    const threadNames = new Map<number, string>();
+    const place = (nodes: ExportSpan[], tid: number) => {
+      let laneEnd = -Infinity;
+      for (const node of nodes) {
+        let nodeTid = tid;
+        if (node.start < laneEnd) {
+          nodeTid = ++nextTid;
+        } else {
+          laneEnd = node.end;
+        }
+        if (!threadNames.has(nodeTid)) {
+          threadNames.set(nodeTid, spanName(node.span));
+        }
+
+        const eventType = spanEventType(node.span);
+        const error = spanError(node.span);
+        events.push({
+          name: spanName(node.span),
+          cat: eventType,
+          ph: "X",
+          pid: PROCESS_ID,
+          tid: nodeTid,
+          ts: micros(node.start - traceStart),
+          dur: micros(node.end - node.start),
+          ...(error ? { cname: "terrible" } : {}),
+          args: this.chromeArgs(node.span, eventType, error),
+        });
+        place(node.children, nodeTid);
+      }
+    };
+    place(this.rootsOf(spans), nextTid);
+
+    for (const [tid, name] of threadNames) {
+      events.push({
+        name: "thread_name",
+        ph: "M",
+        pid: PROCESS_ID,
+        tid,
+        args: { name },
+      });
+    }
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: "ms",
+      otherData: {
+        trace_id: String(summary.trace_id || ""),
+        start_time: spans.length ? new Date(traceStart).toISOString() : "",
+      },
+    };
+  }
+
+  /**
+   * A canonical_events row (TinybirdRepository.getTraceEvents) as an
+   * ingestible canonical event; tenant/project can be retargeted
+   */
+  static toCanonicalEvent(
+    row: any,
+    target: { tenantId?: string | null; projectId?: string | null } = {},
+  ): CanonicalEvent {
+    let attributes: CanonicalEvent["attributes"] = {};
+    if (row.attributes && typeof row.attributes === "object") {
+      attributes = row.attributes;
+    } else if (typeof row.attributes_json === "string" && row.attributes_json) {
+      try {
+        attributes = JSON.parse(row.attributes_json) || {};
+      } catch {
+        attributes = {};
+      }
+    }
+
+    const event: CanonicalEvent = {
+      tenant_id: target.tenantId || row.tenant_id,
+      project_id: target.projectId || row.project_id,
+      environment: row.environment === "prod" ? "prod" : "dev",
+      trace_id: row.trace_id,
+      span_id: row.span_id,
+      parent_span_id: nonEmpty(row.parent_span_id),
+      timestamp: toIsoTimestamp(row.timestamp) || String(row.timestamp),
+      event_type: row.event_type,
+      conversation_id: nonEmpty(row.conversation_id),
+      session_id: nonEmpty(row.session_id),
+      user_id: nonEmpty(row.user_id),
+      attributes,
+    };
+    for (const key of ["agent_name", "version", "route", "observation_type"] as const) {
+      const value = nonEmpty(row[key]);
+      if (value !== null) (event as any)[key] = value;
+    }
+    if (row.tags && typeof row.tags === "object" && Object.keys(row.tags).length) {
+      event.tags = row.tags;
+    }
+    return event;
+  }
+
+  private static toOtlpSpan(node: ExportSpan, traceHex: string): OtlpSpan {
+    const span = node.span;
+    const eventType = spanEventType(span);
+    const genAiType = GEN_AI_TYPES.find((type) => canonical(span, type));
+    const error = spanError(span);
+    const metadata = span.metadata || {};
+
+    const attributes: Record<string, any> = {
+      "observa.span_id": spanId(span),
+      "observa.event_type": eventType,
+      "session.id": metadata.session_id,
+      "user.id": metadata.user_id,
+      ...(genAiType ? this.genAiAttributes(span, genAiType) : {}),
+    };
+    attributes["gen_ai.conversation.id"] =
+      metadata.conversation_id ||
+      canonical(span, "llm_call")?.conversation_id_otel ||
+      null;
+    if (error?.error_type) attributes["error.type"] = error.error_type;
+
+    const events: OtlpSpanEvent[] = [];
+    if (error) {
+      events.push({
+        timeUnixNano: toUnixNano(node.end),
+        name: "exception",
+        attributes: toKeyValues({
+          "exception.type": error.error_type,
+          "exception.message": error.error_message,
+          "exception.stacktrace": error.stack_trace,
+        }),
+      });
+    }
+
+    return {
+      traceId: traceHex,
+      spanId: toOtlpSpanId(spanId(span)),
+      parentSpanId: node.parent ? toOtlpSpanId(spanId(node.parent.span)) : "",
+      name: spanName(span),
+      kind:
+        genAiType && genAiType !== "tool_call" && genAiType !== "agent_create"
+          ? SPAN_KIND_CLIENT
+          : SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(node.start),
+      endTimeUnixNano: toUnixNano(node.end),
+      attributes: toKeyValues(attributes),
+      events,
+      status: error
+        ? {
+            code: STATUS_CODE_ERROR,
+            ...(error.error_message ? { message: error.error_message } : {}),
+          }
+        : {},
+    };
+  }
+
+  /**
+   * gen_ai.* attributes for a span's canonical attributes, as read back by
+   * OtlpTranslationService
+   */
+  private static genAiAttributes(
+    span: any,
+    type: (typeof GEN_AI_TYPES)[number],
+  ): Record<string, any> {
+    const attrs = canonical(span, type);
+    switch (type) {
+      case "llm_call":
+        return {
+          "gen_ai.operation.name": attrs.operation_name || "chat",
+          "gen_ai.request.model": attrs.model,
+          "gen_ai.response.model": attrs.response_model,
+          "gen_ai.provider.name": attrs.provider_name,
+          "gen_ai.usage.input_tokens": attrs.input_tokens,
+          "gen_ai.usage.output_tokens": attrs.output_tokens,
+          "gen_ai.usage.input_cost": attrs.input_cost,
+          "gen_ai.usage.output_cost": attrs.output_cost,
+          "gen_ai.request.temperature": attrs.temperature,
+          "gen_ai.request.max_tokens": attrs.max_tokens,
+          "gen_ai.request.top_k": attrs.top_k,
+          "gen_ai.request.top_p": attrs.top_p,
+          "gen_ai.request.frequency_penalty": attrs.frequency_penalty,
+          "gen_ai.request.presence_penalty": attrs.presence_penalty,
+          "gen_ai.request.stop_sequences": attrs.stop_sequences,
+          "gen_ai.request.seed": attrs.seed,
+          "gen_ai.request.choice.count": attrs.choice_count,
+          "gen_ai.response.id": attrs.response_id,
+          "gen_ai.response.finish_reasons": attrs.finish_reason
+            ? [attrs.finish_reason]
+            : null,
+          "gen_ai.server.time_to_first_token":
+            typeof attrs.time_to_first_token_ms === "number"
+              ? attrs.time_to_first_token_ms / 1000
+              : null,
+          "gen_ai.input.messages": jsonString(
+            attrs.input_messages ?? textMessages("user", attrs.input),
+          ),
+          "gen_ai.output.messages": jsonString(
+            attrs.output_messages ??
+              textMessages("assistant", attrs.output, attrs.finish_reason),
+          ),
+          "gen_ai.system_instructions": jsonString(attrs.system_instructions),
+          "gen_ai.tool.definitions": jsonString(
+            attrs.tool_definitions ?? attrs.tools,
+          ),
+          "server.address": attrs.server_address,
+          "server.port": attrs.server_port,
+          "observa.cost": attrs.cost,
+        };
+      case "tool_call":
+        return {
+          "gen_ai.operation.name": "execute_tool",
+          "gen_ai.tool.name": attrs.tool_name,
+          "gen_ai.tool.type": attrs.tool_type,
+          "gen_ai.tool.description": attrs.tool_description,
+          "gen_ai.tool.call.id": attrs.tool_call_id,
+          "gen_ai.tool.call.arguments": jsonString(attrs.args),
+          "gen_ai.tool.call.result": jsonString(attrs.result),
+        };
+      case "embedding":
+        return {
+          "gen_ai.operation.name": "embeddings",
+          "gen_ai.request.model": attrs.model,
+          "gen_ai.provider.name": attrs.provider_name,
+          "gen_ai.embeddings.dimension.count": attrs.dimension_count,
+          "gen_ai.request.encoding_formats": attrs.encoding_formats,
+          "gen_ai.usage.input_tokens": attrs.input_tokens,
+          "gen_ai.usage.output_tokens": attrs.output_tokens,
+          "observa.cost": attrs.cost,
+        };
+      case "retrieval": {
+        const ids: any[] = Array.isArray(attrs.retrieval_context_ids)
+          ? attrs.retrieval_context_ids
+          : [];
+        const scores: any[] = Array.isArray(attrs.similarity_scores)
+          ? attrs.similarity_scores
+          : [];
+        return {
+          "gen_ai.operation.name": "retrieval",
+          "gen_ai.request.model": attrs.embedding_model,
+          "gen_ai.request.top_k": attrs.top_k ?? attrs.k,
+          "gen_ai.retrieval.documents": ids.length
+            ? JSON.stringify(
+                ids.map((id, i) => ({
+                  id,
+                  ...(typeof scores[i] === "number" ? { score: scores[i] } : {}),
+                })),
+              )
+            : null,
+          "gen_ai.retrieval.query.text": attrs.retrieval_context,
+        };
+      }
+      case "agent_create":
+        return {
+          "gen_ai.operation.name": "create_agent",
+          "gen_ai.agent.name": attrs.agent_name,
+        };
+    }
+  }
+
+  private static chromeArgs(
+    span: any,
+    eventType: string,
+    error: any,
+  ): Record<string, any> {
+    const llm = canonical(span, "llm_call");
+    const tool = canonical(span, "tool_call");
+    const args: Record<string, any> = {
+      span_id: spanId(span),
+      parent_span_id: span.parent_span_id ?? null,
+      event_type: eventType,
+      model: llm?.model ?? canonical(span, "embedding")?.model,
+      input_tokens: llm?.input_tokens,
+      output_tokens: llm?.output_tokens,
+      cost: span.cost ?? llm?.cost,
+      tool_name: tool?.tool_name,
+      result_status: tool?.result_status,
+      error: error?.error_message || error?.error_type,
+      self_time_ms: span.timing?.self_time_ms,
+      on_critical_path: span.timing?.on_critical_path,
+    };
+    for (const key of Object.keys(args)) {
+      if (args[key] === null || args[key] === undefined) delete args[key];
+    }
+    return args;
+  }
+
+  /**
+   * Spans depth-first from the roots (children in start order), with
+   * intervals stretched to cover their children
+   */
+  private static collectSpans(tree: any): ExportSpan[] {
+    const roots: any[] = Array.isArray(tree?.spans) ? tree.spans : [];
+    const result: ExportSpan[] = [];
+    const seen = new Set<any>();
+
+    const visit = (span: any, parent: ExportSpan | null): ExportSpan | null => {
+      if (!span || typeof span !== "object" || seen.has(span)) return null;
+      seen.add(span);
+      const node: ExportSpan = { span, parent, start: NaN, end: NaN, children: [] };
+      result.push(node);
+
+      const children = Array.isArray(span.children) ? span.children : [];
+      for (const child of children) {
+        const childNode = visit(child, node);
+        if (childNode) node.children.push(childNode);
+      }
+      node.children.sort((a, b) => a.start - b.start);
+
+      let start = parseTimestampMs(span.start_time);
+      let end = parseTimestampMs(span.end_time);
+      const duration = typeof span.duration_ms === "number" ? span.duration_ms : 0;
+      if (start !== null && (end === null || end < start + duration)) {
+        end = start + duration;
+      }
+      for (const child of node.children) {
+        start = start === null ? child.start : Math.min(start, child.start);
+        end = end === null ? child.end : Math.max(end, child.end);
+      }
+      node.start = start ?? end ?? 0;
+      node.end = Math.max(end ?? node.start, node.start);
+      return node;
+    };
+    for (const root of roots) visit(root, null);
+    return result;
+  }
+
+  private static rootsOf(spans: ExportSpan[]): ExportSpan[] {
+    return spans
+      .filter((node) => node.parent === null)
+      .sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * Canonical attributes of a type for a span: its own event first (the tree
+ * rewrites some span fields for display), then the span field
+ */
+function canonical(span: any, type: string): any {
+  const event = Array.isArray(span?.events)
+    ? span.events.find((e: any) => e?.event_type === type)
+    : null;
+  return event?.attributes?.[type] ?? span?.[type] ?? null;
+}
+
+function spanError(span: any): any {
+  const error = canonical(span, "error") ?? span?.error ?? null;
+  if (error) return error;
+  const tool = canonical(span, "tool_call");
+  if (tool && (tool.result_status === "error" || tool.result_status === "timeout")) {
+    return {
+      error_type: tool.error_type || tool.result_status,
+      error_message: tool.error_message || null,
+    };
+  }
+  return null;
+}
+
+function firstValue(
+  spans: ExportSpan[],
+  pick: (span: any) => string | null | undefined,
+): string | null {
+  for (const node of spans) {
+    const value = pick(node.span);
+    if (value) return value;
+  }
+  return null;
+}
+
+function spanId(span: any): string {
+  return String(span?.span_id ?? span?.id ?? "");
+}
+
+function spanName(span: any): string {
+  return String(span?.name || spanEventType(span));
+}
+
+function spanEventType(span: any): string {
+  return String(span?.event_type || span?.type || "span");
+}
+
+function nonEmpty(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value : null;
+}
+
+/**
+ * Tinybird returns "YYYY-MM-DD HH:MM:SS.mmm" (UTC); ingested values are ISO
+ */
+function parseTimestampMs(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  let text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2} \d/.test(text)) text = text.replace(" ", "T");
+  if (/T[\d:.]+$/.test(text)) text += "Z";
+  const ms = Date.parse(text);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  const ms = parseTimestampMs(value);
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+function uuidToHex(uuid: string): string {
+  const hex = uuid.replace(/-/g, "").toLowerCase();
+  return /^[0-9a-f]{32}$/.test(hex)
+    ? hex
+    : createHash("sha256").update(uuid).digest("hex").slice(0, 32);
+}
+
+/**
+ * OTEL span ids are 8 bytes; Observa span ids are UUIDs
+ */
+function toOtlpSpanId(id: string): string {
+  return createHash("sha256").update(id).digest("hex").slice(0, 16);
+}
+
+function textMessages(
+  role: "user" | "assistant",
+  text: unknown,
+  finishReason?: string | null,
+): any[] | null {
+  if (typeof text !== "string" || text === "") return null;
+  return [
+    {
+      role,
+      parts: [{ type: "text", content: text }],
+      ...(finishReason ? { finish_reason: finishReason } : {}),
+    },
+  ];
+}
+
+function jsonString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value
+          .map((item) => toAnyValue(item))
+          .filter((item): item is OtlpAnyValue => item !== null),
+      },
+    };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toKeyValues(attributes: Record<string, unknown>): OtlpKeyValue[] {
+  const result: OtlpKeyValue[] = [];
+  for (const [key, raw] of Object.entries(attributes)) {
+    const value = toAnyValue(raw);
+    if (value) result.push({ key, value });
+  }
+  return result;
+}
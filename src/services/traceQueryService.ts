@@ -9,6 +9,16 @@ import { TinybirdRepository } from "./tinybirdRepository.js";
 import { query } from "../db/client.js";
 import { CanonicalEvent } from "../types/events.js";
 import { DefensiveJSONParser } from "../utils/defensiveJsonParser.js";
+import { ModelPricingService } from "./modelPricingService.js";
+import { CriticalPathService } from "./criticalPathService.js";
+import { chDateTime, chUuid } from "../utils/clickhouseSql.js";
+import {
+  FilterNode,
+  FilterQueryError,
+  compileFilterToPostgres,
+  compileFilterToTinybird,
+  parseFilterQuery,
+} from "../utils/filterQuery.js";
 
 export interface TraceSummary {
   trace_id: string;
@@ -51,6 +61,7 @@ export interface TraceSummary {
   session_id?: string | null;
   user_id?: string | null;
   environment?: string | null;
+  tags?: Record<string, string> | null;
 }
 
 export type TraceListSortBy =
@@ -73,6 +84,7 @@ export interface TraceListQueryOptions {
   userIds?: string[];
   environments?: string[];
   conversationId?: string;
+  tags?: Record<string, string>;
 
   minCost?: number;
   maxCost?: number;
@@ -82,6 +94,7 @@ export interface TraceListQueryOptions {
   maxQualityScore?: number;
 
   search?: string;
+  q?: string; // filter query language, see utils/filterQuery.ts
 
   sortBy?: TraceListSortBy;
   sortOrder?: "asc" | "desc";
@@ -97,6 +110,13 @@ export interface TraceListStats {
   errorRate: number; // percentage
 }
 
+// Resolved filter query: trace ids matched on Tinybird events, or an AST
+// evaluated against analysis_results
+type TraceListFilter = { traceIds: string[] } | { node: FilterNode };
+
+// Traces a Tinybird filter query can match (most recent first)
+const MAX_FILTER_MATCHES = 10000;
+
 export interface AvailableModel {
   model: string;
   count: number;
@@ -119,26 +139,10 @@ export class TraceQueryService {
   }
 
   private static estimatedCostSql(): string {
-    // Estimated cost based on total tokens only (approximation).
-    // NOTE: This is intentionally simple. For exact costs, rely on per-span cost
+    // Estimated cost from token counts priced against the model pricing catalog.
+    // NULL for models without a price. For exact costs, rely on per-span cost
     // captured in canonical events (llm_call cost attributes).
-    return `
-      (COALESCE(tokens_total, 0)::numeric / 1000.0) *
-      (
-        CASE
-          WHEN lower(model) = 'gpt-4' THEN 0.03
-          WHEN lower(model) = 'gpt-4-turbo' THEN 0.01
-          WHEN lower(model) = 'gpt-4o' THEN 0.015
-          WHEN lower(model) = 'gpt-4o-mini' THEN 0.003
-          WHEN lower(model) = 'gpt-3.5-turbo' THEN 0.002
-          WHEN lower(model) = 'gpt-3.5' THEN 0.002
-          WHEN lower(model) = 'claude-3-opus' THEN 0.03
-          WHEN lower(model) = 'claude-3-sonnet' THEN 0.012
-          WHEN lower(model) = 'claude-3-haiku' THEN 0.0025
-          ELSE 0.002
-        END
-      )
-    `;
+    return ModelPricingService.costSql();
   }
 
   private static issueCountSql(): string {
@@ -157,7 +161,15 @@ export class TraceQueryService {
     `;
   }
 
-  private static buildPerformanceAnalysis(summary: any, allSpans: any[]): any {
+  /**
+   * Slowest span plus the overlap-aware critical path
+   * Also sets `timing` (self/child/critical path time) on every span under rootSpans.
+   */
+  private static buildPerformanceAnalysis(
+    summary: any,
+    allSpans: any[],
+    rootSpans: any[],
+  ): any {
     const totalLatencyMs =
       typeof summary?.total_latency_ms === "number"
         ? summary.total_latency_ms
@@ -213,11 +225,28 @@ export class TraceQueryService {
       }
     }
 
+    // Parallel spans can be slow without delaying the trace; name the span
+    // that holds up end-to-end latency the most when it is a different one
+    const criticalPath = CriticalPathService.analyze(rootSpans);
+    const topContributor = criticalPath?.bottlenecks[0];
+    if (
+      topContributor &&
+      topContributor.span_id !== (slowest?.id || slowest?.span_id) &&
+      topContributor.critical_path_pct >= 25
+    ) {
+      suggestions.push(
+        `"${topContributor.name}" accounts for ~${topContributor.critical_path_pct.toFixed(
+          1,
+        )}% of end-to-end latency on the critical path, more than any other span.`,
+      );
+    }
+
     return {
       bottleneckSpanId: slowest?.id || slowest?.span_id || null,
       bottleneckDurationMs,
       bottleneckPercentage,
       suggestions,
+      criticalPath,
     };
   }
 
@@ -386,9 +415,75 @@ export class TraceQueryService {
     };
   }
 
+  /**
+   * Resolve a filter query for the trace list
+   * Queries run on Tinybird events when they compile there (event-level fields
+   * such as route or attr.*), and on analysis_results otherwise or when
+   * Tinybird is unavailable. Throws FilterQueryError for invalid queries.
+   */
+  private static async resolveFilterQuery(
+    tenantId: string,
+    opts: TraceListQueryOptions,
+    q: string,
+  ): Promise<TraceListFilter> {
+    const node = parseFilterQuery(q);
+
+    let postgresError: FilterQueryError | null = null;
+    try {
+      compileFilterToPostgres(node, 1, { costSql: this.estimatedCostSql() });
+    } catch (error) {
+      if (!(error instanceof FilterQueryError)) throw error;
+      postgresError = error;
+    }
+
+    let having: string;
+    try {
+      having = compileFilterToTinybird(node);
+    } catch (error) {
+      if (!(error instanceof FilterQueryError)) throw error;
+      // Neither backend can evaluate the whole query
+      if (postgresError) throw error;
+      return { node };
+    }
+
+    const conditions = [`tenant_id = ${chUuid(tenantId)}`];
+    if (opts.projectId) {
+      conditions.push(`project_id = ${chUuid(opts.projectId)}`);
+    }
+    if (opts.startDate) {
+      conditions.push(`timestamp >= ${chDateTime(opts.startDate)}`);
+    }
+    if (opts.endDate) {
+      conditions.push(`timestamp <= ${chDateTime(opts.endDate)}`);
+    }
+
+    try {
+      const result = await TinybirdRepository.rawQuery(
+        `SELECT trace_id
+         FROM canonical_events
+         WHERE ${conditions.join(" AND ")}
+         GROUP BY trace_id
+         HAVING ${having}
+         ORDER BY max(timestamp) DESC
+         LIMIT ${MAX_FILTER_MATCHES}`,
+        { tenantId, projectId: opts.projectId || undefined },
+      );
+      const rows = Array.isArray(result) ? result : result?.data || [];
+      return { traceIds: rows.map((row: any) => String(row.trace_id)) };
+    } catch (error) {
+      if (postgresError) throw error;
+      console.warn(
+        "[TraceQueryService] Tinybird filter query failed, using analysis_results:",
+        error,
+      );
+      return { node };
+    }
+  }
+
   private static buildTraceListWhereClause(
     tenantId: string,
     opts: TraceListQueryOptions,
+    filter?: TraceListFilter,
   ): { whereClause: string; params: any[]; nextIndex: number } {
     let whereClause = `WHERE tenant_id = $1`;
     const params: any[] = [tenantId];
@@ -438,6 +533,13 @@ export class TraceQueryService {
       paramIndex++;
     }
 
+    // Every given tag must match (GIN-indexed containment)
+    if (opts.tags && Object.keys(opts.tags).length > 0) {
+      whereClause += ` AND tags @> $${paramIndex}::jsonb`;
+      params.push(JSON.stringify(opts.tags));
+      paramIndex++;
+    }
+
     // Numeric filters
     if (typeof opts.minLatencyMs === "number") {
       whereClause += ` AND latency_ms >= $${paramIndex}`;
@@ -517,6 +619,20 @@ export class TraceQueryService {
       }
     }
 
+    // Filter query (q), resolved by resolveFilterQuery
+    if (filter && "traceIds" in filter) {
+      whereClause += ` AND trace_id = ANY($${paramIndex})`;
+      params.push(filter.traceIds);
+      paramIndex++;
+    } else if (filter) {
+      const compiled = compileFilterToPostgres(filter.node, paramIndex, {
+        costSql: this.estimatedCostSql(),
+      });
+      whereClause += ` AND ${compiled.sql}`;
+      params.push(...compiled.params);
+      paramIndex = compiled.nextIndex;
+    }
+
     return { whereClause, params, nextIndex: paramIndex };
   }
 
@@ -535,9 +651,13 @@ export class TraceQueryService {
       const sortOrder =
         (opts.sortOrder || "desc").toLowerCase() === "asc" ? "ASC" : "DESC";
 
+      const filter = opts.q?.trim()
+        ? await this.resolveFilterQuery(tenantId, opts, opts.q.trim())
+        : undefined;
       const { whereClause, params, nextIndex } = this.buildTraceListWhereClause(
         tenantId,
         opts,
+        filter,
       );
 
       const estimatedCost = this.estimatedCostSql();
@@ -591,6 +711,7 @@ export class TraceQueryService {
           session_id,
           user_id,
           environment,
+          tags,
           (${estimatedCost})::float8 as estimated_cost_usd,
           (${issueCount})::int as issue_count
         FROM analysis_results
@@ -677,6 +798,7 @@ export class TraceQueryService {
           session_id: t.session_id,
           user_id: t.user_id,
           environment: t.environment,
+          tags: t.tags ?? null,
         })) as TraceSummary[],
         total,
         stats,
@@ -937,6 +1059,7 @@ export class TraceQueryService {
         bottleneckSpanId: null,
         bottleneckDurationMs: null,
         suggestions: [],
+        criticalPath: CriticalPathService.analyze([rootSpan]),
       },
       tokenEfficiency: { tokensPerCharacter: null, benchmarkComparison: null },
       qualityExplanation: null,
@@ -1059,12 +1182,14 @@ export class TraceQueryService {
           );
           const pgRow = await this.getTraceDetail(traceId, tenantId, projectId);
           if (pgRow) {
-            return this.buildTreeFromAnalysisResult(
+            const pgTree = this.buildTreeFromAnalysisResult(
               pgRow,
               traceId,
               tenantId,
               projectId || null,
             );
+            await this.attachScores(pgTree, tenantId, traceId);
+            return pgTree;
           }
           return null;
         }
@@ -1157,6 +1282,7 @@ export class TraceQueryService {
       }
       // #endregion
 
+      await this.attachScores(tree, tenantId, traceId);
       return tree;
     } catch (error) {
       console.error(
@@ -1167,6 +1293,18 @@ export class TraceQueryService {
     }
   }
 
+  /**
+   * Attach human annotation scores (trace-level and per-span) to a detail tree
+   */
+  private static async attachScores(
+    tree: any,
+    tenantId: string,
+    traceId: string,
+  ): Promise<void> {
+    const { ScoreService } = await import("./scoreService.js");
+    await ScoreService.attachToTree(tree, tenantId, traceId);
+  }
+
   /**
    * Build hierarchical tree structure from canonical events
    * Creates spans with parent-child relationships and attaches events to spans
@@ -2314,6 +2452,11 @@ export class TraceQueryService {
           // Tool definitions provided to the model
           tool_definitions: llmAttrs.tool_definitions || llmAttrs.tools || null,
           tools: llmAttrs.tools || llmAttrs.tool_definitions || null,
+          // Prompt registry link (set at ingestion)
+          prompt_template_id: llmAttrs.prompt_template_id || null,
+          prompt_version_id: llmAttrs.prompt_version_id || null,
+          prompt_name: llmAttrs.prompt_name || null,
+          prompt_version: llmAttrs.prompt_version || null,
         };
         // PHASE 1: When LLM output equals finalOutput, clear it so answer appears only on Output span
         if (
@@ -4445,6 +4588,7 @@ export class TraceQueryService {
     const performanceAnalysis = this.buildPerformanceAnalysis(
       summary,
       allSpans,
+      rootSpans.length > 0 ? rootSpans : allSpans,
     );
     const tokenEfficiency = this.buildTokenEfficiency(summary, allSpans);
     const qualityExplanation = this.buildQualityExplanation(analysisData);
@@ -0,0 +1,306 @@
+/**
+ * Trace Search Service
+ *
+ * Full-text search over what went into and came out of spans: llm_call
+ * input/output (and chat messages), tool_call args/result and error messages.
+ * Every search term must appear in the same span. Results carry the span id
+ * and highlighted snippets (character offsets into the snippet text).
+ *
+ * Tinybird matches whole words with token matching (hasTokenCaseInsensitive)
+ * and phrases or partial words with substring (ngram) matching. The Postgres
+ * fallback searches trace-level query/response text in analysis_results via
+ * tsvector. Soft-deleted traces (trace_index) are excluded from both.
+ */
+
+import { TinybirdRepository } from "./tinybirdRepository.js";
+import { query } from "../db/client.js";
+import {
+  chDateTime,
+  chString,
+  chStringList,
+  chUuid,
+} from "../utils/clickhouseSql.js";
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  field: string; // e.g. "llm_call.input", "tool_call.args"
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface TraceSearchResult {
+  trace_id: string;
+  span_id: string | null;
+  event_type: string;
+  timestamp: string;
+  snippets: SearchSnippet[];
+}
+
+export interface TraceSearchOptions {
+  projectId?: string | null;
+  startTime: string;
+  endTime: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class TraceSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TraceSearchError";
+  }
+}
+
+export const MAX_SEARCH_TERMS = 10;
+const MAX_TERM_LENGTH = 200;
+const SNIPPET_RADIUS = 80;
+const MAX_SNIPPETS_PER_FIELD = 3;
+
+// Searchable span fields (Tinybird column alias -> field name)
+const TINYBIRD_FIELDS: Array<{ alias: string; field: string; expr: string }> = [
+  { alias: "llm_input", field: "llm_call.input", expr: `JSONExtractString(attributes_json, 'llm_call', 'input')` },
+  { alias: "llm_output", field: "llm_call.output", expr: `JSONExtractString(attributes_json, 'llm_call', 'output')` },
+  { alias: "llm_input_messages", field: "llm_call.input_messages", expr: `JSONExtractRaw(attributes_json, 'llm_call', 'input_messages')` },
+  { alias: "llm_output_messages", field: "llm_call.output_messages", expr: `JSONExtractRaw(attributes_json, 'llm_call', 'output_messages')` },
+  { alias: "tool_args", field: "tool_call.args", expr: `JSONExtractRaw(attributes_json, 'tool_call', 'args')` },
+  { alias: "tool_result", field: "tool_call.result", expr: `JSONExtractRaw(attributes_json, 'tool_call', 'result')` },
+  { alias: "tool_error", field: "tool_call.error_message", expr: `JSONExtractString(attributes_json, 'tool_call', 'error_message')` },
+  { alias: "error_message", field: "error.error_message", expr: `JSONExtractString(attributes_json, 'error', 'error_message')` },
+];
+
+// Must match the expression indexed by migrations/addTraceSearchIndex.ts
+const POSTGRES_DOCUMENT = `to_tsvector('simple', left(COALESCE(query, ''), 100000) || ' ' || left(COALESCE(response, ''), 100000))`;
+
+export class TraceSearchService {
+  /**
+   * Split a search string into terms; "quoted phrases" stay together
+   */
+  static parseTerms(input: string): string[] {
+    const terms: string[] = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(input)) !== null) {
+      const term = (match[1] ?? match[2]).trim().replace(/\s+/g, " ");
+      if (term && !terms.some((t) => t.toLowerCase() === term.toLowerCase())) {
+        terms.push(term);
+      }
+    }
+    if (terms.length === 0) {
+      throw new TraceSearchError("Search query is empty");
+    }
+    if (terms.length > MAX_SEARCH_TERMS) {
+      throw new TraceSearchError(`At most ${MAX_SEARCH_TERMS} search terms are allowed`);
+    }
+    const tooLong = terms.find((t) => t.length > MAX_TERM_LENGTH);
+    if (tooLong) {
+      throw new TraceSearchError(`Search terms are limited to ${MAX_TERM_LENGTH} characters`);
+    }
+    return terms;
+  }
+
+  /**
+   * Snippets around term occurrences in a field value
+   * Each snippet spans SNIPPET_RADIUS characters either side of a match,
+   * with "…" where text was cut. Returns [] when no term occurs.
+   */
+  static buildSnippets(field: string, text: string, terms: string[]): SearchSnippet[] {
+    const lower = text.toLowerCase();
+    const matches: SearchHighlight[] = [];
+    for (const term of terms) {
+      const needle = term.toLowerCase();
+      let index = lower.indexOf(needle);
+      while (index !== -1) {
+        matches.push({ start: index, end: index + needle.length });
+        index = lower.indexOf(needle, index + needle.length);
+      }
+    }
+    if (matches.length === 0) return [];
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const snippets: SearchSnippet[] = [];
+    let i = 0;
+    while (i < matches.length && snippets.length < MAX_SNIPPETS_PER_FIELD) {
+      const windowStart = Math.max(0, matches[i].start - SNIPPET_RADIUS);
+      let windowEnd = Math.min(text.length, matches[i].end + SNIPPET_RADIUS);
+      const inWindow: SearchHighlight[] = [];
+      while (i < matches.length && matches[i].start < windowEnd) {
+        windowEnd = Math.max(windowEnd, Math.min(text.length, matches[i].end));
+        inWindow.push(matches[i]);
+        i++;
+      }
+
+      const prefix = windowStart > 0 ? "…" : "";
+      const suffix = windowEnd < text.length ? "…" : "";
+      const highlights: SearchHighlight[] = [];
+      for (const m of inWindow) {
+        const start = m.start - windowStart + prefix.length;
+        const end = m.end - windowStart + prefix.length;
+        const last = highlights[highlights.length - 1];
+        if (last && start <= last.end) {
+          last.end = Math.max(last.end, end);
+        } else {
+          highlights.push({ start, end });
+        }
+      }
+      snippets.push({
+        field,
+        text: prefix + text.slice(windowStart, windowEnd) + suffix,
+        highlights,
+      });
+    }
+    return snippets;
+  }
+
+  /**
+   * Search spans in a time window (Tinybird, falling back to Postgres)
+   */
+  static async search(
+    tenantId: string,
+    input: string,
+    opts: TraceSearchOptions,
+  ): Promise<{ results: TraceSearchResult[]; backend: "tinybird" | "postgres" }> {
+    const terms = this.parseTerms(input);
+    const limit = Math.min(Math.max(Math.floor(opts.limit ?? 20), 1), 100);
+    const offset = Math.max(Math.floor(opts.offset ?? 0), 0);
+
+    try {
+      const deletedTraceIds = await this.getDeletedTraceIds(tenantId);
+      const results = await this.searchTinybird(
+        tenantId,
+        terms,
+        opts,
+        limit,
+        offset,
+        deletedTraceIds,
+      );
+      return { results, backend: "tinybird" };
+    } catch (error) {
+      console.warn(
+        "[TraceSearchService] Tinybird search failed, falling back to Postgres:",
+        error,
+      );
+    }
+
+    const results = await this.searchPostgres(tenantId, terms, opts, limit, offset);
+    return { results, backend: "postgres" };
+  }
+
+  private static async searchTinybird(
+    tenantId: string,
+    terms: string[],
+    opts: TraceSearchOptions,
+    limit: number,
+    offset: number,
+    deletedTraceIds: string[],
+  ): Promise<TraceSearchResult[]> {
+    const haystack = `concat(${TINYBIRD_FIELDS.map((f) => f.alias).join(", ' ', ")})`;
+    // Whole words use the token index; phrases and punctuation use substring search
+    const termPredicates = terms.map((term) =>
+      /^[A-Za-z0-9]+$/.test(term)
+        ? `hasTokenCaseInsensitive(${haystack}, ${chString(term)})`
+        : `positionCaseInsensitiveUTF8(${haystack}, ${chString(term)}) > 0`,
+    );
+
+    const conditions = [
+      `tenant_id = ${chUuid(tenantId)}`,
+      `timestamp >= ${chDateTime(opts.startTime)}`,
+      `timestamp <= ${chDateTime(opts.endTime)}`,
+      `event_type IN ('llm_call', 'tool_call', 'error')`,
+      ...termPredicates,
+    ];
+    if (opts.projectId) {
+      conditions.splice(1, 0, `project_id = ${chUuid(opts.projectId)}`);
+    }
+    // Excluded in the query so that LIMIT/OFFSET page over visible traces only
+    if (deletedTraceIds.length > 0) {
+      conditions.push(`trace_id NOT IN (${chStringList(deletedTraceIds)})`);
+    }
+
+    const result = await TinybirdRepository.rawQuery(
+      `SELECT
+        trace_id,
+        span_id,
+        event_type,
+        timestamp,
+        ${TINYBIRD_FIELDS.map((f) => `${f.expr} AS ${f.alias}`).join(",\n        ")}
+      FROM canonical_events
+      WHERE ${conditions.join("\n        AND ")}
+      ORDER BY timestamp DESC
+      LIMIT ${limit} OFFSET ${offset}`,
+      { tenantId, projectId: opts.projectId || undefined },
+    );
+    const rows = Array.isArray(result) ? result : result?.data || [];
+
+    return rows.map((row: any) => ({
+      trace_id: String(row.trace_id),
+      span_id: row.span_id || null,
+      event_type: row.event_type,
+      timestamp: row.timestamp,
+      snippets: TINYBIRD_FIELDS.flatMap((f) =>
+        row[f.alias] ? this.buildSnippets(f.field, String(row[f.alias]), terms) : [],
+      ),
+    }));
+  }
+
+  private static async searchPostgres(
+    tenantId: string,
+    terms: string[],
+    opts: TraceSearchOptions,
+    limit: number,
+    offset: number,
+  ): Promise<TraceSearchResult[]> {
+    const params: any[] = [tenantId, new Date(opts.startTime), new Date(opts.endTime)];
+    let whereClause = `WHERE tenant_id = $1 AND timestamp >= $2 AND timestamp <= $3`;
+    if (opts.projectId) {
+      params.push(opts.projectId);
+      whereClause += ` AND project_id = $${params.length}`;
+    }
+    // Each term (or phrase) must match
+    const tsQuery = terms
+      .map((term) => {
+        params.push(term);
+        return `phraseto_tsquery('simple', $${params.length})`;
+      })
+      .join(" && ");
+
+    const rows = await query<any>(
+      `SELECT trace_id, span_id, timestamp, query, response
+       FROM analysis_results
+       ${whereClause}
+         AND ${POSTGRES_DOCUMENT} @@ (${tsQuery})
+         AND NOT EXISTS (
+           SELECT 1 FROM trace_index ti
+           WHERE ti.trace_id::text = analysis_results.trace_id
+             AND ti.tenant_id = analysis_results.tenant_id
+             AND ti.is_deleted = TRUE
+         )
+       ORDER BY timestamp DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset],
+    );
+
+    return rows.map((row) => ({
+      trace_id: row.trace_id,
+      span_id: row.span_id || null,
+      event_type: "llm_call",
+      timestamp: row.timestamp?.toISOString?.() ?? row.timestamp,
+      snippets: [
+        ...(row.query ? this.buildSnippets("llm_call.input", row.query, terms) : []),
+        ...(row.response ? this.buildSnippets("llm_call.output", row.response, terms) : []),
+      ],
+    }));
+  }
+
+  private static async getDeletedTraceIds(tenantId: string): Promise<string[]> {
+    const rows = await query<{ trace_id: string }>(
+      `SELECT trace_id::text as trace_id FROM trace_index
+       WHERE tenant_id = $1 AND is_deleted = TRUE`,
+      [tenantId],
+    );
+    return rows.map((row) => row.trace_id);
+  }
+}
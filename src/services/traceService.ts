@@ -361,4 +361,21 @@ export class TraceService {
       );
     }
   }
+
+  /**
+   * Merge attribution tags into a stored trace summary (later keys win)
+   */
+  static async storeTraceTags(
+    traceId: string,
+    tenantId: string,
+    tags: Record<string, string>
+  ): Promise<void> {
+    const { query } = await import("../db/client.js");
+    await query(
+      `UPDATE analysis_results
+       SET tags = COALESCE(tags, '{}'::jsonb) || $3::jsonb
+       WHERE trace_id = $1 AND tenant_id = $2`,
+      [traceId, tenantId, JSON.stringify(tags)]
+    );
+  }
 }
@@ -0,0 +1,274 @@
+/**
+ * Trace Share Service
+ *
+ * Public, expiring, revocable share links for a single trace, so people
+ * outside the tenant can view it without an account. The link token is
+ * shown once at creation; only its SHA-256 hash is stored.
+ *
+ * Redaction levels, applied to the detail tree before it is served:
+ * - full: the trace as the tenant sees it, including message arrays
+ * - hide_io: inputs/outputs (LLM, tool, retrieval, trace query/response)
+ *   are replaced, metrics and structure are kept
+ * - scrubbed: inputs/outputs are kept with secrets and PII (emails, card
+ *   numbers, keys, ...) redacted
+ *
+ * Below full, identities of tenant members (score authors, creators,
+ * assignees) are removed as well.
+ */
+
+import * as crypto from "crypto";
+import { query } from "../db/client.js";
+import { SecretsScrubbingService } from "./secretsScrubbingService.js";
+
+export type ShareRedaction = "full" | "hide_io" | "scrubbed";
+
+export interface TraceShareLink {
+  id: string;
+  tenant_id: string;
+  project_id: string | null;
+  trace_id: string;
+  redaction: ShareRedaction;
+  created_by: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+  status: "active" | "expired" | "revoked";
+}
+
+const TOKEN_PREFIX = "trs_";
+const HIDDEN = "[hidden]";
+
+// Keys (or dotted key segments, e.g. "gen_ai.input.messages") holding content
+const IO_KEYS = new Set([
+  "input",
+  "output",
+  "query",
+  "response",
+  "messages",
+  "input_messages",
+  "output_messages",
+  "system_instructions",
+  "args",
+  "arguments",
+  "result",
+  "tool_args",
+  "tool_result",
+  "final_output",
+  "retrieval_context",
+  "context",
+  "input_text",
+  "embeddings",
+  "comment",
+  "feedback_comment",
+  "hallucinationReasoning",
+  "reasoning",
+]);
+
+// Tenant member identities attached to scores, annotations, ...
+const MEMBER_IDENTITY_KEYS = new Set([
+  "author_user_id",
+  "author_email",
+  "assigned_user_id",
+  "assigned_user_email",
+  "user_email",
+]);
+
+/**
+ * Hash a share link token for storage
+ */
+export function hashShareToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export class TraceShareService {
+  /**
+   * Create a link; the token is only returned here
+   */
+  static async createLink(
+    tenantId: string,
+    userId: string,
+    input: {
+      traceId: string;
+      projectId?: string | null;
+      redaction: ShareRedaction;
+      expiresAt: Date;
+    },
+  ): Promise<{ link: TraceShareLink; token: string }> {
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+    const rows = await query<any>(
+      `INSERT INTO trace_share_links
+         (tenant_id, project_id, trace_id, token_hash, redaction, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        tenantId,
+        input.projectId ?? null,
+        input.traceId,
+        hashShareToken(token),
+        input.redaction,
+        userId,
+        input.expiresAt,
+      ],
+    );
+    return { link: this.mapRow(rows[0]), token };
+  }
+
+  static async listLinks(
+    tenantId: string,
+    traceId: string,
+  ): Promise<TraceShareLink[]> {
+    const rows = await query<any>(
+      `SELECT * FROM trace_share_links
+       WHERE tenant_id = $1 AND trace_id = $2
+       ORDER BY created_at DESC`,
+      [tenantId, traceId],
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Revoke a link (no-op when already revoked); null when it does not exist
+   */
+  static async revokeLink(
+    tenantId: string,
+    traceId: string,
+    linkId: string,
+    userId: string,
+  ): Promise<TraceShareLink | null> {
+    const rows = await query<any>(
+      `UPDATE trace_share_links SET
+         revoked_at = COALESCE(revoked_at, NOW()),
+         revoked_by = COALESCE(revoked_by, $4)
+       WHERE id = $1 AND tenant_id = $2 AND trace_id = $3
+       RETURNING *`,
+      [linkId, tenantId, traceId, userId],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * The active link for a token, counting the view; null when the token is
+   * unknown, expired or revoked
+   */
+  static async recordView(token: string): Promise<TraceShareLink | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    const rows = await query<any>(
+      `UPDATE trace_share_links SET
+         view_count = view_count + 1,
+         last_viewed_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [hashShareToken(token)],
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Apply a redaction level to a detail tree (in place) and return it
+   * Tenant IDs are removed at every level; member identities at every level
+   * except full.
+   */
+  static redactTrace(tree: any, redaction: ShareRedaction): any {
+    const seen = new Set<any>();
+    const redactValue = (key: string | null, value: any): any => {
+      if (typeof value === "string") {
+        if (key === "attributes_json") return redactJson(value);
+        return redaction === "scrubbed"
+          ? SecretsScrubbingService.scrubText(value).text
+          : value;
+      }
+      if (value && typeof value === "object") {
+        redactNode(value);
+      }
+      return value;
+    };
+    const redactJson = (json: string): string | null => {
+      if (redaction === "full") return json;
+      if (redaction === "scrubbed") {
+        return SecretsScrubbingService.scrubText(json).text;
+      }
+      try {
+        const parsed = JSON.parse(json);
+        redactNode(parsed);
+        return JSON.stringify(parsed);
+      } catch {
+        return null;
+      }
+    };
+    const redactNode = (node: any) => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      if (Array.isArray(node)) {
+        for (let i = 0; i < node.length; i++) {
+          node[i] = redactValue(null, node[i]);
+        }
+        return;
+      }
+      for (const key of Object.keys(node)) {
+        if (
+          key === "tenant_id" ||
+          (redaction !== "full" && isMemberIdentityKey(key))
+        ) {
+          delete node[key];
+          continue;
+        }
+        const value = node[key];
+        if (
+          redaction === "hide_io" &&
+          isContentKey(key) &&
+          value !== null &&
+          value !== undefined &&
+          typeof value !== "number" &&
+          typeof value !== "boolean"
+        ) {
+          node[key] = typeof value === "string" ? HIDDEN : null;
+          continue;
+        }
+        node[key] = redactValue(key, value);
+      }
+    };
+
+    if (tree && typeof tree === "object") {
+      redactNode(tree);
+    }
+    return tree;
+  }
+
+  private static mapRow(row: any): TraceShareLink {
+    const expiresAt = new Date(row.expires_at);
+    const revokedAt = row.revoked_at ? new Date(row.revoked_at) : null;
+    return {
+      id: row.id,
+      tenant_id: row.tenant_id,
+      project_id: row.project_id ?? null,
+      trace_id: row.trace_id,
+      redaction: row.redaction,
+      created_by: row.created_by ?? null,
+      expires_at: expiresAt.toISOString(),
+      revoked_at: revokedAt ? revokedAt.toISOString() : null,
+      view_count: Number(row.view_count ?? 0),
+      last_viewed_at: row.last_viewed_at
+        ? new Date(row.last_viewed_at).toISOString()
+        : null,
+      created_at: new Date(row.created_at).toISOString(),
+      status: revokedAt
+        ? "revoked"
+        : expiresAt.getTime() <= Date.now()
+          ? "expired"
+          : "active",
+    };
+  }
+}
+
+function isContentKey(key: string): boolean {
+  return IO_KEYS.has(key) || key.split(".").some((segment) => IO_KEYS.has(segment));
+}
+
+function isMemberIdentityKey(key: string): boolean {
+  return (
+    MEMBER_IDENTITY_KEYS.has(key) ||
+    /^(created|updated|resolved|reviewed)_by/.test(key)
+  );
+}
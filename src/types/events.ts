@@ -62,6 +62,9 @@ export interface CanonicalEvent {
   // PHASE 3: Optional observation type (Langfuse parity)
   observation_type?: ObservationType | null;
 
+  // Attribution tags (customer, feature, team, ...); see utils/eventTags.ts
+  tags?: Record<string, string> | null;
+
   // Event-specific attributes (JSON field for extensibility)
   attributes: EventAttributes;
 }
@@ -73,10 +76,15 @@ export interface EventAttributes {
   // LLM call attributes
   llm_call?: {
     model: string;
-    prompt_template_id?: string | null;
+    prompt_template_id?: string | null; // Prompt version id, "name@<version>" or "name@<label>"
+    // Set at ingestion when prompt_template_id resolves to a registry version
+    prompt_version_id?: string | null;
+    prompt_name?: string | null;
+    prompt_version?: number | null;
     input_tokens?: number | null;
     output_tokens?: number | null;
     total_tokens?: number | null;
+    cached_input_tokens?: number | null; // Input tokens served from the provider's prompt cache
     latency_ms: number;
     cost?: number | null;
     temperature?: number | null;
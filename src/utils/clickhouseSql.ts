@@ -0,0 +1,55 @@
+/**
+ * ClickHouse SQL literals
+ *
+ * Tinybird's SQL API takes a raw query string (no bound parameters), so every
+ * user-provided value must go through one of these helpers before it is
+ * placed in a query. Identifiers are never built from user input.
+ */
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Quoted string literal (backslashes and single quotes escaped)
+ */
+export function chString(value: string): string {
+  return `'${String(value).replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Comma-separated string literals for IN (...)
+ */
+export function chStringList(values: string[]): string {
+  return values.map(chString).join(", ");
+}
+
+/**
+ * Finite number literal; throws on NaN/Infinity
+ */
+export function chNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid numeric literal: ${value}`);
+  }
+  return String(value);
+}
+
+/**
+ * UUID literal; throws unless the value is a UUID
+ */
+export function chUuid(value: string): string {
+  if (!UUID_REGEX.test(value)) {
+    throw new Error("Invalid UUID format");
+  }
+  return `'${value}'`;
+}
+
+/**
+ * DateTime64(3) from an ISO 8601 timestamp; throws on unparseable dates
+ */
+export function chDateTime(value: string): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return `parseDateTime64BestEffort('${new Date(time).toISOString()}', 3)`;
+}
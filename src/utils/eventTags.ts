@@ -0,0 +1,77 @@
+/**
+ * Event tags
+ *
+ * Canonical events carry an optional `tags` map (string → string) used for
+ * cost attribution and filtering, e.g. { customer: "acme", feature: "search",
+ * team: "growth" }. Tags on a trace_start event are trace-level defaults for
+ * every event of that trace in the same batch; an event's own tags win.
+ */
+
+import { CanonicalEvent } from "../types/events.js";
+
+export const TAG_KEY_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+export const MAX_TAG_VALUE_LENGTH = 256;
+export const MAX_TAGS_PER_EVENT = 50;
+
+/**
+ * Apply trace-level tags (from trace_start events) to the other events of each trace
+ */
+export function applyTraceTags(events: CanonicalEvent[]): CanonicalEvent[] {
+  const traceTags = new Map<string, Record<string, string>>();
+  for (const event of events) {
+    if (event.event_type === "trace_start" && event.tags) {
+      traceTags.set(event.trace_id, {
+        ...(traceTags.get(event.trace_id) || {}),
+        ...event.tags,
+      });
+    }
+  }
+  if (traceTags.size === 0) return events;
+
+  return events.map((event) => {
+    const inherited = traceTags.get(event.trace_id);
+    if (!inherited || event.event_type === "trace_start") return event;
+    return { ...event, tags: { ...inherited, ...(event.tags || {}) } };
+  });
+}
+
+/**
+ * Union of the tags of a trace's events (later events win on conflicts)
+ */
+export function collectTraceTags(
+  events: Array<Pick<CanonicalEvent, "tags">>,
+): Record<string, string> | null {
+  let merged: Record<string, string> | null = null;
+  for (const event of events) {
+    if (event.tags && Object.keys(event.tags).length > 0) {
+      merged = { ...(merged || {}), ...event.tags };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parse a tag filter query param: "key:value,key2:value2" (or repeated params)
+ * Returns null when a pair is malformed.
+ */
+export function parseTagFilter(value: unknown): Record<string, string> | null {
+  if (value === null || value === undefined || value === "") return {};
+  const parts = (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v).split(","))
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const tags: Record<string, string> = {};
+  for (const part of parts) {
+    // Keys may contain ":" themselves; split on the last one
+    const last = part.lastIndexOf(":");
+    if (last <= 0 || last === part.length - 1) return null;
+    const key = part.slice(0, last);
+    const tagValue = part.slice(last + 1);
+    if (!TAG_KEY_PATTERN.test(key) || tagValue.length > MAX_TAG_VALUE_LENGTH) {
+      return null;
+    }
+    tags[key] = tagValue;
+  }
+  return tags;
+}
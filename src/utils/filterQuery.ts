@@ -0,0 +1,617 @@
+/**
+ * Trace filter query language
+ *
+ * Parses queries such as
+ *   model:gpt-4o AND latency_ms>3000 AND signal:tool_error AND attr.llm_call.finish_reason="length"
+ * into an AST, and compiles the AST into
+ *   - a Tinybird HAVING expression over a trace's canonical events
+ *     (a predicate matches a trace when any of its events matches), and
+ *   - a Postgres predicate over analysis_results with bound ($n) parameters.
+ *
+ * Grammar (keywords are case-insensitive, juxtaposition means AND):
+ *   query      := or
+ *   or         := and ("OR" and)*
+ *   and        := unary (["AND"] unary)*
+ *   unary      := ("NOT" | "-") unary | "(" or ")" | comparison
+ *   comparison := field op value
+ *   op         := ":" | "=" | "!=" | ">" | ">=" | "<" | "<="
+ *   value      := word | "quoted string"
+ *
+ * ":" is equality, with "*" as a wildcard for string fields. "!=" matches
+ * traces where no event has the value. Errors carry the position and text
+ * of the offending token.
+ */
+
+import { chNumber, chString } from "./clickhouseSql.js";
+import { TAG_KEY_PATTERN } from "./eventTags.js";
+
+export type FilterOperator = ":" | "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export interface FilterComparison {
+  type: "comparison";
+  field: string; // canonical field name ("model", "signal", "tag", "attr", ...)
+  key?: string; // tag key or attribute path for "tag" / "attr"
+  op: FilterOperator;
+  value: string | number;
+  position: number; // offset of the field token in the query
+  token: string; // field as written
+}
+
+export type FilterNode =
+  | { type: "and"; children: FilterNode[] }
+  | { type: "or"; children: FilterNode[] }
+  | { type: "not"; child: FilterNode }
+  | FilterComparison;
+
+export class FilterQueryError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly token: string,
+  ) {
+    super(message);
+    this.name = "FilterQueryError";
+  }
+}
+
+export const MAX_FILTER_QUERY_LENGTH = 2000;
+const MAX_COMPARISONS = 50;
+const MAX_DEPTH = 20;
+const ATTR_SEGMENT_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+const MAX_ATTR_DEPTH = 6;
+
+type FieldKind = "string" | "number";
+
+interface FieldSpec {
+  kind: FieldKind;
+  // Tinybird: optional event filter plus the value expression
+  tinybirdEvent?: string;
+  tinybird: string;
+  // Postgres: analysis_results column (or "cost" resolved at compile time)
+  postgres?: string;
+}
+
+const LLM_CALL = `event_type = 'llm_call'`;
+const llmAttr = (name: string) =>
+  `JSONExtractString(attributes_json, '$.llm_call.${name}')`;
+const llmNumber = (name: string) => `toFloat64OrNull(${llmAttr(name)})`;
+
+const FIELDS: Record<string, FieldSpec> = {
+  model: { kind: "string", tinybirdEvent: LLM_CALL, tinybird: llmAttr("model"), postgres: "model" },
+  trace_id: { kind: "string", tinybird: "trace_id", postgres: "trace_id" },
+  user_id: { kind: "string", tinybird: "user_id", postgres: "user_id" },
+  session_id: { kind: "string", tinybird: "session_id", postgres: "session_id" },
+  conversation_id: { kind: "string", tinybird: "conversation_id", postgres: "conversation_id" },
+  environment: { kind: "string", tinybird: "environment", postgres: "environment" },
+  route: { kind: "string", tinybird: "route" },
+  agent_name: { kind: "string", tinybird: "agent_name" },
+  version: { kind: "string", tinybird: "version" },
+  finish_reason: {
+    kind: "string",
+    tinybirdEvent: LLM_CALL,
+    tinybird: llmAttr("finish_reason"),
+    postgres: "finish_reason",
+  },
+  latency_ms: {
+    kind: "number",
+    tinybirdEvent: LLM_CALL,
+    tinybird: llmNumber("latency_ms"),
+    postgres: "latency_ms",
+  },
+  tokens: {
+    kind: "number",
+    tinybirdEvent: LLM_CALL,
+    tinybird: llmNumber("total_tokens"),
+    postgres: "tokens_total",
+  },
+  cost: { kind: "number", tinybirdEvent: LLM_CALL, tinybird: llmNumber("cost"), postgres: "cost" },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  latency: "latency_ms",
+  total_tokens: "tokens",
+  tokens_total: "tokens",
+  env: "environment",
+};
+
+// attr.* paths that analysis_results stores as columns
+const POSTGRES_ATTR_COLUMNS: Record<string, string> = {
+  "llm_call.model": "model",
+  "llm_call.finish_reason": "finish_reason",
+  "llm_call.latency_ms": "latency_ms",
+  "llm_call.total_tokens": "tokens_total",
+  "llm_call.response_id": "response_id",
+  "llm_call.system_fingerprint": "system_fingerprint",
+};
+
+// Signals available on analysis_results (flags, or issue counts in metadata_json)
+const POSTGRES_SIGNALS: Record<string, string> = {
+  hallucination: `is_hallucination = true`,
+  context_drop: `has_context_drop = true`,
+  faithfulness: `has_faithfulness_issue = true`,
+  model_drift: `has_model_drift = true`,
+  drift: `has_model_drift = true`,
+  cost_anomaly: `has_cost_anomaly = true`,
+  latency_anomaly: `has_latency_anomaly = true`,
+  quality_degradation: `has_quality_degradation = true`,
+  prompt_injection: `has_prompt_injection = true`,
+  context_overflow: `has_context_overflow = true`,
+  tool_error: `COALESCE((NULLIF(metadata_json, '')::jsonb #>> '{issues,tool_failures}')::int, 0) > 0`,
+  tool_timeout: `COALESCE((NULLIF(metadata_json, '')::jsonb #>> '{issues,tool_timeouts}')::int, 0) > 0`,
+};
+
+// Analysis results never written to canonical events
+const ANALYSIS_ONLY_SIGNALS = new Set([
+  "hallucination",
+  "context_drop",
+  "faithfulness",
+  "model_drift",
+  "drift",
+  "quality_degradation",
+]);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = "word" | "string" | "op" | "lparen" | "rparen" | "eof";
+
+interface Token {
+  type: TokenType;
+  text: string; // raw text as written
+  value: string; // unquoted value for strings
+  position: number;
+}
+
+const OPERATOR_CHARS = new Set([":", "=", "!", "<", ">"]);
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", text: ch, value: ch, position: i });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new FilterQueryError("Unterminated string", start, input.slice(start));
+      }
+      i++;
+      tokens.push({ type: "string", text: input.slice(start, i), value, position: start });
+      continue;
+    }
+    if (OPERATOR_CHARS.has(ch)) {
+      const two = input.slice(i, i + 2);
+      const op = [">=", "<=", "!="].includes(two) ? two : ch;
+      if (op === "!") {
+        throw new FilterQueryError(`Unexpected "!"`, i, "!");
+      }
+      tokens.push({ type: "op", text: op, value: op, position: i });
+      i += op.length;
+      continue;
+    }
+    const start = i;
+    while (
+      i < input.length &&
+      !/\s/.test(input[i]) &&
+      !OPERATOR_CHARS.has(input[i]) &&
+      !["(", ")", '"'].includes(input[i])
+    ) {
+      i++;
+    }
+    const text = input.slice(start, i);
+    tokens.push({ type: "word", text, value: text, position: start });
+  }
+
+  tokens.push({ type: "eof", text: "", value: "", position: input.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const isKeyword = (token: Token, keyword: string) =>
+  token.type === "word" && token.text.toUpperCase() === keyword;
+
+class Parser {
+  private index = 0;
+  private comparisons = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr(0);
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new FilterQueryError(`Unexpected "${next.text}"`, next.position, next.text);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private parseOr(depth: number): FilterNode {
+    const children = [this.parseAnd(depth)];
+    while (isKeyword(this.peek(), "OR")) {
+      this.next();
+      children.push(this.parseAnd(depth));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(depth: number): FilterNode {
+    const children = [this.parseUnary(depth)];
+    for (;;) {
+      const token = this.peek();
+      if (isKeyword(token, "AND")) {
+        this.next();
+      } else if (token.type === "eof" || token.type === "rparen" || isKeyword(token, "OR")) {
+        break;
+      }
+      children.push(this.parseUnary(depth));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(depth: number): FilterNode {
+    const token = this.peek();
+    if (depth > MAX_DEPTH) {
+      throw new FilterQueryError("Query is nested too deeply", token.position, token.text);
+    }
+    if (token.type === "eof") {
+      throw new FilterQueryError("Unexpected end of query", token.position, "");
+    }
+    if (isKeyword(token, "NOT") || (token.type === "word" && token.text === "-")) {
+      this.next();
+      return { type: "not", child: this.parseUnary(depth + 1) };
+    }
+    if (token.type === "word" && token.text.startsWith("-")) {
+      // "-field:value" negates the comparison
+      this.tokens[this.index] = {
+        ...token,
+        text: token.text.slice(1),
+        value: token.value.slice(1),
+        position: token.position + 1,
+      };
+      return { type: "not", child: this.parseUnary(depth + 1) };
+    }
+    if (token.type === "lparen") {
+      this.next();
+      const node = this.parseOr(depth + 1);
+      const close = this.next();
+      if (close.type !== "rparen") {
+        throw new FilterQueryError(
+          close.type === "eof" ? `Missing ")" for "(" at position ${token.position}` : `Expected ")"`,
+          close.position,
+          close.text,
+        );
+      }
+      return node;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterComparison {
+    const fieldToken = this.next();
+    if (fieldToken.type !== "word") {
+      throw new FilterQueryError(
+        `Expected a field, got "${fieldToken.text}"`,
+        fieldToken.position,
+        fieldToken.text,
+      );
+    }
+    if (++this.comparisons > MAX_COMPARISONS) {
+      throw new FilterQueryError(
+        `Query has more than ${MAX_COMPARISONS} conditions`,
+        fieldToken.position,
+        fieldToken.text,
+      );
+    }
+
+    const { field, key, kind } = resolveField(fieldToken);
+
+    const opToken = this.next();
+    if (opToken.type !== "op") {
+      throw new FilterQueryError(
+        `Expected an operator after "${fieldToken.text}"`,
+        opToken.position,
+        opToken.text,
+      );
+    }
+    const op = opToken.text as FilterOperator;
+
+    const valueToken = this.next();
+    if (valueToken.type !== "word" && valueToken.type !== "string") {
+      throw new FilterQueryError(
+        `Expected a value after "${fieldToken.text}${op}"`,
+        valueToken.position,
+        valueToken.text,
+      );
+    }
+
+    const isRange = op === ">" || op === ">=" || op === "<" || op === "<=";
+    let value: string | number = valueToken.value;
+
+    if (kind === "number") {
+      const parsed = valueToken.type === "word" ? Number(valueToken.value) : NaN;
+      if (valueToken.value === "" || !Number.isFinite(parsed)) {
+        throw new FilterQueryError(
+          `"${fieldToken.text}" expects a number`,
+          valueToken.position,
+          valueToken.text,
+        );
+      }
+      value = parsed;
+    } else if (kind === "any") {
+      // attr.* compares numerically when given an unquoted number
+      const parsed = Number(valueToken.value);
+      if (valueToken.type === "word" && valueToken.value !== "" && Number.isFinite(parsed)) {
+        value = parsed;
+      } else if (isRange) {
+        throw new FilterQueryError(
+          `"${op}" requires a number`,
+          valueToken.position,
+          valueToken.text,
+        );
+      }
+    } else if (isRange) {
+      throw new FilterQueryError(
+        `"${op}" is not supported for "${fieldToken.text}"`,
+        opToken.position,
+        opToken.text,
+      );
+    }
+
+    if (field === "signal" && op !== ":" && op !== "=" && op !== "!=") {
+      throw new FilterQueryError(`"${op}" is not supported for "signal"`, opToken.position, opToken.text);
+    }
+
+    return {
+      type: "comparison",
+      field,
+      ...(key !== undefined ? { key } : {}),
+      op,
+      value,
+      position: fieldToken.position,
+      token: fieldToken.text,
+    };
+  }
+}
+
+function resolveField(token: Token): {
+  field: string;
+  key?: string;
+  kind: FieldKind | "any";
+} {
+  const name = token.text;
+  const lower = name.toLowerCase();
+
+  if (lower === "signal") {
+    return { field: "signal", kind: "string" };
+  }
+  if (lower.startsWith("tag.")) {
+    const key = name.slice(4);
+    if (!TAG_KEY_PATTERN.test(key)) {
+      throw new FilterQueryError(`Invalid tag key "${key}"`, token.position + 4, key);
+    }
+    return { field: "tag", key, kind: "string" };
+  }
+  if (lower.startsWith("attr.")) {
+    const segments = name.slice(5).split(".");
+    let offset = token.position + 5;
+    for (const segment of segments) {
+      if (!ATTR_SEGMENT_PATTERN.test(segment)) {
+        throw new FilterQueryError(`Invalid attribute path segment "${segment}"`, offset, segment);
+      }
+      offset += segment.length + 1;
+    }
+    if (segments.length > MAX_ATTR_DEPTH) {
+      throw new FilterQueryError(
+        `Attribute paths are limited to ${MAX_ATTR_DEPTH} segments`,
+        token.position,
+        name,
+      );
+    }
+    return { field: "attr", key: segments.join("."), kind: "any" };
+  }
+
+  const canonical = FIELD_ALIASES[lower] ?? lower;
+  const spec = FIELDS[canonical];
+  if (!spec) {
+    throw new FilterQueryError(`Unknown field "${name}"`, token.position, name);
+  }
+  return { field: canonical, kind: spec.kind };
+}
+
+/**
+ * Parse a filter query into an AST
+ * Throws FilterQueryError (with position and token) on invalid input.
+ */
+export function parseFilterQuery(input: string): FilterNode {
+  if (input.length > MAX_FILTER_QUERY_LENGTH) {
+    throw new FilterQueryError(
+      `Query is longer than ${MAX_FILTER_QUERY_LENGTH} characters`,
+      MAX_FILTER_QUERY_LENGTH,
+      "",
+    );
+  }
+  const tokens = tokenize(input);
+  if (tokens.length === 1) {
+    throw new FilterQueryError("Query is empty", 0, "");
+  }
+  return new Parser(tokens).parse();
+}
+
+// ---------------------------------------------------------------------------
+// Compilers
+// ---------------------------------------------------------------------------
+
+const hasWildcard = (comparison: FilterComparison) =>
+  comparison.op === ":" && typeof comparison.value === "string" && comparison.value.includes("*");
+
+// LIKE pattern with "*" as the only wildcard
+function likePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, "%");
+}
+
+/**
+ * Compile to a Tinybird HAVING expression, evaluated per trace_id over
+ * canonical_events (GROUP BY trace_id). Literals are escaped with the
+ * clickhouseSql helpers; no user text reaches the query unquoted.
+ */
+export function compileFilterToTinybird(node: FilterNode): string {
+  if (node.type === "and" || node.type === "or") {
+    const joiner = node.type === "and" ? " AND " : " OR ";
+    return `(${node.children.map(compileFilterToTinybird).join(joiner)})`;
+  }
+  if (node.type === "not") {
+    return `NOT (${compileFilterToTinybird(node.child)})`;
+  }
+
+  let eventFilter: string | undefined;
+  let expr: string;
+  let numeric = typeof node.value === "number";
+
+  if (node.field === "signal") {
+    if (ANALYSIS_ONLY_SIGNALS.has(String(node.value))) {
+      throw new FilterQueryError(
+        `Signal "${node.value}" is not available in event search`,
+        node.position,
+        node.token,
+      );
+    }
+    eventFilter = `event_type = 'error'`;
+    expr = `JSONExtractString(attributes_json, 'signal', 'signal_name')`;
+  } else if (node.field === "tag") {
+    expr = `JSONExtractString(attributes_json, 'tags', ${chString(node.key!)})`;
+  } else if (node.field === "attr") {
+    // Segments are validated against ATTR_SEGMENT_PATTERN by the parser
+    const path = `JSONExtractString(attributes_json, '$.${node.key}')`;
+    expr = numeric ? `toFloat64OrNull(${path})` : path;
+  } else {
+    const spec = FIELDS[node.field];
+    eventFilter = spec.tinybirdEvent;
+    expr = spec.tinybird;
+    numeric = spec.kind === "number";
+  }
+
+  const literal = numeric ? chNumber(node.value as number) : chString(String(node.value));
+  let predicate: string;
+  let negate = false;
+  if (hasWildcard(node)) {
+    predicate = `${expr} LIKE ${chString(likePattern(node.value as string))}`;
+  } else if (node.op === "!=") {
+    predicate = `${expr} = ${literal}`;
+    negate = true;
+  } else {
+    const op = node.op === ":" ? "=" : node.op;
+    predicate = `${expr} ${op} ${literal}`;
+  }
+
+  const condition = eventFilter ? `${eventFilter} AND ${predicate}` : predicate;
+  return `countIf(${condition}) ${negate ? "= 0" : "> 0"}`;
+}
+
+export interface CompiledPostgresFilter {
+  sql: string;
+  params: any[];
+  nextIndex: number;
+}
+
+/**
+ * Compile to a Postgres predicate over analysis_results
+ * Parameters are numbered from startIndex. costSql is the per-trace cost
+ * expression (required for "cost" comparisons).
+ */
+export function compileFilterToPostgres(
+  node: FilterNode,
+  startIndex: number,
+  options: { costSql?: string } = {},
+): CompiledPostgresFilter {
+  const params: any[] = [];
+  const bind = (value: any) => {
+    params.push(value);
+    return `$${startIndex + params.length - 1}`;
+  };
+
+  const unsupported = (comparison: FilterComparison): never => {
+    throw new FilterQueryError(
+      `"${comparison.token}" is not available in the trace index`,
+      comparison.position,
+      comparison.token,
+    );
+  };
+
+  const compile = (current: FilterNode): string => {
+    if (current.type === "and" || current.type === "or") {
+      const joiner = current.type === "and" ? " AND " : " OR ";
+      return `(${current.children.map(compile).join(joiner)})`;
+    }
+    if (current.type === "not") {
+      return `NOT COALESCE(${compile(current.child)}, false)`;
+    }
+
+    if (current.field === "signal") {
+      const predicate = POSTGRES_SIGNALS[String(current.value)];
+      if (!predicate || hasWildcard(current)) {
+        throw new FilterQueryError(
+          `Signal "${current.value}" is not available in the trace index`,
+          current.position,
+          current.token,
+        );
+      }
+      return current.op === "!=" ? `NOT COALESCE(${predicate}, false)` : `(${predicate})`;
+    }
+
+    let column: string | undefined;
+    if (current.field === "tag") {
+      column = `tags->>${bind(current.key)}`;
+    } else if (current.field === "attr") {
+      column = POSTGRES_ATTR_COLUMNS[current.key!];
+    } else if (current.field === "cost") {
+      column = options.costSql ? `(${options.costSql})` : undefined;
+    } else {
+      column = FIELDS[current.field].postgres;
+    }
+    if (!column) {
+      return unsupported(current);
+    }
+
+    if (hasWildcard(current)) {
+      return `${column} LIKE ${bind(likePattern(current.value as string))}`;
+    }
+    if (current.op === "!=") {
+      return `${column} IS DISTINCT FROM ${bind(current.value)}`;
+    }
+    const op = current.op === ":" ? "=" : current.op;
+    return `${column} ${op} ${bind(current.value)}`;
+  };
+
+  const sql = compile(node);
+  return { sql, params, nextIndex: startIndex + params.length };
+}
@@ -0,0 +1,37 @@
+/**
+ * Relative time ranges ("30m", "24h", "7d", "4w") as stored by saved views
+ * and used for share link expiry
+ */
+
+export const RELATIVE_TIME_RANGE_PATTERN = /^([1-9]\d{0,3})(m|h|d|w)$/;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Length of a relative range in milliseconds; null when malformed
+ */
+export function relativeDurationMs(range: string): number | null {
+  const match = RELATIVE_TIME_RANGE_PATTERN.exec(range);
+  if (!match) return null;
+  return parseInt(match[1], 10) * UNIT_MS[match[2]];
+}
+
+/**
+ * Absolute window ending at `now`; null for malformed ranges
+ */
+export function resolveRelativeTimeRange(
+  range: string,
+  now: Date = new Date(),
+): { start: string; end: string } | null {
+  const durationMs = relativeDurationMs(range);
+  if (durationMs === null) return null;
+  return {
+    start: new Date(now.getTime() - durationMs).toISOString(),
+    end: now.toISOString(),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Sequence alignment (longest common subsequence) and text diffs
+ * used by trace comparison
+ */
+
+export interface TextDiffOp {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface TextDiff {
+  granularity: "word" | "line" | "whole";
+  ops: TextDiffOp[];
+  added_chars: number;
+  removed_chars: number;
+}
+
+// LCS table cells (n * m) allowed before falling back to a coarser diff
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * LCS table cells left for a series of diffs (e.g. one trace comparison);
+ * each table is deducted, and tables that do not fit are not built
+ */
+export interface DiffBudget {
+  cells: number;
+}
+
+/**
+ * Index pairs [i, j] of a longest common subsequence of two key lists
+ * Returns null when the lists are too long to align (or exceed the budget).
+ */
+export function lcsPairs(
+  a: string[],
+  b: string[],
+  budget?: DiffBudget,
+): Array<[number, number]> | null {
+  // Common prefix and suffix never need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if (n * m > MAX_LCS_CELLS) return null;
+  if (budget) {
+    if (n * m > budget.cells) return null;
+    budget.cells -= n * m;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let k = 0; k < prefix; k++) pairs.push([k, k]);
+
+  if (n > 0 && m > 0) {
+    // lengths[i * (m + 1) + j] = LCS of a[i..] and b[j..] (middle section)
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[prefix + i] === b[prefix + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[prefix + i] === b[prefix + j]) {
+        pairs.push([prefix + i, prefix + j]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    pairs.push([a.length - k, b.length - k]);
+  }
+  return pairs;
+}
+
+/**
+ * Word-level diff of two texts (line-level, then whole-text replacement,
+ * when the texts are too long to diff by word or the budget is spent)
+ */
+export function diffText(a: string, b: string, budget?: DiffBudget): TextDiff {
+  const granularities: Array<{
+    granularity: TextDiff["granularity"];
+    split: (text: string) => string[];
+  }> = [
+    { granularity: "word", split: (text) => text.match(/\s+|\S+/g) || [] },
+    { granularity: "line", split: (text) => text.match(/[^\n]*\n|[^\n]+$/g) || [] },
+  ];
+
+  for (const { granularity, split } of granularities) {
+    const tokensA = split(a);
+    const tokensB = split(b);
+    const pairs = lcsPairs(tokensA, tokensB, budget);
+    if (!pairs) continue;
+
+    const ops: TextDiffOp[] = [];
+    const push = (op: TextDiffOp["op"], text: string) => {
+      const last = ops[ops.length - 1];
+      if (last && last.op === op) {
+        last.text += text;
+      } else {
+        ops.push({ op, text });
+      }
+    };
+    let i = 0;
+    let j = 0;
+    for (const [pi, pj] of [...pairs, [tokensA.length, tokensB.length]]) {
+      if (i < pi) push("delete", tokensA.slice(i, pi).join(""));
+      if (j < pj) push("insert", tokensB.slice(j, pj).join(""));
+      if (pi < tokensA.length) push("equal", tokensA[pi]);
+      i = pi + 1;
+      j = pj + 1;
+    }
+    return summarize(granularity, ops);
+  }
+
+  const ops: TextDiffOp[] = [];
+  if (a) ops.push({ op: "delete", text: a });
+  if (b) ops.push({ op: "insert", text: b });
+  return summarize("whole", ops);
+}
+
+function summarize(
+  granularity: TextDiff["granularity"],
+  ops: TextDiffOp[],
+): TextDiff {
+  let added = 0;
+  let removed = 0;
+  for (const op of ops) {
+    if (op.op === "insert") added += op.text.length;
+    if (op.op === "delete") removed += op.text.length;
+  }
+  return { granularity, ops, added_chars: added, removed_chars: removed };
+}
@@ -1,4 +1,18 @@
 import { z } from "zod";
+import {
+  MAX_TAGS_PER_EVENT,
+  MAX_TAG_VALUE_LENGTH,
+  TAG_KEY_PATTERN,
+} from "../utils/eventTags.js";
+import {
+  FilterQueryError,
+  MAX_FILTER_QUERY_LENGTH,
+  parseFilterQuery,
+} from "../utils/filterQuery.js";
+import {
+  RELATIVE_TIME_RANGE_PATTERN,
+  relativeDurationMs,
+} from "../utils/relativeTimeRange.js";
 
 /**
  * Validation schemas for API endpoints
@@ -84,6 +98,36 @@ const observationTypeSchema = z.enum([
   "guardrail",
 ]);
 
+/**
+ * Event tags: up to 50 string values keyed by [A-Za-z0-9_.:-]{1,64}
+ */
+export const eventTagsSchema = z
+  .record(
+    z.string().regex(TAG_KEY_PATTERN, "Tag keys must match [A-Za-z0-9_.:-]{1,64}"),
+    z.string().max(MAX_TAG_VALUE_LENGTH)
+  )
+  .refine((tags) => Object.keys(tags).length <= MAX_TAGS_PER_EVENT, {
+    message: `At most ${MAX_TAGS_PER_EVENT} tags per event`,
+  });
+
+/**
+ * Trace filter query (see utils/filterQuery.ts); errors name the token and position
+ */
+export const filterQuerySchema = z
+  .string()
+  .max(MAX_FILTER_QUERY_LENGTH)
+  .superRefine((value, ctx) => {
+    try {
+      parseFilterQuery(value);
+    } catch (error) {
+      if (!(error instanceof FilterQueryError)) throw error;
+      ctx.addIssue({
+        code: "custom",
+        message: `${error.message} (position ${error.position}, token "${error.token}")`,
+      });
+    }
+  });
+
 export const canonicalEventSchema = z.object({
   tenant_id: z.string().uuid(),
   project_id: z.string().uuid(),
@@ -101,6 +145,7 @@ export const canonicalEventSchema = z.object({
   version: z.string().nullable().optional(),
   route: z.string().nullable().optional(),
   observation_type: observationTypeSchema.nullable().optional(),
+  tags: eventTagsSchema.nullable().optional(),
   attributes: z.record(z.string(), z.any()), // Flexible JSON object (also accepts observation_type)
 });
 
@@ -108,3 +153,568 @@ export const canonicalEventSchema = z.object({
  * Batch events schema (array of canonical events)
  */
 export const batchEventsSchema = z.array(canonicalEventSchema).min(1).max(1000);
+
+/**
+ * Signal rule schema (POST /api/v1/signal-rules); PATCH accepts any subset
+ */
+export const signalRuleSchema = z.object({
+  projectId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  signalName: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9_]+$/, "signalName must be snake_case"),
+  signalType: z.enum(["threshold", "spike"]).optional(),
+  eventType: eventTypeSchema,
+  route: z.string().min(1).max(255).nullable().optional(),
+  model: z.string().min(1).max(255).nullable().optional(),
+  metric: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(
+      /^[a-z0-9_]+(\.[a-z0-9_]+)*$/,
+      "metric must be an attribute path such as latency_ms"
+    ),
+  operator: z.enum(["gt", "gte", "lt", "lte", "eq"]).optional(),
+  threshold: z.number(),
+  severity: z.enum(["low", "medium", "high"]).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const signalRuleUpdateSchema = signalRuleSchema.partial();
+
+/**
+ * Issue status change (PATCH /api/v1/issues/groups/:issueId)
+ */
+export const issueStatusUpdateSchema = z.object({
+  status: z.enum(["open", "acknowledged", "resolved", "ignored", "regressed"]),
+});
+
+/**
+ * Alert rule schema (POST /api/v1/alerts/rules); PATCH accepts any subset
+ */
+const alertRuleBaseSchema = z.object({
+  projectId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  ruleType: z.enum(["signal_count", "error_rate", "metric_threshold"]),
+  signalName: z.string().min(1).max(100).nullable().optional(),
+  signalSeverity: z.enum(["low", "medium", "high"]).nullable().optional(),
+  metric: z
+    .enum([
+      "latency_p50",
+      "latency_p95",
+      "latency_p99",
+      "latency_avg",
+      "error_rate",
+      "total_cost",
+      "avg_cost_per_trace",
+      "total_tokens",
+      "avg_tokens_per_trace",
+      "trace_count",
+    ])
+    .nullable()
+    .optional(),
+  operator: z.enum(["gt", "gte", "lt", "lte", "eq"]).optional(),
+  threshold: z.number(),
+  windowMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+  channelIds: z.array(z.string().uuid()).max(20).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const alertRuleSchema = alertRuleBaseSchema.refine(
+  (rule) => rule.ruleType !== "metric_threshold" || !!rule.metric,
+  { message: "metric is required for metric_threshold rules", path: ["metric"] }
+);
+
+export const alertRuleUpdateSchema = alertRuleBaseSchema.partial();
+
+/**
+ * Alert channel schema (POST /api/v1/alerts/channels)
+ * webhook/slack need config.url; email needs config.recipients
+ */
+const alertChannelConfigSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "url must be http(s)")
+    .optional(),
+  secret: z.string().min(16).max(255).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  recipients: z.array(z.string().email()).min(1).max(50).optional(),
+});
+
+export const alertChannelSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(255),
+    type: z.enum(["webhook", "slack", "email"]),
+    config: alertChannelConfigSchema,
+    enabled: z.boolean().optional(),
+  })
+  .refine(
+    (channel) =>
+      channel.type === "email" ? !!channel.config.recipients : !!channel.config.url,
+    {
+      message: "webhook and slack channels need config.url; email channels need config.recipients",
+      path: ["config"],
+    }
+  );
+
+export const alertChannelUpdateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  config: alertChannelConfigSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * Trace list filter (same fields as GET /api/v1/traces query params)
+ */
+export const traceFilterSchema = z.object({
+  issueType: z.string().max(100).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  models: z.array(z.string().max(255)).max(50).optional(),
+  userIds: z.array(z.string().max(255)).max(100).optional(),
+  environments: z.array(z.string().max(50)).max(10).optional(),
+  conversationId: z.string().max(255).optional(),
+  minCost: z.number().optional(),
+  maxCost: z.number().optional(),
+  minLatencyMs: z.number().optional(),
+  maxLatencyMs: z.number().optional(),
+  minQualityScore: z.number().optional(),
+  maxQualityScore: z.number().optional(),
+  search: z.string().max(500).optional(),
+  tags: eventTagsSchema.optional(),
+  q: filterQuerySchema.optional(),
+  sortBy: z
+    .enum([
+      "timestamp",
+      "latency",
+      "cost",
+      "quality_score",
+      "tokens_total",
+      "issue_count",
+    ])
+    .optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+});
+
+/**
+ * Dataset schemas (/api/v1/datasets)
+ */
+export const datasetSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  projectId: z.string().uuid().nullable().optional(),
+});
+
+export const datasetUpdateSchema = datasetSchema
+  .omit({ projectId: true })
+  .partial();
+
+export const datasetItemUpdateSchema = z.object({
+  expectedOutput: z.string().max(100000).nullable().optional(),
+  correctedOutput: z.string().max(100000).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+export const datasetAddTraceSchema = datasetItemUpdateSchema.extend({
+  traceId: z.string().uuid(),
+});
+
+export const datasetBulkAddSchema = z.object({
+  filter: traceFilterSchema,
+  projectId: z.string().uuid().optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * Experiment schemas (/api/v1/experiments)
+ */
+export const experimentScorerSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("exact_match"),
+    name: z.string().max(100).optional(),
+    caseSensitive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("contains"),
+    name: z.string().max(100).optional(),
+    value: z.string().max(10000).optional(),
+    caseSensitive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("regex"),
+    name: z.string().max(100).optional(),
+    pattern: z.string().min(1).max(1000).refine(
+      (pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Invalid regular expression" }
+    ),
+    flags: z.string().regex(/^[gimsuy]*$/).optional(),
+  }),
+  z.object({
+    type: z.literal("json_valid"),
+    name: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("similarity"),
+    name: z.string().max(100).optional(),
+    threshold: z.number().min(0).max(1).optional(),
+  }),
+  z.object({
+    type: z.literal("max_latency"),
+    name: z.string().max(100).optional(),
+    maxMs: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal("max_cost"),
+    name: z.string().max(100).optional(),
+    maxCost: z.number().nonnegative(),
+  }),
+]);
+
+export const experimentSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  datasetId: z.string().uuid(),
+  projectId: z.string().uuid().nullable().optional(),
+  targetUrl: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), {
+      message: "targetUrl must be an http(s) URL",
+    }),
+  targetHeaders: z.record(z.string(), z.string()).optional(),
+  scorers: z.array(experimentScorerSchema).max(20).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  // Start the run immediately (default: true)
+  run: z.boolean().optional(),
+});
+
+/**
+ * Annotation score schemas (/api/v1/scores)
+ */
+export const scoreConfigSchema = z
+  .object({
+    projectId: z.string().uuid(),
+    name: z.string().min(1, "Name is required").max(100),
+    description: z.string().max(2000).nullable().optional(),
+    dataType: z.enum(["numeric", "categorical", "boolean"]),
+    minValue: z.number().nullable().optional(),
+    maxValue: z.number().nullable().optional(),
+    categories: z
+      .array(
+        z.object({
+          label: z.string().min(1).max(255),
+          value: z.number().optional(),
+        })
+      )
+      .max(50)
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.dataType !== "categorical" || (data.categories?.length ?? 0) > 0,
+    { message: "Categorical scores need at least one category", path: ["categories"] }
+  )
+  .refine(
+    (data) =>
+      data.minValue === null ||
+      data.minValue === undefined ||
+      data.maxValue === null ||
+      data.maxValue === undefined ||
+      data.minValue <= data.maxValue,
+    { message: "minValue must be <= maxValue", path: ["minValue"] }
+  )
+  .refine(
+    (data) =>
+      new Set((data.categories || []).map((c) => c.label)).size ===
+      (data.categories || []).length,
+    { message: "Category labels must be unique", path: ["categories"] }
+  );
+
+export const scoreConfigUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  isArchived: z.boolean().optional(),
+});
+
+export const scoreSchema = z.object({
+  configId: z.string().uuid(),
+  // number (numeric), category label (categorical) or boolean
+  value: z.union([z.number(), z.string().max(255), z.boolean()]),
+  comment: z.string().max(5000).nullable().optional(),
+});
+
+/**
+ * Annotation queue schemas (/api/v1/annotation-queues)
+ */
+export const annotationQueueFilterSchema = traceFilterSchema.extend({
+  signals: z
+    .array(z.string().regex(/^[a-zA-Z0-9_.:-]+$/, "Invalid signal name").max(100))
+    .max(20)
+    .optional(),
+  feedbackTypes: z
+    .array(z.enum(["like", "dislike", "rating", "correction"]))
+    .max(4)
+    .optional(),
+});
+
+export const annotationQueueSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  projectId: z.string().uuid().nullable().optional(),
+  filter: annotationQueueFilterSchema.nullable().optional(),
+  scoreConfigIds: z.array(z.string().uuid()).max(20).optional(),
+  // Run the filter right away (default: true when a filter is given)
+  populate: z.boolean().optional(),
+});
+
+export const annotationQueueUpdateSchema = annotationQueueSchema
+  .omit({ projectId: true, populate: true })
+  .partial();
+
+export const annotationQueueAddItemsSchema = z.object({
+  traceIds: z.array(z.string().uuid()).min(1).max(1000),
+  assignedUserId: z.string().uuid().nullable().optional(),
+});
+
+export const annotationQueueAssignSchema = z.object({
+  itemIds: z.array(z.string().uuid()).min(1).max(1000),
+  userId: z.string().uuid().nullable(),
+});
+
+export const annotationQueueItemUpdateSchema = z.object({
+  status: z.enum(["pending", "in_progress", "completed", "skipped"]).optional(),
+  assignedUserId: z.string().uuid().nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+export const annotationQueueCompleteSchema = z.object({
+  status: z.enum(["completed", "skipped"]).optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+/**
+ * Tenant model price override (POST /api/v1/model-prices); prices are USD per 1K tokens
+ */
+export const modelPriceSchema = z
+  .object({
+    modelName: z.string().min(1, "modelName is required").max(255),
+    provider: z.string().min(1).max(100).nullable().optional(),
+    // Case-insensitive regex matched against model names (default: the name
+    // with optional provider prefix and snapshot suffix)
+    matchPattern: z.string().min(1).max(500).nullable().optional(),
+    inputPricePer1k: z.number().min(0),
+    outputPricePer1k: z.number().min(0),
+    cachedInputPricePer1k: z.number().min(0).nullable().optional(),
+    effectiveFrom: z.string().datetime().nullable().optional(),
+    effectiveTo: z.string().datetime().nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.effectiveFrom ||
+      !data.effectiveTo ||
+      new Date(data.effectiveTo) > new Date(data.effectiveFrom),
+    { message: "effectiveTo must be after effectiveFrom", path: ["effectiveTo"] }
+  );
+
+export const modelPriceUpdateSchema = z.object({
+  modelName: z.string().min(1).max(255).optional(),
+  provider: z.string().min(1).max(100).nullable().optional(),
+  matchPattern: z.string().min(1).max(500).optional(),
+  inputPricePer1k: z.number().min(0).optional(),
+  outputPricePer1k: z.number().min(0).optional(),
+  cachedInputPricePer1k: z.number().min(0).nullable().optional(),
+  effectiveFrom: z.string().datetime().nullable().optional(),
+  effectiveTo: z.string().datetime().nullable().optional(),
+});
+
+/**
+ * Project budget schema (POST /api/v1/budgets)
+ * Route/user-scoped budgets need scopeValue (the route or user_id).
+ */
+export const budgetSchema = z
+  .object({
+    projectId: z.string().uuid(),
+    name: z.string().min(1, "Name is required").max(255),
+    period: z.enum(["monthly", "daily"]).optional(),
+    amountUsd: z.number().positive(),
+    scopeType: z.enum(["project", "route", "user"]).optional(),
+    scopeValue: z.string().min(1).max(255).nullable().optional(),
+    // Percentages that emit budget_warning; budget_exceeded always fires at 100
+    warningThresholds: z.array(z.number().int().min(1).max(99)).max(10).optional(),
+    hardLimit: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine(
+    (data) => !data.scopeType || data.scopeType === "project" || !!data.scopeValue,
+    { message: "scopeValue is required for route and user budgets", path: ["scopeValue"] }
+  )
+  // Hard limits block a whole project's ingestion, so only project budgets take one
+  .refine(
+    (data) => !data.hardLimit || !data.scopeType || data.scopeType === "project",
+    { message: "hardLimit is only supported for project budgets", path: ["hardLimit"] }
+  );
+
+export const budgetUpdateSchema = z
+  .object({
+    name: z.string().min(1).max(255).optional(),
+    period: z.enum(["monthly", "daily"]).optional(),
+    amountUsd: z.number().positive().optional(),
+    scopeType: z.enum(["project", "route", "user"]).optional(),
+    scopeValue: z.string().min(1).max(255).nullable().optional(),
+    warningThresholds: z.array(z.number().int().min(1).max(99)).max(10).optional(),
+    hardLimit: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine(
+    (data) => !data.scopeType || data.scopeType === "project" || !!data.scopeValue,
+    { message: "scopeValue is required for route and user budgets", path: ["scopeValue"] }
+  )
+  .refine(
+    (data) => !data.hardLimit || !data.scopeType || data.scopeType === "project",
+    { message: "hardLimit is only supported for project budgets", path: ["hardLimit"] }
+  );
+
+/**
+ * Prompt registry schemas (POST /api/v1/prompts, POST /api/v1/prompts/:id/versions)
+ * Text prompts are a string, chat prompts an array of messages; {{variables}}
+ * are extracted from the content, `variables` adds undeclared ones.
+ */
+export const promptLabelSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_.-]{0,63}$/, "Labels must match [a-z0-9][a-z0-9_.-]{0,63}")
+  .refine((label) => label !== "latest", { message: '"latest" is reserved' });
+
+const promptVersionFields = {
+  type: z.enum(["text", "chat"]).optional(),
+  prompt: z.union([
+    z.string().min(1).max(100000),
+    z
+      .array(z.object({ role: z.string().min(1).max(50), content: z.string().max(100000) }))
+      .min(1)
+      .max(100),
+  ]),
+  variables: z.array(z.string().regex(/^[A-Za-z_][A-Za-z0-9_.]*$/)).max(100).optional(),
+  modelConfig: z.record(z.string(), z.any()).optional(),
+  labels: z.array(promptLabelSchema).max(20).optional(),
+  commitMessage: z.string().max(1000).nullable().optional(),
+};
+
+const promptTypeMatches = (data: { type?: "text" | "chat"; prompt: unknown }) =>
+  !data.type || (data.type === "text") === (typeof data.prompt === "string");
+
+export const promptVersionSchema = z
+  .object(promptVersionFields)
+  .refine(promptTypeMatches, {
+    message: "Text prompts must be a string and chat prompts an array of messages",
+    path: ["prompt"],
+  });
+
+export const promptSchema = z
+  .object({
+    projectId: z.string().uuid(),
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .max(255)
+      .regex(/^[^@]+$/, "Prompt names cannot contain @"),
+    description: z.string().max(2000).nullable().optional(),
+    ...promptVersionFields,
+  })
+  .refine(promptTypeMatches, {
+    message: "Text prompts must be a string and chat prompts an array of messages",
+    path: ["prompt"],
+  });
+
+export const promptUpdateSchema = z.object({
+  name: z.string().min(1).max(255).regex(/^[^@]+$/, "Prompt names cannot contain @").optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export const promptLabelUpdateSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+/**
+ * Saved view schemas (/api/v1/views)
+ */
+export const issueViewFiltersSchema = z.object({
+  severity: z.enum(["high", "medium", "low"]).optional(),
+  signalNames: z.array(z.string().min(1).max(100)).max(50).optional(),
+});
+
+// Filters accepted per view resource (traces: same filters as GET /api/v1/traces)
+export const savedViewFiltersSchemas = {
+  traces: traceFilterSchema,
+  issues: issueViewFiltersSchema,
+};
+
+const savedViewTimeRangeSchema = z
+  .string()
+  .regex(
+    RELATIVE_TIME_RANGE_PATTERN,
+    'timeRange must be relative, e.g. "30m", "24h", "7d" or "4w"'
+  );
+
+const savedViewFields = {
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+  projectId: z.string().uuid().nullable().optional(),
+  timeRange: savedViewTimeRangeSchema.nullable().optional(),
+  shared: z.boolean().optional(),
+};
+
+export const savedViewSchema = z.discriminatedUnion("resource", [
+  z.object({
+    resource: z.literal("traces"),
+    filters: traceFilterSchema.optional(),
+    ...savedViewFields,
+  }),
+  z.object({
+    resource: z.literal("issues"),
+    filters: issueViewFiltersSchema.optional(),
+    ...savedViewFields,
+  }),
+]);
+
+// filters are validated against the view's resource by the route
+export const savedViewUpdateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  filters: z.record(z.string(), z.unknown()).optional(),
+  timeRange: savedViewTimeRangeSchema.nullable().optional(),
+  shared: z.boolean().optional(),
+});
+
+// Share links for a single trace (POST /api/v1/traces/:traceId/share-links)
+export const MAX_SHARE_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const traceShareLinkSchema = z.object({
+  redaction: z.enum(["full", "hide_io", "scrubbed"]).default("scrubbed"),
+  expiresIn: z
+    .string()
+    .regex(
+      RELATIVE_TIME_RANGE_PATTERN,
+      'expiresIn must be relative, e.g. "1h", "24h" or "7d"'
+    )
+    .refine(
+      (value) => (relativeDurationMs(value) ?? Infinity) <= MAX_SHARE_LINK_TTL_MS,
+      "Share links can expire at most 30 days from now"
+    )
+    .default("7d"),
+  projectId: z.string().uuid().optional(),
+});
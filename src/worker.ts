@@ -15,24 +15,44 @@
 import "./config/env.js";
 
 import { initializeAnalysisWorker } from "./services/analysisWorker.js";
+import { initializeExperimentWorker } from "./services/experimentWorker.js";
+import { BaselineService } from "./services/baselineService.js";
+import { AlertService } from "./services/alertService.js";
 
 console.log("🔧 Starting Analysis Worker...");
 
 // Initialize worker
 initializeAnalysisWorker();
 
+// Run experiments queued by the API
+initializeExperimentWorker();
+
+// Periodically recompute rolling metric baselines for anomaly signals
+BaselineService.startBaselineJob();
+
+// Evaluate alert rules and deliver notifications
+AlertService.startAlertJob();
+
 // Keep process alive
 process.on("SIGTERM", async () => {
   console.log("SIGTERM received, shutting down gracefully...");
+  BaselineService.stopBaselineJob();
+  AlertService.stopAlertJob();
   const { closeAnalysisWorker } = await import("./services/analysisWorker.js");
   await closeAnalysisWorker();
+  const { closeExperimentWorker } = await import("./services/experimentWorker.js");
+  await closeExperimentWorker();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   console.log("SIGINT received, shutting down gracefully...");
+  BaselineService.stopBaselineJob();
+  AlertService.stopAlertJob();
   const { closeAnalysisWorker } = await import("./services/analysisWorker.js");
   await closeAnalysisWorker();
+  const { closeExperimentWorker } = await import("./services/experimentWorker.js");
+  await closeExperimentWorker();
   process.exit(0);
 });
 
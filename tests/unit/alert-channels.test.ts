@@ -0,0 +1,155 @@
+/**
+ * Unit tests for alert notification channels and rule state transitions
+ *
+ * Uses a local HTTP server as a stand-in for webhook and Slack endpoints.
+ * Verifies that:
+ * - Webhook deliveries carry a verifiable HMAC signature
+ * - Slack deliveries use the incoming-webhook payload format
+ * - Failed deliveries are reported, not thrown
+ * - Rules fire, respect cooldown and resolve
+ *
+ * Run with: npx tsx tests/unit/alert-channels.test.ts
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import type { AlertNotification } from "../../src/services/alertChannelService";
+
+// alertChannelService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+interface CapturedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function startStandIn(): Promise<{ url: string; requests: CapturedRequest[]; close: () => Promise<void> }> {
+  const requests: CapturedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url || "", headers: req.headers, body });
+      res.statusCode = req.url === "/fail" ? 500 : 200;
+      res.end("ok");
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+const notification: AlertNotification = {
+  event: "alert.fired",
+  rule: {
+    id: "11111111-1111-4111-8111-111111111111",
+    name: "Tool errors",
+    rule_type: "signal_count",
+    project_id: null,
+    signal_name: "tool_error",
+    metric: null,
+  },
+  value: 12,
+  threshold: 5,
+  operator: "gt",
+  window_minutes: 5,
+  window: { start: "2026-01-01T00:00:00.000Z", end: "2026-01-01T00:05:00.000Z" },
+  message: "Tool errors: tool_error count is gt 5 (value 12 over the last 5m)",
+  timestamp: "2026-01-01T00:05:00.000Z",
+};
+
+async function runTests() {
+  const { AlertChannelService } = await import("../../src/services/alertChannelService");
+  const { AlertService } = await import("../../src/services/alertService");
+  const standIn = await startStandIn();
+
+  try {
+    // Test 1: signed webhook
+    const secret = "whsec_test_secret_value";
+    const webhook = await AlertChannelService.send(
+      { id: "w", type: "webhook", config: { url: `${standIn.url}/hook`, secret } },
+      notification
+    );
+    assert(webhook.ok && webhook.status_code === 200, `Expected webhook delivery, got ${JSON.stringify(webhook)}`);
+    const hookRequest = standIn.requests.find((r) => r.path === "/hook")!;
+    const expected = AlertChannelService.signWebhookPayload(
+      secret,
+      hookRequest.headers["x-observa-timestamp"] as string,
+      hookRequest.body
+    );
+    assert(hookRequest.headers["x-observa-signature"] === expected, "Expected valid webhook signature");
+    assert(JSON.parse(hookRequest.body).rule.name === "Tool errors", "Expected notification body");
+    console.log("✓ Test 1: webhook deliveries are signed");
+
+    // Test 2: Slack payload
+    const slack = await AlertChannelService.send(
+      { id: "s", type: "slack", config: { url: `${standIn.url}/slack` } },
+      notification
+    );
+    assert(slack.ok, "Expected slack delivery");
+    const slackBody = JSON.parse(standIn.requests.find((r) => r.path === "/slack")!.body);
+    assert(typeof slackBody.text === "string" && slackBody.text.includes("Alert fired"), "Expected slack text");
+    assert(Array.isArray(slackBody.blocks) && slackBody.blocks[0].type === "header", "Expected slack blocks");
+    console.log("✓ Test 2: slack deliveries use incoming-webhook format");
+
+    // Test 3: failures are reported
+    const failed = await AlertChannelService.send(
+      { id: "f", type: "webhook", config: { url: `${standIn.url}/fail` } },
+      notification
+    );
+    assert(!failed.ok && failed.status_code === 500, "Expected failed delivery");
+    const unreachable = await AlertChannelService.send(
+      { id: "u", type: "slack", config: {} },
+      notification
+    );
+    assert(!unreachable.ok && !!unreachable.error, "Expected missing URL error");
+    console.log("✓ Test 3: failed deliveries are reported");
+  } finally {
+    await standIn.close();
+  }
+
+  // Test 4: fire → cooldown → resolve
+  const now = new Date("2026-01-01T01:00:00.000Z");
+  assert(
+    AlertService.nextTransition({ state: "ok", last_fired_at: null, cooldown_minutes: 30 }, true, now) === "fired",
+    "Expected rule to fire"
+  );
+  assert(
+    AlertService.nextTransition({ state: "firing", last_fired_at: now.toISOString(), cooldown_minutes: 30 }, true, now) === null,
+    "Expected firing rule to stay quiet"
+  );
+  assert(
+    AlertService.nextTransition({ state: "firing", last_fired_at: now.toISOString(), cooldown_minutes: 30 }, false, now) === "resolved",
+    "Expected rule to resolve"
+  );
+  assert(
+    AlertService.nextTransition(
+      { state: "ok", last_fired_at: "2026-01-01T00:45:00.000Z", cooldown_minutes: 30 },
+      true,
+      now
+    ) === "suppressed",
+    "Expected cooldown to suppress re-fire"
+  );
+  console.log("✓ Test 4: rules fire, respect cooldown and resolve");
+
+  console.log("\nAll alert channel tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for annotation queue stats and filter matching
+ *
+ * Verifies that:
+ * - Status counts become totals and a completion rate (completed + skipped)
+ * - Only criteria beyond signals/feedback and the time window count as trace criteria
+ * - Signal/feedback matches are intersected with trace filter matches, newest
+ *   event first, and either side selects traces on its own
+ *
+ * The trace list and Tinybird queries are stubbed.
+ *
+ * Run with: npx tsx tests/unit/annotation-queues.test.ts
+ */
+
+// annotationQueueService imports the Postgres client and Tinybird repository, which validate env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const TENANT_ID = "11111111-1111-4111-8111-111111111111";
+const PROJECT_ID = "22222222-2222-4222-8222-222222222222";
+
+async function runTests() {
+  const { AnnotationQueueService, MAX_POPULATE } = await import("../../src/services/annotationQueueService");
+  const { TraceQueryService } = await import("../../src/services/traceQueryService");
+  const { TinybirdRepository } = await import("../../src/services/tinybirdRepository");
+
+  // Stubbed data layer: trace list (filter matches) and Tinybird (signal/feedback matches)
+  let traceListCalls: any[] = [];
+  let tinybirdSql: string[] = [];
+  let listedTraceIds: string[] = [];
+  let eventTraceIds: string[] = [];
+  (TraceQueryService as any).getTracesV2 = async (_tenantId: string, options: any) => {
+    traceListCalls.push(options);
+    return { traces: listedTraceIds.map((trace_id) => ({ trace_id })), total: listedTraceIds.length };
+  };
+  (TinybirdRepository as any).rawQuery = async (sql: string) => {
+    tinybirdSql.push(sql);
+    return { data: eventTraceIds.map((trace_id) => ({ trace_id })) };
+  };
+  const reset = (listed: string[], events: string[]) => {
+    traceListCalls = [];
+    tinybirdSql = [];
+    listedTraceIds = listed;
+    eventTraceIds = events;
+  };
+
+  // Test 1: stats
+  const stats = AnnotationQueueService.buildStats({ pending: 5, in_progress: 1, completed: 3, skipped: 1 });
+  assert(stats.total === 10 && stats.in_progress === 1, "Expected totals");
+  assert(stats.completion_rate === 40, `Expected 40% completion, got ${stats.completion_rate}`);
+  const none = AnnotationQueueService.buildStats({});
+  assert(none.total === 0 && none.completion_rate === 0, "Expected an empty queue at 0%");
+  console.log("✓ Test 1: Stats");
+
+  // Test 2: trace criteria
+  const hasCriteria = AnnotationQueueService.hasTraceCriteria.bind(AnnotationQueueService);
+  assert(!hasCriteria({}), "Expected no criteria for an empty filter");
+  assert(
+    !hasCriteria({ signals: ["loop"], feedbackTypes: ["dislike"], startDate: "2026-10-01T00:00:00Z", sortBy: "timestamp" } as any),
+    "Expected signals, feedback, time window and sorting not to count",
+  );
+  assert(!hasCriteria({ models: [], environment: null } as any), "Expected empty values not to count");
+  assert(hasCriteria({ environment: "prod" } as any), "Expected environment to count");
+  assert(hasCriteria({ models: ["gpt-4o"] } as any), "Expected a model list to count");
+  console.log("✓ Test 2: Trace criteria");
+
+  // Test 3: trace filter only
+  reset(["t1", "t2"], []);
+  const filterOnly = await AnnotationQueueService.matchTraceIds(TENANT_ID, PROJECT_ID, { environment: "prod" } as any, 50);
+  assert(JSON.stringify(filterOnly) === JSON.stringify(["t1", "t2"]), "Expected the trace list matches");
+  assert(traceListCalls[0].limit === 50 && traceListCalls[0].projectId === PROJECT_ID, "Expected limit and project passed");
+  assert(tinybirdSql.length === 0, "Expected no event query without signals/feedback");
+  console.log("✓ Test 3: Trace filter only");
+
+  // Test 4: signals/feedback only
+  reset([], ["t3", "t1"]);
+  const eventsOnly = await AnnotationQueueService.matchTraceIds(
+    TENANT_ID,
+    PROJECT_ID,
+    { signals: ["loop"], feedbackTypes: ["dislike"], startDate: "2026-10-01T00:00:00Z" },
+    50,
+  );
+  assert(JSON.stringify(eventsOnly) === JSON.stringify(["t3", "t1"]), "Expected the event matches in order");
+  assert(traceListCalls.length === 0, "Expected no trace list query without trace criteria");
+  assert(
+    tinybirdSql[0].includes("IN ('loop')") && tinybirdSql[0].includes("IN ('dislike')") && / OR /.test(tinybirdSql[0]),
+    "Expected signals and feedback OR-ed",
+  );
+  assert(tinybirdSql[0].includes("LIMIT 50"), "Expected the requested limit on the event query");
+  console.log("✓ Test 4: Signals/feedback only");
+
+  // Test 5: intersection, in event order, capped at the limit
+  reset(["t1", "t2", "t3", "t4"], ["t5", "t4", "t2", "t1"]);
+  const both = await AnnotationQueueService.matchTraceIds(
+    TENANT_ID,
+    PROJECT_ID,
+    { signals: ["loop"], environment: "prod" } as any,
+    2,
+  );
+  assert(JSON.stringify(both) === JSON.stringify(["t4", "t2"]), `Unexpected intersection: ${JSON.stringify(both)}`);
+  assert(traceListCalls[0].limit === MAX_POPULATE, "Expected the trace list over-fetched before intersecting");
+  assert(tinybirdSql[0].includes(`LIMIT ${MAX_POPULATE}`), "Expected the event query over-fetched before intersecting");
+  console.log("✓ Test 5: Filter and signal intersection");
+
+  console.log("\nAll annotation queue tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for rolling metric baselines
+ *
+ * Verifies that:
+ * - Folding hourly buckets yields an EWMA mean/stddev close to the data
+ * - Baselines below the minimum sample count are not scored
+ * - Values far above the mean produce a large z-score
+ * - Lookup keys stay distinct for routes and models containing "|"
+ *
+ * Run with: npx tsx tests/unit/baselines.test.ts
+ */
+
+import type { BaselineBucket } from "../../src/services/baselineService";
+
+// baselineService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function hourlyBuckets(mean: number, variance: number, hours: number): BaselineBucket[] {
+  return Array.from({ length: hours }, (_, i) => ({
+    bucket: new Date(Date.UTC(2026, 0, 1, i)).toISOString(),
+    count: 10,
+    mean,
+    variance,
+    p95: mean + 2,
+    p99: mean + 3,
+  }));
+}
+
+async function runTests() {
+  const { BaselineService } = await import("../../src/services/baselineService");
+
+  // Test 1: stable buckets fold to their mean and stddev
+  const folded = BaselineService.foldBuckets(hourlyBuckets(1000, 100 * 100, 24));
+  assert(Math.abs(folded.ewma_mean - 1000) < 1e-6, `Expected mean 1000, got ${folded.ewma_mean}`);
+  assert(Math.abs(folded.ewma_stddev - 100) < 1e-3, `Expected stddev 100, got ${folded.ewma_stddev}`);
+  assert(folded.sample_count === 240, `Expected 240 samples, got ${folded.sample_count}`);
+  assert(Math.abs((folded.p95 ?? 0) - 1002) < 1e-6, `Expected p95 1002, got ${folded.p95}`);
+  console.log("✓ Test 1: stable buckets fold to mean/stddev");
+
+  // Test 2: recent buckets dominate the mean; the level shift widens stddev
+  const shifted = BaselineService.foldBuckets([
+    ...hourlyBuckets(1000, 0, 12),
+    ...hourlyBuckets(2000, 0, 12).map((b, i) => ({
+      ...b,
+      bucket: new Date(Date.UTC(2026, 0, 1, 12 + i)).toISOString(),
+    })),
+  ]);
+  assert(shifted.ewma_mean > 1600, `Expected mean to track shift, got ${shifted.ewma_mean}`);
+  assert(shifted.ewma_stddev > 0, "Expected between-bucket variance in stddev");
+  console.log("✓ Test 2: EWMA tracks level shifts");
+
+  // Test 3: scoring respects min samples and flags outliers
+  const baseline = {
+    tenant_id: "t",
+    project_id: "p",
+    route: "",
+    model: "gpt-4o",
+    metric: "latency_ms" as const,
+    ...folded,
+  };
+  assert(BaselineService.score(baseline, 5000, 1000) === null, "Expected no score below min samples");
+  const score = BaselineService.score(baseline, 1500, 30);
+  assert(!!score && Math.abs(score.zScore - 5) < 1e-3, `Expected z=5, got ${score?.zScore}`);
+  assert(
+    BaselineService.score({ ...baseline, ewma_stddev: 0 }, 1500, 30) === null,
+    "Expected flat baseline to be ignored"
+  );
+  console.log("✓ Test 3: scoring respects min samples and flags outliers");
+
+  // Test 4: keys don't collide on separator characters
+  assert(
+    BaselineService.key("p", "a|b", "c", "cost") !== BaselineService.key("p", "a", "b|c", "cost"),
+    "Expected distinct keys for routes/models containing |"
+  );
+  assert(
+    BaselineService.key("p", null, undefined, "cost") === BaselineService.key("p", "", "", "cost"),
+    "Expected missing route/model to key like empty strings"
+  );
+  console.log("✓ Test 4: lookup keys");
+
+  console.log("\nAll baseline tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for budget periods, threshold crossing and status
+ *
+ * Verifies that:
+ * - Monthly/daily periods are UTC calendar periods
+ * - Each threshold level is reported once, the highest one reached
+ * - Route/user scopes only count matching events
+ * - Status reports remaining amount, burn rate and projections
+ * - Hard limits are only accepted on project budgets
+ *
+ * Run with: npx tsx tests/unit/budgets.test.ts
+ */
+
+// budgetService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { BudgetService } = await import("../../src/services/budgetService");
+
+  // Test 1: UTC calendar periods
+  const at = new Date("2025-02-14T23:30:00Z");
+  const month = BudgetService.periodBounds("monthly", at);
+  assert(month.start.toISOString() === "2025-02-01T00:00:00.000Z", "Expected month start");
+  assert(month.end.toISOString() === "2025-03-01T00:00:00.000Z", "Expected month end");
+  const december = BudgetService.periodBounds("monthly", new Date("2025-12-31T12:00:00Z"));
+  assert(december.end.toISOString() === "2026-01-01T00:00:00.000Z", "Expected year rollover");
+  const day = BudgetService.periodBounds("daily", at);
+  assert(day.start.toISOString() === "2025-02-14T00:00:00.000Z", "Expected day start");
+  assert(day.end.toISOString() === "2025-02-15T00:00:00.000Z", "Expected day end");
+  console.log("✓ Test 1: Periods");
+
+  // Test 2: threshold crossing
+  const thresholds = [50, 80];
+  assert(BudgetService.crossedThreshold(thresholds, 0, 40) === null, "Expected nothing below 50%");
+  assert(BudgetService.crossedThreshold(thresholds, 0, 55) === 50, "Expected the 50% warning");
+  assert(BudgetService.crossedThreshold(thresholds, 50, 60) === null, "Expected no repeat of 50%");
+  assert(BudgetService.crossedThreshold(thresholds, 0, 85) === 80, "Expected the highest warning only");
+  assert(BudgetService.crossedThreshold(thresholds, 80, 100) === 100, "Expected exceeded at 100%");
+  assert(BudgetService.crossedThreshold(thresholds, 100, 150) === null, "Expected exceeded only once");
+  assert(BudgetService.crossedThreshold([], 0, 120) === 100, "Expected exceeded without warnings");
+  console.log("✓ Test 2: Threshold crossing");
+
+  // Test 3: scopes and event cost
+  const event = (route: string | null, userId: string | null, cost: any) =>
+    ({
+      event_type: "llm_call",
+      route,
+      user_id: userId,
+      attributes: { llm_call: { model: "gpt-4o", latency_ms: 1, cost } },
+    }) as any;
+  const routeBudget = { scope_type: "route" as const, scope_value: "/chat" };
+  assert(BudgetService.matchesScope(routeBudget, event("/chat", null, 1)), "Expected route match");
+  assert(!BudgetService.matchesScope(routeBudget, event("/search", null, 1)), "Expected route mismatch");
+  const userBudget = { scope_type: "user" as const, scope_value: "u1" };
+  assert(BudgetService.matchesScope(userBudget, event(null, "u1", 1)), "Expected user match");
+  assert(!BudgetService.matchesScope(userBudget, event(null, null, 1)), "Expected missing user to mismatch");
+  assert(
+    BudgetService.matchesScope({ scope_type: "project", scope_value: null }, event(null, null, 1)),
+    "Expected project budgets to match everything"
+  );
+  assert(BudgetService.eventCost(event(null, null, 0.25)) === 0.25, "Expected llm_call cost");
+  assert(BudgetService.eventCost(event(null, null, null)) === null, "Expected no cost");
+  assert(
+    BudgetService.eventCost({ event_type: "tool_call", attributes: {} } as any) === null,
+    "Expected tool calls not to count"
+  );
+  assert(
+    BudgetService.isSpendEvent({ event_type: "embedding" }) && !BudgetService.isSpendEvent({ event_type: "trace_start" }),
+    "Expected only llm_call/embedding events to be blocked by hard budgets"
+  );
+  console.log("✓ Test 3: Scopes and event cost");
+
+  // Test 4: status and burn rate (10 days into a 28-day month, $40 of $100 spent)
+  const now = new Date("2025-02-11T00:00:00Z");
+  const status = BudgetService.buildStatus(
+    { period: "monthly", amount_usd: 100 },
+    {
+      period_start: new Date("2025-02-01T00:00:00Z"),
+      spend_usd: 40,
+      event_count: 12,
+      last_threshold_pct: 0,
+      exceeded_at: null,
+    },
+    now
+  );
+  assert(status.remaining_usd === 60, "Expected $60 remaining");
+  assert(status.percent_used === 40, "Expected 40% used");
+  assert(Math.abs(status.burn_rate_per_day - 4) < 1e-9, "Expected $4/day burn rate");
+  assert(Math.abs(status.projected_spend_usd - 112) < 1e-9, "Expected $112 projected");
+  assert(
+    status.projected_exhaustion_at === "2025-02-26T00:00:00.000Z",
+    `Expected exhaustion on Feb 26, got ${status.projected_exhaustion_at}`
+  );
+  const empty = BudgetService.buildStatus({ period: "daily", amount_usd: 5 }, null, now);
+  assert(empty.spend_usd === 0 && empty.remaining_usd === 5, "Expected an untouched budget");
+  assert(empty.projected_exhaustion_at === null, "Expected no exhaustion without spend");
+  console.log("✓ Test 4: Status and burn rate");
+
+  // Test 5: budget schemas
+  const { budgetSchema, budgetUpdateSchema } = await import("../../src/validation/schemas");
+  const projectId = "22222222-2222-4222-8222-222222222222";
+  const base = { projectId, name: "LLM spend", amountUsd: 100 };
+  assert(budgetSchema.safeParse({ ...base, hardLimit: true }).success, "Expected project hard limits");
+  assert(
+    !budgetSchema.safeParse({ ...base, scopeType: "route", scopeValue: "/chat", hardLimit: true }).success,
+    "Expected route hard limits to be rejected"
+  );
+  assert(!budgetUpdateSchema.safeParse({ scopeType: "user" }).success, "Expected scopeValue required on update");
+  assert(budgetUpdateSchema.safeParse({ scopeType: "user", scopeValue: "u1" }).success, "Expected user scope update");
+  assert(
+    !budgetUpdateSchema.safeParse({ scopeType: "user", scopeValue: "u1", hardLimit: true }).success,
+    "Expected user hard limits to be rejected on update"
+  );
+  console.log("✓ Test 5: Budget schemas");
+
+  console.log("\nAll budget tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
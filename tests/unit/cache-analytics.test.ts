@@ -0,0 +1,55 @@
+/**
+ * Unit tests for cache hit-rate drop detection
+ *
+ * Verifies that:
+ * - Small windows/baselines and low-hit-rate caches never signal
+ * - A drop needs both an absolute and a relative decrease
+ * - Severity is high for a drop of half the baseline rate or more
+ *
+ * Run with: npx tsx tests/unit/cache-analytics.test.ts
+ */
+
+// cacheAnalyticsService imports the Tinybird repository, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { CacheAnalyticsService } = await import(
+    "../../src/services/cacheAnalyticsService"
+  );
+  const detect = CacheAnalyticsService.detectHitRateDrop.bind(CacheAnalyticsService);
+  const baseline = { ewma_mean: 0.8, sample_count: 1000 }; // 80%
+
+  // Test 1: minimum sample sizes and baseline rate
+  assert(detect({ ewma_mean: 0.8, sample_count: 100 }, { hits: 0, total: 100 }) === null, "Expected a small baseline to be ignored");
+  assert(detect(baseline, { hits: 0, total: 10 }) === null, "Expected a small recent window to be ignored");
+  assert(detect({ ewma_mean: 0.1, sample_count: 1000 }, { hits: 0, total: 100 }) === null, "Expected a low-hit-rate cache to be ignored");
+  assert(CacheAnalyticsService.hitRate({ hits: 0, total: 0 }) === 0, "Expected 0 without operations");
+  console.log("✓ Test 1: Minimum samples");
+
+  // Test 2: significance
+  assert(detect(baseline, { hits: 70, total: 100 }) === null, "Expected 80% → 70% not to signal");
+  const medium = detect(baseline, { hits: 50, total: 100 });
+  assert(medium !== null && medium.severity === "medium", "Expected 80% → 50% to be a medium drop");
+  assert(Math.abs(medium!.relative_drop - 0.375) < 1e-9, "Expected a 37.5% relative drop");
+  assert(detect({ ewma_mean: 0.3, sample_count: 1000 }, { hits: 22, total: 100 }) === null, "Expected a sub-10-point drop not to signal");
+  console.log("✓ Test 2: Drop significance");
+
+  // Test 3: severity
+  const high = detect(baseline, { hits: 10, total: 100 });
+  assert(high !== null && high.severity === "high", "Expected 80% → 10% to be a high drop");
+  assert(high!.baseline_rate === 0.8 && high!.recent_rate === 0.1, "Expected reported rates");
+  console.log("✓ Test 3: Severity");
+
+  console.log("\nAll cache analytics tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
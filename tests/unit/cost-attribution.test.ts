@@ -0,0 +1,85 @@
+/**
+ * Unit tests for event tags and cost attribution
+ *
+ * Verifies that:
+ * - trace_start tags apply to the trace's other events (own tags win)
+ * - Tag filter params parse "key:value" pairs and reject malformed ones
+ * - Cost groups are split into top N, "other" and unattributed buckets
+ *
+ * Run with: npx tsx tests/unit/cost-attribution.test.ts
+ */
+
+// dashboardMetricsService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { applyTraceTags, collectTraceTags, parseTagFilter } = await import(
+    "../../src/utils/eventTags"
+  );
+  const { DashboardMetricsService } = await import(
+    "../../src/services/dashboardMetricsService"
+  );
+
+  // Test 1: trace-level tags
+  const event = (traceId: string, type: string, tags?: Record<string, string>) =>
+    ({ trace_id: traceId, event_type: type, tags, attributes: {} }) as any;
+  const tagged = applyTraceTags([
+    event("t1", "trace_start", { customer: "acme", team: "growth" }),
+    event("t1", "llm_call", { team: "search" }),
+    event("t1", "tool_call"),
+    event("t2", "llm_call"),
+  ]);
+  assert(tagged[1].tags?.customer === "acme", "Expected inherited customer tag");
+  assert(tagged[1].tags?.team === "search", "Expected the event's own tag to win");
+  assert(tagged[2].tags?.team === "growth", "Expected trace tags on untagged events");
+  assert(tagged[3].tags === undefined, "Expected other traces to be untouched");
+  const merged = collectTraceTags(tagged.slice(0, 3));
+  assert(merged?.customer === "acme" && merged?.team === "growth", "Expected merged trace tags");
+  assert(collectTraceTags([event("t2", "llm_call")]) === null, "Expected no tags");
+  console.log("✓ Test 1: Trace-level tags");
+
+  // Test 2: tag filter params
+  const filter = parseTagFilter("customer:acme,feature:search");
+  assert(filter?.customer === "acme" && filter?.feature === "search", "Expected two tags");
+  assert(parseTagFilter(["env:prod", "ns:key:v"])?.["ns:key"] === "v", "Expected split on the last colon");
+  assert(Object.keys(parseTagFilter(undefined) || { x: 1 }).length === 0, "Expected no filter");
+  assert(parseTagFilter("customer") === null, "Expected a missing value to be rejected");
+  assert(parseTagFilter("bad key:v") === null, "Expected an invalid key to be rejected");
+  console.log("✓ Test 2: Tag filter params");
+
+  // Test 3: top N, other and unattributed buckets
+  const row = (value: string | null, cost: number) => ({
+    value,
+    cost,
+    traces: 1,
+    llm_calls: 2,
+    tokens: 100,
+  });
+  const breakdown = DashboardMetricsService.summarizeCostGroups(
+    "tag:customer",
+    [row("b", 2), row("a", 5), row(null, 1), row("c", 1), row("d", 1)],
+    2
+  );
+  assert(breakdown.total_cost === 10, "Expected $10 total");
+  assert(breakdown.group_count === 4, "Expected four attributed groups");
+  assert(breakdown.groups.map((g) => g.value).join() === "a,b", "Expected top groups by cost");
+  assert(breakdown.groups[0].share_pct === 50, "Expected a 50% share");
+  assert(breakdown.other?.cost === 2 && breakdown.other.traces === 2, "Expected c+d in other");
+  assert(breakdown.unattributed?.cost === 1, "Expected the untagged bucket");
+  const all = DashboardMetricsService.summarizeCostGroups("user_id", [row("u1", 1)], null);
+  assert(all.other === null && all.unattributed === null, "Expected no extra buckets");
+  console.log("✓ Test 3: Cost groups");
+
+  console.log("\nAll cost attribution tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
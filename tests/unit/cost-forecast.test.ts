@@ -0,0 +1,97 @@
+/**
+ * Unit tests for cost forecasting
+ *
+ * Verifies that:
+ * - A noiseless linear trend is recovered with zero-width bands
+ * - Weekly seasonality is captured once two weeks of history exist
+ * - Month projections add month-to-date spend to the forecast remainder
+ * - Budget crossing days come from the cumulative projection
+ *
+ * Run with: npx tsx tests/unit/cost-forecast.test.ts
+ */
+
+// costForecastService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function close(a: number, b: number, eps = 1e-6) {
+  return Math.abs(a - b) < eps;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayAfter(startDay: string, offset: number) {
+  return new Date(Date.parse(`${startDay}T00:00:00Z`) + offset * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+async function runTests() {
+  const { CostForecastService } = await import(
+    "../../src/services/costForecastService"
+  );
+
+  // Test 1: linear trend (10 + 0.5/day), no noise
+  const linear = Array.from({ length: 28 }, (_, t) => 10 + 0.5 * t);
+  const linearModel = CostForecastService.fitModel(linear, "2025-01-01");
+  assert(close(linearModel.slope, 0.5), `Expected slope 0.5, got ${linearModel.slope}`);
+  assert(close(linearModel.intercept, 10), `Expected intercept 10, got ${linearModel.intercept}`);
+  assert(close(linearModel.sigma, 0), "Expected no residual noise");
+  assert(close(CostForecastService.predict(linearModel, "2025-02-08"), 10 + 0.5 * 38), "Expected extrapolated trend");
+  const { daily, total, totalStdDev } = CostForecastService.forecastDays(linearModel, [
+    "2025-01-29",
+    "2025-01-30",
+  ]);
+  assert(close(total, 10 + 0.5 * 28 + 10 + 0.5 * 29), "Expected the summed forecast");
+  assert(close(totalStdDev, 0) && close(daily[0].band_95.upper, daily[0].cost), "Expected zero-width bands");
+  console.log("✓ Test 1: Linear trend");
+
+  // Test 2: weekly seasonality (weekends cost 5 less, weekdays 2 more)
+  // 2025-01-05 is a Sunday
+  const seasonalValues = Array.from({ length: 28 }, (_, t) => {
+    const weekday = t % 7; // 0 = Sunday
+    return 20 + (weekday === 0 || weekday === 6 ? -5 : 2);
+  });
+  const seasonalModel = CostForecastService.fitModel(seasonalValues, "2025-01-05");
+  assert(seasonalModel.seasonal_enabled, "Expected seasonality with 28 days");
+  assert(close(seasonalModel.slope, 0, 1e-9), "Expected a flat trend");
+  assert(close(CostForecastService.predict(seasonalModel, "2025-02-08"), 15), "Expected the Saturday level");
+  assert(close(CostForecastService.predict(seasonalModel, "2025-02-10"), 22), "Expected the Monday level");
+  const short = CostForecastService.fitModel(seasonalValues.slice(0, 10), "2025-01-05");
+  assert(!short.seasonal_enabled, "Expected no seasonality under 14 days");
+  console.log("✓ Test 2: Weekly seasonality");
+
+  // Test 3: month projection, $10/day flat, mid-day on Feb 11 (10 full days + half of today)
+  const now = new Date("2025-02-11T12:00:00Z");
+  const history = Array.from({ length: 42 }, (_, i) => ({
+    day: dayAfter("2025-01-01", i),
+    cost: i === 41 ? 5 : 10, // 2025-02-11 is i = 41, half spent so far
+  }));
+  const projection = CostForecastService.projectMonth(history, now, 28);
+  assert(close(projection.month_to_date, 105), `Expected $105 month-to-date, got ${projection.month_to_date}`);
+  assert(close(projection.today_to_date, 5), "Expected $5 spent today");
+  // Remaining: half of today + Feb 12..28 (17 days)
+  assert(close(projection.projected_remaining, 5 + 170), `Expected $175 remaining, got ${projection.projected_remaining}`);
+  assert(close(projection.projected_total, 280), `Expected $280 projected, got ${projection.projected_total}`);
+  assert(projection.period_end === "2025-03-01T00:00:00.000Z", "Expected the month end");
+  assert(projection.band_80.lower >= projection.month_to_date, "Expected bands not below month-to-date");
+  console.log("✓ Test 3: Month projection");
+
+  // Test 4: budget crossing day
+  assert(CostForecastService.crossingDay(projection, 200) === "2025-02-20", `Expected Feb 20, got ${CostForecastService.crossingDay(projection, 200)}`);
+  assert(CostForecastService.crossingDay(projection, 500) === null, "Expected no crossing for a large budget");
+  assert(CostForecastService.crossingDay(projection, 50) === "2025-02-11", "Expected an already-exceeded budget to cross today");
+  console.log("✓ Test 4: Budget crossing day");
+
+  console.log("\nAll cost forecast tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for critical path analysis
+ *
+ * Verifies that:
+ * - Child time counts overlapping (parallel) children once
+ * - The critical path follows the child that finished last, and each span's
+ *   critical path time adds up to the end-to-end latency
+ * - Timings are passed through to the agent-prism format
+ *
+ * Run with: npx tsx tests/unit/critical-path.test.ts
+ */
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const T0 = Date.parse("2026-10-01T12:00:00.000Z");
+
+function span(id: string, name: string, eventType: string, startMs: number, endMs: number, children: any[] = []) {
+  return {
+    id,
+    span_id: id,
+    parent_span_id: null,
+    name,
+    event_type: eventType,
+    start_time: new Date(T0 + startMs).toISOString(),
+    end_time: new Date(T0 + endMs).toISOString(),
+    duration_ms: endMs - startMs,
+    children,
+  };
+}
+
+async function runTests() {
+  const { CriticalPathService } = await import("../../src/services/criticalPathService");
+  const { AgentPrismAdapterService } = await import("../../src/services/agentPrismAdapter");
+
+  // root 0-1000: two parallel tool calls (0-400, 100-600), then an LLM call (650-1000)
+  const toolA = span("tool-a", "Tool: search", "tool_call", 0, 400);
+  const toolB = span("tool-b", "Tool: fetch", "tool_call", 100, 600);
+  const llm = span("llm", "LLM Call: gpt-4o", "llm_call", 650, 1000);
+  const root = span("root", "Trace", "trace_start", 0, 1000, [toolA, toolB, llm]);
+
+  const analysis = CriticalPathService.analyze([root]);
+  assert(analysis !== null && analysis.total_ms === 1000, "Expected 1000ms end to end");
+
+  // Test 1: self vs child time with overlapping children
+  const rootTiming = (root as any).timing;
+  assert(rootTiming.child_time_ms === 950, `Expected 950ms child time, got ${rootTiming.child_time_ms}`);
+  assert(rootTiming.self_time_ms === 50, `Expected 50ms self time, got ${rootTiming.self_time_ms}`);
+  assert((toolB as any).timing.self_time_ms === 500, "Expected leaf self time to be its duration");
+  console.log("✓ Test 1: Self and child time with overlap");
+
+  // Test 2: critical path attribution
+  const pathMs = (s: any) => s.timing.critical_path_ms;
+  assert(pathMs(llm) === 350 && pathMs(toolB) === 500, "Expected LLM and later tool on the path");
+  assert(pathMs(toolA) === 100, "Expected only the part of tool-a before tool-b started");
+  assert(pathMs(root) === 50, "Expected the gap before the LLM call as root time");
+  assert(
+    pathMs(llm) + pathMs(toolB) + pathMs(toolA) + pathMs(root) === analysis!.total_ms,
+    "Expected path times to add up to end-to-end latency",
+  );
+  assert((toolB as any).timing.critical_path_pct === 50, "Expected 50% for tool-b");
+  assert(analysis!.bottlenecks[0].span_id === "tool-b", "Expected tool-b as the top bottleneck");
+  assert(
+    analysis!.path.map((step) => step.span_id).join(",") === "root,tool-a,tool-b,llm",
+    `Unexpected path: ${analysis!.path.map((step) => step.span_id)}`,
+  );
+  console.log("✓ Test 2: Critical path and contributions");
+
+  // Test 3: agent-prism pass-through
+  const adapted = AgentPrismAdapterService.adapt({
+    summary: {
+      trace_id: "trace-1",
+      tenant_id: "tenant-1",
+      project_id: "project-1",
+      start_time: root.start_time,
+      end_time: root.end_time,
+      total_latency_ms: 1000,
+      total_tokens: null,
+    },
+    spans: [root as any],
+    performanceAnalysis: { criticalPath: analysis },
+  });
+  assert(adapted.criticalPath?.total_ms === 1000, "Expected criticalPath on agent-prism data");
+  const adaptedLlm = adapted.spans[0].children?.find((s) => s.id === "llm");
+  assert(adaptedLlm?.timing?.on_critical_path === true, "Expected span timing on agent-prism spans");
+  console.log("✓ Test 3: Agent-prism format");
+
+  console.log("\nAll critical path tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for dataset snapshots and exports
+ *
+ * Verifies that:
+ * - Input snapshots take the trace query and the first LLM call's messages,
+ *   model and sampling parameters
+ * - JSONL exports prefer the corrected output as expected output
+ * - CSV exports quote values with quotes, commas and line breaks (\n or \r)
+ *
+ * Run with: npx tsx tests/unit/datasets.test.ts
+ */
+
+// datasetService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const TRACE_ID = "0b3a5c7e-1f2d-4a6b-8c9d-0e1f2a3b4c5d";
+
+function sampleTree() {
+  const llm = (startTime: string, model: string, input: string) => ({
+    span_id: `span-${model}`,
+    start_time: startTime,
+    llm_call: {
+      model,
+      input,
+      input_messages: [{ role: "user", content: input }],
+      system_instructions: [{ type: "text", content: "Be brief." }],
+      temperature: 0.2,
+      max_tokens: 256,
+      top_p: null,
+      tool_definitions: [{ name: "search" }],
+    },
+  });
+  return {
+    summary: {
+      trace_id: TRACE_ID,
+      query: "What is the refund policy?",
+      response: "Refunds within 30 days.",
+      conversation_id: "conv-1",
+      environment: "prod",
+      start_time: "2026-10-01T12:00:00.000Z",
+    },
+    // Out of start-time order: the earlier call is the entry prompt
+    allSpans: [
+      { span_id: "root", start_time: "2026-10-01T12:00:00.000Z" },
+      llm("2026-10-01T12:00:02.000Z", "gpt-4o-mini", "Summarize the answer"),
+      llm("2026-10-01T12:00:01.000Z", "gpt-4o", "What is the refund policy?"),
+    ],
+  };
+}
+
+function item(overrides: Record<string, any> = {}) {
+  return {
+    id: "item-1",
+    dataset_id: "dataset-1",
+    project_id: null,
+    trace_id: TRACE_ID,
+    input_snapshot: {
+      trace_id: TRACE_ID,
+      captured_at: "2026-10-01T12:00:00.000Z",
+      input: "What is the refund policy?",
+      messages: null,
+      system_instructions: null,
+      model: "gpt-4o",
+      model_config: { temperature: 0.2 },
+      tools: null,
+      original_output: "Refunds within 30 days.",
+      metadata: {
+        conversation_id: null,
+        session_id: null,
+        user_id: null,
+        environment: null,
+        timestamp: null,
+      },
+    },
+    expected_output: "Refunds within 30 days.",
+    corrected_output: null,
+    notes: null,
+    created_by_user_id: null,
+    created_at: "2026-10-01T12:00:00.000Z",
+    updated_at: "2026-10-01T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  const { DatasetService } = await import("../../src/services/datasetService");
+
+  // Test 1: input snapshot
+  const snapshot = DatasetService.buildInputSnapshot(TRACE_ID, sampleTree());
+  assert(snapshot.trace_id === TRACE_ID, "Expected trace id");
+  assert(snapshot.input === "What is the refund policy?", "Expected the trace query as input");
+  assert(snapshot.model === "gpt-4o", "Expected the first LLM call's model");
+  assert(snapshot.messages?.[0].content === "What is the refund policy?", "Expected the first call's messages");
+  assert(
+    JSON.stringify(snapshot.model_config) === JSON.stringify({ temperature: 0.2, max_tokens: 256 }),
+    `Expected only set sampling parameters, got ${JSON.stringify(snapshot.model_config)}`,
+  );
+  assert(snapshot.tools?.[0].name === "search", "Expected tool definitions");
+  assert(snapshot.original_output === "Refunds within 30 days.", "Expected the trace response");
+  assert(
+    snapshot.metadata.conversation_id === "conv-1" &&
+      snapshot.metadata.timestamp === "2026-10-01T12:00:00.000Z",
+    "Expected trace metadata",
+  );
+  const empty = DatasetService.buildInputSnapshot(TRACE_ID, null);
+  assert(empty.input === null && empty.model === null, "Expected an empty snapshot without a tree");
+  assert(Object.keys(empty.model_config).length === 0, "Expected no model config without LLM calls");
+  console.log("✓ Test 1: Input snapshot");
+
+  // Test 2: JSONL export
+  const lines = DatasetService.toJsonl([
+    item(),
+    item({ id: "item-2", corrected_output: "Refunds within 14 days.", notes: "policy changed" }),
+  ]).split("\n");
+  assert(lines.length === 2, "Expected one line per item");
+  const first = JSON.parse(lines[0]);
+  const second = JSON.parse(lines[1]);
+  assert(first.expected_output === "Refunds within 30 days." && first.corrected === false, "Expected the expected output");
+  assert(second.expected_output === "Refunds within 14 days." && second.corrected === true, "Expected the correction");
+  assert(second.original_output === "Refunds within 30 days.", "Expected the original output kept");
+  assert(first.model === "gpt-4o" && first.model_config.temperature === 0.2, "Expected model and config");
+  console.log("✓ Test 2: JSONL export");
+
+  // Test 3: CSV export quoting
+  const csv = DatasetService.toCsv([
+    item({ notes: 'said "yes", then left' }),
+    item({ id: "item-2", notes: "line one\r\nline two" }),
+    item({ id: "item-3", notes: "carriage\rreturn" }),
+  ]);
+  const rows = csv.split("\n");
+  assert(rows[0].startsWith("id,trace_id,input,model,"), "Expected a header row");
+  assert(rows[1].includes(',"said ""yes"", then left",'), `Unexpected quoting: ${rows[1]}`);
+  assert(csv.includes(',"line one\r\nline two",'), "Expected CRLF values quoted");
+  assert(csv.includes(',"carriage\rreturn",'), "Expected lone CR values quoted");
+  assert(rows[1].startsWith(`item-1,${TRACE_ID},What is the refund policy?,gpt-4o,`), "Expected plain values unquoted");
+  console.log("✓ Test 3: CSV export quoting");
+
+  console.log("\nAll dataset tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for experiment scoring and comparison
+ *
+ * Verifies that:
+ * - Scorers produce 0..1 scores and skip when they don't apply
+ * - An item passes only when no applicable scorer fails
+ * - Summaries aggregate pass rate, latency, cost and per-scorer averages
+ * - Comparisons classify items as improved/regressed/unchanged/added/removed
+ *
+ * Run with: npx tsx tests/unit/experiment-scoring.test.ts
+ */
+
+import type { ExperimentResult } from "../../src/services/experimentService";
+
+// experimentService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function result(
+  itemId: string,
+  passed: boolean,
+  overrides: Partial<ExperimentResult> = {}
+): ExperimentResult {
+  return {
+    dataset_item_id: itemId,
+    trace_id: `trace-${itemId}`,
+    status: "success",
+    output: "out",
+    expected_output: "out",
+    latency_ms: 100,
+    input_tokens: 10,
+    output_tokens: 5,
+    cost: 0.01,
+    scores: [{ name: "exact_match", type: "exact_match", score: passed ? 1 : 0, passed }],
+    passed,
+    error: null,
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  const { ExperimentService } = await import("../../src/services/experimentService");
+
+  // Test 1: scorers
+  const scores = ExperimentService.scoreOutput(
+    [
+      { type: "exact_match" },
+      { type: "contains", value: "PARIS" },
+      { type: "regex", pattern: "^The capital" },
+      { type: "json_valid" },
+      { type: "max_latency", maxMs: 500 },
+      { type: "max_cost", maxCost: 0.001 },
+    ],
+    "The capital of France is Paris",
+    "the capital of france is paris",
+    200,
+    0.002
+  );
+  const byName = Object.fromEntries(scores.map((s) => [s.name, s]));
+  assert(byName.exact_match.passed === true, "Expected case-insensitive exact match");
+  assert(byName.contains.passed === true, "Expected contains to match");
+  assert(byName.regex.passed === true, "Expected regex to match");
+  assert(byName.json_valid.passed === false, "Expected json_valid to fail on prose");
+  assert(byName.max_latency.passed === true, "Expected latency under the limit");
+  assert(byName.max_cost.passed === false, "Expected cost over the limit");
+  console.log("✓ Test 1: scorers evaluate output, latency and cost");
+
+  // Test 2: similarity and missing expected output
+  const f1 = ExperimentService.tokenF1("the cat sat on the mat", "the cat sat on a mat");
+  assert(Math.abs(f1 - 5 / 6) < 1e-9, `Expected F1 5/6, got ${f1}`);
+  const unscored = ExperimentService.scoreOutput([{ type: "similarity" }], "anything", null, 10, null);
+  assert(unscored[0].score === null && unscored[0].passed === null, "Expected similarity to skip without expected output");
+  assert(ExperimentService.itemPassed("success", unscored), "Expected skipped scorers not to fail the item");
+  assert(!ExperimentService.itemPassed("error", []), "Expected target errors to fail the item");
+  console.log("✓ Test 2: similarity scores and skipped scorers");
+
+  // Test 3: summary aggregation
+  const summary = ExperimentService.summarize([
+    result("1", true, { latency_ms: 100, cost: 0.01 }),
+    result("2", false, { latency_ms: 300, cost: 0.03 }),
+    result("3", false, { status: "error", latency_ms: 200, cost: null, scores: [], input_tokens: null, output_tokens: null }),
+  ]);
+  assert(summary.item_count === 3 && summary.error_count === 1, "Expected item and error counts");
+  assert(Math.abs(summary.pass_rate - 100 / 3) < 1e-9, `Expected pass rate 33.3, got ${summary.pass_rate}`);
+  assert(summary.avg_latency_ms === 200 && summary.p95_latency_ms === 300, "Expected latency aggregates");
+  assert(Math.abs(summary.total_cost - 0.04) < 1e-9 && Math.abs((summary.avg_cost ?? 0) - 0.02) < 1e-9, "Expected cost aggregates");
+  assert(summary.total_tokens === 30, `Expected 30 tokens, got ${summary.total_tokens}`);
+  assert(summary.scorer_averages.exact_match === 0.5, "Expected scorer average 0.5");
+  console.log("✓ Test 3: summary aggregates results");
+
+  // Test 4: comparison
+  const comparison = ExperimentService.compareResults(
+    [result("1", true), result("2", false), result("3", true), result("4", true)],
+    [result("1", false), result("2", true), result("3", true), result("5", true)],
+    new Map()
+  );
+  assert(comparison.counts.regressed === 1 && comparison.counts.improved === 1, "Expected one regression and one improvement");
+  assert(comparison.counts.unchanged === 1, "Expected one unchanged item");
+  assert(comparison.counts.removed === 1 && comparison.counts.added === 1, "Expected one removed and one added item");
+  assert(comparison.items[0].change === "regressed", "Expected regressions listed first");
+  console.log("✓ Test 4: comparison classifies item changes");
+
+  console.log("\nAll experiment scoring tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the trace filter query language
+ *
+ * Verifies that:
+ * - Queries parse into an AST (AND/OR/NOT precedence, implicit AND, negation)
+ * - Errors point at the offending token and its position
+ * - The Tinybird compiler escapes every literal
+ * - The Postgres compiler binds values as $n parameters
+ *
+ * Run with: npx tsx tests/unit/filter-query.test.ts
+ */
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const {
+    FilterQueryError,
+    compileFilterToPostgres,
+    compileFilterToTinybird,
+    parseFilterQuery,
+  } = await import("../../src/utils/filterQuery");
+  const { chDateTime, chString } = await import("../../src/utils/clickhouseSql");
+
+  const expectError = (input: string, position: number, token: string) => {
+    try {
+      parseFilterQuery(input);
+    } catch (error) {
+      assert(error instanceof FilterQueryError, `Expected FilterQueryError for ${input}`);
+      const e = error as InstanceType<typeof FilterQueryError>;
+      assert(
+        e.position === position && e.token === token,
+        `Expected error at ${position} "${token}" for ${input}, got ${e.position} "${e.token}"`,
+      );
+      return;
+    }
+    throw new Error(`Expected ${input} to fail`);
+  };
+
+  // Test 1: the request example parses into four comparisons
+  const example = parseFilterQuery(
+    'model:gpt-4o AND latency_ms>3000 AND signal:tool_error AND attr.llm_call.finish_reason="length"',
+  );
+  assert(example.type === "and", "Expected an AND node");
+  const children = (example as any).children;
+  assert(children.length === 4, "Expected four comparisons");
+  assert(children[0].field === "model" && children[0].value === "gpt-4o", "Expected model comparison");
+  assert(children[1].op === ">" && children[1].value === 3000, "Expected numeric latency");
+  assert(children[2].field === "signal" && children[2].value === "tool_error", "Expected signal");
+  assert(
+    children[3].field === "attr" &&
+      children[3].key === "llm_call.finish_reason" &&
+      children[3].value === "length",
+    "Expected attribute path comparison",
+  );
+  console.log("✓ Test 1: Request example parses");
+
+  // Test 2: precedence, implicit AND and negation
+  const precedence = parseFilterQuery("model:a OR model:b user_id:u");
+  assert(precedence.type === "or", "Expected OR at the root");
+  assert((precedence as any).children[1].type === "and", "Expected AND to bind tighter");
+  const grouped = parseFilterQuery("(model:a OR model:b) AND NOT env:dev -route:/health");
+  assert(grouped.type === "and", "Expected AND at the root");
+  const groupedChildren = (grouped as any).children;
+  assert(groupedChildren[0].type === "or", "Expected parenthesized OR");
+  assert(groupedChildren[1].type === "not" && groupedChildren[1].child.field === "environment", "Expected NOT with alias");
+  assert(
+    groupedChildren[2].type === "not" && groupedChildren[2].child.position === 38,
+    "Expected -field negation with the field position",
+  );
+  console.log("✓ Test 2: Precedence and negation");
+
+  // Test 3: errors carry the offending token and position
+  expectError("modle:gpt-4o", 0, "modle");
+  expectError("model:gpt-4o AND latency_ms>fast", 28, "fast");
+  expectError("model>gpt", 5, ">");
+  expectError("model:a AND (latency_ms>1", 25, "");
+  expectError('model:"gpt', 6, '"gpt');
+  expectError("model:a OR", 10, "");
+  expectError("attr.llm_call.finish-reason:x", 14, "finish-reason");
+  expectError("model:a )", 8, ")");
+  expectError("signal>3", 6, ">");
+  console.log("✓ Test 3: Errors point at the offending token");
+
+  // Test 4: Tinybird compilation escapes literals
+  const tinybird = compileFilterToTinybird(example);
+  assert(
+    tinybird.includes(
+      "countIf(event_type = 'llm_call' AND JSONExtractString(attributes_json, '$.llm_call.model') = 'gpt-4o') > 0",
+    ),
+    "Expected model predicate on llm_call events",
+  );
+  assert(tinybird.includes("'$.llm_call.latency_ms')) > 3000"), "Expected numeric latency predicate");
+  assert(tinybird.includes("'signal', 'signal_name') = 'tool_error'"), "Expected signal predicate");
+  const injection = compileFilterToTinybird(
+    parseFilterQuery(`user_id:"x' OR 1=1 --" tag.team!="a\\\\'b"`),
+  );
+  assert(injection.includes(`user_id = 'x\\' OR 1=1 --'`), "Expected escaped quote");
+  assert(injection.includes(`countIf(JSONExtractString(attributes_json, 'tags', 'team') = 'a\\\\\\'b') = 0`), "Expected escaped backslash and != as no match");
+  assert(
+    compileFilterToTinybird(parseFilterQuery("model:gpt-4*")).includes("LIKE 'gpt-4%'"),
+    "Expected wildcard as LIKE",
+  );
+  try {
+    compileFilterToTinybird(parseFilterQuery("signal:hallucination"));
+    throw new Error("Expected analysis-only signal to be rejected");
+  } catch (error) {
+    assert(error instanceof FilterQueryError, "Expected FilterQueryError for analysis-only signal");
+  }
+  console.log("✓ Test 4: Tinybird compilation");
+
+  // Test 5: Postgres compilation binds parameters
+  const postgres = compileFilterToPostgres(example, 3);
+  assert(
+    postgres.sql ===
+      "(model = $3 AND latency_ms > $4 AND (COALESCE((NULLIF(metadata_json, '')::jsonb #>> '{issues,tool_failures}')::int, 0) > 0) AND finish_reason = $5)",
+    `Unexpected Postgres SQL: ${postgres.sql}`,
+  );
+  assert(JSON.stringify(postgres.params) === JSON.stringify(["gpt-4o", 3000, "length"]), "Expected bound params");
+  assert(postgres.nextIndex === 6, "Expected next parameter index");
+  const tagged = compileFilterToPostgres(parseFilterQuery("tag.customer:acme OR NOT signal:hallucination"), 1);
+  assert(
+    tagged.sql === "(tags->>$1 = $2 OR NOT COALESCE((is_hallucination = true), false))",
+    `Unexpected Postgres SQL: ${tagged.sql}`,
+  );
+  try {
+    compileFilterToPostgres(parseFilterQuery("model:a route:/chat"), 1);
+    throw new Error("Expected route to be rejected");
+  } catch (error) {
+    assert(
+      error instanceof FilterQueryError && error.position === 8 && error.token === "route",
+      "Expected error at route",
+    );
+  }
+  console.log("✓ Test 5: Postgres compilation");
+
+  // Test 6: ClickHouse literal helpers
+  assert(chString("a'b\\c") === "'a\\'b\\\\c'", "Expected escaped string literal");
+  assert(
+    chDateTime("2026-01-01T00:00:00Z") === "parseDateTime64BestEffort('2026-01-01T00:00:00.000Z', 3)",
+    "Expected normalized timestamp",
+  );
+  let rejected = false;
+  try {
+    chDateTime("2026-01-01') OR 1=1 --");
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, "Expected invalid timestamp to be rejected");
+  console.log("✓ Test 6: ClickHouse literals");
+
+  console.log("\nAll filter query tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for issue fingerprinting
+ *
+ * Verifies that:
+ * - Volatile parts of error messages (ids, numbers, quoted values) are normalized
+ * - Occurrences that differ only in volatile parts share a fingerprint
+ * - Route, model and tool name split issues
+ *
+ * Run with: npx tsx tests/unit/issue-fingerprint.test.ts
+ */
+
+import type { IssueOccurrence } from "../../src/services/issuesService";
+
+// issuesService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function occurrence(
+  errorMessage: string,
+  overrides: { route?: string; toolName?: string } = {}
+): IssueOccurrence {
+  return {
+    signal: {
+      tenant_id: "11111111-1111-4111-8111-111111111111",
+      project_id: "22222222-2222-4222-8222-222222222222",
+      trace_id: "33333333-3333-4333-8333-333333333333",
+      span_id: "44444444-4444-4444-8444-444444444444",
+      signal_name: "tool_error",
+      signal_type: "error",
+      signal_value: true,
+      signal_severity: "high",
+      metadata: {
+        tool_name: overrides.toolName ?? "search",
+        error_message: errorMessage,
+      },
+      timestamp: "2026-01-01T00:00:00.000Z",
+    },
+    route: overrides.route ?? "/chat",
+    userId: null,
+  };
+}
+
+async function runTests() {
+  const { IssuesService } = await import("../../src/services/issuesService");
+  const fp = (o: IssueOccurrence) =>
+    IssuesService.fingerprint(IssuesService.fingerprintParts(o));
+
+  // Test 1: normalization
+  const normalized = IssuesService.normalizeErrorMessage(
+    'Timeout after 3000ms fetching "doc-17" for request 5f0c2b1e-8a7d-4c3b-9e2f-1a2b3c4d5e6f'
+  );
+  assert(
+    normalized === "timeout after <n>ms fetching <str> for request <uuid>",
+    `Unexpected normalization: ${normalized}`
+  );
+  assert(IssuesService.normalizeErrorMessage("  ") === null, "Expected blank message to be null");
+  console.log("✓ Test 1: error messages are normalized");
+
+  // Test 2: volatile differences share a fingerprint
+  const a = fp(occurrence("Rate limited, retry in 12s (request 0xdeadbeef)"));
+  const b = fp(occurrence("Rate limited, retry in 3s (request 0xfeedface)"));
+  assert(a === b, "Expected same fingerprint for same failure");
+  console.log("✓ Test 2: same failure shares a fingerprint");
+
+  // Test 3: route and tool split issues
+  assert(fp(occurrence("boom")) !== fp(occurrence("boom", { route: "/batch" })), "Expected route to split");
+  assert(
+    fp(occurrence("boom")) !== fp(occurrence("boom", { toolName: "calculator" })),
+    "Expected tool name to split"
+  );
+  assert(fp(occurrence("boom")) !== fp(occurrence("bang")), "Expected message to split");
+  console.log("✓ Test 3: route, tool and message split issues");
+
+  console.log("\nAll issue fingerprint tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
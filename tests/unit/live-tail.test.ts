@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the events live tail
+ *
+ * Verifies that:
+ * - Filters match on event type ("signal" for signals), route, model and severity
+ * - Without Redis, published events reach subscribers of their project in-process
+ * - Signals pick up route and model from the span that raised them
+ * - Unsubscribing stops delivery
+ *
+ * Run with: npx tsx tests/unit/live-tail.test.ts
+ */
+
+// In-process fan-out only
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const TENANT = "11111111-1111-4111-8111-111111111111";
+const PROJECT = "22222222-2222-4222-8222-222222222222";
+const OTHER_PROJECT = "33333333-3333-4333-8333-333333333333";
+
+function llmCall(projectId: string, spanId: string, route: string, model: string) {
+  return {
+    tenant_id: TENANT,
+    project_id: projectId,
+    environment: "prod" as const,
+    trace_id: "trace-1",
+    span_id: spanId,
+    parent_span_id: null,
+    timestamp: "2026-10-01T12:00:00.000Z",
+    event_type: "llm_call" as const,
+    route,
+    attributes: { llm_call: { model, output: "x".repeat(5000) } },
+  };
+}
+
+async function runTests() {
+  const { LiveTailService } = await import("../../src/services/liveTailService");
+
+  // Test 1: filter matching
+  const event = {
+    kind: "event" as const,
+    trace_id: "t",
+    span_id: "s",
+    parent_span_id: null,
+    timestamp: "2026-10-01T12:00:00.000Z",
+    event_type: "llm_call",
+    environment: "prod",
+    route: "/chat",
+    model: "gpt-4o",
+    attributes: {},
+  };
+  const signal = {
+    kind: "signal" as const,
+    trace_id: "t",
+    span_id: "s",
+    timestamp: "2026-10-01T12:00:00.000Z",
+    signal_name: "high_latency",
+    signal_type: "threshold" as const,
+    signal_value: 12000,
+    severity: "high" as const,
+    route: "/chat",
+    model: null,
+    metadata: {},
+  };
+  assert(LiveTailService.matchesFilter(event, {}), "Expected empty filter to match");
+  assert(LiveTailService.matchesFilter(event, { eventTypes: ["llm_call"], routes: ["/chat"], models: ["gpt-4o"] }), "Expected event to match");
+  assert(!LiveTailService.matchesFilter(event, { eventTypes: ["signal"] }), "Expected event type mismatch");
+  assert(!LiveTailService.matchesFilter(event, { severities: ["high"] }), "Expected events to fail severity filters");
+  assert(LiveTailService.matchesFilter(signal, { eventTypes: ["signal"], severities: ["high"] }), "Expected signal to match");
+  assert(!LiveTailService.matchesFilter(signal, { models: ["gpt-4o"] }), "Expected signal without model to fail model filter");
+  console.log("✓ Test 1: Filter matching");
+
+  // Test 2: in-process fan-out per project, with truncation
+  const received: any[] = [];
+  const unsubscribe = LiveTailService.subscribe(TENANT, PROJECT, { eventTypes: ["llm_call", "signal"] }, (item) =>
+    received.push(item),
+  );
+  await LiveTailService.publishEvents(TENANT, [
+    llmCall(PROJECT, "span-1", "/chat", "gpt-4o"),
+    llmCall(OTHER_PROJECT, "span-2", "/chat", "gpt-4o"),
+  ]);
+  assert(received.length === 1, `Expected one item, got ${received.length}`);
+  assert(received[0].span_id === "span-1" && received[0].model === "gpt-4o", "Expected the project's event");
+  assert(
+    received[0].attributes.llm_call.output.length === 2001,
+    "Expected long attribute strings to be truncated",
+  );
+  console.log("✓ Test 2: Events delivered to subscribers of their project");
+
+  // Test 3: signals inherit route and model from their span
+  await LiveTailService.publishSignals(
+    [
+      {
+        tenant_id: TENANT,
+        project_id: PROJECT,
+        trace_id: "trace-1",
+        span_id: "span-1",
+        signal_name: "high_latency",
+        signal_type: "threshold",
+        signal_value: 12000,
+        signal_severity: "high",
+        timestamp: "2026-10-01T12:00:00.000Z",
+      },
+    ],
+    [
+      {
+        ...llmCall(PROJECT, "span-1", "/chat", "gpt-4o"),
+        conversation_id: "",
+        session_id: "",
+        user_id: "",
+        agent_name: null,
+        version: null,
+        attributes_json: JSON.stringify({ llm_call: { model: "gpt-4o" } }),
+      } as any,
+    ],
+  );
+  const signalItem = received[1];
+  assert(signalItem?.kind === "signal", "Expected a signal item");
+  assert(
+    signalItem.route === "/chat" && signalItem.model === "gpt-4o",
+    `Unexpected signal context: ${JSON.stringify(signalItem)}`,
+  );
+  console.log("✓ Test 3: Signals carry route and model");
+
+  // Test 4: unsubscribe stops delivery
+  unsubscribe();
+  await LiveTailService.publishEvents(TENANT, [llmCall(PROJECT, "span-3", "/chat", "gpt-4o")]);
+  assert(received.length === 2, "Expected no delivery after unsubscribe");
+  console.log("✓ Test 4: Unsubscribe");
+
+  console.log("\nAll live tail tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
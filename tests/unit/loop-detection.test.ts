@@ -0,0 +1,124 @@
+/**
+ * Unit tests for Layer 2 loop detection
+ *
+ * Verifies that:
+ * - Repeated tool calls with identical args emit tool_loop with iteration count
+ * - Repeated LLM inputs emit llm_loop
+ * - Repeating agent route cycles emit agent_loop
+ * - Normal traces emit no loop signals
+ *
+ * Run with: npx tsx tests/unit/loop-detection.test.ts
+ */
+
+import type { ParsedSignalEvent } from "../../src/services/signalsService";
+
+// SignalsService imports the Tinybird client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+let seq = 0;
+function makeEvent(
+  eventType: string,
+  attributes: any,
+  overrides: Record<string, any> = {}
+): ParsedSignalEvent {
+  seq++;
+  return {
+    event: {
+      tenant_id: "t1",
+      project_id: "p1",
+      environment: "dev",
+      trace_id: "trace-1",
+      span_id: `span-${seq}`,
+      parent_span_id: null,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, seq)).toISOString(),
+      event_type: eventType as any,
+      conversation_id: null,
+      session_id: null,
+      user_id: null,
+      agent_name: null,
+      version: null,
+      route: null,
+      attributes_json: JSON.stringify(attributes),
+      ...overrides,
+    },
+    attributes,
+  };
+}
+
+function toolCall(name: string, args: any) {
+  return makeEvent("tool_call", {
+    tool_call: { tool_name: name, args, result_status: "success", latency_ms: 10 },
+  });
+}
+
+async function runTests() {
+  const { SignalsService } = await import("../../src/services/signalsService");
+
+  // Test 1: same tool + args 5 times → high tool_loop
+  const events1 = Array.from({ length: 5 }, () => toolCall("search", { q: "refund policy" }));
+  events1.push(toolCall("search", { q: "something else" }));
+  const signals1 = SignalsService.detectLoops(events1);
+  const toolLoop = signals1.find((s) => s.signal_name === "tool_loop");
+  assert(!!toolLoop, "Expected tool_loop signal");
+  assert(toolLoop!.signal_value === 5, `Expected 5 iterations, got ${toolLoop!.signal_value}`);
+  assert(toolLoop!.signal_severity === "high", "Expected high severity at 5 iterations");
+  assert(toolLoop!.signal_type === "loop", "Expected loop signal type");
+  assert(toolLoop!.span_id === events1[4].event.span_id, "Expected signal on last repeated span");
+  console.log("✓ Test 1: repeated tool call emits tool_loop");
+
+  // Test 2: same LLM input 3 times → medium llm_loop
+  const events2 = Array.from({ length: 3 }, () =>
+    makeEvent("llm_call", {
+      llm_call: { model: "gpt-4o", input_hash: "abc123", latency_ms: 100 },
+    })
+  );
+  const signals2 = SignalsService.detectLoops(events2);
+  const llmLoop = signals2.find((s) => s.signal_name === "llm_loop");
+  assert(!!llmLoop, "Expected llm_loop signal");
+  assert(llmLoop!.signal_severity === "medium", "Expected medium severity at 3 iterations");
+  assert(llmLoop!.metadata?.iterations === 3, "Expected iterations in metadata");
+  console.log("✓ Test 2: repeated LLM input emits llm_loop");
+
+  // Test 3: route cycle search → fetch repeated 3 times (distinct args) → agent_loop
+  const events3 = [
+    toolCall("search", { q: 1 }),
+    toolCall("fetch", { id: 1 }),
+    toolCall("search", { q: 2 }),
+    toolCall("fetch", { id: 2 }),
+    toolCall("search", { q: 3 }),
+    toolCall("fetch", { id: 3 }),
+  ];
+  const signals3 = SignalsService.detectLoops(events3);
+  const agentLoop = signals3.find((s) => s.signal_name === "agent_loop");
+  assert(!!agentLoop, "Expected agent_loop signal");
+  assert(agentLoop!.signal_value === 3, "Expected 3 cycle iterations");
+  assert(
+    JSON.stringify(agentLoop!.metadata?.cycle) === JSON.stringify(["tool:search", "tool:fetch"]),
+    "Expected cycle pattern"
+  );
+  assert(!signals3.some((s) => s.signal_name === "tool_loop"), "Expected no tool_loop for distinct args");
+  console.log("✓ Test 3: route cycle emits agent_loop");
+
+  // Test 4: normal trace → no loop signals
+  const events4 = [
+    makeEvent("llm_call", { llm_call: { model: "gpt-4o", input: "hi", latency_ms: 100 } }),
+    toolCall("search", { q: "x" }),
+    toolCall("fetch", { id: 1 }),
+    makeEvent("llm_call", { llm_call: { model: "gpt-4o", input: "hi + context", latency_ms: 100 } }),
+  ];
+  assert(SignalsService.detectLoops(events4).length === 0, "Expected no loop signals");
+  console.log("✓ Test 4: normal trace emits no loops");
+
+  console.log("\nAll loop detection tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
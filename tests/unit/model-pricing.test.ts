@@ -0,0 +1,125 @@
+/**
+ * Unit tests for model price resolution and cost computation
+ *
+ * Verifies that:
+ * - Default match patterns pick the most specific model (gpt-4o vs gpt-4o-mini),
+ *   accept dated snapshots and provider prefixes, and leave unknown models unpriced
+ * - Tenant overrides win over global prices, within their effective range
+ * - Costs use separate input/output/cached-input rates
+ *
+ * Run with: npx tsx tests/unit/model-pricing.test.ts
+ */
+
+// modelPricingService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function close(a: number | null, b: number) {
+  return a !== null && Math.abs(a - b) < 1e-9;
+}
+
+async function runTests() {
+  const { ModelPricingService } = await import(
+    "../../src/services/modelPricingService"
+  );
+  const defaults = ModelPricingService.defaultPrices();
+  const resolve = (model: string, prices = defaults, at?: Date) =>
+    ModelPricingService.resolvePrice(prices, model, at)?.model_name ?? null;
+
+  // Test 1: most specific default wins
+  assert(resolve("gpt-4o") === "gpt-4o", "Expected gpt-4o");
+  assert(resolve("gpt-4o-mini") === "gpt-4o-mini", "Expected gpt-4o-mini");
+  assert(resolve("gpt-4") === "gpt-4", "Expected gpt-4");
+  assert(resolve("gpt-4-turbo") === "gpt-4-turbo", "Expected gpt-4-turbo");
+  assert(resolve("claude-3-5-sonnet") === "claude-3-5-sonnet", "Expected claude-3-5-sonnet");
+  console.log("✓ Test 1: Most specific pattern wins");
+
+  // Test 2: snapshots, provider prefixes and case
+  assert(resolve("gpt-4o-2024-08-06") === "gpt-4o", "Expected dated gpt-4o snapshot");
+  assert(resolve("gpt-4o-mini-2024-07-18") === "gpt-4o-mini", "Expected dated mini snapshot");
+  assert(resolve("claude-3-5-sonnet-20241022") === "claude-3-5-sonnet", "Expected compact date snapshot");
+  assert(resolve("claude-3-5-sonnet-latest") === "claude-3-5-sonnet", "Expected -latest alias");
+  assert(resolve("openai/GPT-4o") === "gpt-4o", "Expected provider prefix and case-insensitive match");
+  assert(resolve("gpt-3.5-turbo-0125") === "gpt-3.5-turbo", "Expected 4-digit snapshot");
+  assert(resolve("gpt-3x5") === null, "Expected dots to be matched literally");
+  assert(resolve("my-finetuned-model") === null, "Expected unknown models to be unpriced");
+  console.log("✓ Test 2: Snapshots, prefixes and unknown models");
+
+  // Test 3: tenant overrides and effective ranges
+  const override = {
+    ...defaults.find((p) => p.model_name === "gpt-4o")!,
+    id: "override",
+    tenant_id: "tenant",
+    match_pattern: "^gpt-4o$",
+    input_price_per_1k: 0.001,
+    is_override: true,
+    effective_from: "2025-01-01T00:00:00.000Z",
+    effective_to: "2025-07-01T00:00:00.000Z",
+  };
+  const catalog = [...defaults, override];
+  const inRange = ModelPricingService.resolvePrice(catalog, "gpt-4o", new Date("2025-03-01"));
+  assert(inRange?.id === "override", "Expected the override inside its range");
+  const before = ModelPricingService.resolvePrice(catalog, "gpt-4o", new Date("2024-12-31"));
+  assert(before?.id === null, "Expected the global price before the override starts");
+  const after = ModelPricingService.resolvePrice(catalog, "gpt-4o", new Date("2025-07-01"));
+  assert(after?.id === null, "Expected effective_to to be exclusive");
+  console.log("✓ Test 3: Overrides and effective ranges");
+
+  // Test 4: cost computation
+  const price = {
+    ...override,
+    input_price_per_1k: 0.002,
+    output_price_per_1k: 0.008,
+    cached_input_price_per_1k: 0.0005,
+  };
+  assert(
+    close(ModelPricingService.computeCost(price, { inputTokens: 1000, outputTokens: 500 }), 0.006),
+    "Expected 1000 in * 0.002 + 500 out * 0.008"
+  );
+  assert(
+    close(
+      ModelPricingService.computeCost(price, {
+        inputTokens: 1000,
+        outputTokens: 0,
+        cachedInputTokens: 400,
+      }),
+      0.0014
+    ),
+    "Expected cached input tokens at the cached rate"
+  );
+  assert(
+    close(
+      ModelPricingService.computeCost(
+        { ...price, cached_input_price_per_1k: null },
+        { inputTokens: 1000, cachedInputTokens: 400 }
+      ),
+      0.002
+    ),
+    "Expected cached tokens at the input rate without a cached price"
+  );
+  assert(
+    close(ModelPricingService.computeCost(price, { totalTokens: 1000 }), 0.005),
+    "Expected total-only usage at the average rate"
+  );
+  assert(
+    ModelPricingService.computeCost(price, {}) === null,
+    "Expected no cost without usage"
+  );
+  assert(
+    ModelPricingService.estimateCost(defaults, "unknown-model", { totalTokens: 1000 }) === null,
+    "Expected no cost for unknown models"
+  );
+  console.log("✓ Test 4: Cost computation");
+
+  console.log("\nAll model pricing tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
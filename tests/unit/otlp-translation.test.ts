@@ -0,0 +1,217 @@
+/**
+ * Unit tests for OTLP → canonical event translation
+ *
+ * Verifies that:
+ * - GenAI chat / execute_tool spans map to llm_call / tool_call attributes
+ * - Non-GenAI spans are skipped and children re-parented
+ * - Protobuf payloads decode to the same result as OTLP/JSON
+ * - Unconvertible spans are counted as rejected and reported in the protobuf
+ *   ExportTraceServiceResponse
+ *
+ * Run with: npx tsx tests/unit/otlp-translation.test.ts
+ */
+
+import { OtlpTranslationService } from "../../src/services/otlpTranslationService";
+import { isValidUUIDv4 } from "../../src/utils/uuidValidation";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const TENANT_ID = "11111111-1111-4111-8111-111111111111";
+const PROJECT_ID = "22222222-2222-4222-8222-222222222222";
+const TRACE_HEX = "5b8efff798038103d269b633813fc60c";
+
+// Minimal protobuf encoder for building test payloads
+function varint(n: number | bigint): Buffer {
+  let v = BigInt(n);
+  const bytes: number[] = [];
+  do {
+    let byte = Number(v & 0x7fn);
+    v >>= 7n;
+    if (v > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (v > 0n);
+  return Buffer.from(bytes);
+}
+function field(num: number, payload: Buffer): Buffer {
+  return Buffer.concat([varint((num << 3) | 2), varint(payload.length), payload]);
+}
+function fixed64(num: number, value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return Buffer.concat([varint((num << 3) | 1), buf]);
+}
+function stringKv(key: string, value: string): Buffer {
+  return Buffer.concat([field(1, Buffer.from(key)), field(2, field(1, Buffer.from(value)))]);
+}
+function intKv(key: string, value: number): Buffer {
+  return Buffer.concat([
+    field(1, Buffer.from(key)),
+    field(2, Buffer.concat([varint((3 << 3) | 0), varint(value)])),
+  ]);
+}
+
+function jsonRequest() {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [
+            { key: "service.name", value: { stringValue: "support-bot" } },
+            { key: "deployment.environment.name", value: { stringValue: "production" } },
+          ],
+        },
+        scopeSpans: [
+          {
+            spans: [
+              {
+                traceId: TRACE_HEX,
+                spanId: "aaaaaaaaaaaaaaaa",
+                name: "HTTP POST /chat",
+                startTimeUnixNano: "1700000000000000000",
+                endTimeUnixNano: "1700000003000000000",
+                attributes: [{ key: "http.route", value: { stringValue: "/chat" } }],
+              },
+              {
+                traceId: TRACE_HEX,
+                spanId: "bbbbbbbbbbbbbbbb",
+                parentSpanId: "aaaaaaaaaaaaaaaa",
+                name: "chat gpt-4o",
+                startTimeUnixNano: "1700000000000000000",
+                endTimeUnixNano: "1700000001500000000",
+                attributes: [
+                  { key: "gen_ai.operation.name", value: { stringValue: "chat" } },
+                  { key: "gen_ai.provider.name", value: { stringValue: "openai" } },
+                  { key: "gen_ai.request.model", value: { stringValue: "gpt-4o" } },
+                  { key: "gen_ai.response.model", value: { stringValue: "gpt-4o-2024-08-06" } },
+                  { key: "gen_ai.usage.input_tokens", value: { intValue: "120" } },
+                  { key: "gen_ai.usage.output_tokens", value: { intValue: 30 } },
+                  {
+                    key: "gen_ai.response.finish_reasons",
+                    value: { arrayValue: { values: [{ stringValue: "stop" }] } },
+                  },
+                  {
+                    key: "gen_ai.input.messages",
+                    value: {
+                      stringValue: JSON.stringify([
+                        { role: "user", parts: [{ type: "text", content: "Where is my order?" }] },
+                      ]),
+                    },
+                  },
+                  { key: "server.port", value: { intValue: 443 } },
+                ],
+              },
+              {
+                traceId: TRACE_HEX,
+                spanId: "cccccccccccccccc",
+                parentSpanId: "bbbbbbbbbbbbbbbb",
+                name: "execute_tool lookup_order",
+                startTimeUnixNano: "1700000001500000000",
+                endTimeUnixNano: "1700000001750000000",
+                attributes: [
+                  { key: "gen_ai.operation.name", value: { stringValue: "execute_tool" } },
+                  { key: "gen_ai.tool.name", value: { stringValue: "lookup_order" } },
+                  { key: "gen_ai.tool.call.arguments", value: { stringValue: '{"id":42}' } },
+                ],
+                status: { code: 2, message: "upstream timeout" },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+async function runTests() {
+  // Test 1: JSON spans map to llm_call / tool_call
+  const result = OtlpTranslationService.toCanonicalEvents(jsonRequest(), {
+    tenantId: TENANT_ID,
+    projectId: PROJECT_ID,
+  });
+  assert(result.spanCount === 3, "Expected 3 spans counted");
+  assert(result.skippedSpanCount === 1, "Expected the HTTP span to be skipped");
+  assert(result.rejectedSpanCount === 0, "Expected no rejected spans");
+  assert(result.events.length === 2, `Expected 2 events, got ${result.events.length}`);
+
+  const llm = result.events.find((e) => e.event_type === "llm_call")!;
+  assert(!!llm, "Expected llm_call event");
+  assert(isValidUUIDv4(llm.trace_id) && isValidUUIDv4(llm.span_id), "Expected UUIDv4 ids");
+  assert(llm.parent_span_id === null, "Expected llm_call re-parented to root");
+  assert(llm.environment === "prod", "Expected production to map to prod");
+  assert(llm.attributes.llm_call?.model === "gpt-4o", "Expected request model");
+  assert(llm.attributes.llm_call?.response_model === "gpt-4o-2024-08-06", "Expected response model");
+  assert(llm.attributes.llm_call?.total_tokens === 150, "Expected total tokens 150");
+  assert(llm.attributes.llm_call?.latency_ms === 1500, "Expected latency 1500ms");
+  assert(llm.attributes.llm_call?.finish_reason === "stop", "Expected finish reason");
+  assert(llm.attributes.llm_call?.input === "Where is my order?", "Expected input text from messages");
+  assert(llm.attributes.llm_call?.server_port === 443, "Expected server.port");
+  console.log("✓ Test 1: chat span maps to llm_call");
+
+  const tool = result.events.find((e) => e.event_type === "tool_call")!;
+  assert(tool.parent_span_id === llm.span_id, "Expected tool_call parented to llm_call");
+  assert(tool.attributes.tool_call?.tool_name === "lookup_order", "Expected tool name");
+  assert(tool.attributes.tool_call?.args?.id === 42, "Expected parsed args");
+  assert(tool.attributes.tool_call?.result_status === "timeout", "Expected timeout status");
+  console.log("✓ Test 2: execute_tool span maps to tool_call with status");
+
+  // Test 3: protobuf decoding yields the same llm_call
+  const spanPb = Buffer.concat([
+    field(1, Buffer.from(TRACE_HEX, "hex")),
+    field(2, Buffer.from("bbbbbbbbbbbbbbbb", "hex")),
+    field(5, Buffer.from("chat gpt-4o")),
+    fixed64(7, 1700000000000000000n),
+    fixed64(8, 1700000001500000000n),
+    field(9, stringKv("gen_ai.operation.name", "chat")),
+    field(9, stringKv("gen_ai.request.model", "gpt-4o")),
+    field(9, intKv("gen_ai.usage.input_tokens", 120)),
+    field(9, intKv("gen_ai.usage.output_tokens", 30)),
+  ]);
+  const requestPb = field(
+    1,
+    Buffer.concat([
+      field(1, field(1, stringKv("service.name", "support-bot"))),
+      field(2, field(2, spanPb)),
+    ])
+  );
+  const decoded = OtlpTranslationService.decodeProtobuf(requestPb);
+  const pbResult = OtlpTranslationService.toCanonicalEvents(decoded, {
+    tenantId: TENANT_ID,
+    projectId: PROJECT_ID,
+  });
+  assert(pbResult.events.length === 1, "Expected 1 event from protobuf");
+  assert(pbResult.events[0].span_id === llm.span_id, "Expected same span id as JSON path");
+  assert(pbResult.events[0].attributes.llm_call?.total_tokens === 150, "Expected tokens from protobuf");
+  assert(pbResult.events[0].attributes.llm_call?.latency_ms === 1500, "Expected latency from protobuf");
+  console.log("✓ Test 3: protobuf payload decodes to llm_call");
+
+  // Test 4: tenant-level key without observa.project_id is rejected
+  const noProject = OtlpTranslationService.toCanonicalEvents(jsonRequest(), {
+    tenantId: TENANT_ID,
+    projectId: null,
+  });
+  assert(noProject.events.length === 0, "Expected no events without project");
+  assert(noProject.errors.length === 1, "Expected a project error");
+  assert(
+    noProject.rejectedSpanCount === 3 && noProject.skippedSpanCount === 0,
+    "Expected every span rejected, none skipped",
+  );
+  console.log("✓ Test 4: missing project is reported");
+
+  // Test 5: protobuf ExportTraceServiceResponse with partial success
+  assert(OtlpTranslationService.encodeExportResponse(0, "").length === 0, "Expected an empty response");
+  const partial = Buffer.concat([varint((1 << 3) | 0), varint(3), field(2, Buffer.from("bad span"))]);
+  assert(
+    OtlpTranslationService.encodeExportResponse(3, "bad span").equals(field(1, partial)),
+    "Expected partial_success with rejected_spans and error_message",
+  );
+  console.log("✓ Test 5: protobuf partial success response");
+
+  console.log("\nAll OTLP translation tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
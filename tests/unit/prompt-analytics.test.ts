@@ -0,0 +1,82 @@
+/**
+ * Unit tests for prompt version comparison
+ *
+ * Verifies that:
+ * - Comparisons use the getMetricsComparison shape (current/previous/change/change_percent)
+ * - The candidate version is "current" and the baseline "previous"
+ * - Missing feedback and signals compare as zero
+ *
+ * Run with: npx tsx tests/unit/prompt-analytics.test.ts
+ */
+
+// promptAnalyticsService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function metrics(overrides: Record<string, any>) {
+  return {
+    prompt_version_id: "v",
+    calls: 0,
+    traces: 0,
+    latency_p50: 0,
+    latency_p95: 0,
+    avg_tokens: 0,
+    total_tokens: 0,
+    avg_cost: 0,
+    total_cost: 0,
+    error_rate: 0,
+    feedback: { likes: 0, dislikes: 0, like_ratio: null },
+    signal_rate: 0,
+    signal_rates: {},
+    hallucination_rate: 0,
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  const { PromptAnalyticsService } = await import(
+    "../../src/services/promptAnalyticsService"
+  );
+
+  // Test 1: shape and direction
+  const baseline = metrics({ traces: 100, latency_p95: 2000, avg_cost: 0.01, error_rate: 4 });
+  const candidate = metrics({ traces: 120, latency_p95: 1500, avg_cost: 0.012, error_rate: 2 });
+  const comparison = PromptAnalyticsService.compareVersions(baseline, candidate);
+  for (const key of ["trace_count", "error_rate", "latency_p95", "cost", "tokens"]) {
+    const entry = (comparison as any)[key];
+    assert(
+      entry && ["current", "previous", "change", "change_percent"].every((k) => typeof entry[k] === "number"),
+      `Expected the getMetricsComparison shape for ${key}`
+    );
+  }
+  assert(comparison.trace_count.current === 120 && comparison.trace_count.previous === 100, "Expected b as current");
+  assert(comparison.latency_p95.change === -500 && comparison.latency_p95.change_percent === -25, "Expected -25% p95");
+  assert(comparison.error_rate.change_percent === -50, "Expected the error rate halved");
+  assert(comparison.avg_cost.change_percent === 20, "Expected +20% cost per call");
+  console.log("✓ Test 1: Comparison shape");
+
+  // Test 2: missing feedback and signals
+  const withSignals = metrics({
+    traces: 10,
+    feedback: { likes: 3, dislikes: 1, like_ratio: 0.75 },
+    signal_rates: { tool_error: 20 },
+  });
+  const empty = PromptAnalyticsService.compareVersions(metrics({}), withSignals);
+  assert(empty.like_ratio.current === 0.75 && empty.like_ratio.previous === 0, "Expected no feedback as 0");
+  assert(empty.tool_error_rate.current === 20 && empty.tool_error_rate.change_percent === 100, "Expected +100% from zero");
+  const none = PromptAnalyticsService.compareVersions(metrics({}), metrics({}));
+  assert(none.tool_error_rate.change_percent === 0, "Expected 0% between empty versions");
+  console.log("✓ Test 2: Missing feedback and signals");
+
+  console.log("\nAll prompt analytics tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for the prompt registry helpers
+ *
+ * Verifies that:
+ * - {{variables}} are extracted from text prompts and chat messages
+ * - llm_call prompt_template_id references parse as version id, name@version or name@label
+ *
+ * Run with: npx tsx tests/unit/prompt-registry.test.ts
+ */
+
+// promptService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { PromptService } = await import("../../src/services/promptService");
+
+  // Test 1: variables
+  const textVars = PromptService.extractVariables(
+    "Answer {{question}} using {{ context }}. Repeat: {{question}}. Not a {var}."
+  );
+  assert(textVars.join() === "question,context", `Expected question,context, got ${textVars.join()}`);
+  const chatVars = PromptService.extractVariables([
+    { role: "system", content: "You are {{persona.name}}" },
+    { role: "user", content: "{{input}}" },
+  ]);
+  assert(chatVars.join() === "persona.name,input", "Expected chat message variables");
+  assert(PromptService.extractVariables("{{ 1bad }}").length === 0, "Expected invalid names to be ignored");
+  console.log("✓ Test 1: Variables");
+
+  // Test 2: references
+  const id = "3f0e5b9c-1d2a-4c3b-9e8f-0a1b2c3d4e5f";
+  const byId = PromptService.parseReference(id.toUpperCase());
+  assert(byId?.kind === "id" && byId.id === id, "Expected a version id reference");
+  const byVersion = PromptService.parseReference("support-answer@3");
+  assert(byVersion?.kind === "version" && byVersion.name === "support-answer" && byVersion.version === 3, "Expected name@version");
+  const byLabel = PromptService.parseReference("support-answer@production");
+  assert(byLabel?.kind === "label" && byLabel.label === "production", "Expected name@label");
+  assert(PromptService.parseReference("support-answer") === null, "Expected a bare name not to resolve");
+  assert(PromptService.parseReference("@production") === null, "Expected a missing name to be rejected");
+  assert(PromptService.parseReference("support@Prod!") === null, "Expected an invalid label to be rejected");
+  console.log("✓ Test 2: References");
+
+  console.log("\nAll prompt registry tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for saved views
+ *
+ * Verifies that:
+ * - Relative time ranges ("30m", "24h", "7d", "4w") resolve to a window ending now
+ * - Applying a trace view fills in its filters and window, explicit options win
+ * - Issue views expose severity, signal names and the resolved window
+ *
+ * Run with: npx tsx tests/unit/saved-views.test.ts
+ */
+
+// savedViewService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { resolveRelativeTimeRange } = await import("../../src/utils/relativeTimeRange");
+  const { SavedViewService } = await import("../../src/services/savedViewService");
+
+  const now = new Date("2026-03-10T12:00:00.000Z");
+
+  // Test 1: relative ranges
+  const day = resolveRelativeTimeRange("24h", now);
+  assert(day?.start === "2026-03-09T12:00:00.000Z", "Expected 24h window start");
+  assert(day?.end === now.toISOString(), "Expected window to end now");
+  assert(resolveRelativeTimeRange("30m", now)?.start === "2026-03-10T11:30:00.000Z", "Expected 30m");
+  assert(resolveRelativeTimeRange("2w", now)?.start === "2026-02-24T12:00:00.000Z", "Expected 2w");
+  for (const invalid of ["", "0d", "24", "1y", "-1h", "10000d"]) {
+    assert(resolveRelativeTimeRange(invalid, now) === null, `Expected "${invalid}" to be rejected`);
+  }
+  console.log("✓ Test 1: Relative time ranges");
+
+  const view = (overrides: Record<string, any>) => ({
+    id: "v1",
+    tenant_id: "t1",
+    project_id: "p1",
+    user_id: "u1",
+    resource: "traces" as const,
+    name: "Slow GPT-4o",
+    description: null,
+    filters: {},
+    time_range: null,
+    shared: false,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    ...overrides,
+  });
+
+  // Test 2: trace view with explicit overrides
+  const traceView = view({
+    filters: { models: ["gpt-4o"], issueType: "hallucination", tags: { team: "search" } },
+    time_range: "24h",
+  });
+  const applied = SavedViewService.applyTraceView(
+    traceView,
+    {
+      projectId: null,
+      limit: 50,
+      models: undefined,
+      issueType: "drift",
+      tags: {},
+    },
+    now,
+  );
+  assert(applied.projectId === "p1", "Expected the view's project");
+  assert(applied.models?.[0] === "gpt-4o", "Expected the view's models");
+  assert(applied.issueType === "drift", "Expected the explicit issue type to win");
+  assert(applied.tags?.team === "search", "Expected empty explicit tags to keep the view's");
+  assert(applied.startDate === "2026-03-09T12:00:00.000Z", "Expected the view's window");
+  assert(applied.limit === 50, "Expected pagination to pass through");
+  const explicitWindow = SavedViewService.applyTraceView(
+    traceView,
+    { startDate: "2026-01-01T00:00:00.000Z" },
+    now,
+  );
+  assert(explicitWindow.startDate === "2026-01-01T00:00:00.000Z", "Expected explicit startDate to win");
+  console.log("✓ Test 2: Trace views");
+
+  // Test 3: issue view
+  const issues = SavedViewService.issueViewFilters(
+    view({
+      resource: "issues",
+      filters: { severity: "high", signalNames: ["tool_error"] },
+      time_range: "7d",
+    }),
+    now,
+  );
+  assert(issues.severity === "high", "Expected severity");
+  assert(issues.signalNames?.[0] === "tool_error", "Expected signal names");
+  assert(issues.startTime === "2026-03-03T12:00:00.000Z", "Expected 7d window");
+  assert(
+    SavedViewService.issueViewFilters(view({ resource: "issues" }), now).startTime === undefined,
+    "Expected no window without time_range",
+  );
+  console.log("✓ Test 3: Issue views");
+
+  console.log("\nAll saved view tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
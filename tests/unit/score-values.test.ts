@@ -0,0 +1,85 @@
+/**
+ * Unit tests for annotation score value validation
+ *
+ * Verifies that:
+ * - Numeric scores respect config bounds
+ * - Categorical scores must use a configured label and carry its value
+ * - Boolean scores are stored as 1/0 with a "true"/"false" label
+ *
+ * Run with: npx tsx tests/unit/score-values.test.ts
+ */
+
+// scoreService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { ScoreService } = await import("../../src/services/scoreService");
+
+  // Test 1: numeric bounds
+  const numeric = {
+    data_type: "numeric" as const,
+    min_value: 1,
+    max_value: 5,
+    categories: null,
+  };
+  const inRange = ScoreService.normalizeValue(numeric, 4);
+  assert(inRange.ok && inRange.numeric_value === 4, "Expected 4 to be accepted");
+  assert(!ScoreService.normalizeValue(numeric, 6).ok, "Expected 6 to exceed max");
+  assert(!ScoreService.normalizeValue(numeric, 0).ok, "Expected 0 to be below min");
+  assert(!ScoreService.normalizeValue(numeric, "4").ok, "Expected strings to be rejected");
+  const unbounded = ScoreService.normalizeValue(
+    { ...numeric, min_value: null, max_value: null },
+    -100
+  );
+  assert(unbounded.ok, "Expected unbounded configs to accept any number");
+  console.log("✓ Test 1: numeric scores respect bounds");
+
+  // Test 2: categorical labels
+  const categorical = {
+    data_type: "categorical" as const,
+    min_value: null,
+    max_value: null,
+    categories: [
+      { label: "correct", value: 1 },
+      { label: "partially_correct", value: 0.5 },
+      { label: "unclear" },
+    ],
+  };
+  const partial = ScoreService.normalizeValue(categorical, "partially_correct");
+  assert(
+    partial.ok && partial.string_value === "partially_correct" && partial.numeric_value === 0.5,
+    "Expected category label and value"
+  );
+  const unclear = ScoreService.normalizeValue(categorical, "unclear");
+  assert(unclear.ok && unclear.numeric_value === null, "Expected null value for unvalued category");
+  const invalid = ScoreService.normalizeValue(categorical, "wrong");
+  assert(!invalid.ok && invalid.message.includes("correct"), "Expected unknown labels to list options");
+  console.log("✓ Test 2: categorical scores use configured labels");
+
+  // Test 3: booleans
+  const boolean = {
+    data_type: "boolean" as const,
+    min_value: null,
+    max_value: null,
+    categories: null,
+  };
+  const yes = ScoreService.normalizeValue(boolean, true);
+  assert(yes.ok && yes.numeric_value === 1 && yes.string_value === "true", "Expected true => 1");
+  const no = ScoreService.normalizeValue(boolean, false);
+  assert(no.ok && no.numeric_value === 0 && no.string_value === "false", "Expected false => 0");
+  assert(!ScoreService.normalizeValue(boolean, 1).ok, "Expected numbers to be rejected");
+  console.log("✓ Test 3: boolean scores map to 1/0");
+
+  console.log("\nAll score value tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
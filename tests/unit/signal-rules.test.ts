@@ -0,0 +1,94 @@
+/**
+ * Unit tests for configurable signal rules
+ *
+ * Verifies that:
+ * - Defaults reproduce the original thresholds (high suppresses medium latency)
+ * - Scoped custom rules override defaults for matching route/model only
+ * - Disabled overrides suppress a default signal
+ *
+ * Run with: npx tsx tests/unit/signal-rules.test.ts
+ */
+
+import type { SignalRule } from "../../src/services/signalRulesService";
+
+// signalRulesService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const PROJECT_ID = "22222222-2222-4222-8222-222222222222";
+
+function customRule(overrides: Partial<SignalRule>): SignalRule {
+  return {
+    id: "33333333-3333-4333-8333-333333333333",
+    tenant_id: "11111111-1111-4111-8111-111111111111",
+    project_id: PROJECT_ID,
+    name: "custom",
+    description: null,
+    signal_name: "high_latency",
+    signal_type: "threshold",
+    event_type: "llm_call",
+    route: null,
+    model: null,
+    metric: "latency_ms",
+    operator: "gt",
+    threshold: 5000,
+    severity: "high",
+    enabled: true,
+    source: "custom",
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  const { SignalRulesService } = await import("../../src/services/signalRulesService");
+  const llmContext = (route: string | null) => ({
+    projectId: PROJECT_ID,
+    eventType: "llm_call",
+    route,
+    model: "gpt-4o",
+  });
+
+  // Test 1: defaults
+  const defaults = SignalRulesService.resolveRules([], llmContext(null));
+  const fired1 = SignalRulesService.evaluate(defaults, { latency_ms: 6000, total_tokens: 10 });
+  assert(fired1.length === 1, `Expected one signal, got ${fired1.length}`);
+  assert(fired1[0].rule.signal_name === "high_latency", "Expected high_latency to win");
+  assert(fired1[0].rule.source === "default", "Expected default rule");
+  const fired1b = SignalRulesService.evaluate(defaults, { latency_ms: 3000 });
+  assert(fired1b[0]?.rule.signal_name === "medium_latency", "Expected medium_latency at 3s");
+  console.log("✓ Test 1: defaults match original thresholds");
+
+  // Test 2: route-scoped override raises the budget for batch route only
+  const batchRule = customRule({ route: "/batch", threshold: 60000, name: "Batch budget" });
+  const batchRules = SignalRulesService.resolveRules([batchRule], llmContext("/batch"));
+  const fired2 = SignalRulesService.evaluate(batchRules, { latency_ms: 6000 });
+  assert(
+    !fired2.some((f) => f.rule.signal_name === "high_latency"),
+    "Expected no high_latency on /batch at 6s"
+  );
+  const chatRules = SignalRulesService.resolveRules([batchRule], llmContext("/chat"));
+  const fired2b = SignalRulesService.evaluate(chatRules, { latency_ms: 6000 });
+  assert(fired2b[0]?.rule.signal_name === "high_latency", "Expected default on /chat");
+  const fired2c = SignalRulesService.evaluate(batchRules, { latency_ms: 70000 });
+  assert(fired2c[0]?.rule.name === "Batch budget", "Expected custom rule to be named");
+  console.log("✓ Test 2: scoped override applies only to its route");
+
+  // Test 3: disabled override suppresses default
+  const disabled = customRule({ signal_name: "token_spike", metric: "total_tokens", enabled: false });
+  const rules3 = SignalRulesService.resolveRules([disabled], llmContext(null));
+  const fired3 = SignalRulesService.evaluate(rules3, { total_tokens: 500000 });
+  assert(fired3.length === 0, "Expected token_spike suppressed");
+  console.log("✓ Test 3: disabled override suppresses default");
+
+  console.log("\nAll signal rule tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for trace comparison
+ *
+ * Verifies that:
+ * - Text diffs are word-level and reassemble both inputs, and fall back to
+ *   whole-text replacement once the diff budget is spent
+ * - Spans align by depth, event type and name, falling back to event type
+ *   for spans between aligned ones (e.g. an LLM call that switched model)
+ * - Added/removed spans and latency/token/cost deltas are reported
+ *
+ * Run with: npx tsx tests/unit/trace-compare.test.ts
+ */
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function span(id: string, eventType: string, name: string, start: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    span_id: id,
+    parent_span_id: null,
+    name,
+    event_type: eventType,
+    start_time: `2026-10-01T12:00:0${start}.000Z`,
+    children: [] as any[],
+    events: [] as any[],
+    ...extra,
+  };
+}
+
+function llmSpan(id: string, model: string, start: string, input: string, output: string, latency: number, tokens: number, cost: number) {
+  return span(id, "llm_call", `LLM Call: ${model}`, start, {
+    duration_ms: latency,
+    total_tokens: tokens,
+    cost,
+    // The tree clears an output that repeats the final answer; events keep it
+    llm_call: { model, input, output: null },
+    events: [{ event_type: "llm_call", attributes: { llm_call: { model, input, output } } }],
+  });
+}
+
+function tree(traceId: string, children: any[], totals: Record<string, number>) {
+  const root = span(`${traceId}-root`, "trace_start", "Trace Start", "0");
+  root.children = children;
+  return { summary: { trace_id: traceId, ...totals }, spans: [root] };
+}
+
+async function runTests() {
+  const { diffText } = await import("../../src/utils/textDiff");
+  const { TraceCompareService } = await import("../../src/services/traceCompareService");
+
+  // Test 1: word-level text diff
+  const diff = diffText("The order ships today.", "The order ships tomorrow.");
+  assert(diff.granularity === "word", "Expected word granularity");
+  const rebuild = (keep: string) =>
+    diff.ops.filter((op) => op.op === "equal" || op.op === keep).map((op) => op.text).join("");
+  assert(rebuild("delete") === "The order ships today.", "Expected equal + delete to rebuild a");
+  assert(rebuild("insert") === "The order ships tomorrow.", "Expected equal + insert to rebuild b");
+  assert(
+    JSON.stringify(diff.ops.filter((op) => op.op !== "equal")) ===
+      JSON.stringify([{ op: "delete", text: "today." }, { op: "insert", text: "tomorrow." }]),
+    `Unexpected ops: ${JSON.stringify(diff.ops)}`,
+  );
+  assert(diffText("same", "same").ops.every((op) => op.op === "equal"), "Expected no changes");
+  const budget = { cells: 1 }; // one changed word after common prefix/suffix
+  assert(diffText("a b c", "a x c", budget).granularity === "word", "Expected a word diff within budget");
+  assert(budget.cells === 0, `Expected the table deducted from the budget, got ${budget.cells}`);
+  const spent = diffText("one two three", "one four three", budget);
+  assert(spent.granularity === "whole", "Expected whole-text diff once the budget is spent");
+  assert(spent.removed_chars === 13 && spent.added_chars === 14, "Expected both texts in a whole diff");
+  console.log("✓ Test 1: Word-level text diff");
+
+  // Test 2: alignment, added/removed spans, deltas
+  const a = tree(
+    "trace-a",
+    [
+      span("a-tool", "tool_call", "Tool: search", "1", {
+        duration_ms: 100,
+        tool_call: { args: { q: "refund" }, result: "3 hits" },
+      }),
+      llmSpan("a-llm", "gpt-4o", "2", "Answer the user", "Refund issued", 1200, 500, 0.01),
+      span("a-retry", "tool_call", "Tool: retry", "3"),
+    ],
+    { total_latency_ms: 1500, total_tokens: 500, total_cost: 0.01 },
+  );
+  const b = tree(
+    "trace-b",
+    [
+      span("b-tool", "tool_call", "Tool: search", "1", {
+        duration_ms: 80,
+        tool_call: { args: { q: "refund" }, result: "3 hits" },
+      }),
+      llmSpan("b-llm", "gpt-4o-mini", "2", "Answer the user", "No refund possible", 700, 450, 0.002),
+      span("b-out", "output", "Output", "4"),
+    ],
+    { total_latency_ms: 900, total_tokens: 450, total_cost: 0.002 },
+  );
+
+  const result = TraceCompareService.compareTrees(a, b);
+  const pairOf = (id: string) => result.aligned.find((p) => p.a.span_id === id);
+
+  const toolPair = pairOf("a-tool");
+  assert(toolPair?.b.span_id === "b-tool" && toolPair.match === "exact", "Expected tool spans to align by name");
+  assert(toolPair!.diffs.length === 0, "Expected identical tool args/results to have no diffs");
+  assert(toolPair!.latency_ms.delta === -20, "Expected latency delta b - a");
+
+  const llmPair = pairOf("a-llm");
+  assert(llmPair?.b.span_id === "b-llm" && llmPair.match === "type", "Expected LLM calls to align by type");
+  assert(llmPair!.tokens.delta === -50 && llmPair!.cost.delta === -0.008, "Expected token and cost deltas");
+  assert(
+    llmPair!.diffs.map((d) => d.field).join(",") === "llm_call.output",
+    `Expected only an output diff, got ${llmPair!.diffs.map((d) => d.field)}`,
+  );
+
+  assert(
+    result.removed.map((s) => s.span_id).join(",") === "a-retry",
+    `Unexpected removed spans: ${JSON.stringify(result.removed)}`,
+  );
+  assert(
+    result.added.map((s) => s.span_id).join(",") === "b-out",
+    `Unexpected added spans: ${JSON.stringify(result.added)}`,
+  );
+  assert(result.totals.latency_ms.delta === -600, "Expected total latency delta");
+  assert(
+    result.stats.aligned === 3 && result.stats.changed === 1,
+    `Unexpected stats: ${JSON.stringify(result.stats)}`,
+  );
+  console.log("✓ Test 2: Span alignment, added/removed spans and deltas");
+
+  console.log("\nAll trace compare tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
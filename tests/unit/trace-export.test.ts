@@ -0,0 +1,170 @@
+/**
+ * Unit tests for trace export formats
+ *
+ * Verifies that:
+ * - OTLP/JSON exports map canonical attributes to gen_ai.* names, and
+ *   OtlpTranslationService reads them back into the same canonical values
+ * - Chrome trace exports use microsecond offsets and move parallel spans to
+ *   their own thread
+ * - Stored canonical event rows become ingestible events, optionally
+ *   retargeted to another tenant/project
+ *
+ * Run with: npx tsx tests/unit/trace-export.test.ts
+ */
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+const TRACE_ID = "0b3a5c7e-1f2d-4a6b-8c9d-0e1f2a3b4c5d";
+const TENANT_ID = "11111111-1111-4111-8111-111111111111";
+const PROJECT_ID = "22222222-2222-4222-8222-222222222222";
+
+function span(id: string, eventType: string, name: string, startMs: number, durationMs: number, extra: Record<string, any> = {}) {
+  return {
+    id,
+    span_id: id,
+    parent_span_id: null as string | null,
+    name,
+    event_type: eventType,
+    // Tinybird timestamp format (UTC, no zone)
+    start_time: new Date(Date.UTC(2026, 9, 1, 12, 0, 0, startMs)).toISOString().replace("T", " ").replace("Z", ""),
+    end_time: new Date(Date.UTC(2026, 9, 1, 12, 0, 0, startMs + durationMs)).toISOString(),
+    duration_ms: durationMs,
+    metadata: { environment: "prod", conversation_id: "conv-1", session_id: "sess-1", user_id: "user-1" },
+    children: [] as any[],
+    events: [] as any[],
+    ...extra,
+  };
+}
+
+function buildTree() {
+  const llm = {
+    model: "gpt-4o",
+    input: "What is the refund policy?",
+    output: "Refunds within 30 days.",
+    input_tokens: 120,
+    output_tokens: 40,
+    temperature: 0.2,
+    finish_reason: "stop",
+    time_to_first_token_ms: 250,
+    provider_name: "openai",
+  };
+  const root = span("a0000000-0000-4000-8000-000000000000", "trace_start", "Trace", 0, 2000);
+  const llmSpan = span("a1000000-0000-4000-8000-000000000000", "llm_call", "LLM Call: gpt-4o", 100, 900, {
+    // The tree clears an output that repeats the final answer; events keep it
+    llm_call: { ...llm, output: null },
+    events: [{ event_type: "llm_call", attributes: { llm_call: llm } }],
+  });
+  const toolA = span("a2000000-0000-4000-8000-000000000000", "tool_call", "Tool: search", 1000, 600, {
+    tool_call: { tool_name: "search", args: { q: "refund" }, result: "3 hits", result_status: "success" },
+  });
+  const toolB = span("a3000000-0000-4000-8000-000000000000", "tool_call", "Tool: fetch", 1100, 700, {
+    tool_call: {
+      tool_name: "fetch",
+      args: { url: "https://example.com" },
+      result_status: "timeout",
+      error_message: "fetch timed out",
+    },
+  });
+  for (const child of [llmSpan, toolA, toolB]) child.parent_span_id = root.span_id;
+  root.children = [llmSpan, toolA, toolB];
+  return {
+    summary: { trace_id: TRACE_ID, project_id: PROJECT_ID, environment: "prod" },
+    spans: [root],
+  };
+}
+
+async function runTests() {
+  const { TraceExportService } = await import("../../src/services/traceExportService");
+  const { OtlpTranslationService } = await import("../../src/services/otlpTranslationService");
+
+  // Test 1: OTLP/JSON attribute mapping
+  const otlp = TraceExportService.toOtlpJson(buildTree());
+  const spans = otlp.resourceSpans![0].scopeSpans![0].spans!;
+  assert(spans.length === 4, `Expected 4 spans, got ${spans.length}`);
+  assert(spans.every((s) => s.traceId === TRACE_ID.replace(/-/g, "")), "Expected hex trace id");
+  assert(spans.every((s) => /^[0-9a-f]{16}$/.test(s.spanId)), "Expected 8-byte span ids");
+  assert(spans[1].parentSpanId === spans[0].spanId, "Expected LLM span parented to root");
+  const llmAttrs = OtlpTranslationService.flattenAttributes(spans[1].attributes);
+  assert(llmAttrs["gen_ai.operation.name"] === "chat", "Expected chat operation");
+  assert(llmAttrs["gen_ai.request.model"] === "gpt-4o", "Expected request model");
+  assert(llmAttrs["gen_ai.usage.input_tokens"] === 120, "Expected input tokens");
+  assert(llmAttrs["gen_ai.server.time_to_first_token"] === 0.25, "Expected TTFT in seconds");
+  assert(
+    JSON.parse(llmAttrs["gen_ai.output.messages"])[0].parts[0].content === "Refunds within 30 days.",
+    "Expected output taken from the span's event",
+  );
+  assert(spans[1].startTimeUnixNano === `${Date.UTC(2026, 9, 1, 12, 0, 0, 100)}000000`, "Expected UTC start time in ns");
+  assert((spans[3].status as any).code === 2, "Expected timed out tool span to have error status");
+  console.log("✓ Test 1: OTLP/JSON maps canonical attributes to gen_ai.*");
+
+  // Test 2: Round trip through the OTLP ingest translation
+  const translated = OtlpTranslationService.toCanonicalEvents(otlp, {
+    tenantId: TENANT_ID,
+    projectId: null,
+  });
+  assert(translated.errors.length === 0, `Unexpected errors: ${translated.errors.join(", ")}`);
+  assert(translated.skippedSpanCount === 1, "Expected the non-GenAI root span to be skipped");
+  const llmEvent = translated.events.find((e) => e.event_type === "llm_call")!;
+  assert(llmEvent.project_id === PROJECT_ID, "Expected project from resource attributes");
+  assert(llmEvent.environment === "prod", "Expected environment from resource attributes");
+  assert(llmEvent.conversation_id === "conv-1" && llmEvent.session_id === "sess-1", "Expected conversation/session");
+  const llmCall = llmEvent.attributes.llm_call!;
+  assert(llmCall.model === "gpt-4o" && llmCall.total_tokens === 160, "Expected model and tokens");
+  assert(llmCall.input === "What is the refund policy?", "Expected input text");
+  assert(llmCall.output === "Refunds within 30 days.", "Expected output text");
+  assert(llmCall.latency_ms === 900 && llmCall.temperature === 0.2, "Expected latency and temperature");
+  const tools = translated.events.filter((e) => e.event_type === "tool_call");
+  assert(tools[0].attributes.tool_call!.args?.q === "refund", "Expected tool args");
+  assert(tools[1].attributes.tool_call!.result_status === "timeout", "Expected timeout status");
+  console.log("✓ Test 2: OTLP export round-trips through OTLP ingest");
+
+  // Test 3: Chrome trace events
+  const chrome = TraceExportService.toChromeTrace(buildTree());
+  const complete = chrome.traceEvents.filter((e) => e.ph === "X");
+  assert(complete.length === 4, "Expected one complete event per span");
+  const byName = new Map(complete.map((e) => [e.name, e]));
+  assert(byName.get("Trace")!.ts === 0 && byName.get("Trace")!.dur === 2_000_000, "Expected root at 0 for 2s");
+  assert(byName.get("LLM Call: gpt-4o")!.ts === 100_000, "Expected microsecond offsets");
+  assert(byName.get("Tool: search")!.tid === byName.get("Trace")!.tid, "Expected sequential child on parent's thread");
+  assert(byName.get("Tool: fetch")!.tid !== byName.get("Trace")!.tid, "Expected overlapping child on its own thread");
+  assert(byName.get("Tool: fetch")!.args!.error === "fetch timed out", "Expected error in args");
+  assert(
+    chrome.traceEvents.filter((e) => e.name === "thread_name").length === 2,
+    "Expected a name for each thread",
+  );
+  console.log("✓ Test 3: Chrome trace events with parallel spans on their own thread");
+
+  // Test 4: Canonical event rows for NDJSON export
+  const event = TraceExportService.toCanonicalEvent(
+    {
+      tenant_id: TENANT_ID,
+      project_id: PROJECT_ID,
+      environment: "prod",
+      trace_id: TRACE_ID,
+      span_id: "a1000000-0000-4000-8000-000000000000",
+      parent_span_id: "",
+      timestamp: "2026-10-01 12:00:00.100",
+      event_type: "llm_call",
+      conversation_id: "",
+      session_id: "sess-1",
+      user_id: "",
+      attributes_json: JSON.stringify({ llm_call: { model: "gpt-4o" } }),
+    },
+    { projectId: "33333333-3333-4333-8333-333333333333" },
+  );
+  assert(event.timestamp === "2026-10-01T12:00:00.100Z", "Expected ISO timestamp");
+  assert(event.parent_span_id === null && event.conversation_id === null, "Expected empty strings as null");
+  assert(event.tenant_id === TENANT_ID, "Expected tenant kept without a target");
+  assert(event.project_id === "33333333-3333-4333-8333-333333333333", "Expected target project");
+  assert(event.attributes.llm_call?.model === "gpt-4o", "Expected parsed attributes");
+  console.log("✓ Test 4: Canonical event rows for NDJSON export");
+
+  console.log("\nAll trace export tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
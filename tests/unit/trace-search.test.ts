@@ -0,0 +1,81 @@
+/**
+ * Unit tests for full-text trace search
+ *
+ * Verifies that:
+ * - Search strings split into terms with "quoted phrases" kept together
+ * - Empty and oversized queries are rejected
+ * - Snippets are cut around matches with highlight offsets into the snippet
+ *
+ * Run with: npx tsx tests/unit/trace-search.test.ts
+ */
+
+// traceSearchService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+async function runTests() {
+  const { TraceSearchService, TraceSearchError } = await import(
+    "../../src/services/traceSearchService"
+  );
+
+  // Test 1: term parsing
+  const terms = TraceSearchService.parseTerms(`refund  "order   status" Refund acme-42`);
+  assert(
+    JSON.stringify(terms) === JSON.stringify(["refund", "order status", "acme-42"]),
+    `Unexpected terms: ${JSON.stringify(terms)}`,
+  );
+  console.log("✓ Test 1: Terms and quoted phrases");
+
+  // Test 2: invalid queries
+  for (const input of ["   ", `""`, Array.from({ length: 11 }, (_, i) => `t${i}`).join(" ")]) {
+    let rejected = false;
+    try {
+      TraceSearchService.parseTerms(input);
+    } catch (error) {
+      rejected = error instanceof TraceSearchError;
+    }
+    assert(rejected, `Expected "${input}" to be rejected`);
+  }
+  console.log("✓ Test 2: Empty and oversized queries rejected");
+
+  // Test 3: snippet around a single match
+  const text = `${"a".repeat(200)} customer asked for a REFUND today ${"b".repeat(200)}`;
+  const [snippet, ...rest] = TraceSearchService.buildSnippets("llm_call.input", text, ["refund"]);
+  assert(rest.length === 0, "Expected one snippet");
+  assert(snippet.field === "llm_call.input", "Expected field name");
+  assert(snippet.text.startsWith("…") && snippet.text.endsWith("…"), "Expected ellipses on both sides");
+  const [highlight] = snippet.highlights;
+  assert(
+    snippet.text.slice(highlight.start, highlight.end) === "REFUND",
+    "Expected highlight offsets into the snippet",
+  );
+  console.log("✓ Test 3: Snippet with highlight offsets");
+
+  // Test 4: nearby matches share a snippet, overlapping highlights merge
+  const merged = TraceSearchService.buildSnippets("tool_call.args", `{"q":"order status for order 42"}`, [
+    "order",
+    "order status",
+  ]);
+  assert(merged.length === 1, "Expected one snippet for nearby matches");
+  assert(
+    merged[0].highlights.map((h) => merged[0].text.slice(h.start, h.end)).join("|") === "order status|order",
+    `Unexpected highlights: ${JSON.stringify(merged[0].highlights)}`,
+  );
+  assert(
+    TraceSearchService.buildSnippets("llm_call.output", "nothing here", ["refund"]).length === 0,
+    "Expected no snippets without a match",
+  );
+  console.log("✓ Test 4: Merged highlights");
+
+  console.log("\nAll trace search tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for trace share links
+ *
+ * Verifies that:
+ * - hide_io replaces inputs/outputs (including inside attributes_json) and keeps metrics
+ * - scrubbed keeps content with secrets and PII redacted
+ * - full keeps content; tenant IDs are removed at every level
+ * - Score authors and other member identities are removed below full
+ * - Link options default to scrubbed / 7 days and cap expiry at 30 days
+ *
+ * Run with: npx tsx tests/unit/trace-share.test.ts
+ */
+
+// traceShareService imports the Postgres client, which validates env on load
+process.env.TINYBIRD_ADMIN_TOKEN ||= "test-token";
+process.env.JWT_SECRET ||= "test-secret-test-secret-test-secret-000";
+process.env.DATABASE_URL ||= "postgres://localhost:5432/observa_test";
+
+function assert(cond: boolean, msg: string) {
+  if (!cond) throw new Error(msg);
+}
+
+function score(id: string, spanId: string | null) {
+  return {
+    id,
+    trace_id: "trace-1",
+    span_id: spanId,
+    name: "helpfulness",
+    data_type: "numeric",
+    value: 4,
+    comment: "Good answer",
+    author_user_id: "user-1",
+    author_email: "reviewer@acme.test",
+    created_by_user_id: "user-1",
+  };
+}
+
+function sampleTree() {
+  const llmSpan = {
+    id: "span-1",
+    span_id: "span-1",
+    name: "LLM Call: gpt-4o",
+    input: "Email me at jane@example.com",
+    output: "Sure, refund issued",
+    total_tokens: 120,
+    llm_call: {
+      model: "gpt-4o",
+      input: "Email me at jane@example.com",
+      output: "Sure, refund issued",
+      input_messages: [{ role: "user", content: "Email me at jane@example.com" }],
+      total_tokens: 120,
+    },
+    events: [
+      {
+        event_type: "llm_call",
+        attributes_json: JSON.stringify({ llm_call: { input: "jane@example.com", input_tokens: 80 } }),
+      },
+    ],
+    scores: [score("score-2", "span-1")],
+    children: [],
+  };
+  return {
+    summary: {
+      trace_id: "trace-1",
+      tenant_id: "tenant-1",
+      query: "Email me at jane@example.com",
+      response: "Sure, refund issued",
+      total_tokens: 120,
+    },
+    scores: [score("score-1", null)],
+    spans: [llmSpan],
+    allSpans: [llmSpan],
+    spansById: { "span-1": llmSpan },
+  };
+}
+
+async function runTests() {
+  const { TraceShareService } = await import("../../src/services/traceShareService");
+  const { traceShareLinkSchema } = await import("../../src/validation/schemas");
+
+  // Test 1: hide_io
+  const hidden = TraceShareService.redactTrace(sampleTree(), "hide_io");
+  const span = hidden.spans[0];
+  assert(hidden.summary.query === "[hidden]" && hidden.summary.response === "[hidden]", "Expected trace I/O hidden");
+  assert(span.input === "[hidden]" && span.llm_call.output === "[hidden]", "Expected span I/O hidden");
+  assert(span.llm_call.input_messages === null, "Expected message arrays removed");
+  assert(span.total_tokens === 120 && span.llm_call.model === "gpt-4o", "Expected metrics and model kept");
+  const attributes = JSON.parse(span.events[0].attributes_json);
+  assert(
+    attributes.llm_call.input === "[hidden]" && attributes.llm_call.input_tokens === 80,
+    `Unexpected attributes_json: ${span.events[0].attributes_json}`,
+  );
+  assert(hidden.summary.tenant_id === undefined, "Expected tenant_id removed");
+  console.log("✓ Test 1: hide_io redaction");
+
+  // Test 2: scrubbed
+  const scrubbed = TraceShareService.redactTrace(sampleTree(), "scrubbed");
+  assert(scrubbed.summary.query === "Email me at [REDACTED_EMAIL]", `Unexpected query: ${scrubbed.summary.query}`);
+  assert(scrubbed.spans[0].llm_call.output === "Sure, refund issued", "Expected content kept");
+  assert(
+    scrubbed.spans[0].llm_call.input_messages[0].content === "Email me at [REDACTED_EMAIL]",
+    "Expected messages scrubbed",
+  );
+  assert(!scrubbed.spans[0].events[0].attributes_json.includes("jane@"), "Expected attributes_json scrubbed");
+  console.log("✓ Test 2: scrubbed redaction");
+
+  // Test 3: full
+  const full = TraceShareService.redactTrace(sampleTree(), "full");
+  assert(full.summary.query === "Email me at jane@example.com", "Expected content unchanged");
+  assert(full.summary.tenant_id === undefined, "Expected tenant_id removed");
+  console.log("✓ Test 3: full");
+
+  // Test 4: member identities
+  for (const redaction of ["hide_io", "scrubbed"] as const) {
+    const tree = TraceShareService.redactTrace(sampleTree(), redaction);
+    for (const s of [tree.scores[0], tree.spans[0].scores[0], tree.spansById["span-1"].scores[0]]) {
+      assert(
+        s.author_email === undefined && s.author_user_id === undefined && s.created_by_user_id === undefined,
+        `Expected score authors removed for ${redaction}`,
+      );
+      assert(s.value === 4 && s.name === "helpfulness", `Expected score value kept for ${redaction}`);
+    }
+  }
+  const fullScores = TraceShareService.redactTrace(sampleTree(), "full");
+  assert(fullScores.scores[0].author_email === "reviewer@acme.test", "Expected score authors kept for full");
+  console.log("✓ Test 4: Member identities");
+
+  // Test 5: link options
+  const defaults = traceShareLinkSchema.parse({});
+  assert(defaults.redaction === "scrubbed" && defaults.expiresIn === "7d", "Expected scrubbed / 7d defaults");
+  assert(traceShareLinkSchema.safeParse({ expiresIn: "30d" }).success, "Expected 30d to be allowed");
+  assert(!traceShareLinkSchema.safeParse({ expiresIn: "31d" }).success, "Expected 31d to be rejected");
+  assert(!traceShareLinkSchema.safeParse({ redaction: "none" }).success, "Expected unknown redaction rejected");
+  console.log("✓ Test 5: Link options");
+
+  console.log("\nAll trace share tests passed.");
+}
+
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});